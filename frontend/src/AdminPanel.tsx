@@ -1,75 +1,76 @@
 import React, { useState, useEffect } from 'react';
 import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
-import { Transaction } from '@mysten/sui/transactions';
-import { Button, Card, Flex, Text, Heading, Badge, Tabs, Box, Grid, Avatar } from '@radix-ui/themes';
+import { Button, Card, Flex, Text, Heading, Badge, Tabs, Box, Grid, Avatar, Slider } from '@radix-ui/themes';
 import { useNetworkVariable } from './networkConfig';
 import { Link } from 'react-router-dom';
-import { DollarSign, Clock, User, MessageCircle, AlertCircle, CheckCircle, ShieldAlert, Search } from 'lucide-react';
+import { DollarSign, Clock, User, MessageCircle, AlertCircle, CheckCircle, ShieldAlert, Search, Vote } from 'lucide-react';
+import { AdminRegistry, RESOLUTION_ADMIN_BUYER, RESOLUTION_ADMIN_SELLER, RESOLUTION_ADMIN_SPLIT, BPS_DENOMINATOR, ESCALATION_APPEAL, MAX_APPEALS } from './types';
+import { 
+  Dispute, 
+  fetchDisputes, 
+  fetchAdminRegistry, 
+  fetchAdminGovernanceCapId, 
+  fetchPlatformTreasuryCapId,
+  isActiveAdmin, 
+  resolveDispute as resolveDisputeTx, 
+  castJuryVote,
+  settleJuryByMedian,
+  getJuryMajority,
+  getMedianShare,
+  getResolutionForShare,
+  getDisputePayouts,
+  formatAddress 
+} from './api';
+import { AdminRegistryManager } from './components/AdminRegistryManager';
+import { TreasuryManager } from './components/TreasuryManager';
+import { AgreedTerms } from './components/AgreedTerms';
+import { useTreasury } from './contexts/useTreasury';
+import { useCoinMetadata } from './contexts/useCoinMetadata';
 
-// Dispute interface
-interface Dispute {
-  id: string;
-  advertisementId: string;
-  advertisementTitle: string;
-  amount: number;
-  seller: string;
-  buyer: string;
-  createdAt: number;
-  status: 'pending' | 'resolved';
-  resolution?: 'buyer' | 'seller' | 'split';
-}
+// Step of the split slider, 1%
+const SPLIT_STEP_BPS = 100;
 
-// Mock data for disputes (will be replaced with real data from blockchain)
-const mockDisputes: Dispute[] = [
-  {
-    id: '0x123456789abcdef1',
-    advertisementId: '0x123456789abcdef1',
-    advertisementTitle: 'Sell 500 USDT for cash',
-    amount: 490,
-    seller: '0x7890abcdef123456',
-    buyer: '0x7890abcdef123457',
-    createdAt: Date.now() - 3600000 * 24 * 2,
-    status: 'pending'
-  },
-  {
-    id: '0x123456789abcdef2',
-    advertisementId: '0x123456789abcdef2',
-    advertisementTitle: 'Sell 200 USDT for cash',
-    amount: 198,
-    seller: '0x7890abcdef123458',
-    buyer: '0x7890abcdef123459',
-    createdAt: Date.now() - 3600000 * 24 * 5,
-    status: 'resolved',
-    resolution: 'buyer'
-  },
-  {
-    id: '0x123456789abcdef3',
-    advertisementId: '0x123456789abcdef3',
-    advertisementTitle: 'Buy 750 USDT',
-    amount: 735,
-    seller: '0x7890abcdef123460',
-    buyer: '0x7890abcdef123461',
-    createdAt: Date.now() - 3600000 * 24 * 7,
-    status: 'resolved',
-    resolution: 'seller'
-  },
-  {
-    id: '0x123456789abcdef4',
-    advertisementId: '0x123456789abcdef4',
-    advertisementTitle: 'Sell 300 USDT for cash',
-    amount: 295,
-    seller: '0x7890abcdef123462',
-    buyer: '0x7890abcdef123463',
-    createdAt: Date.now() - 3600000 * 24 * 10,
-    status: 'resolved',
-    resolution: 'split'
-  }
-];
+// Format a share in basis points as a percentage
+const formatShare = (bps: number) => `${bps / 100}%`;
+
+// Unique key of a dispute, an interaction is identified by advertisement, buyer and interaction ID
+const getDisputeKey = (dispute: Dispute) => `${dispute.advertisementId}-${dispute.buyer}-${dispute.interactionId}`;
+
+// Vote a juror cast on a dispute, if any
+const getJurorVote = (dispute: Dispute, juror?: string) =>
+  dispute.votes.find((vote) => vote.juror === juror);
+
+// Check if the decision of the assigned admin settles a dispute right away, which is the case once all appeals are used
+const isFinalDecision = (dispute: Dispute) =>
+  dispute.escalations.filter((escalation) => escalation.kind === ESCALATION_APPEAL).length >= MAX_APPEALS;
+
+// Check if a jury dispute is deadlocked: every juror voted without a majority and the deadline has passed
+const isJuryDeadlocked = (dispute: Dispute) =>
+  dispute.status === 'pending' &&
+  dispute.jurors.length > 0 &&
+  dispute.votes.length === dispute.jurors.length &&
+  Date.now() > dispute.deadline;
+
+// Check if a dispute belongs to a tab, the votes tab lists jury disputes still waiting for the user's vote
+const isDisputeInTab = (dispute: Dispute, tab: string, address?: string) =>
+  tab === 'all' ||
+  (tab === 'pending' && dispute.status === 'pending') ||
+  (tab === 'resolved' && dispute.status === 'resolved') ||
+  (tab === 'myVotes' &&
+    dispute.status === 'pending' &&
+    !!address &&
+    dispute.jurors.includes(address) &&
+    !getJurorVote(dispute, address));
 
 export function AdminPanel() {
   const packageId = useNetworkVariable('packageId');
+  const registryId = useNetworkVariable('registryId');
+  const adminRegistryId = useNetworkVariable('adminRegistryId');
+  const statsRegistryId = useNetworkVariable('statsRegistryId');
+  const treasuryId = useNetworkVariable('treasuryId');
   const suiClient = useSuiClient();
   const currentAccount = useCurrentAccount();
+  const { formatAmount } = useCoinMetadata();
   
   // State for disputes
   const [disputes, setDisputes] = useState<Dispute[]>([]);
@@ -80,6 +81,16 @@ export function AdminPanel() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedDispute, setSelectedDispute] = useState<Dispute | null>(null);
   const [isResolving, setIsResolving] = useState(false);
+  const [buyerShareBps, setBuyerShareBps] = useState(BPS_DENOMINATOR / 2);
+  
+  // State for admin role, decided by the on-chain admin registry
+  const [adminRegistry, setAdminRegistry] = useState<AdminRegistry | null>(null);
+  const [governanceCapId, setGovernanceCapId] = useState<string | null>(null);
+  const [treasuryCapId, setTreasuryCapId] = useState<string | null>(null);
+  const { treasury, reloadTreasury } = useTreasury();
+  const [isLoadingRole, setIsLoadingRole] = useState(true);
+  const [registryReloadKey, setRegistryReloadKey] = useState(0);
+  const [disputesReloadKey, setDisputesReloadKey] = useState(0);
   
   // Transaction signing and execution
   const { mutate: signAndExecute } = useSignAndExecuteTransaction({
@@ -94,21 +105,47 @@ export function AdminPanel() {
       }),
   });
   
+  // Load admin registry and governance cap
+  useEffect(() => {
+    const loadAdminRole = async () => {
+      setIsLoadingRole(true);
+      
+      try {
+        const registry = await fetchAdminRegistry(suiClient, adminRegistryId);
+        setAdminRegistry(registry);
+        
+        if (currentAccount) {
+          setGovernanceCapId(await fetchAdminGovernanceCapId(suiClient, packageId, currentAccount.address));
+          setTreasuryCapId(await fetchPlatformTreasuryCapId(suiClient, packageId, currentAccount.address));
+        }
+      } catch (err) {
+        console.error('Error fetching admin registry:', err);
+      }
+      
+      setIsLoadingRole(false);
+    };
+    
+    loadAdminRole();
+  }, [suiClient, adminRegistryId, packageId, currentAccount, registryReloadKey]);
+  
+  // Check if the current user sits on the jury of a dispute
+  const isJuror = (dispute: Dispute) =>
+    !!currentAccount && dispute.jurors.includes(currentAccount.address);
+  
+  // Vote the current user cast on a jury dispute, if any
+  const getMyVote = (dispute: Dispute) => getJurorVote(dispute, currentAccount?.address);
+  
   // Load disputes
   useEffect(() => {
-    const fetchDisputes = async () => {
+    const loadDisputes = async () => {
       setIsLoading(true);
       setError(null);
       
       try {
-        // Soon we would fetch disputes from the blockchain
-        // For now, we'll use mock data
-        setDisputes(mockDisputes);
-        setFilteredDisputes(mockDisputes.filter(dispute => 
-          activeTab === 'all' || 
-          (activeTab === 'pending' && dispute.status === 'pending') ||
-          (activeTab === 'resolved' && dispute.status === 'resolved')
-        ));
+        // Fetch disputed and resolved interactions from the blockchain
+        const fetchedDisputes = await fetchDisputes(suiClient, packageId, registryId);
+        setDisputes(fetchedDisputes);
+        setFilteredDisputes(fetchedDisputes.filter(dispute => isDisputeInTab(dispute, activeTab, currentAccount?.address)));
         setIsLoading(false);
       } catch (err) {
         console.error('Error fetching disputes:', err);
@@ -117,17 +154,15 @@ export function AdminPanel() {
       }
     };
     
-    fetchDisputes();
-  }, [packageId, suiClient, activeTab]);
+    loadDisputes();
+  }, [packageId, registryId, suiClient, activeTab, currentAccount, disputesReloadKey]);
   
   // Apply search filter
   useEffect(() => {
     if (disputes.length === 0) return;
     
     const filtered = disputes.filter(dispute => 
-      (activeTab === 'all' || 
-       (activeTab === 'pending' && dispute.status === 'pending') ||
-       (activeTab === 'resolved' && dispute.status === 'resolved')) &&
+      isDisputeInTab(dispute, activeTab, currentAccount?.address) &&
       (searchQuery === '' || 
        dispute.advertisementTitle.toLowerCase().includes(searchQuery.toLowerCase()) ||
        dispute.seller.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -135,55 +170,38 @@ export function AdminPanel() {
     );
     
     setFilteredDisputes(filtered);
-  }, [disputes, activeTab, searchQuery]);
+  }, [disputes, activeTab, searchQuery, currentAccount]);
   
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount);
-  };
+  const isAdmin = isActiveAdmin(adminRegistry, currentAccount?.address);
+  
+  // Check if the current user is the admin assigned to a dispute
+  const isAssignedAdmin = (dispute: Dispute) =>
+    !!currentAccount && dispute.assignedAdmin === currentAccount.address;
   
-  // Format address
-  const formatAddress = (address: string) => {
-    if (!address) return '';
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+  // Open the resolution dialog with the juror's earlier vote or an even split preselected
+  const selectDispute = (dispute: Dispute) => {
+    setBuyerShareBps(getMyVote(dispute)?.buyerShareBps ?? BPS_DENOMINATOR / 2);
+    setSelectedDispute(dispute);
   };
   
-  // Resolve dispute
-  const resolveDispute = (disputeId: string, resolution: 'buyer' | 'seller' | 'split') => {
+  // Resolve dispute, giving the buyer a share of the escrow and the seller the rest
+  const resolveDispute = (dispute: Dispute, shareBps: number) => {
     setIsResolving(true);
     setError(null);
     
-    // In a real implementation, we would call the contract
-    // For now, we'll just update the local state
-    setTimeout(() => {
-      setDisputes(prev => 
-        prev.map(dispute => 
-          dispute.id === disputeId 
-            ? { ...dispute, status: 'resolved', resolution } 
-            : dispute
-        )
-      );
-      setSelectedDispute(null);
-      setIsResolving(false);
-    }, 1000);
+    const resolution = getResolutionForShare(shareBps);
+    const { buyerAmount, sellerAmount } = getDisputePayouts(dispute.amount, shareBps, treasury);
     
-    // A useful example of how to call the contract in a real implementation to do later:
-    /*
-    const tx = new Transaction();
-    tx.moveCall({
-      target: `${packageId}::marketplace::resolve_dispute`,
-      arguments: [
-        tx.object(disputeId),
-        tx.pure.u8(resolution === 'buyer' ? 1 : resolution === 'seller' ? 2 : 3),
-        tx.object('0x123'), // Admin cap
-      ],
-    });
-    tx.setGasBudget(10000000);
+    const tx = resolveDisputeTx(
+      packageId,
+      dispute.advertisementId,
+      dispute.coinType,
+      statsRegistryId,
+      treasuryId,
+      dispute.buyer,
+      dispute.interactionId,
+      shareBps
+    );
     
     signAndExecute(
       {
@@ -192,13 +210,18 @@ export function AdminPanel() {
       {
         onSuccess: async (result) => {
           console.log('Dispute resolved:', result);
-          setDisputes(prev => 
-            prev.map(dispute => 
-              dispute.id === disputeId 
-                ? { ...dispute, status: 'resolved', resolution } 
-                : dispute
-            )
-          );
+          if (isFinalDecision(dispute)) {
+            setDisputes(prev => 
+              prev.map(d => 
+                getDisputeKey(d) === getDisputeKey(dispute) 
+                  ? { ...d, status: 'resolved', resolution, buyerPayout: buyerAmount, sellerPayout: sellerAmount } 
+                  : d
+              )
+            );
+          } else {
+            // The decision is only proposed until its appeal window closes, reload to show the window
+            setDisputesReloadKey(prev => prev + 1);
+          }
           setSelectedDispute(null);
           setIsResolving(false);
         },
@@ -209,29 +232,156 @@ export function AdminPanel() {
         },
       },
     );
-    */
+  };
+  
+  // Vote on a jury dispute, the vote that forms a majority settles it
+  const voteOnDispute = (dispute: Dispute, shareBps: number) => {
+    setIsResolving(true);
+    setError(null);
+    
+    const tx = castJuryVote(
+      packageId,
+      dispute.advertisementId,
+      dispute.coinType,
+      statsRegistryId,
+      treasuryId,
+      dispute.buyer,
+      dispute.interactionId,
+      shareBps
+    );
+    
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: async (result) => {
+          console.log('Jury vote cast:', result);
+          setSelectedDispute(null);
+          setIsResolving(false);
+          // The vote may have settled the dispute, reload it from the chain
+          setDisputesReloadKey(prev => prev + 1);
+        },
+        onError: (error) => {
+          console.error('Error casting jury vote:', error);
+          setError('Failed to cast the vote. Please try again.');
+          setIsResolving(false);
+        },
+      },
+    );
+  };
+  
+  // Settle a deadlocked jury dispute at the median vote, anyone can do this
+  const settleAtMedian = (dispute: Dispute) => {
+    setIsResolving(true);
+    setError(null);
+    
+    const tx = settleJuryByMedian(
+      packageId,
+      dispute.advertisementId,
+      dispute.coinType,
+      statsRegistryId,
+      treasuryId,
+      dispute.buyer,
+      dispute.interactionId
+    );
+    
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: async (result) => {
+          console.log('Jury dispute settled at the median vote:', result);
+          setIsResolving(false);
+          setDisputesReloadKey(prev => prev + 1);
+        },
+        onError: (error) => {
+          console.error('Error settling jury dispute:', error);
+          setError('Failed to settle the dispute. Please try again.');
+          setIsResolving(false);
+        },
+      },
+    );
+  };
+  
+  // Resolve alone or vote, depending on whether the dispute has a jury
+  const submitDecision = (dispute: Dispute, shareBps: number) => {
+    if (dispute.jurors.length > 0) {
+      voteOnDispute(dispute, shareBps);
+    } else {
+      resolveDispute(dispute, shareBps);
+    }
+  };
+  
+  // Votes of a jury dispute grouped by buyer share, most supported first
+  const getVoteTally = (dispute: Dispute) => {
+    const tally = new Map<number, number>();
+    dispute.votes.forEach((vote) => tally.set(vote.buyerShareBps, (tally.get(vote.buyerShareBps) ?? 0) + 1));
+    return [...tally.entries()].sort((a, b) => b[1] - a[1]);
   };
   
   // Get resolution badge
-  const getResolutionBadge = (resolution?: 'buyer' | 'seller' | 'split') => {
-    switch (resolution) {
-      case 'buyer':
+  const getResolutionBadge = (dispute: Dispute) => {
+    switch (dispute.resolution) {
+      case RESOLUTION_ADMIN_BUYER:
         return <Badge color="green">Resolved for Buyer</Badge>;
-      case 'seller':
+      case RESOLUTION_ADMIN_SELLER:
         return <Badge color="blue">Resolved for Seller</Badge>;
-      case 'split':
-        return <Badge color="orange">Split 50/50</Badge>;
+      case RESOLUTION_ADMIN_SPLIT:
+        return (
+          <Badge color="orange">
+            Split: buyer {formatAmount(dispute.buyerPayout, dispute.coinType)}, 
+            seller {formatAmount(dispute.sellerPayout, dispute.coinType)}
+          </Badge>
+        );
       default:
         return null;
     }
   };
   
+  const selectedSplit = selectedDispute ? getDisputePayouts(selectedDispute.amount, buyerShareBps, treasury) : null;
+  
+  if (isLoadingRole) {
+    return <Text>Checking admin access...</Text>;
+  }
+  
+  if (!isAdmin && !governanceCapId && !treasuryCapId) {
+    return (
+      <Card>
+        <Flex direction="column" gap="2" align="center" style={{ padding: '32px' }}>
+          <ShieldAlert size={32} />
+          <Heading size="4">Admin access required</Heading>
+          <Text>Your address is not an active admin in the admin registry.</Text>
+        </Flex>
+      </Card>
+    );
+  }
+  
   return (
     <Flex direction="column" gap="4">
       <Flex justify="between" align="center">
         <Heading size="5">Admin Panel - Dispute Resolution</Heading>
       </Flex>
       
+      {/* Registry management for the holder of the governance cap */}
+      {governanceCapId && adminRegistry && (
+        <AdminRegistryManager
+          adminRegistry={adminRegistry}
+          governanceCapId={governanceCapId}
+          onRegistryChanged={() => setRegistryReloadKey(prev => prev + 1)}
+        />
+      )}
+      
+      {/* Fee settings and withdrawals for the holder of the treasury cap */}
+      {treasuryCapId && treasury && (
+        <TreasuryManager
+          treasury={treasury}
+          treasuryCapId={treasuryCapId}
+          onTreasuryChanged={reloadTreasury}
+        />
+      )}
+      
       <Card>
         <Flex direction="column" gap="3">
           <Flex gap="3" align="center">
@@ -256,6 +406,7 @@ export function AdminPanel() {
               <Tabs.Trigger value="all">All Disputes</Tabs.Trigger>
               <Tabs.Trigger value="pending">Pending</Tabs.Trigger>
               <Tabs.Trigger value="resolved">Resolved</Tabs.Trigger>
+              <Tabs.Trigger value="myVotes">My Pending Votes</Tabs.Trigger>
             </Tabs.List>
           </Tabs.Root>
         </Flex>
@@ -274,19 +425,23 @@ export function AdminPanel() {
       ) : (
         <Flex direction="column" gap="3">
           {filteredDisputes.map((dispute) => (
-            <Card key={dispute.id}>
+            <Card key={getDisputeKey(dispute)}>
               <Flex direction="column" gap="3">
                 <Flex justify="between" align="start">
                   <Heading size="3">{dispute.advertisementTitle}</Heading>
-                  <Badge color={dispute.status === 'pending' ? 'red' : 'green'}>
-                    {dispute.status === 'pending' ? 'Pending' : 'Resolved'}
-                  </Badge>
+                  {dispute.status === 'pending' && dispute.proposedShareBps !== undefined ? (
+                    <Badge color="orange">Appeal Window</Badge>
+                  ) : (
+                    <Badge color={dispute.status === 'pending' ? 'red' : 'green'}>
+                      {dispute.status === 'pending' ? 'Pending' : 'Resolved'}
+                    </Badge>
+                  )}
                 </Flex>
                 
                 <Flex gap="3" align="center">
                   <Flex gap="1" align="center">
                     <DollarSign size={16} />
-                    <Text weight="bold">{formatCurrency(dispute.amount)}</Text>
+                    <Text weight="bold">{formatAmount(dispute.amount, dispute.coinType)}</Text>
                   </Flex>
                   
                   <Flex gap="1" align="center">
@@ -294,7 +449,7 @@ export function AdminPanel() {
                     <Text size="2">{new Date(dispute.createdAt).toLocaleDateString()}</Text>
                   </Flex>
                   
-                  {dispute.resolution && getResolutionBadge(dispute.resolution)}
+                  {dispute.resolution !== undefined && getResolutionBadge(dispute)}
                 </Flex>
                 
                 <Grid columns="2" gap="3">
@@ -319,6 +474,50 @@ export function AdminPanel() {
                   </Flex>
                 </Grid>
                 
+                {/* Decision deadline, or the proposed decision waiting for its appeal window */}
+                {dispute.status === 'pending' && (
+                  <Text size="2" color="gray">
+                    {dispute.proposedShareBps !== undefined
+                      ? `Proposed: buyer ${formatShare(dispute.proposedShareBps)} / seller ${formatShare(BPS_DENOMINATOR - dispute.proposedShareBps)}, appealable until ${new Date(dispute.deadline).toLocaleString()}`
+                      : `Decision due by ${new Date(dispute.deadline).toLocaleString()}`}
+                    {dispute.escalations.length > 0 && ` · escalated ${dispute.escalations.length} time${dispute.escalations.length === 1 ? '' : 's'}`}
+                  </Text>
+                )}
+                
+                {/* Vote tally of a jury dispute */}
+                {dispute.jurors.length > 0 && (
+                  <Flex direction="column" gap="2">
+                    <Text size="2" weight="bold">
+                      Jury: {dispute.votes.length} of {dispute.jurors.length} voted, 
+                      {' '}{getJuryMajority(dispute.jurors.length)} matching votes decide, the ruling is final
+                    </Text>
+                    {isJuryDeadlocked(dispute) && (
+                      <Text size="2" color="orange">
+                        No majority by the deadline, anyone can settle at the median vote: 
+                        buyer {formatShare(getMedianShare(dispute.votes.map((vote) => vote.buyerShareBps)))}
+                      </Text>
+                    )}
+                    {getVoteTally(dispute).map(([shareBps, count]) => (
+                      <Flex key={shareBps} gap="2" align="center">
+                        <Badge color="gray">{count} vote{count === 1 ? '' : 's'}</Badge>
+                        <Text size="2">
+                          Buyer {formatShare(shareBps)} / seller {formatShare(BPS_DENOMINATOR - shareBps)}
+                        </Text>
+                      </Flex>
+                    ))}
+                    <Flex gap="2" wrap="wrap">
+                      {dispute.jurors.map((juror) => {
+                        const vote = dispute.votes.find((v) => v.juror === juror);
+                        return (
+                          <Badge key={juror} color={vote ? 'green' : 'gray'} variant="soft">
+                            {formatAddress(juror)}: {vote ? `buyer ${formatShare(vote.buyerShareBps)}` : 'not voted'}
+                          </Badge>
+                        );
+                      })}
+                    </Flex>
+                  </Flex>
+                )}
+                
                 <Flex gap="3" justify="end">
                   <Link to={`/marketplace/advertisement/${dispute.advertisementId}`}>
                     <Button variant="soft">
@@ -327,14 +526,48 @@ export function AdminPanel() {
                     </Button>
                   </Link>
                   
-                  {dispute.status === 'pending' && (
+                  {dispute.status === 'pending' && dispute.jurors.length === 0 && isAssignedAdmin(dispute) &&
+                    dispute.proposedShareBps === undefined && (
                     <Button 
-                      onClick={() => setSelectedDispute(dispute)}
+                      onClick={() => selectDispute(dispute)}
                     >
                       <ShieldAlert size={16} />
                       Resolve Dispute
                     </Button>
                   )}
+                  
+                  {dispute.status === 'pending' && dispute.jurors.length === 0 && !isAssignedAdmin(dispute) && (
+                    <Button variant="soft" disabled>
+                      <ShieldAlert size={16} />
+                      Assigned to {formatAddress(dispute.assignedAdmin)}
+                    </Button>
+                  )}
+                  
+                  {dispute.status === 'pending' && isJuror(dispute) && (
+                    <Button 
+                      onClick={() => selectDispute(dispute)}
+                    >
+                      <Vote size={16} />
+                      {getMyVote(dispute) ? 'Change Vote' : 'Cast Vote'}
+                    </Button>
+                  )}
+                  
+                  {isJuryDeadlocked(dispute) && (
+                    <Button 
+                      onClick={() => settleAtMedian(dispute)}
+                      disabled={isResolving}
+                    >
+                      <CheckCircle size={16} />
+                      Settle at Median
+                    </Button>
+                  )}
+                  
+                  {dispute.status === 'pending' && dispute.jurors.length > 0 && !isJuror(dispute) && (
+                    <Button variant="soft" disabled>
+                      <Vote size={16} />
+                      Decided by a jury of {dispute.jurors.length}
+                    </Button>
+                  )}
                 </Flex>
               </Flex>
             </Card>
@@ -355,40 +588,75 @@ export function AdminPanel() {
           boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)'
         }}>
           <Flex direction="column" gap="3">
-            <Heading size="4">Resolve Dispute</Heading>
+            <Heading size="4">{selectedDispute.jurors.length > 0 ? 'Cast Jury Vote' : 'Resolve Dispute'}</Heading>
             
             <Text>Advertisement: {selectedDispute.advertisementTitle}</Text>
-            <Text>Amount: {formatCurrency(selectedDispute.amount)}</Text>
+            <Text>Amount: {formatAmount(selectedDispute.amount, selectedDispute.coinType)}</Text>
             <Text>Seller: {formatAddress(selectedDispute.seller)}</Text>
             <Text>Buyer: {formatAddress(selectedDispute.buyer)}</Text>
             
+            <AgreedTerms
+              terms={selectedDispute.terms}
+              termsHash={selectedDispute.termsHash}
+              coinType={selectedDispute.coinType}
+              heading="Agreed terms"
+            />
+            
             <Flex direction="column" gap="2">
               <Text weight="bold">Resolution:</Text>
               <Flex gap="2">
                 <Button 
                   color="green" 
-                  onClick={() => resolveDispute(selectedDispute.id, 'buyer')}
+                  onClick={() => submitDecision(selectedDispute, BPS_DENOMINATOR)}
                   disabled={isResolving}
                 >
-                  Resolve for Buyer
+                  {selectedDispute.jurors.length > 0 ? 'Vote for Buyer' : 'Resolve for Buyer'}
                 </Button>
                 <Button 
                   color="blue" 
-                  onClick={() => resolveDispute(selectedDispute.id, 'seller')}
+                  onClick={() => submitDecision(selectedDispute, 0)}
                   disabled={isResolving}
                 >
-                  Resolve for Seller
-                </Button>
-                <Button 
-                  color="orange" 
-                  onClick={() => resolveDispute(selectedDispute.id, 'split')}
-                  disabled={isResolving}
-                >
-                  Split 50/50
+                  {selectedDispute.jurors.length > 0 ? 'Vote for Seller' : 'Resolve for Seller'}
                 </Button>
               </Flex>
             </Flex>
             
+            <Flex direction="column" gap="2">
+              <Text weight="bold">Or split the escrow:</Text>
+              <Slider 
+                value={[buyerShareBps]} 
+                onValueChange={(value) => setBuyerShareBps(value[0])} 
+                min={0} 
+                max={BPS_DENOMINATOR} 
+                step={SPLIT_STEP_BPS}
+                disabled={isResolving}
+              />
+              {selectedSplit && (
+                <Flex justify="between">
+                  <Text size="2">
+                    Buyer {formatShare(buyerShareBps)}: {formatAmount(selectedSplit.buyerAmount, selectedDispute.coinType)}
+                  </Text>
+                  <Text size="2">
+                    Seller {formatShare(BPS_DENOMINATOR - buyerShareBps)}: {formatAmount(selectedSplit.sellerAmount, selectedDispute.coinType)}
+                  </Text>
+                </Flex>
+              )}
+              {selectedSplit && (
+                <Text size="1" color="gray">
+                  After an arbitration fee of {formatAmount(selectedSplit.arbitrationFee, selectedDispute.coinType)} paid to the deciding admins
+                  and a platform fee of {formatAmount(selectedSplit.platformFee, selectedDispute.coinType)} on the payout to the seller
+                </Text>
+              )}
+              <Button 
+                color="orange" 
+                onClick={() => submitDecision(selectedDispute, buyerShareBps)}
+                disabled={isResolving || buyerShareBps <= 0 || buyerShareBps >= BPS_DENOMINATOR}
+              >
+                Split {formatShare(buyerShareBps)} / {formatShare(BPS_DENOMINATOR - buyerShareBps)}
+              </Button>
+            </Flex>
+            
             <Flex justify="end">
               <Button 
                 variant="soft" 
@@ -1,24 +1,34 @@
 import React, { useState, useEffect } from 'react';
 import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
-import { getAllowlistedKeyServers, SealClient } from '@mysten/seal';
 import { Transaction } from '@mysten/sui/transactions';
 import { Button, Card, Flex, Text, Heading, Badge, Separator, Box, Dialog } from '@radix-ui/themes';
 import { DisputeConfirmation, ReleasePaymentConfirmation, MarkCompletedConfirmation, JoinAdvertisementConfirmation } from './components/ConfirmationDialogs';
 import { useNetworkVariable } from './networkConfig';
 import { Link, useParams, useNavigate, useLocation } from 'react-router-dom';
-import { DollarSign, Clock, User, MessageCircle, AlertCircle, CheckCircle, X } from 'lucide-react';
+import { DollarSign, Clock, User, MessageCircle, AlertCircle, CheckCircle, X, Timer } from 'lucide-react';
 import { InteractionActionButtons } from './components/InteractionActionButtons';
 import { ChatWrapper } from './components/ChatWrapper';
-import { Advertisement as AdvertisementType, Interaction, UserProfile, STATE_AVAILABLE, STATE_JOINED, STATE_COMPLETED, STATE_DISPUTED, INTERACTION_JOINED, INTERACTION_SELLER_COMPLETED, INTERACTION_BUYER_APPROVED, INTERACTION_DISPUTED } from './types';
-import { generateAndEncryptEphemeralKey, storeEphemeralKey } from './utils';
+import { DeadlineCountdown } from './components/DeadlineCountdown';
+import { useNow } from './components/useNow';
+import { MilestoneTracker } from './components/MilestoneTracker';
+import { DisputeEscalation } from './components/DisputeEscalation';
+import { OffersList } from './components/OffersList';
+import { AgreedTerms } from './components/AgreedTerms';
+import { ImageGallery } from './components/ImageGallery';
+import { getCategoryLabel } from './categories';
+import { useCoinMetadata } from './contexts/useCoinMetadata';
+import { Advertisement as AdvertisementType, Interaction, UserProfile, STATE_AVAILABLE, STATE_JOINED, STATE_COMPLETED, STATE_DISPUTED, AD_KIND_BUY, INTERACTION_JOINED, INTERACTION_SELLER_COMPLETED, INTERACTION_BUYER_APPROVED, INTERACTION_DISPUTED } from './types';
+import { generateAndEncryptEphemeralKey } from './utils';
 import { 
   fetchAdvertisement as fetchAd, 
   joinAdvertisement as joinAd, 
   disputeInteraction, 
   markInteractionCompleted,
   releasePayment,
-  formatCurrency,
+  claimAfterTimeout,
+  isInteractionTimedOut,
   formatAddress,
+  formatDuration,
   getStateInfo,
   DisplayAdvertisement,
   convertToDisplayAdvertisement,
@@ -71,9 +81,12 @@ export function AdvertisementDetail() {
   const navigate = useNavigate();
   const location = useLocation();
   const packageId = useNetworkVariable('packageId');
+  const statsRegistryId = useNetworkVariable('statsRegistryId');
+  const treasuryId = useNetworkVariable('treasuryId');
   const suiClient = useSuiClient();
   const currentAccount = useCurrentAccount();
-  const [sealClient, setSealClient] = useState<SealClient | null>(null);
+  const now = useNow();
+  const { formatAmount } = useCoinMetadata();
   
   // Check if we're on the chat route or if showChat is passed in location state
   const isChatRoute = location.pathname.includes('/marketplace/chat/');
@@ -96,6 +109,20 @@ export function AdvertisementDetail() {
     interactionFromState ? interactionFromState.id : undefined
   );
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  
+  // Transaction signing and execution
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction({
+    execute: async ({ bytes, signature }) =>
+      await suiClient.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature,
+        options: {
+          showRawEffects: true,
+          showEffects: true,
+        },
+      }),
+  });
   
   // Load advertisement data (simplified for brevity)
   useEffect(() => {
@@ -144,14 +171,51 @@ export function AdvertisementDetail() {
     return <Badge color={stateInfo.color as any}>{stateInfo.label}</Badge>;
   };
   
+  // Reload the advertisement after a transaction changed the user's interaction
+  const reloadAdvertisement = async () => {
+    if (!fullAdvertisement || !currentAccount) return;
+    
+    const adData = await fetchAd(suiClient, fullAdvertisement.id, packageId);
+    if (adData) {
+      setFullAdvertisement(adData);
+      setAdvertisement(convertToDisplayAdvertisement(adData, currentAccount.address));
+    }
+  };
+  
+  // Settle the current user's interaction after the other party missed its deadline
+  const handleClaimTimeout = (interaction: Interaction) => {
+    if (!fullAdvertisement) return;
+    
+    setIsClaiming(true);
+    const tx = claimAfterTimeout(packageId, fullAdvertisement.id, fullAdvertisement.coinType, statsRegistryId, treasuryId, interaction.user, interaction.id);
+    
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: async (result) => {
+          console.log('Timeout claimed:', result);
+          await reloadAdvertisement();
+          setIsClaiming(false);
+        },
+        onError: (error) => {
+          console.error('Error claiming timeout:', error);
+          setError('Failed to claim after timeout. Please try again.');
+          setIsClaiming(false);
+        },
+      },
+    );
+  };
+  
   // Show dispute confirmation dialog
   const showDisputeDialog = (userAddress: string, interactionId: number) => {
     console.log(`Showing dispute dialog for user ${userAddress}, interaction ${interactionId}`);
   };
   
   // Show release payment confirmation dialog
-  const showReleaseDialog = (interactionId: number) => {
-    console.log(`Showing release payment dialog for interaction ${interactionId}`);
+  const showReleaseDialog = (userAddress: string, interactionId: number) => {
+    console.log(`Showing release payment dialog for user ${userAddress}, interaction ${interactionId}`);
   };
   
   // Show mark completed confirmation dialog
@@ -171,23 +235,132 @@ export function AdvertisementDetail() {
             <Flex direction="column" gap="3">
               <Flex justify="between" align="start">
                 <Heading size="5">{advertisement.title}</Heading>
-                {getStateBadge(advertisement.state)}
+                <Flex gap="2">
+                  <Badge color={advertisement.kind === AD_KIND_BUY ? 'purple' : 'gray'}>
+                    {advertisement.kind === AD_KIND_BUY ? 'Buying' : 'Selling'}
+                  </Badge>
+                  {getStateBadge(advertisement.state)}
+                </Flex>
               </Flex>
               
               <Text>{advertisement.description}</Text>
               
+              {fullAdvertisement && <ImageGallery blobIds={fullAdvertisement.images} />}
+              
+              {/* Category and tags link to the matching search */}
+              {fullAdvertisement && (
+                <Flex gap="2" align="center" wrap="wrap">
+                  <Link to={`/marketplace/browse?category=${encodeURIComponent(fullAdvertisement.category)}`}>
+                    <Badge variant="outline">{getCategoryLabel(fullAdvertisement.category)}</Badge>
+                  </Link>
+                  {fullAdvertisement.tags.map((tag) => (
+                    <Link key={tag} to={`/marketplace/browse?tag=${encodeURIComponent(tag)}`}>
+                      <Badge color="gray" variant="soft">{tag}</Badge>
+                    </Link>
+                  ))}
+                </Flex>
+              )}
+              
               <Flex gap="3" align="center">
                 <Flex gap="1" align="center">
                   <DollarSign size={16} />
-                  <Text weight="bold">{formatCurrency(advertisement.amount)}</Text>
+                  <Text weight="bold">{formatAmount(advertisement.amount, advertisement.coinType)}</Text>
                 </Flex>
                 
+                {advertisement.kind === AD_KIND_BUY && (
+                  <Text size="2" color="gray">
+                    Budget left: {formatAmount(advertisement.budget, advertisement.coinType)}
+                  </Text>
+                )}
+                
                 <Flex gap="1" align="center">
                   <Clock size={16} />
                   <Text size="2">{new Date(advertisement.createdAt).toLocaleDateString()}</Text>
                 </Flex>
+                
+                {fullAdvertisement && (
+                  <Flex gap="1" align="center">
+                    <Timer size={16} />
+                    <Text size="2">
+                      Delivery within {formatDuration(fullAdvertisement.deliveryWindowMs)}, 
+                      review within {formatDuration(fullAdvertisement.reviewWindowMs)}
+                    </Text>
+                  </Flex>
+                )}
               </Flex>
               
+              {advertisement.userInteraction && (
+                <Flex justify="between" align="center">
+                  <DeadlineCountdown interaction={advertisement.userInteraction} />
+                  
+                  {/* The buyer claims a refund after a missed delivery, the seller the payment after a missed review */}
+                  {isInteractionTimedOut(advertisement.userInteraction, now) && (
+                    (advertisement.userInteraction.state === INTERACTION_JOINED &&
+                      currentAccount?.address === advertisement.userInteraction.buyer) ||
+                    (advertisement.userInteraction.state === INTERACTION_SELLER_COMPLETED &&
+                      currentAccount?.address === advertisement.userInteraction.seller)
+                  ) && (
+                    <Button 
+                      color="green" 
+                      onClick={() => handleClaimTimeout(advertisement.userInteraction!)}
+                      disabled={isClaiming}
+                    >
+                      <Timer size={16} />
+                      {isClaiming
+                        ? 'Claiming...'
+                        : advertisement.userInteraction.state === INTERACTION_JOINED ? 'Claim Refund' : 'Claim Payment'}
+                    </Button>
+                  )}
+                </Flex>
+              )}
+              
+              {/* Milestones with their progress once the user joined, the plain breakdown before */}
+              {fullAdvertisement && advertisement.userInteraction ? (
+                <MilestoneTracker
+                  advertisement={fullAdvertisement}
+                  interaction={advertisement.userInteraction}
+                  onMilestoneChanged={reloadAdvertisement}
+                />
+              ) : fullAdvertisement && fullAdvertisement.milestones.length > 0 && (
+                <Flex direction="column" gap="1">
+                  <Text size="2" weight="bold">Milestones</Text>
+                  {fullAdvertisement.milestones.map((milestone, index) => (
+                    <Flex key={index} justify="between">
+                      <Text size="2">{index + 1}. {milestone.description}</Text>
+                      <Text size="2">{formatAmount(milestone.amount, fullAdvertisement.coinType)}</Text>
+                    </Flex>
+                  ))}
+                </Flex>
+              )}
+              
+              {/* The listing was edited after the user joined, their deal still runs on the old terms */}
+              {fullAdvertisement && advertisement.userInteraction &&
+                advertisement.userInteraction.terms.version !== fullAdvertisement.version && (
+                <AgreedTerms
+                  terms={advertisement.userInteraction.terms}
+                  termsHash={advertisement.userInteraction.termsHash}
+                  coinType={fullAdvertisement.coinType}
+                  currentVersion={fullAdvertisement.version}
+                />
+              )}
+              
+              {/* Appeals and admin replacements of the user's dispute */}
+              {fullAdvertisement && advertisement.userInteraction && (
+                <DisputeEscalation
+                  advertisement={fullAdvertisement}
+                  interaction={advertisement.userInteraction}
+                  onEscalationChanged={reloadAdvertisement}
+                />
+              )}
+              
+              {/* Price negotiation before joining a lump sum listing */}
+              {fullAdvertisement && !isCreator() && fullAdvertisement.milestones.length === 0 && (
+                <Flex direction="column" gap="2">
+                  <Text size="2" weight="bold">Offers</Text>
+                  <OffersList advertisement={fullAdvertisement} onOffersChanged={reloadAdvertisement} />
+                </Flex>
+              )}
+              
               <Flex gap="1" align="center">
                 <User size={16} />
                 <Text size="2">
@@ -275,6 +448,7 @@ export function AdvertisementDetail() {
                       title: advertisement.title,
                       description: advertisement.description,
                       amount: advertisement.amount,
+                      kind: advertisement.kind,
                       creator: advertisement.creator,
                       createdAt: advertisement.createdAt,
                       userProfiles: advertisement.joinedBy && advertisement.userInteraction ? {
@@ -1,7 +1,6 @@
 import React from 'react';
 import { ConnectButton, useCurrentAccount } from '@mysten/dapp-kit';
 import { Box, Button, Card, Container, Flex, Grid, Text } from '@radix-ui/themes';
-import WalrusUpload from './EncryptAndUpload';
 import { useState } from 'react';
 import { BrowserRouter, Routes, Route, Link, useLocation, Navigate } from 'react-router-dom';
 import { MarketplaceLanding } from './MarketplaceLanding';
@@ -13,6 +12,10 @@ import { UserProfile } from './UserProfile';
 import { AdvertisementDetail } from './AdvertisementDetail';
 import { AdminPanel } from './AdminPanel';
 import { NotificationCenter } from './NotificationCenter';
+import { IndexerProvider } from './contexts/IndexerContext';
+import { CoinMetadataProvider } from './contexts/CoinMetadataContext';
+import { TreasuryProvider } from './contexts/TreasuryContext';
+import { SealSessionProvider } from './contexts/SealSessionContext';
 
 function LandingPage() {
  return <Navigate to="/marketplace" replace />;
@@ -54,23 +57,32 @@ function App() {
         </Box>
       </Flex>
       {currentAccount ? (
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<LandingPage />} />
-            <Route path="/marketplace" element={<MarketplaceLayout />}>
-              <Route index element={<MarketplaceLanding />} />
-              <Route path="create" element={<CreateAdvertisement />} />
-              <Route path="browse" element={<BrowseAdvertisements />} />
-              {/* <Route path="my-advertisements" element={<MyAdvertisements />} /> {/* Old route that was replaced */}
-              <Route path="my-listings" element={<MyAdvertisements routeMode="seller" />} /> {/* New route for sellers */}
-              <Route path="my-deals" element={<MyAdvertisements routeMode="client" />} /> {/* New route for clients */}
-              <Route path="profile/:address" element={<UserProfile />} />
-              <Route path="advertisement/:id" element={<AdvertisementDetail />} />
-              <Route path="chat/:id" element={<AdvertisementDetail />} />
-              <Route path="admin" element={<AdminPanel />} />
-            </Route>
-          </Routes>
-        </BrowserRouter>
+        <IndexerProvider>
+          <CoinMetadataProvider>
+            <TreasuryProvider>
+              <SealSessionProvider>
+                <BrowserRouter>
+                  <Routes>
+                    <Route path="/" element={<LandingPage />} />
+                    <Route path="/marketplace" element={<MarketplaceLayout />}>
+                      <Route index element={<MarketplaceLanding />} />
+                      <Route path="create" element={<CreateAdvertisement key="create" />} />
+                      <Route path="edit/:id" element={<CreateAdvertisement key="edit" />} /> {/* Same form, prefilled with the listing */}
+                      <Route path="browse" element={<BrowseAdvertisements />} />
+                      {/* <Route path="my-advertisements" element={<MyAdvertisements />} /> {/* Old route that was replaced */}
+                      <Route path="my-listings" element={<MyAdvertisements routeMode="seller" />} /> {/* New route for sellers */}
+                      <Route path="my-deals" element={<MyAdvertisements routeMode="client" />} /> {/* New route for clients */}
+                      <Route path="profile/:address" element={<UserProfile />} />
+                      <Route path="advertisement/:id" element={<AdvertisementDetail />} />
+                      <Route path="chat/:id" element={<AdvertisementDetail />} />
+                      <Route path="admin" element={<AdminPanel />} />
+                    </Route>
+                  </Routes>
+                </BrowserRouter>
+              </SealSessionProvider>
+            </TreasuryProvider>
+          </CoinMetadataProvider>
+        </IndexerProvider>
       ) : (
         <p>Please connect your wallet to continue</p>
       )}
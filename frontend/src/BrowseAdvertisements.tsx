@@ -1,16 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 // Removed duplicate React import line
 import { useCurrentAccount, useSuiClient, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
-import { Button, Card, Flex, Grid, Text, Heading, Badge, Slider, Checkbox, Box, Dialog } from '@radix-ui/themes';
+import { Button, Card, Flex, Grid, Text, Heading, Badge, Slider, Checkbox, Box, Dialog, Select } from '@radix-ui/themes';
 import { useNetworkVariable } from './networkConfig';
-import { Link, Navigate, useNavigate } from 'react-router-dom'; // Re-added Link and added useNavigate
-import { Search, Star, DollarSign, Users, Clock, Filter } from 'lucide-react';
+import { Link, Navigate, useNavigate, useSearchParams } from 'react-router-dom'; // Re-added Link and added useNavigate
+import { Search, Star, DollarSign, Users, Clock, Filter, Tag } from 'lucide-react';
 import { Advertisement, UserReputation } from './types';
 import { 
-  fetchAdvertisements, 
+  fetchAdvertisementsPage, 
+  fetchUserReputations,
+  getAverageRating,
   formatCurrency as formatCurrencyApi, 
   formatAddress,
   getStateInfo,
+  getAcceptedOffer,
   joinAdvertisement
 } from './api';
 import {
@@ -21,10 +24,19 @@ import {
   INTERACTION_JOINED,
   INTERACTION_SELLER_COMPLETED,
   INTERACTION_BUYER_APPROVED,
-  INTERACTION_DISPUTED
+  INTERACTION_DISPUTED,
+  LISTING_ACTIVE,
+  LISTING_CLOSED,
+  AD_KIND_BUY,
+  AD_KIND_SELL
 } from './types';
 import { JoinAdvertisementConfirmation } from './components/ConfirmationDialogs'; 
-import { SealClient, getAllowlistedKeyServers } from '@mysten/seal'; 
+import { InfiniteScrollTrigger } from './components/InfiniteScrollTrigger';
+import { ImageGallery } from './components/ImageGallery';
+import { useCoinMetadata } from './contexts/useCoinMetadata';
+import { CATEGORIES, getCategoryLabel, matchesCategory } from './categories';
+import { useSealSession } from './contexts/useSealSession';
+import { storeEphemeralKey } from './keyStore';
 // import { toast } from 'react-toastify'; // Removed toast for now
 
 // Define a local interface for mock data that matches the UI needs
@@ -38,103 +50,112 @@ interface MockAdvertisement {
   createdAt: number;
 }
 
-interface MockUserReputation {
-  user: string;
-  rating: number;
-  totalDeals: number;
-  totalVolume: number;
-  peacefulResolutions: number;
-  disputedDeals: number;
-}
-
+type SortOrder = 'newest' | 'price-asc' | 'price-desc' | 'rating';
 
-// Mock data for user reputations (will be replaced with real data from blockchain)
-const mockReputations: Record<string, MockUserReputation> = {
-  '0x7890abcdef123456': {
-    user: '0x7890abcdef123456',
-    rating: 4.9,
-    totalDeals: 47,
-    totalVolume: 25430,
-    peacefulResolutions: 45,
-    disputedDeals: 2
-  },
-  '0x7890abcdef123457': {
-    user: '0x7890abcdef123457',
-    rating: 4.2,
-    totalDeals: 23,
-    totalVolume: 12750,
-    peacefulResolutions: 20,
-    disputedDeals: 3
-  },
-  '0x7890abcdef123458': {
-    user: '0x7890abcdef123458',
-    rating: 5.0,
-    totalDeals: 18,
-    totalVolume: 8920,
-    peacefulResolutions: 18,
-    disputedDeals: 0
-  },
-  '0x7890abcdef123459': {
-    user: '0x7890abcdef123459',
-    rating: 4.3,
-    totalDeals: 31,
-    totalVolume: 15300,
-    peacefulResolutions: 28,
-    disputedDeals: 3
-  }
+const SORT_LABELS: Record<SortOrder, string> = {
+  'newest': 'Newest',
+  'price-asc': 'Price: low to high',
+  'price-desc': 'Price: high to low',
+  'rating': 'Best rated',
 };
 
+// Select value meaning no category or coin filter, Radix selects can't hold an empty value
+const ANY = 'any';
+
+// Number of most used tags offered as filters
+const TAG_FACETS = 20;
+
 export function BrowseAdvertisements() {
   const packageId = useNetworkVariable('packageId');
   const registryId = useNetworkVariable('registryId');
+  const adminRegistryId = useNetworkVariable('adminRegistryId');
+  const statsRegistryId = useNetworkVariable('statsRegistryId');
   const suiClient = useSuiClient();
   const currentAccount = useCurrentAccount();
+  const { formatAmount, getCoinInfo } = useCoinMetadata();
   const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
   const navigate = useNavigate();
   
   // State for advertisements
   const [advertisements, setAdvertisements] = useState<Advertisement[]>([]);
   const [filteredAds, setFilteredAds] = useState<Advertisement[]>([]);
+  const [reputations, setReputations] = useState<Record<string, UserReputation>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   
-  // State for filters
-  const [searchQuery, setSearchQuery] = useState('');
-  const [minRating, setMinRating] = useState(0);
-  const [minDeals, setMinDeals] = useState(0);
-  const [minVolume, setMinVolume] = useState(0);
-  const [showBuyOnly, setShowBuyOnly] = useState(false);
-  const [showSellOnly, setShowSellOnly] = useState(false);
-  const [showFilters, setShowFilters] = useState(false);
+  // Filters and sorting live in the URL so searches can be shared and bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get('q') ?? '';
+  const categoryFilter = searchParams.get('category') ?? ANY;
+  const coinFilter = searchParams.get('coin') ?? ANY;
+  const selectedTags = useMemo(() => searchParams.getAll('tag'), [searchParams]);
+  const minPrice = searchParams.get('minPrice') ?? '';
+  const maxPrice = searchParams.get('maxPrice') ?? '';
+  const minRating = Number(searchParams.get('minRating') ?? 0);
+  const minDeals = Number(searchParams.get('minDeals') ?? 0);
+  const minVolume = Number(searchParams.get('minVolume') ?? 0);
+  const kindFilter = searchParams.get('kind');
+  const sortParam = searchParams.get('sort') as SortOrder | null;
+  const sortOrder: SortOrder = sortParam && sortParam in SORT_LABELS ? sortParam : 'newest';
+  const [showFilters, setShowFilters] = useState(() =>
+    [...searchParams.keys()].some((key) => key !== 'q' && key !== 'sort')
+  );
+  
+  // Set or clear URL parameters, typing doesn't add a history entry per keystroke
+  const updateParams = (changes: Record<string, string | string[] | null>) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        next.delete(key);
+        const values = value === null ? [] : Array.isArray(value) ? value : [value];
+        values.filter((item) => item !== '' && item !== ANY).forEach((item) => next.append(key, item));
+      }
+      return next;
+    }, { replace: true });
+  };
+  
+  const toggleTag = (tag: string) => {
+    updateParams({
+      tag: selectedTags.includes(tag) ? selectedTags.filter((selected) => selected !== tag) : [...selectedTags, tag]
+    });
+  };
 
   // State for Join Advertisement Dialog
   const [showJoinDialog, setShowJoinDialog] = useState(false);
   const [selectedAdForJoin, setSelectedAdForJoin] = useState<Advertisement | null>(null);
   const [isJoining, setIsJoining] = useState(false);
 
-  // Instantiate SealClient
-  const sealClient = new SealClient({
-    suiClient,
-    serverConfigs: getAllowlistedKeyServers('testnet').map((id) => ({
-    objectId: id,
-    weight: 1,
-    })),
-  verifyKeyServers: false,
-  });
+  // Encrypts the chat key of a joined deal
+  const { sealClient } = useSealSession();
   
-  // Load advertisements
+  // Fetch one page of advertisements and the reputation of their sellers
+  const loadPage = useCallback(async (cursor: string | null) => {
+    const page = await fetchAdvertisementsPage(suiClient, packageId, registryId, cursor);
+    // Closed listings stay in the registry for their running deals, but can no longer be joined
+    const listings = page.advertisements.filter(ad => ad.status !== LISTING_CLOSED);
+    const creatorReputations = await fetchUserReputations(
+      suiClient,
+      statsRegistryId,
+      listings.map(ad => ad.creator)
+    );
+
+    setAdvertisements(prev => cursor ? [...prev, ...listings] : listings);
+    setReputations(prev => ({ ...prev, ...creatorReputations }));
+    setNextCursor(page.nextCursor);
+    setHasNextPage(page.hasNextPage);
+  }, [packageId, registryId, statsRegistryId, suiClient]);
+  
+  // Load the first page of advertisements
   useEffect(() => {
     const loadAdvertisements = async () => {
       setIsLoading(true);
       setError(null);
       
       try {
-        if (suiClient) {
-          // Fetch advertisements from the blockchain
-          const ads = await fetchAdvertisements(suiClient, packageId, registryId);
-          setAdvertisements(ads);
-          setFilteredAds(ads);
-        }
+        await loadPage(null);
         setIsLoading(false);
       } catch (err) {
         console.error('Error fetching advertisements:', err);
@@ -144,42 +165,111 @@ export function BrowseAdvertisements() {
     };
     
     loadAdvertisements();
-  }, [packageId, registryId, suiClient]);
+  }, [loadPage]);
   
-  // Apply filters when filter state changes
+  // Load the next page when the user scrolls to the end of the list
+  const loadMoreAdvertisements = useCallback(async () => {
+    if (!hasNextPage || isLoadingMore) return;
+    
+    setIsLoadingMore(true);
+    try {
+      await loadPage(nextCursor);
+    } catch (err) {
+      console.error('Error fetching more advertisements:', err);
+      setError('Failed to load more advertisements. Please try again.');
+    }
+    setIsLoadingMore(false);
+  }, [hasNextPage, isLoadingMore, loadPage, nextCursor]);
+  
+  // Filters, facets and sorting only see loaded listings, so while any of them is in use every page is loaded
+  const isNarrowed = showFilters || searchQuery !== '' || sortOrder !== 'newest' ||
+    [...searchParams.keys()].some((key) => key !== 'q' && key !== 'sort');
+  const isLoadingRest = isNarrowed && hasNextPage && !error;
+  useEffect(() => {
+    if (isLoadingRest && !isLoading) {
+      loadMoreAdvertisements();
+    }
+  }, [isLoadingRest, isLoading, loadMoreAdvertisements]);
+  
+  // Amount in whole coins, so prices in coins with different decimals can be compared
+  // Null until the coin's decimals are loaded, raw units would be off by orders of magnitude
+  const getPrice = useCallback((ad: Advertisement): number | null => {
+    const coin = getCoinInfo(ad.coinType);
+    return coin ? ad.amount / 10 ** coin.decimals : null;
+  }, [getCoinInfo]);
+  
+  // Facets of the loaded advertisements: listings per category, most used tags and the coins they are paid in
+  const facets = useMemo(() => {
+    const tagCounts: Record<string, number> = {};
+    advertisements.forEach((ad) => ad.tags.forEach((tag) => {
+      tagCounts[tag] = (tagCounts[tag] ?? 0) + 1;
+    }));
+    
+    return {
+      countCategory: (categoryId: string) =>
+        advertisements.filter((ad) => matchesCategory(ad.category, categoryId)).length,
+      tags: Object.entries(tagCounts).sort((a, b) => b[1] - a[1]).slice(0, TAG_FACETS),
+      coinTypes: [...new Set(advertisements.map((ad) => ad.coinType))],
+    };
+  }, [advertisements]);
+  
+  // Apply filters and sorting when filter state changes
   useEffect(() => {
     if (advertisements.length === 0) return;
     
     let filtered = [...advertisements];
     
-    // Apply search filter
+    // Apply search filter, tags count as searchable text
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(ad => 
         ad.title.toLowerCase().includes(query) || 
-        ad.description.toLowerCase().includes(query)
+        ad.description.toLowerCase().includes(query) ||
+        ad.tags.some((tag) => tag.includes(query))
       );
     }
     
     // Apply buy/sell filters
-    if (showBuyOnly && !showSellOnly) {
-      filtered = filtered.filter(ad => ad.title.toLowerCase().includes('buy'));
-    } else if (showSellOnly && !showBuyOnly) {
-      filtered = filtered.filter(ad => ad.title.toLowerCase().includes('sell'));
+    if (kindFilter === 'buy') {
+      filtered = filtered.filter(ad => ad.kind === AD_KIND_BUY);
+    } else if (kindFilter === 'sell') {
+      filtered = filtered.filter(ad => ad.kind === AD_KIND_SELL);
+    }
+    
+    // Apply category filter, a top-level category includes its subcategories
+    if (categoryFilter !== ANY) {
+      filtered = filtered.filter(ad => matchesCategory(ad.category, categoryFilter));
+    }
+    
+    // Apply tag filter, listings need every selected tag
+    if (selectedTags.length > 0) {
+      filtered = filtered.filter(ad => selectedTags.every((tag) => ad.tags.includes(tag)));
+    }
+    
+    // Apply coin and price filters
+    if (coinFilter !== ANY) {
+      filtered = filtered.filter(ad => ad.coinType === coinFilter);
+    }
+    // Listings whose coin metadata is still loading are left out until their price is known
+    if (minPrice !== '' && !isNaN(Number(minPrice))) {
+      filtered = filtered.filter(ad => (getPrice(ad) ?? -Infinity) >= Number(minPrice));
+    }
+    if (maxPrice !== '' && !isNaN(Number(maxPrice))) {
+      filtered = filtered.filter(ad => (getPrice(ad) ?? Infinity) <= Number(maxPrice));
     }
     
     // Apply rating filter
     if (minRating > 0) {
       filtered = filtered.filter(ad => {
-        const reputation = mockReputations[ad.creator];
-        return reputation && reputation.rating >= minRating;
+        const reputation = reputations[ad.creator];
+        return reputation && getAverageRating(reputation) >= minRating;
       });
     }
     
     // Apply deals filter
     if (minDeals > 0) {
       filtered = filtered.filter(ad => {
-        const reputation = mockReputations[ad.creator];
+        const reputation = reputations[ad.creator];
         return reputation && reputation.totalDeals >= minDeals;
       });
     }
@@ -187,13 +277,37 @@ export function BrowseAdvertisements() {
     // Apply volume filter
     if (minVolume > 0) {
       filtered = filtered.filter(ad => {
-        const reputation = mockReputations[ad.creator];
-        return reputation && reputation.totalVolume >= minVolume;
+        const reputation = reputations[ad.creator];
+        // Volume is stored in MIST, the slider is in SUI
+        return reputation && reputation.totalVolume >= minVolume * 1_000_000_000;
       });
     }
     
+    // Apply sorting, creators without a reputation rank last by rating and listings without a known price last by price
+    const comparePrices = (a: number | null, b: number | null, direction: number) =>
+      a === null || b === null ? Number(a === null) - Number(b === null) : (a - b) * direction;
+    const getRating = (ad: Advertisement) => {
+      const reputation = reputations[ad.creator];
+      return reputation ? getAverageRating(reputation) : 0;
+    };
+    filtered.sort((a, b) => {
+      switch (sortOrder) {
+        case 'price-asc':
+          return comparePrices(getPrice(a), getPrice(b), 1);
+        case 'price-desc':
+          return comparePrices(getPrice(a), getPrice(b), -1);
+        case 'rating':
+          return getRating(b) - getRating(a);
+        default:
+          return b.createdAt - a.createdAt;
+      }
+    });
+    
     setFilteredAds(filtered);
-  }, [advertisements, searchQuery, minRating, minDeals, minVolume, showBuyOnly, showSellOnly]);
+  }, [
+    advertisements, reputations, getPrice, searchQuery, kindFilter, categoryFilter, selectedTags, coinFilter,
+    minPrice, maxPrice, minRating, minDeals, minVolume, sortOrder
+  ]);
   
   // Get state badge
   const getStateBadge = (state: number) => {
@@ -240,14 +354,14 @@ export function BrowseAdvertisements() {
       
       <Card>
         <Flex direction="column" gap="3">
-          {/* Search and filters */}
+          {/* Search, sorting and filters */}
           <Flex gap="3" align="center">
             <Flex style={{ position: 'relative', flex: 1 }}>
               <Search size={16} style={{ position: 'absolute', left: '10px', top: '50%', transform: 'translateY(-50%)', color: 'var(--gray-9)' }} />
               <input
                 placeholder="Search advertisements..."
                 value={searchQuery}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchQuery(e.target.value)}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateParams({ q: e.target.value })}
                 style={{ 
                   width: '100%', 
                   padding: '8px 8px 8px 32px', 
@@ -256,6 +370,17 @@ export function BrowseAdvertisements() {
                 }}
               />
             </Flex>
+            <Select.Root
+              value={sortOrder}
+              onValueChange={(value) => updateParams({ sort: value === 'newest' ? null : value })}
+            >
+              <Select.Trigger />
+              <Select.Content>
+                {(Object.keys(SORT_LABELS) as SortOrder[]).map((order) => (
+                  <Select.Item key={order} value={order}>{SORT_LABELS[order]}</Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
             <Button variant="soft" onClick={() => setShowFilters(!showFilters)}>
               <Filter size={16} />
               Filters
@@ -267,19 +392,109 @@ export function BrowseAdvertisements() {
             <Card style={{ backgroundColor: 'var(--gray-2)' }}>
               <Flex direction="column" gap="3">
                 <Flex gap="3" align="center">
-                  <Checkbox checked={showBuyOnly} onCheckedChange={() => setShowBuyOnly(!showBuyOnly)} id="buy-only" />
+                  <Checkbox
+                    checked={kindFilter === 'buy'}
+                    onCheckedChange={() => updateParams({ kind: kindFilter === 'buy' ? null : 'buy' })}
+                    id="buy-only"
+                  />
                   <label htmlFor="buy-only">Buy advertisements only</label>
                   
-                  <Checkbox checked={showSellOnly} onCheckedChange={() => setShowSellOnly(!showSellOnly)} id="sell-only" />
+                  <Checkbox
+                    checked={kindFilter === 'sell'}
+                    onCheckedChange={() => updateParams({ kind: kindFilter === 'sell' ? null : 'sell' })}
+                    id="sell-only"
+                  />
                   <label htmlFor="sell-only">Sell advertisements only</label>
                 </Flex>
                 
+                <Flex gap="3" wrap="wrap">
+                  <Flex direction="column" gap="1">
+                    <Text size="2" weight="bold">Category</Text>
+                    <Select.Root value={categoryFilter} onValueChange={(value) => updateParams({ category: value })}>
+                      <Select.Trigger />
+                      <Select.Content>
+                        <Select.Item value={ANY}>All categories</Select.Item>
+                        {CATEGORIES.map((group) => (
+                          <Select.Group key={group.id}>
+                            <Select.Separator />
+                            {[group, ...group.subcategories].map((category) => (
+                              <Select.Item key={category.id} value={category.id}>
+                                {getCategoryLabel(category.id)} ({facets.countCategory(category.id)})
+                              </Select.Item>
+                            ))}
+                          </Select.Group>
+                        ))}
+                      </Select.Content>
+                    </Select.Root>
+                  </Flex>
+                  
+                  <Flex direction="column" gap="1">
+                    <Text size="2" weight="bold">Coin</Text>
+                    <Select.Root value={coinFilter} onValueChange={(value) => updateParams({ coin: value })}>
+                      <Select.Trigger />
+                      <Select.Content>
+                        <Select.Item value={ANY}>All coins</Select.Item>
+                        {facets.coinTypes.map((coinType) => (
+                          <Select.Item key={coinType} value={coinType}>
+                            {getCoinInfo(coinType)?.symbol ?? coinType.split('::').pop()}
+                          </Select.Item>
+                        ))}
+                      </Select.Content>
+                    </Select.Root>
+                  </Flex>
+                  
+                  <Flex direction="column" gap="1">
+                    <Text size="2" weight="bold">Price (whole coins)</Text>
+                    <Flex gap="2" align="center">
+                      {[
+                        { key: 'minPrice', value: minPrice, placeholder: 'Min' },
+                        { key: 'maxPrice', value: maxPrice, placeholder: 'Max' },
+                      ].map(({ key, value, placeholder }) => (
+                        <input
+                          key={key}
+                          type="number"
+                          min="0"
+                          step="any"
+                          placeholder={placeholder}
+                          value={value}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateParams({ [key]: e.target.value })}
+                          style={{
+                            width: '90px',
+                            padding: '6px',
+                            borderRadius: '4px',
+                            border: '1px solid var(--gray-5)'
+                          }}
+                        />
+                      ))}
+                    </Flex>
+                  </Flex>
+                </Flex>
+                
+                {facets.tags.length > 0 && (
+                  <Flex direction="column" gap="1">
+                    <Text size="2" weight="bold">Tags</Text>
+                    <Flex gap="2" wrap="wrap">
+                      {facets.tags.map(([tag, count]) => (
+                        <Badge
+                          key={tag}
+                          color={selectedTags.includes(tag) ? 'blue' : 'gray'}
+                          variant={selectedTags.includes(tag) ? 'solid' : 'soft'}
+                          onClick={() => toggleTag(tag)}
+                          style={{ cursor: 'pointer' }}
+                        >
+                          {tag} ({count})
+                        </Badge>
+                      ))}
+                    </Flex>
+                  </Flex>
+                )}
+                
                 <Flex direction="column" gap="1">
                   <Text size="2" weight="bold">Minimum Seller Rating</Text>
                   <Flex gap="3" align="center">
                     <Slider 
                       value={[minRating]} 
-                      onValueChange={(value) => setMinRating(value[0])} 
+                      onValueChange={(value) => updateParams({ minRating: value[0] > 0 ? String(value[0]) : null })} 
                       min={0} 
                       max={5} 
                       step={0.5}
@@ -294,7 +509,7 @@ export function BrowseAdvertisements() {
                   <Flex gap="3" align="center">
                     <Slider 
                       value={[minDeals]} 
-                      onValueChange={(value) => setMinDeals(value[0])} 
+                      onValueChange={(value) => updateParams({ minDeals: value[0] > 0 ? String(value[0]) : null })} 
                       min={0} 
                       max={50} 
                       step={5}
@@ -309,25 +524,18 @@ export function BrowseAdvertisements() {
                   <Flex gap="3" align="center">
                     <Slider 
                       value={[minVolume]} 
-                      onValueChange={(value) => setMinVolume(value[0])} 
+                      onValueChange={(value) => updateParams({ minVolume: value[0] > 0 ? String(value[0]) : null })} 
                       min={0} 
-                      max={30000} 
-                      step={1000}
+                      max={1000} 
+                      step={10}
                       style={{ flex: 1 }}
                     />
-                    <Text size="2">${minVolume}</Text>
+                    <Text size="2">{minVolume} SUI</Text>
                   </Flex>
                 </Flex>
                 
                 <Flex justify="end">
-                  <Button variant="soft" onClick={() => {
-                    setMinRating(0);
-                    setMinDeals(0);
-                    setMinVolume(0);
-                    setShowBuyOnly(false);
-                    setShowSellOnly(false);
-                    setSearchQuery('');
-                  }}>
+                  <Button variant="soft" onClick={() => setSearchParams({}, { replace: true })}>
                     Reset Filters
                   </Button>
                 </Flex>
@@ -338,7 +546,10 @@ export function BrowseAdvertisements() {
       </Card>
       
       {/* Results count */}
-      <Text>Results: {filteredAds.length} advertisements found</Text>
+      <Text>
+        Results: {filteredAds.length} advertisements found
+        {isLoadingRest && !isLoading && ` among the first ${advertisements.length} listings, searching the rest...`}
+      </Text>
       
       {/* Advertisement grid */}
       {isLoading ? (
@@ -350,19 +561,28 @@ export function BrowseAdvertisements() {
       ) : (
         <Grid columns={{ initial: '1', sm: '2', md: '2', lg: '3' }} gap="4">
           {filteredAds.map((ad) => {
-            const reputation = mockReputations[ad.creator];
-            const isBuy = ad.title.toLowerCase().includes('buy');
+            const reputation = reputations[ad.creator];
+            const isBuy = ad.kind === AD_KIND_BUY;
             const isOwn = isOwnAdvertisement(ad);
+            const isPaused = ad.status !== LISTING_ACTIVE;
+            const acceptedOffer = currentAccount ? getAcceptedOffer(ad, currentAccount.address) : undefined;
+            const isUnfunded = isBuy && ad.budget < (acceptedOffer?.amount ?? ad.amount);
+            const canNegotiate = !isOwn && !isPaused && ad.milestones.length === 0;
             
             return (
               <Card key={ad.id}>
                 <Flex direction="column" gap="3">
+                  <ImageGallery blobIds={ad.images} compact />
+                  
                   <Flex justify="between" align="start">
                     <Heading size="3">{ad.title}</Heading>
                     <Flex gap="2" align="center">
                       {isOwn && (
                         <Badge color="gray">Your Advertisement</Badge>
                       )}
+                      {isPaused && (
+                        <Badge color="orange">Paused</Badge>
+                      )}
                       <Badge color={isBuy ? 'green' : 'blue'}>
                         {isBuy ? 'Buy' : 'Sell'}
                       </Badge>
@@ -380,10 +600,31 @@ export function BrowseAdvertisements() {
                     {ad.description}
                   </Text>
                   
+                  <Flex gap="2" align="center" wrap="wrap">
+                    <Badge
+                      variant="outline"
+                      onClick={() => updateParams({ category: ad.category })}
+                      style={{ cursor: 'pointer' }}
+                    >
+                      {getCategoryLabel(ad.category)}
+                    </Badge>
+                    {ad.tags.map((tag) => (
+                      <Badge
+                        key={tag}
+                        color="gray"
+                        variant="soft"
+                        onClick={() => !selectedTags.includes(tag) && toggleTag(tag)}
+                        style={{ cursor: 'pointer' }}
+                      >
+                        <Tag size={10} /> {tag}
+                      </Badge>
+                    ))}
+                  </Flex>
+                  
                   <Flex gap="3" align="center">
                     <Flex gap="1" align="center">
                       <DollarSign size={16} />
-                      <Text weight="bold">{formatCurrencyApi(ad.amount)}</Text>
+                      <Text weight="bold">{formatAmount(ad.amount, ad.coinType)}</Text>
                     </Flex>
                     
                     <Flex gap="1" align="center">
@@ -395,8 +636,8 @@ export function BrowseAdvertisements() {
                   {reputation && (
                     <Flex direction="column" gap="1">
                       <Flex gap="2" align="center">
-                        <Text size="2">Seller:</Text>
-                        {renderStars(reputation.rating)}
+                        <Text size="2">{isBuy ? 'Buyer:' : 'Seller:'}</Text>
+                        {renderStars(getAverageRating(reputation))}
                       </Flex>
                       
                       <Flex gap="3">
@@ -407,24 +648,37 @@ export function BrowseAdvertisements() {
                         
                         <Flex gap="1" align="center">
                           <DollarSign size={14} />
-                          <Text size="1">${reputation.totalVolume}</Text>
+                          <Text size="1">{formatCurrencyApi(reputation.totalVolume)}</Text>
                         </Flex>
                       </Flex>
                     </Flex>
                   )}
                   
-                  <Flex justify="end">
+                  <Flex justify="end" gap="2">
+                    {canNegotiate && !acceptedOffer && (
+                      <Button variant="soft" onClick={() => navigate(`/marketplace/advertisement/${ad.id}`)}>
+                        Negotiate
+                      </Button>
+                    )}
                     <Button 
-                      style={{ width: '100%' }} 
-                      disabled={isOwn}
+                      style={{ flex: 1 }} 
+                      disabled={isOwn || isPaused || isUnfunded}
                       onClick={() => {
-                        if (!isOwn) {
+                        if (!isOwn && !isPaused && !isUnfunded) {
                           setSelectedAdForJoin(ad);
                           setShowJoinDialog(true);
                         }
                       }}
                     >
-                      {isOwn ? 'Cannot Join Own Ad' : 'Join Advertisement'}
+                      {isOwn
+                        ? 'Cannot Join Own Ad'
+                        : isPaused
+                          ? 'Listing Paused'
+                          : isUnfunded
+                            ? 'Budget Spent'
+                            : acceptedOffer
+                              ? `Join at ${formatAmount(acceptedOffer.amount, ad.coinType)}`
+                              : isBuy ? 'Offer Your Work' : 'Join Advertisement'}
                     </Button>
                   </Flex>
                 </Flex>
@@ -433,12 +687,22 @@ export function BrowseAdvertisements() {
           })}
         </Grid>
       )}
+      
+      {!isLoading && !error && (
+        <InfiniteScrollTrigger
+          hasMore={hasNextPage}
+          isLoading={isLoadingMore}
+          onLoadMore={loadMoreAdvertisements}
+        />
+      )}
 
       {selectedAdForJoin && (
         <JoinAdvertisementConfirmation
           open={showJoinDialog}
           onOpenChange={setShowJoinDialog}
-          amount={selectedAdForJoin.amount}
+          amount={(currentAccount && getAcceptedOffer(selectedAdForJoin, currentAccount.address)?.amount) || selectedAdForJoin.amount}
+          coinType={selectedAdForJoin.coinType}
+          kind={selectedAdForJoin.kind}
           isLoading={isJoining}
           onConfirm={async () => {
             if (!selectedAdForJoin || !currentAccount?.address || !suiClient) {
@@ -454,6 +718,10 @@ export function BrowseAdvertisements() {
               const userProfile = userProfiles[currentAccount.address];
               const interactionId = userProfile ? userProfile.interactions.length : 0;
               
+              // An accepted offer replaces the listed amount
+              const acceptedOffer = getAcceptedOffer(selectedAdForJoin, currentAccount.address);
+              const amount = acceptedOffer?.amount ?? selectedAdForJoin.amount;
+              
               console.log(`User ${currentAccount.address} joining ad ${selectedAdForJoin.id} with interaction ID: ${interactionId}`);
               console.log(`User profile exists: ${!!userProfile}, Interactions count: ${userProfile ? userProfile.interactions.length : 0}`);
 
@@ -461,10 +729,16 @@ export function BrowseAdvertisements() {
                 suiClient,
                 sealClient,
                 packageId,
+                adminRegistryId,
                 selectedAdForJoin.id,
+                selectedAdForJoin.coinType,
                 currentAccount.address,
                 interactionId, 
-                selectedAdForJoin.amount 
+                // A buy advertisement pays the escrow out of its budget
+                selectedAdForJoin.kind === AD_KIND_BUY ? 0 : amount,
+                // The terms shown in the join dialog, an edit made meanwhile aborts the join
+                selectedAdForJoin.version,
+                acceptedOffer?.id
               );
 
               signAndExecuteTransaction(
@@ -472,6 +746,9 @@ export function BrowseAdvertisements() {
                 {
                   onSuccess: (result) => {
                     console.log('Joined advertisement successfully:', result);
+                    // The joiner generated the chat key, cache it so the first chat open needs no key server
+                    storeEphemeralKey(currentAccount.address, selectedAdForJoin.id, currentAccount.address, interactionId, ephemeralKey)
+                      .catch((err) => console.warn('Failed to cache chat key:', err));
                     //alert(`Successfully joined advertisement: ${selectedAdForJoin.title}`);
                     setIsJoining(false);
                     setShowJoinDialog(false);
@@ -1,26 +1,127 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
 import { Transaction } from '@mysten/sui/transactions';
-import { Button, Card, Flex, Text, TextField, Select, Heading } from '@radix-ui/themes';
+import { Button, Card, Flex, Text, TextField, Select, Heading, IconButton } from '@radix-ui/themes';
+import { Plus, X } from 'lucide-react';
 import { useNetworkVariable } from './networkConfig';
-import { useNavigate } from 'react-router-dom';
-import { createAdvertisement as createAd } from './api';
+import { useNavigate, useParams } from 'react-router-dom';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import {
+  createAdvertisement as createAd,
+  editAdvertisement as editAd,
+  fetchAdvertisement,
+  fetchMarketplaceCapId,
+  updateAdvertisementImages,
+  parseCurrency
+} from './api';
+import { SUI_COIN_INFO, AD_KIND_BUY, AD_KIND_SELL } from './types';
+import { uploadToWalrus, WALRUS_LISTING_EPOCHS } from './utils';
+import { CATEGORIES, DEFAULT_CATEGORY, MAX_TAGS, getCategoryLabel, parseTags } from './categories';
+import { useCoinMetadata } from './contexts/useCoinMetadata';
+import { GalleryImage, ImageGalleryEditor } from './components/ImageGallery';
 
 type AdvertisementType = 'buy' | 'sell';
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Select value for a coin type entered by hand
+const CUSTOM_COIN = 'custom';
+const COIN_TYPE_PATTERN = /^0x[0-9a-fA-F]+::\w+::\w+$/;
+
+// Milestone as typed in the form, the amount is in whole coins
+interface MilestoneInput {
+  description: string;
+  amount: string;
+}
+
+// Creates a listing, or edits the terms of one when the route has an advertisement ID
 export function CreateAdvertisement() {
   const navigate = useNavigate();
+  const { id: editedId } = useParams<{ id: string }>();
+  const isEditing = editedId !== undefined;
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [category, setCategory] = useState(DEFAULT_CATEGORY);
+  const [tagsInput, setTagsInput] = useState('');
   const [amount, setAmount] = useState('');
+  const [budget, setBudget] = useState('');
   const [type, setType] = useState<AdvertisementType>('sell');
+  const [deliveryDays, setDeliveryDays] = useState('7');
+  const [reviewDays, setReviewDays] = useState('3');
+  const [milestones, setMilestones] = useState<MilestoneInput[]>([]);
+  const [images, setImages] = useState<GalleryImage[]>([]);
+  const [publishedImages, setPublishedImages] = useState<string[]>([]);
+  const [selectedCoin, setSelectedCoin] = useState(SUI_COIN_INFO.coinType);
+  const [customCoinType, setCustomCoinType] = useState('');
+  const [walletCoinTypes, setWalletCoinTypes] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoadingEdited, setIsLoadingEdited] = useState(isEditing);
   const [error, setError] = useState<string | null>(null);
   
   const packageId = useNetworkVariable('packageId');
   const registryId = useNetworkVariable('registryId');
   const suiClient = useSuiClient();
   const currentAccount = useCurrentAccount();
+  const { getCoinInfo, loadCoinInfo } = useCoinMetadata();
+  
+  const coinType = selectedCoin === CUSTOM_COIN ? customCoinType.trim() : selectedCoin;
+  const isValidCoinType = COIN_TYPE_PATTERN.test(coinType);
+  const coinSymbol = (isValidCoinType && getCoinInfo(coinType)?.symbol) || 'coins';
+  
+  // Offer the coins the seller already holds, SUI first
+  useEffect(() => {
+    if (!currentAccount) return;
+    
+    suiClient.getAllBalances({ owner: currentAccount.address })
+      .then((balances) => {
+        const types = balances
+          .map((balance) => normalizeStructTag(balance.coinType))
+          .filter((type) => type !== normalizeStructTag(SUI_COIN_INFO.coinType));
+        setWalletCoinTypes(types);
+      })
+      .catch((err) => console.error('Error fetching wallet balances:', err));
+  }, [suiClient, currentAccount]);
+  
+  // Fill the form with the current terms of the edited listing, its kind and coin can't change
+  useEffect(() => {
+    if (!editedId) return;
+    
+    const loadEdited = async () => {
+      try {
+        const ad = await fetchAdvertisement(suiClient, editedId, packageId);
+        if (!ad) {
+          setError('Advertisement not found.');
+          return;
+        }
+        
+        const coin = await loadCoinInfo(ad.coinType);
+        const toWholeCoins = (value: number) => String(value / 10 ** coin.decimals);
+        setTitle(ad.title);
+        setDescription(ad.description);
+        setCategory(ad.category);
+        setTagsInput(ad.tags.join(', '));
+        setAmount(toWholeCoins(ad.amount));
+        setType(ad.kind === AD_KIND_BUY ? 'buy' : 'sell');
+        setDeliveryDays(String(ad.deliveryWindowMs / MS_PER_DAY));
+        setReviewDays(String(ad.reviewWindowMs / MS_PER_DAY));
+        setMilestones(ad.milestones.map((milestone) => ({
+          description: milestone.description,
+          amount: toWholeCoins(milestone.amount)
+        })));
+        setSelectedCoin(CUSTOM_COIN);
+        setCustomCoinType(ad.coinType);
+        setPublishedImages(ad.images);
+        setImages(ad.images.map((blobId): GalleryImage => ({ kind: 'published', blobId })));
+      } catch (err) {
+        console.error('Error fetching the edited advertisement:', err);
+        setError('Failed to load the advertisement. Please try again.');
+      } finally {
+        setIsLoadingEdited(false);
+      }
+    };
+    
+    loadEdited();
+  }, [editedId, suiClient, packageId, loadCoinInfo]);
   
   const { mutate: signAndExecute } = useSignAndExecuteTransaction({
     execute: async ({ bytes, signature }) =>
@@ -45,28 +146,135 @@ export function CreateAdvertisement() {
       return false;
     }
     
+    if (!isValidCoinType) {
+      setError('Please enter a valid coin type, e.g. 0x2::sui::SUI');
+      return false;
+    }
+    
     if (!amount.trim() || isNaN(Number(amount)) || Number(amount) <= 0) {
       setError('Please enter a valid amount');
       return false;
     }
     
+    // A buy advertisement has to fund at least one deal, an empty budget funds exactly one
+    if (type === 'buy' && budget.trim() && (isNaN(Number(budget)) || Number(budget) < Number(amount))) {
+      setError('The budget must cover at least the amount of one deal');
+      return false;
+    }
+    
+    if (isNaN(Number(deliveryDays)) || Number(deliveryDays) <= 0) {
+      setError('Please enter a valid delivery window');
+      return false;
+    }
+    
+    if (isNaN(Number(reviewDays)) || Number(reviewDays) <= 0) {
+      setError('Please enter a valid review window');
+      return false;
+    }
+    
+    if (milestones.some((milestone) => !milestone.description.trim())) {
+      setError('Please describe every milestone');
+      return false;
+    }
+    
+    if (milestones.some((milestone) => isNaN(Number(milestone.amount)) || Number(milestone.amount) <= 0)) {
+      setError('Please enter a valid amount for every milestone');
+      return false;
+    }
+    
     return true;
   };
 
-  const createAdvertisement = () => {
-    if (!validateForm()) return;
+  const updateMilestone = (index: number, update: Partial<MilestoneInput>) => {
+    setMilestones(milestones.map((milestone, i) => (i === index ? { ...milestone, ...update } : milestone)));
+  };
+
+  const createAdvertisement = async () => {
+    if (!currentAccount || !validateForm()) return;
     
     setIsSubmitting(true);
     setError(null);
     
+    // Amounts are stored in the smallest unit of the coin
+    const coin = await loadCoinInfo(coinType);
+    const totalAmount = parseCurrency(amount, coin);
+    const parsedMilestones = milestones.map((milestone) => ({
+      description: milestone.description.trim(),
+      amount: parseCurrency(milestone.amount, coin)
+    }));
+    
+    // The contract rejects milestones that do not add up to the amount
+    const milestonesTotal = parsedMilestones.reduce((sum, milestone) => sum + milestone.amount, 0);
+    if (parsedMilestones.length > 0 && milestonesTotal !== totalAmount) {
+      setError(`Milestones must add up to the amount (${amount} ${coin.symbol})`);
+      setIsSubmitting(false);
+      return;
+    }
+    
+    // Images are public, so they are uploaded to Walrus as they are before being published to the listing
+    const imageBlobIds: string[] = [];
+    for (const image of images) {
+      if (image.kind === 'published') {
+        imageBlobIds.push(image.blobId);
+        continue;
+      }
+      const blobId = await uploadToWalrus(new Uint8Array(await image.file.arrayBuffer()), WALRUS_LISTING_EPOCHS);
+      if (!blobId) {
+        setError(`Failed to upload ${image.file.name} to Walrus. Please try again.`);
+        setIsSubmitting(false);
+        return;
+      }
+      imageBlobIds.push(blobId);
+    }
+    
     // Create the transaction using the API function
-    const tx = createAd(
-      packageId,
-      registryId,
-      title,
-      description,
-      Number(amount)*1_000_000_000 //SUI to MIST conversion
-    );
+    let tx: Transaction;
+    try {
+      if (editedId) {
+        const capId = await fetchMarketplaceCapId(suiClient, packageId, currentAccount.address, editedId);
+        if (!capId) {
+          throw new Error('The marketplace cap of this listing was not found in your wallet.');
+        }
+        tx = editAd(
+          packageId,
+          editedId,
+          coin.coinType,
+          capId,
+          title,
+          description,
+          category,
+          parseTags(tagsInput),
+          totalAmount,
+          Math.round(Number(deliveryDays) * MS_PER_DAY),
+          Math.round(Number(reviewDays) * MS_PER_DAY),
+          parsedMilestones
+        );
+        updateAdvertisementImages(packageId, editedId, coin.coinType, capId, publishedImages, imageBlobIds, tx);
+      } else {
+        tx = await createAd(
+          suiClient,
+          packageId,
+          registryId,
+          coin.coinType,
+          currentAccount.address,
+          type === 'buy' ? AD_KIND_BUY : AD_KIND_SELL,
+          type === 'buy' ? parseCurrency(budget.trim() || amount, coin) : 0,
+          title,
+          description,
+          category,
+          parseTags(tagsInput),
+          totalAmount,
+          Math.round(Number(deliveryDays) * MS_PER_DAY),
+          Math.round(Number(reviewDays) * MS_PER_DAY),
+          parsedMilestones
+        );
+      }
+    } catch (err) {
+      console.error('Error preparing advertisement transaction:', err);
+      setError(err instanceof Error ? err.message : 'Failed to prepare the transaction.');
+      setIsSubmitting(false);
+      return;
+    }
     
     signAndExecute(
       {
@@ -74,7 +282,13 @@ export function CreateAdvertisement() {
       },
       {
         onSuccess: async (result) => {
-          console.log('Advertisement created:', result);
+          console.log(isEditing ? 'Advertisement edited:' : 'Advertisement created:', result);
+          
+          if (isEditing) {
+            setIsSubmitting(false);
+            navigate('/marketplace/my-listings');
+            return;
+          }
           
           // Extract the created advertisement object ID from the transaction result
           const advertisementObject = result.effects?.created?.find(
@@ -83,6 +297,28 @@ export function CreateAdvertisement() {
           
           const createdObjectId = advertisementObject?.reference?.objectId;
           
+          // The images need the listing's cap, so they are published once the listing exists
+          const capId = result.effects?.created?.find(
+            (item) => item.owner && typeof item.owner === 'object' && 'AddressOwner' in item.owner,
+          )?.reference?.objectId;
+          
+          if (createdObjectId && capId && imageBlobIds.length > 0) {
+            signAndExecute(
+              {
+                transaction: updateAdvertisementImages(packageId, createdObjectId, coin.coinType, capId, [], imageBlobIds),
+              },
+              {
+                onSuccess: () => navigate('/marketplace/my-listings'),
+                onError: (error) => {
+                  console.error('Error publishing advertisement images:', error);
+                  setError('The advertisement was created but its images could not be published. Add them by editing it.');
+                  setIsSubmitting(false);
+                },
+              },
+            );
+            return;
+          }
+          
           if (createdObjectId) {
             // Navigate to the advertisement detail page
             //navigate(`/marketplace/advertisement/${createdObjectId}`);
@@ -95,8 +331,8 @@ export function CreateAdvertisement() {
           setIsSubmitting(false);
         },
         onError: (error) => {
-          console.error('Error creating advertisement:', error);
-          setError('Failed to create advertisement. Please try again.');
+          console.error('Error saving advertisement:', error);
+          setError(isEditing ? 'Failed to save the changes. Please try again.' : 'Failed to create advertisement. Please try again.');
           setIsSubmitting(false);
         },
       },
@@ -106,24 +342,36 @@ export function CreateAdvertisement() {
   return (
     <Card>
       <Flex direction="column" gap="4">
-        <Heading size="5">Create Advertisement</Heading>
+        <Heading size="5">{isEditing ? 'Edit Advertisement' : 'Create Advertisement'}</Heading>
+        
+        {isEditing && (
+          <Text size="2" color="gray">
+            {isLoadingEdited
+              ? 'Loading the current terms...'
+              : 'Deals that were already joined keep the terms they were joined under. New deals get the edited terms.'}
+          </Text>
+        )}
         
         <Flex direction="column" gap="2">
           <Text size="2" weight="bold">Advertisement Type</Text>
-          <Select.Root value={type} onValueChange={(value) => setType(value as AdvertisementType)}>
+          <Select.Root value={type} onValueChange={(value) => setType(value as AdvertisementType)} disabled={isEditing}>
             <Select.Trigger />
             <Select.Content>
               <Select.Item value="sell">Sell</Select.Item>
-              {/* <Select.Item value="buy">Buy</Select.Item> */}
+              <Select.Item value="buy">Buy</Select.Item>
             </Select.Content>
           </Select.Root>
+          <Text size="1" color="gray">
+            {type === 'sell'
+              ? 'You deliver the work, responders pay into escrow when they join'
+              : 'Responders deliver the work, you fund their escrow from the budget of this advertisement'}
+          </Text>
         </Flex>
         
         <Flex direction="column" gap="2">
           <Text size="2" weight="bold">Title</Text>
           <input 
-            placeholder={`${type === 'sell' ? 'Sell' : 'Buy'} OpenAI credits for SUI`}            
-            // placeholder={`${type === 'sell' ? 'Sell' : 'Buy'} Sell OpenAI credits for SUI`}
+            placeholder={`${type === 'sell' ? 'Sell' : 'Buy'} OpenAI credits for SUI`}
             value={title}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTitle(e.target.value)}
             style={{ 
@@ -153,7 +401,74 @@ export function CreateAdvertisement() {
         </Flex>
         
         <Flex direction="column" gap="2">
-          <Text size="2" weight="bold">Amount (in SUI)</Text>
+          <Text size="2" weight="bold">Category</Text>
+          <Select.Root value={category} onValueChange={setCategory}>
+            <Select.Trigger />
+            <Select.Content>
+              {CATEGORIES.map((group) => (
+                <Select.Group key={group.id}>
+                  <Select.Item value={group.id}>{group.label}</Select.Item>
+                  {group.subcategories.map((subcategory) => (
+                    <Select.Item key={subcategory.id} value={subcategory.id}>
+                      {getCategoryLabel(subcategory.id)}
+                    </Select.Item>
+                  ))}
+                </Select.Group>
+              ))}
+            </Select.Content>
+          </Select.Root>
+        </Flex>
+        
+        <Flex direction="column" gap="2">
+          <Text size="2" weight="bold">Tags (optional)</Text>
+          <input 
+            placeholder="solidity, audit, defi"
+            value={tagsInput}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTagsInput(e.target.value)}
+            style={{ 
+              width: '100%', 
+              padding: '8px', 
+              borderRadius: '4px', 
+              border: '1px solid var(--gray-5)' 
+            }}
+          />
+          <Text size="1" color="gray">
+            Comma separated, up to {MAX_TAGS} tags. Buyers can filter listings by them.
+          </Text>
+        </Flex>
+        
+        <Flex direction="column" gap="2">
+          <Text size="2" weight="bold">Payment Coin</Text>
+          <Select.Root value={selectedCoin} onValueChange={setSelectedCoin} disabled={isEditing}>
+            <Select.Trigger />
+            <Select.Content>
+              <Select.Item value={SUI_COIN_INFO.coinType}>SUI</Select.Item>
+              {walletCoinTypes.map((type) => (
+                <Select.Item key={type} value={type}>
+                  {getCoinInfo(type)?.symbol ?? type.split('::').pop()}
+                </Select.Item>
+              ))}
+              <Select.Item value={CUSTOM_COIN}>Other coin type...</Select.Item>
+            </Select.Content>
+          </Select.Root>
+          {selectedCoin === CUSTOM_COIN && (
+            <input 
+              placeholder="0x...::usdc::USDC"
+              value={customCoinType}
+              disabled={isEditing}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCustomCoinType(e.target.value)}
+              style={{ 
+                width: '100%', 
+                padding: '8px', 
+                borderRadius: '4px', 
+                border: '1px solid var(--gray-5)' 
+              }}
+            />
+          )}
+        </Flex>
+        
+        <Flex direction="column" gap="2">
+          <Text size="2" weight="bold">Amount (in {coinSymbol})</Text>
           <input 
             placeholder="100"
             value={amount}
@@ -166,7 +481,136 @@ export function CreateAdvertisement() {
               border: '1px solid var(--gray-5)' 
             }}
           />
-          <Text size="1" color="gray">This is the amount of SUI that will be locked in escrow</Text>
+          <Text size="1" color="gray">This is the amount of {coinSymbol} that will be locked in escrow for every deal</Text>
+        </Flex>
+        
+        {type === 'buy' && !isEditing && (
+          <Flex direction="column" gap="2">
+            <Text size="2" weight="bold">Budget (in {coinSymbol})</Text>
+            <input 
+              placeholder={amount || '100'}
+              value={budget}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBudget(e.target.value)}
+              type="number"
+              style={{ 
+                width: '100%', 
+                padding: '8px', 
+                borderRadius: '4px', 
+                border: '1px solid var(--gray-5)' 
+              }}
+            />
+            <Text size="1" color="gray">
+              Paid now and held by the advertisement, every responder&apos;s escrow is taken from it. Defaults to one deal.
+            </Text>
+          </Flex>
+        )}
+        
+        <Flex gap="3">
+          <Flex direction="column" gap="2" style={{ flex: 1 }}>
+            <Text size="2" weight="bold">Delivery Window (days)</Text>
+            <input 
+              value={deliveryDays}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDeliveryDays(e.target.value)}
+              type="number"
+              min="0"
+              step="0.5"
+              style={{ 
+                width: '100%', 
+                padding: '8px', 
+                borderRadius: '4px', 
+                border: '1px solid var(--gray-5)' 
+              }}
+            />
+            <Text size="1" color="gray">
+              {type === 'sell'
+                ? "If you don't deliver in time, the buyer can claim a refund"
+                : "If the responder doesn't deliver in time, you can claim a refund"}
+            </Text>
+          </Flex>
+          
+          <Flex direction="column" gap="2" style={{ flex: 1 }}>
+            <Text size="2" weight="bold">Review Window (days)</Text>
+            <input 
+              value={reviewDays}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReviewDays(e.target.value)}
+              type="number"
+              min="0"
+              step="0.5"
+              style={{ 
+                width: '100%', 
+                padding: '8px', 
+                borderRadius: '4px', 
+                border: '1px solid var(--gray-5)' 
+              }}
+            />
+            <Text size="1" color="gray">
+              {type === 'sell'
+                ? "If the buyer doesn't approve or dispute in time, you can claim the payment"
+                : 'You have to approve or dispute a delivery in time, otherwise the payment is released'}
+            </Text>
+          </Flex>
+        </Flex>
+        
+        <Flex direction="column" gap="2">
+          <Flex justify="between" align="center">
+            <Text size="2" weight="bold">Milestones (optional)</Text>
+            <Button
+              size="1"
+              variant="soft"
+              onClick={() => setMilestones([...milestones, { description: '', amount: '' }])}
+            >
+              <Plus size={14} />
+              Add Milestone
+            </Button>
+          </Flex>
+          {milestones.map((milestone, index) => (
+            <Flex key={index} gap="2" align="center">
+              <input 
+                placeholder={`Milestone ${index + 1}`}
+                value={milestone.description}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateMilestone(index, { description: e.target.value })}
+                style={{ 
+                  flex: 3, 
+                  padding: '8px', 
+                  borderRadius: '4px', 
+                  border: '1px solid var(--gray-5)' 
+                }}
+              />
+              <input 
+                placeholder={coinSymbol}
+                value={milestone.amount}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateMilestone(index, { amount: e.target.value })}
+                type="number"
+                style={{ 
+                  flex: 1, 
+                  padding: '8px', 
+                  borderRadius: '4px', 
+                  border: '1px solid var(--gray-5)' 
+                }}
+              />
+              <IconButton
+                size="1"
+                variant="ghost"
+                color="red"
+                onClick={() => setMilestones(milestones.filter((_, i) => i !== index))}
+              >
+                <X size={14} />
+              </IconButton>
+            </Flex>
+          ))}
+          <Text size="1" color="gray">
+            {milestones.length === 0
+              ? 'Without milestones the whole amount is released at once'
+              : 'The buyer releases each milestone separately, the amounts must add up to the total'}
+          </Text>
+        </Flex>
+        
+        <Flex direction="column" gap="2">
+          <Text size="2" weight="bold">Images (optional)</Text>
+          <ImageGalleryEditor images={images} onChange={setImages} disabled={isSubmitting} />
+          <Text size="1" color="gray">
+            Images are stored publicly on Walrus, the first one is shown on the listing card
+          </Text>
         </Flex>
         
         {error && (
@@ -183,9 +627,11 @@ export function CreateAdvertisement() {
           </Button>
           <Button 
             onClick={createAdvertisement}
-            disabled={isSubmitting}
+            disabled={isSubmitting || isLoadingEdited}
           >
-            {isSubmitting ? 'Creating...' : 'Create Advertisement'}
+            {isEditing
+              ? (isSubmitting ? 'Saving...' : 'Save Changes')
+              : (isSubmitting ? 'Creating...' : 'Create Advertisement')}
           </Button>
         </Flex>
       </Flex>
@@ -6,9 +6,16 @@ import { DisputeConfirmation, ReleasePaymentConfirmation, MarkCompletedConfirmat
 import { Clock, User, MessageCircle, AlertCircle, CheckCircle, X, ShieldAlert } from 'lucide-react';
 import { InteractionActionButtons } from './components/InteractionActionButtons';
 import { Link, useNavigate } from 'react-router-dom';
-import { Advertisement, Interaction, STATE_AVAILABLE, STATE_JOINED, STATE_COMPLETED, STATE_DISPUTED, INTERACTION_JOINED, INTERACTION_SELLER_COMPLETED, INTERACTION_BUYER_APPROVED, INTERACTION_DISPUTED } from './types';
-import { formatAddress, formatCurrency, fetchAdvertisement as fetchAd, disputeInteraction, releasePayment } from './api';
+import { Advertisement, Interaction, STATE_AVAILABLE, STATE_JOINED, STATE_COMPLETED, STATE_DISPUTED, INTERACTION_JOINED, INTERACTION_SELLER_COMPLETED, INTERACTION_BUYER_APPROVED, INTERACTION_DISPUTED, INTERACTION_RESOLVED, INTERACTION_CANCELLED } from './types';
+import { formatAddress, fetchAdvertisement as fetchAd, disputeInteraction, releasePayment, refundInteraction, requestCancellation, claimAfterTimeout } from './api';
 import { ChatWrapper } from './components/ChatWrapper';
+import { ReviewForm } from './ReviewForm';
+import { DeadlineCountdown } from './components/DeadlineCountdown';
+import { MilestoneTracker } from './components/MilestoneTracker';
+import { DisputeEscalation } from './components/DisputeEscalation';
+import { OffersList } from './components/OffersList';
+import { useMarketplaceEvents } from './contexts/useIndexer';
+import { useCoinMetadata } from './contexts/useCoinMetadata';
 
 interface InteractionsListProps {
   advertisement: Advertisement;
@@ -26,17 +33,19 @@ export function InteractionsList({
   const navigate = useNavigate();
   const suiClient = useSuiClient();
   const packageId = useNetworkVariable('packageId');
+  const statsRegistryId = useNetworkVariable('statsRegistryId');
+  const treasuryId = useNetworkVariable('treasuryId');
   const [advertisement, setAdvertisement] = useState<Advertisement>(initialAdvertisement);
   const [selectedInteraction, setSelectedInteraction] = useState<Interaction | null>(null);
   const [showChat, setShowChat] = useState(false);
-  const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
-  const [lastPoll, setLastPoll] = useState(0);
   const [isDisputing, setIsDisputing] = useState(false);
   const [showDisputeConfirmation, setShowDisputeConfirmation] = useState(false);
   const [showReleaseConfirmation, setShowReleaseConfirmation] = useState(false);
   const [disputeInteractionData, setDisputeInteractionData] = useState<{userAddress: string, interactionId: number} | null>(null);
-  const [releaseInteractionData, setReleaseInteractionData] = useState<{interactionId: number} | null>(null);
+  const [releaseInteractionData, setReleaseInteractionData] = useState<{userAddress: string, interactionId: number} | null>(null);
+  const [reviewInteraction, setReviewInteraction] = useState<Interaction | null>(null);
   const currentAccount = useCurrentAccount();
+  const { formatAmount } = useCoinMetadata();
   
   // State for filtering interactions
   const [activeTab, setActiveTab] = useState('all');
@@ -87,7 +96,11 @@ export function InteractionsList({
         filtered = filtered.filter(item => item.interaction.state === INTERACTION_SELLER_COMPLETED);
         break;
       case 'finished':
-        filtered = filtered.filter(item => item.interaction.state === INTERACTION_BUYER_APPROVED);
+        filtered = filtered.filter(item =>
+          item.interaction.state === INTERACTION_BUYER_APPROVED ||
+          item.interaction.state === INTERACTION_RESOLVED ||
+          item.interaction.state === INTERACTION_CANCELLED
+        );
         break;
       case 'disputed':
         filtered = filtered.filter(item => item.interaction.state === INTERACTION_DISPUTED);
@@ -115,99 +128,36 @@ export function InteractionsList({
         return <Badge color="green">Completed</Badge>;
       case INTERACTION_DISPUTED:
         return <Badge color="red">Disputed</Badge>;
+      case INTERACTION_RESOLVED:
+        return <Badge color="orange">Resolved by Admin</Badge>;
+      case INTERACTION_CANCELLED:
+        return <Badge color="gray">Cancelled</Badge>;
       default:
         return <Badge color="gray">Unknown</Badge>;
     }
   };
   
-  // Set up polling for new messages
-  useEffect(() => {
-    // Only set up polling if we have a selected interaction and the chat is shown
-    if (!selectedInteraction || !showChat || !suiClient || pollingInterval) {
-      return;
-    }
-    
-    console.log('Setting up message polling in InteractionsList');
-    
-    // Function to poll for updated advertisement data
-    const pollForUpdates = async () => {
+  // Reload the advertisement whenever one of its interactions changes on-chain
+  useMarketplaceEvents(
+    (event) => event.advertisementId === advertisement.id && event.type !== 'AdvertisementCreated',
+    async () => {
       try {
-        // Only poll if it's been at least 30 seconds since the last poll
-        const now = Date.now();
-        if (now - lastPoll < 30000) {
-          return;
-        }
-        
-        console.log(`Polling for updated messages in InteractionsList at ${new Date().toLocaleTimeString()}...`);
-        setLastPoll(now);
+        const adData = await fetchAd(suiClient, advertisement.id, packageId);
+        if (!adData) return;
         
-        // Store the last poll time in session storage to coordinate with other components
-        sessionStorage.setItem(`last_poll_${advertisement.id}_${selectedInteraction.id}`, now.toString());
+        setAdvertisement(adData);
         
-        // Fetch the full advertisement to get the latest data
-        const adData = await fetchAd(suiClient, advertisement.id, packageId);
-        if (adData) {
-          // Check if the advertisement has changed
-          const hasChanged = JSON.stringify(adData) !== JSON.stringify(advertisement);
-          
-          if (hasChanged) {
-            console.log('Advertisement data has changed, updating in InteractionsList');
-            setAdvertisement(adData);
-            
-            // Find the selected interaction in the updated data
-            let updatedInteraction: Interaction | null = null;
-            let interactionUserAddress = '';
-            
-            // Search through all user profiles to find the selected interaction
-            Object.entries(adData.userProfiles).forEach(([address, profile]) => {
-              const interaction = profile.interactions.find(i => 
-                i.id === selectedInteraction.id && i.user === selectedInteraction.user
-              );
-              if (interaction) {
-                updatedInteraction = interaction;
-                interactionUserAddress = address;
-              }
-            });
-            
-            // Update the selected interaction if found
-            if (updatedInteraction) {
-              console.log('Found updated interaction in InteractionsList');
-              setSelectedInteraction(updatedInteraction);
-            }
-          } else {
-            console.log('No changes detected in advertisement data');
-          }
-        }
+        // Keep the selected interaction in sync with the updated data
+        setSelectedInteraction(prev => {
+          if (!prev) return prev;
+          const updated = adData.userProfiles[prev.user]?.interactions.find(i => i.id === prev.id);
+          return updated || prev;
+        });
       } catch (err) {
-        console.error('Error polling for updates in InteractionsList:', err);
-      }
-    };
-    
-    // Poll immediately
-    pollForUpdates();
-    
-    // Set up interval to poll every 30 seconds (increased from 5 seconds)
-    const interval = setInterval(pollForUpdates, 30000);
-    setPollingInterval(interval);
-    
-    // Clean up interval on unmount or when chat is closed
-    return () => {
-      if (pollingInterval) {
-        console.log('Cleaning up polling interval in InteractionsList');
-        clearInterval(pollingInterval);
-        setPollingInterval(null);
+        console.error('Error reloading advertisement in InteractionsList:', err);
       }
-    };
-  }, [advertisement.id, packageId, selectedInteraction, showChat, suiClient, lastPoll]);
-  
-  // Clean up polling when chat is closed
-  useEffect(() => {
-    if (!showChat && pollingInterval) {
-      console.log('Cleaning up polling interval (chat closed) in InteractionsList');
-      clearInterval(pollingInterval);
-      setPollingInterval(null);
     }
-  }, [showChat, pollingInterval]);
+  );
   
   // Handle view chat
   const handleViewChat = (interaction: Interaction, userAddress: string) => {
@@ -234,11 +184,97 @@ export function InteractionsList({
   };
   
   // Show release payment confirmation dialog
-  const showReleaseDialog = (interactionId: number) => {
-    setReleaseInteractionData({ interactionId });
+  const showReleaseDialog = (userAddress: string, interactionId: number) => {
+    setReleaseInteractionData({ userAddress, interactionId });
     setShowReleaseConfirmation(true);
   };
   
+  // Show review form for a finished interaction
+  const showReviewDialog = (userAddress: string, interactionId: number) => {
+    const interaction = advertisement.userProfiles[userAddress]?.interactions.find(i => i.id === interactionId);
+    setReviewInteraction(interaction || null);
+  };
+  
+  // Reload the advertisement after a transaction changed one of its interactions
+  const reloadAdvertisement = async () => {
+    const adData = await fetchAd(suiClient, advertisement.id, packageId);
+    if (adData) {
+      setAdvertisement(adData);
+    }
+  };
+  
+  // Close the review form and reload the advertisement to pick up the reviewed flags
+  const handleReviewSubmitted = async () => {
+    setReviewInteraction(null);
+    await reloadAdvertisement();
+  };
+  
+  // Handle refund of an interaction that has not been delivered yet (seller)
+  const handleRefund = (interactionUserAddress: string, interactionId: number) => {
+    if (!currentAccount) return;
+    
+    const tx = refundInteraction(packageId, advertisement.id, advertisement.coinType, interactionUserAddress, interactionId);
+    
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: async (result) => {
+          console.log('Interaction refunded:', result);
+          await reloadAdvertisement();
+        },
+        onError: (error) => {
+          console.error('Error refunding interaction:', error);
+        },
+      },
+    );
+  };
+  
+  // Handle cancellation request (buyer)
+  const handleRequestCancellation = (interactionUserAddress: string, interactionId: number) => {
+    if (!currentAccount) return;
+    
+    const tx = requestCancellation(packageId, advertisement.id, advertisement.coinType, interactionUserAddress, interactionId);
+    
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: async (result) => {
+          console.log('Cancellation requested:', result);
+          await reloadAdvertisement();
+        },
+        onError: (error) => {
+          console.error('Error requesting cancellation:', error);
+        },
+      },
+    );
+  };
+  
+  // Settle an interaction after the other party missed its deadline
+  const handleClaimTimeout = (interactionUserAddress: string, interactionId: number) => {
+    if (!currentAccount) return;
+    
+    const tx = claimAfterTimeout(packageId, advertisement.id, advertisement.coinType, statsRegistryId, treasuryId, interactionUserAddress, interactionId);
+    
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: async (result) => {
+          console.log('Timeout claimed:', result);
+          await reloadAdvertisement();
+        },
+        onError: (error) => {
+          console.error('Error claiming timeout:', error);
+        },
+      },
+    );
+  };
+  
   // Handle dispute
   const handleDispute = () => {
     if (!disputeInteractionData || !currentAccount) return;
@@ -250,6 +286,7 @@ export function InteractionsList({
     const tx = disputeInteraction(
       packageId,
       advertisement.id,
+      advertisement.coinType,
       disputeInteractionData.userAddress,
       disputeInteractionData.interactionId
     );
@@ -311,6 +348,15 @@ export function InteractionsList({
     }
   };
   
+  // Escrow left in the interaction being released, milestones paid earlier are already out
+  const releaseAmount = useMemo(() => {
+    if (!releaseInteractionData) return advertisement.amount;
+    const interaction = allInteractions.find(
+      (item) => item.interaction.id === releaseInteractionData.interactionId && item.userAddress === releaseInteractionData.userAddress
+    )?.interaction;
+    return interaction ? interaction.amount - interaction.releasedAmount : advertisement.amount;
+  }, [releaseInteractionData, allInteractions, advertisement.amount]);
+  
   // Handle release payment
   const handleReleasePayment = () => {
     if (!releaseInteractionData || !currentAccount) return;
@@ -321,6 +367,10 @@ export function InteractionsList({
     const tx = releasePayment(
       packageId,
       advertisement.id,
+      advertisement.coinType,
+      statsRegistryId,
+      treasuryId,
+      releaseInteractionData.userAddress,
       releaseInteractionData.interactionId
     );
     
@@ -342,7 +392,7 @@ export function InteractionsList({
             // Find and update the interaction
             Object.entries(updatedProfiles).forEach(([address, profile]) => {
               profile.interactions = profile.interactions.map(interaction => {
-                if (interaction.id === currentReleaseData?.interactionId) {
+                if (address === currentReleaseData?.userAddress && interaction.id === currentReleaseData.interactionId) {
                   return { ...interaction, state: INTERACTION_BUYER_APPROVED };
                 }
                 return interaction;
@@ -377,11 +427,14 @@ export function InteractionsList({
             <Tabs.Trigger value="waitingApproval">Waiting Approval</Tabs.Trigger>
             <Tabs.Trigger value="finished">Finished</Tabs.Trigger>
             <Tabs.Trigger value="disputed">Disputed</Tabs.Trigger>
+            <Tabs.Trigger value="offers">Offers ({advertisement.offers.length})</Tabs.Trigger>
           </Tabs.List>
         </Tabs.Root>
       )}
       
-      {interactions.length === 0 ? (
+      {activeTab === 'offers' ? (
+        <OffersList advertisement={advertisement} onOffersChanged={reloadAdvertisement} />
+      ) : interactions.length === 0 ? (
         <Card>
           <Text>No interactions yet.</Text>
         </Card>
@@ -393,7 +446,7 @@ export function InteractionsList({
                 <Flex gap="2" align="center">
                   <User size={16} />
                   <Text>
-                    User: {formatAddress(interactionUserAddress)}
+                    {interaction.seller === interactionUserAddress ? 'Seller' : 'Buyer'}: {formatAddress(interactionUserAddress)}
                   </Text>
                 </Flex>
                 {getStateBadge(interaction.state)}
@@ -408,8 +461,29 @@ export function InteractionsList({
                 <Flex gap="1" align="center">
                   <Text size="2">Interaction #{interaction.id}</Text>
                 </Flex>
+                
+                <DeadlineCountdown interaction={interaction} />
               </Flex>
               
+              {interaction.state === INTERACTION_RESOLVED && (
+                <Text size="2" color="gray">
+                  Admin resolution: buyer received {formatAmount(interaction.buyerPayout, advertisement.coinType)}, 
+                  seller received {formatAmount(interaction.sellerPayout, advertisement.coinType)}
+                </Text>
+              )}
+              
+              <MilestoneTracker
+                advertisement={advertisement}
+                interaction={interaction}
+                onMilestoneChanged={reloadAdvertisement}
+              />
+              
+              <DisputeEscalation
+                advertisement={advertisement}
+                interaction={interaction}
+                onEscalationChanged={reloadAdvertisement}
+              />
+              
               <Flex gap="2" justify="end">
                 {/* Use the reusable InteractionActionButtons component */}
                 <InteractionActionButtons
@@ -422,6 +496,10 @@ export function InteractionsList({
                   onMarkCompleted={onMarkCompleted}
                   onDispute={showDisputeDialog}
                   onReleasePayment={showReleaseDialog}
+                  onReview={showReviewDialog}
+                  onRefund={handleRefund}
+                  onRequestCancellation={handleRequestCancellation}
+                  onClaimTimeout={handleClaimTimeout}
                 />
                 
                 <Button 
@@ -453,9 +531,25 @@ export function InteractionsList({
         open={showReleaseConfirmation}
         onOpenChange={setShowReleaseConfirmation}
         onConfirm={handleReleasePayment}
-        amount={advertisement.amount}
+        amount={releaseAmount}
+        coinType={advertisement.coinType}
       />
       
+      <Dialog.Root open={!!reviewInteraction} onOpenChange={(open) => !open && setReviewInteraction(null)}>
+        <Dialog.Content style={{ maxWidth: 500 }}>
+          {reviewInteraction && (
+            <ReviewForm
+              advertisementId={advertisement.id}
+              coinType={advertisement.coinType}
+              advertisementTitle={advertisement.title}
+              interaction={reviewInteraction}
+              isForSeller={currentAccount?.address === reviewInteraction.buyer}
+              onReviewSubmitted={handleReviewSubmitted}
+            />
+          )}
+        </Dialog.Content>
+      </Dialog.Root>
+      
       {/* Simple Chat Popup - Appears directly in the page */}
       {showChat && selectedInteraction && (
         <div style={{
@@ -493,7 +587,7 @@ export function InteractionsList({
               <Box style={{ height: '70vh' }}>
                 <ChatWrapper 
                   advertisement={advertisement}
-                  userAddress={isCreator ? selectedInteraction.user : currentAccount?.address || ''}
+                  userAddress={selectedInteraction.user}
                   interactionId={selectedInteraction.id}
                   isCreator={isCreator}
                   isAdmin={false}
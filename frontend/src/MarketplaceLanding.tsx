@@ -1,14 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
 import { Button, Card, Flex, Grid, Text, Box, Tabs, Badge } from '@radix-ui/themes';
 import { Link } from 'react-router-dom';
 import { ShoppingBag, Store, ShieldCheck, DollarSign, Search, User, Settings, BarChart3, MessageCircle, Clock, CheckCircle } from 'lucide-react';
+import { useNetworkVariable } from './networkConfig';
+import { fetchAdminRegistry, isActiveAdmin } from './api';
 
 // Role types
 type Role = 'buyer' | 'seller' | 'admin';
 
 export function MarketplaceLanding() {
   const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const adminRegistryId = useNetworkVariable('adminRegistryId');
   // Use localStorage to persist role selection
   const [selectedRole, setSelectedRole] = useState<Role>(() => {
     const savedRole = localStorage.getItem('marketplaceRole');
@@ -16,24 +20,22 @@ export function MarketplaceLanding() {
   });
   const [isAdmin, setIsAdmin] = useState(false);
   
-  // Check if user is admin (in a real app, this would check against a list of admin addresses)
+  // Check if user is an active admin in the on-chain admin registry
   useEffect(() => {
-    // For demo purposes, we'll just set a hardcoded check
-    // In a real app, this would be a check against a list of admin addresses
-    // Using the first few characters of the address for demo purposes
-    const isAdminUser = currentAccount?.address && 
-      (currentAccount.address.startsWith('0x123') || 
-       currentAccount.address.startsWith('0xabc') ||
-       // Allow any address to be admin for demo purposes if it ends with specific characters
-       currentAccount.address.endsWith('789'));
-    
-    setIsAdmin(!!isAdminUser);
+    const checkAdmin = async () => {
+      const adminRegistry = await fetchAdminRegistry(suiClient, adminRegistryId);
+      const isAdminUser = isActiveAdmin(adminRegistry, currentAccount?.address);
+      
+      setIsAdmin(isAdminUser);
+      
+      // If the user was previously on admin role but is not an admin, reset to buyer role
+      if (selectedRole === 'admin' && !isAdminUser) {
+        setSelectedRole('buyer');
+      }
+    };
     
-    // If the user was previously on admin role but is not an admin, reset to buyer role
-    if (selectedRole === 'admin' && !isAdminUser) {
-      setSelectedRole('buyer');
-    }
-  }, [currentAccount, selectedRole]);
+    checkAdmin();
+  }, [currentAccount, selectedRole, suiClient, adminRegistryId]);
 
   // Role card styling
   const getRoleCardStyle = (role: Role) => {
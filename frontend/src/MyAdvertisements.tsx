@@ -1,22 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
 import { Transaction } from '@mysten/sui/transactions';
 import { Button, Card, Flex, Text, Heading, Badge, Tabs, Box, Dialog, Separator } from '@radix-ui/themes';
 import { DisputeConfirmation, ReleasePaymentConfirmation, MarkCompletedConfirmation } from './components/ConfirmationDialogs';
 import { useNetworkVariable } from './networkConfig';
 import { Link, useNavigate } from 'react-router-dom';
-import { Clock, DollarSign, User, MessageCircle, AlertCircle, CheckCircle, Users, X } from 'lucide-react';
-import { Advertisement, Interaction, STATE_AVAILABLE, STATE_JOINED, STATE_COMPLETED, STATE_DISPUTED, INTERACTION_JOINED, INTERACTION_SELLER_COMPLETED, INTERACTION_BUYER_APPROVED, INTERACTION_DISPUTED } from './types';
+import { Clock, DollarSign, User, MessageCircle, AlertCircle, CheckCircle, Users, X, PauseCircle, PlayCircle, Pencil } from 'lucide-react';
+import { Advertisement, Interaction, STATE_AVAILABLE, STATE_JOINED, STATE_COMPLETED, STATE_DISPUTED, INTERACTION_JOINED, INTERACTION_SELLER_COMPLETED, INTERACTION_BUYER_APPROVED, INTERACTION_DISPUTED, INTERACTION_RESOLVED, INTERACTION_CANCELLED, LISTING_ACTIVE, LISTING_PAUSED, LISTING_CLOSED, AD_KIND_BUY, SUI_COIN_INFO } from './types';
 import { InteractionsList } from './InteractionsList';
 import { ChatWrapper } from './components/ChatWrapper';
+import { InfiniteScrollTrigger } from './components/InfiniteScrollTrigger';
+import { useCoinMetadata } from './contexts/useCoinMetadata';
 import { 
-  fetchAdvertisements, 
+  fetchAdvertisementsPage, 
+  fetchAdvertisement, 
   getMyCreatedAdvertisements, 
   getMyJoinedAdvertisements, 
   markInteractionCompleted,
   releasePayment,
   disputeInteraction,
-  formatCurrency,
+  fetchMarketplaceCapId,
+  setAdvertisementPaused,
+  closeAdvertisement,
+  fundAdvertisement,
+  withdrawBudget,
   formatAddress,
   getStateInfo,
   DisplayAdvertisement,
@@ -30,9 +37,12 @@ interface MyAdvertisementsProps {
 export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
   const navigate = useNavigate();
   const packageId = useNetworkVariable('packageId');
+  const statsRegistryId = useNetworkVariable('statsRegistryId');
+  const treasuryId = useNetworkVariable('treasuryId');
   const registryId = useNetworkVariable('registryId');
   const suiClient = useSuiClient();
   const currentAccount = useCurrentAccount();
+  const { formatAmount } = useCoinMetadata();
   
   // State for advertisements - this will hold either created or joined ads based on routeMode
   const [advertisements, setAdvertisements] = useState<DisplayAdvertisement[]>([]);
@@ -40,6 +50,9 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('all');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   
   // State for interactions dialog and chat dialog
   const [showInteractions, setShowInteractions] = useState(false);
@@ -51,7 +64,7 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
   const [showReleaseConfirmation, setShowReleaseConfirmation] = useState(false);
   const [showMarkCompletedConfirmation, setShowMarkCompletedConfirmation] = useState(false);
   const [disputeData, setDisputeData] = useState<{advertisementId: string, userAddress: string, interactionId: number} | null>(null);
-  const [releaseData, setReleaseData] = useState<{advertisementId: string, interactionId: number} | null>(null);
+  const [releaseData, setReleaseData] = useState<{advertisementId: string, userAddress: string, interactionId: number} | null>(null);
   const [markCompletedData, setMarkCompletedData] = useState<{advertisementId: string, joinedBy: string, interactionId: number} | null>(null);
   const [isDisputing, setIsDisputing] = useState(false);
   
@@ -68,7 +81,28 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
       }),
   });
   
-  // Load advertisements
+  // Fetch one page of advertisements and keep the ones relevant to the current mode
+  const loadPage = useCallback(async (cursor: string | null) => {
+    if (!currentAccount) return;
+    
+    const page = await fetchAdvertisementsPage(suiClient, packageId, registryId, cursor);
+    let relevantAdsRaw: Advertisement[] = [];
+
+    if (routeMode === 'seller') { // Freelancer mode ("My Listings")
+      relevantAdsRaw = getMyCreatedAdvertisements(page.advertisements, currentAccount.address);
+    } else { // Client mode ("My Deals")
+      const joinedAdsRaw = getMyJoinedAdvertisements(page.advertisements, currentAccount.address);
+      // Ensure client doesn't see ads they created, even if they interacted with them
+      relevantAdsRaw = joinedAdsRaw.filter(ad => ad.creator !== currentAccount.address);
+    }
+    
+    const displayAds = relevantAdsRaw.map(ad => convertToDisplayAdvertisement(ad, currentAccount.address));
+    setAdvertisements(prev => cursor ? [...prev, ...displayAds] : displayAds);
+    setNextCursor(page.nextCursor);
+    setHasNextPage(page.hasNextPage);
+  }, [currentAccount, packageId, registryId, suiClient, routeMode]);
+  
+  // Load the first page of advertisements
   useEffect(() => {
     const loadAdvertisements = async () => {
       setIsLoading(true);
@@ -76,23 +110,11 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
       
       try {
         if (suiClient && currentAccount) {
-          const allAdsRaw = await fetchAdvertisements(suiClient, packageId, registryId);
-          let relevantAdsRaw: Advertisement[] = [];
-
-          if (routeMode === 'seller') { // Freelancer mode ("My Listings")
-            relevantAdsRaw = getMyCreatedAdvertisements(allAdsRaw, currentAccount.address);
-          } else { // Client mode ("My Deals")
-            const joinedAdsRaw = getMyJoinedAdvertisements(allAdsRaw, currentAccount.address);
-            // Ensure client doesn't see ads they created, even if they interacted with them
-            relevantAdsRaw = joinedAdsRaw.filter(ad => ad.creator !== currentAccount.address);
-          }
-          
-          const displayAds = relevantAdsRaw.map(ad => convertToDisplayAdvertisement(ad, currentAccount.address));
-          setAdvertisements(displayAds);
-          setFilteredAds(displayAds); 
+          await loadPage(null);
         } else {
           setAdvertisements([]); 
           setFilteredAds([]);
+          setHasNextPage(false);
         }
         setIsLoading(false);
       } catch (err) {
@@ -103,7 +125,21 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
     };
     
     loadAdvertisements();
-  }, [currentAccount, packageId, registryId, suiClient, routeMode]);
+  }, [currentAccount, loadPage, routeMode, suiClient]);
+  
+  // Load the next page when the user scrolls to the end of the list
+  const loadMoreAdvertisements = useCallback(async () => {
+    if (!hasNextPage || isLoadingMore) return;
+    
+    setIsLoadingMore(true);
+    try {
+      await loadPage(nextCursor);
+    } catch (err) {
+      console.error(`Error fetching more data for ${routeMode} mode:`, err);
+      setError(`Failed to load more ${routeMode === 'client' ? 'deals' : 'listings'}. Please try again.`);
+    }
+    setIsLoadingMore(false);
+  }, [hasNextPage, isLoadingMore, loadPage, nextCursor, routeMode]);
   
   // Filter advertisements based on active tab
   useEffect(() => {
@@ -133,7 +169,11 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
           filtered = filtered.filter(ad => ad.userInteraction?.state === INTERACTION_SELLER_COMPLETED);
           break;
         case 'finished': 
-          filtered = filtered.filter(ad => ad.userInteraction?.state === INTERACTION_BUYER_APPROVED);
+          filtered = filtered.filter(ad =>
+            ad.userInteraction?.state === INTERACTION_BUYER_APPROVED ||
+            ad.userInteraction?.state === INTERACTION_RESOLVED ||
+            ad.userInteraction?.state === INTERACTION_CANCELLED
+          );
           break;
         case 'disputed':
           filtered = filtered.filter(ad => ad.userInteraction?.state === INTERACTION_DISPUTED);
@@ -163,6 +203,10 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
           return <Badge color="green">Completed</Badge>;
         case INTERACTION_DISPUTED:
           return <Badge color="red">Disputed</Badge>;
+        case INTERACTION_RESOLVED:
+          return <Badge color="orange">Resolved by Admin</Badge>;
+        case INTERACTION_CANCELLED:
+          return <Badge color="gray">Cancelled</Badge>;
         default:
           break;
       }
@@ -186,11 +230,30 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
   };
   
   // Show release payment confirmation dialog
-  const showReleaseDialog = (advertisementId: string, interactionId: number) => {
-    setReleaseData({ advertisementId, interactionId });
+  const showReleaseDialog = (advertisementId: string, userAddress: string, interactionId: number) => {
+    setReleaseData({ advertisementId, userAddress, interactionId });
     setShowReleaseConfirmation(true);
   };
   
+  // Coin type of a listed advertisement or of the one whose interactions are shown
+  const getCoinType = (advertisementId: string): string => {
+    if (selectedAdvertisement?.id === advertisementId) {
+      return selectedAdvertisement.coinType;
+    }
+    const ad = advertisements.find(ad => ad.id === advertisementId);
+    if (!ad) {
+      throw new Error(`Advertisement ${advertisementId} is not loaded`);
+    }
+    return ad.coinType;
+  };
+
+  // Escrow left in the user's interaction, milestones paid earlier are already out
+  const getRemainingEscrow = (advertisementId: string): number => {
+    const ad = advertisements.find(ad => ad.id === advertisementId);
+    if (!ad?.userInteraction) return ad?.amount ?? 0;
+    return ad.userInteraction.amount - ad.userInteraction.releasedAmount;
+  };
+
   // Mark advertisement as completed
   const markCompleted = () => {
     if (!markCompletedData) return;
@@ -201,6 +264,7 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
     const tx = markInteractionCompleted(
       packageId,
       advertisementId,
+      getCoinType(advertisementId),
       joinedBy,
       interactionId
     );
@@ -229,10 +293,86 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
     );
   };
   
-  // Cancel advertisement (not implemented in the contract yet)
-  const cancelAdvertisement = (advertisementId: string) => {
-    // This would be implemented in a real application
-    alert('Cancel advertisement functionality would be implemented in a real application');
+  // Pause, resume or close one of the seller's listings using its marketplace cap
+  const updateListing = async (advertisementId: string, action: 'pause' | 'resume' | 'close') => {
+    if (!currentAccount) return;
+    
+    const capId = await fetchMarketplaceCapId(suiClient, packageId, currentAccount.address, advertisementId);
+    if (!capId) {
+      setError('The marketplace cap of this listing was not found in your wallet.');
+      return;
+    }
+    
+    const tx = action === 'close'
+      ? closeAdvertisement(packageId, advertisementId, getCoinType(advertisementId), capId)
+      : setAdvertisementPaused(
+          packageId,
+          action === 'pause' ? 'pause_advertisement' : 'resume_advertisement',
+          advertisementId,
+          getCoinType(advertisementId),
+          capId
+        );
+    
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: async (result) => {
+          console.log(`Listing updated (${action}):`, result);
+          // Closed listings stay listed here, their deals may still be running
+          const status = action === 'close' ? LISTING_CLOSED : action === 'pause' ? LISTING_PAUSED : LISTING_ACTIVE;
+          setAdvertisements(prev => prev.map(ad => ad.id === advertisementId ? { ...ad, status } : ad));
+        },
+        onError: (error) => {
+          console.error(`Error updating listing (${action}):`, error);
+          setError('Failed to update the listing. Please try again.');
+        },
+      },
+    );
+  };
+  
+  // Top up the budget of a buy listing by one deal, or take all of it back using the listing's marketplace cap
+  const updateBudget = async (advertisementId: string, action: 'fund' | 'withdraw') => {
+    if (!currentAccount) return;
+    
+    const ad = advertisements.find(ad => ad.id === advertisementId);
+    if (!ad) return;
+    
+    let tx: Transaction;
+    try {
+      if (action === 'fund') {
+        tx = await fundAdvertisement(suiClient, packageId, advertisementId, ad.coinType, currentAccount.address, ad.amount);
+      } else {
+        const capId = await fetchMarketplaceCapId(suiClient, packageId, currentAccount.address, advertisementId);
+        if (!capId) {
+          setError('The marketplace cap of this listing was not found in your wallet.');
+          return;
+        }
+        tx = withdrawBudget(packageId, advertisementId, ad.coinType, capId, ad.budget);
+      }
+    } catch (err) {
+      console.error(`Error preparing budget update (${action}):`, err);
+      setError(err instanceof Error ? err.message : 'Failed to prepare the budget update.');
+      return;
+    }
+    
+    const budget = action === 'fund' ? ad.budget + ad.amount : 0;
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: async (result) => {
+          console.log(`Budget updated (${action}):`, result);
+          setAdvertisements(prev => prev.map(ad => ad.id === advertisementId ? { ...ad, budget } : ad));
+        },
+        onError: (error) => {
+          console.error(`Error updating budget (${action}):`, error);
+          setError('Failed to update the budget. Please try again.');
+        },
+      },
+    );
   };
   
   // View interactions for an advertisement
@@ -240,8 +380,7 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
     try {
       if (suiClient) {
         // Fetch the full advertisement data
-        const adData = await fetchAdvertisements(suiClient, packageId, registryId);
-        const ad = adData.find(a => a.id === advertisementId);
+        const ad = await fetchAdvertisement(suiClient, advertisementId, packageId);
         
         if (ad) {
           setSelectedAdvertisement(ad);
@@ -267,12 +406,16 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
   const handleReleasePayment = () => {
     if (!releaseData) return;
     
-    const { advertisementId, interactionId } = releaseData;
+    const { advertisementId, userAddress, interactionId } = releaseData;
     setShowReleaseConfirmation(false);
     // Use the releasePayment function from api.ts
     const tx = releasePayment(
       packageId,
       advertisementId,
+      getCoinType(advertisementId),
+      statsRegistryId,
+      treasuryId,
+      userAddress,
       interactionId
     );
     
@@ -311,6 +454,7 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
     const tx = disputeInteraction(
       packageId,
       advertisementId,
+      getCoinType(advertisementId),
       userAddress,
       interactionId
     );
@@ -375,7 +519,7 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
         <Text>Loading {routeMode === 'client' ? 'your deals' : 'your listings'}...</Text>
       ) : error ? (
         <Text color="red">{error}</Text>
-      ) : filteredAds.length === 0 ? (
+      ) : filteredAds.length === 0 && !hasNextPage ? (
         <Card>
           <Flex direction="column" gap="3" align="center" justify="center" style={{ padding: '32px' }}>
             <Text>
@@ -401,7 +545,12 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
               <Flex direction="column" gap="3">
                 <Flex justify="between" align="start">
                   <Heading size="3">{ad.title}</Heading>
-                  {getStateBadge(ad.state, ad.userInteraction?.state)}
+                  <Flex gap="2">
+                    {ad.kind === AD_KIND_BUY && <Badge color="purple">Buying</Badge>}
+                    {ad.status === LISTING_PAUSED && <Badge color="gray">Paused</Badge>}
+                    {ad.status === LISTING_CLOSED && <Badge color="red">Closed</Badge>}
+                    {getStateBadge(ad.state, ad.userInteraction?.state)}
+                  </Flex>
                 </Flex>
                 
                 <Text size="2">{ad.description}</Text>
@@ -409,13 +558,17 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
                 <Flex gap="3" align="center">
                   <Flex gap="1" align="center">
                     <DollarSign size={16} />
-                    <Text weight="bold">{formatCurrency(ad.amount)}</Text>
+                    <Text weight="bold">{formatAmount(ad.amount, ad.coinType)}</Text>
                   </Flex>
                   
                   <Flex gap="1" align="center">
                     <Clock size={16} />
                     <Text size="2">{new Date(ad.createdAt).toLocaleDateString()}</Text>
                   </Flex>
+                  
+                  {ad.kind === AD_KIND_BUY && (
+                    <Text size="2" color="gray">Budget left: {formatAmount(ad.budget, ad.coinType)}</Text>
+                  )}
                 </Flex>
                 
                 {ad.joinedBy && (
@@ -423,8 +576,8 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
                     <User size={16} />
                     <Text size="2">
                       {/* Seller view: show who they are interacting with (joinedBy) */}
-                      {/* Client view: show who the seller is (creator) */}
-                      {routeMode === 'seller' && ad.joinedBy ? 'Interacting with: ' : 'Seller: '}
+                      {/* Client view: show who created the advertisement, the buyer of a buy advertisement */}
+                      {routeMode === 'seller' && ad.joinedBy ? 'Interacting with: ' : ad.kind === AD_KIND_BUY ? 'Buyer: ' : 'Seller: '}
                       {routeMode === 'seller' && ad.joinedBy ? formatAddress(ad.joinedBy) : formatAddress(ad.creator)}
                     </Text>
                   </Flex>
@@ -434,14 +587,57 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
                   {/* Seller (Freelancer) specific actions on their listings */}
                   {routeMode === 'seller' && ad.creator === currentAccount?.address && (
                     <>
-                      {ad.state === 0 && ( // Available listing (no interaction yet)
-                        <Button 
-                          variant="soft" 
-                          color="red" 
-                          onClick={() => cancelAdvertisement(ad.id)}
-                        >
-                          Cancel Listing
-                        </Button>
+                      {/* Closed listings can no longer be changed, only their budget withdrawn */}
+                      {ad.status !== LISTING_CLOSED && (
+                        <>
+                          {ad.status === LISTING_ACTIVE ? (
+                            <Button 
+                              variant="soft" 
+                              onClick={() => updateListing(ad.id, 'pause')}
+                            >
+                              <PauseCircle size={16} /> Pause Listing
+                            </Button>
+                          ) : (
+                            <Button 
+                              variant="soft" 
+                              onClick={() => updateListing(ad.id, 'resume')}
+                            >
+                              <PlayCircle size={16} /> Resume Listing
+                            </Button>
+                          )}
+                          <Button 
+                            variant="soft" 
+                            onClick={() => navigate(`/marketplace/edit/${ad.id}`)}
+                          >
+                            <Pencil size={16} /> Edit Listing
+                          </Button>
+                          <Button 
+                            variant="soft" 
+                            color="red" 
+                            onClick={() => updateListing(ad.id, 'close')}
+                          >
+                            Close Listing
+                          </Button>
+                        </>
+                      )}
+                      
+                      {/* Buy listings pay each provider out of their budget */}
+                      {ad.kind === AD_KIND_BUY && (
+                        <>
+                          {ad.status !== LISTING_CLOSED && (
+                            <Button variant="soft" onClick={() => updateBudget(ad.id, 'fund')}>
+                              Top Up Budget
+                            </Button>
+                          )}
+                          <Button
+                            variant="soft"
+                            color="orange"
+                            onClick={() => updateBudget(ad.id, 'withdraw')}
+                            disabled={ad.budget === 0}
+                          >
+                            Withdraw Budget
+                          </Button>
+                        </>
                       )}
                       
                       {/* Actions for listings with interactions */}
@@ -464,8 +660,32 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
                     </>
                   )}
                   
-                  {/* Client (Buyer) specific actions on ads they've joined */}
-                  {routeMode === 'client' && ad.userInteraction && (
+                  {/* Client (Provider) specific actions on buy ads they've joined */}
+                  {routeMode === 'client' && ad.userInteraction && ad.kind === AD_KIND_BUY && (
+                    <>
+                      {ad.userInteraction.state === INTERACTION_JOINED && (
+                        <Button 
+                          color="green" 
+                          onClick={() => showMarkCompletedDialog(ad.id, currentAccount!.address, ad.userInteraction!.id)}
+                        >
+                          <CheckCircle size={16} /> Mark Completed
+                        </Button>
+                      )}
+                      
+                      {(ad.userInteraction.state === INTERACTION_JOINED ||
+                        ad.userInteraction.state === INTERACTION_SELLER_COMPLETED) && (
+                        <Button 
+                          color="red" variant="soft"
+                          onClick={() => showDisputeDialog(ad.id, currentAccount!.address, ad.userInteraction!.id)}
+                        >
+                          <AlertCircle size={16} /> Dispute
+                        </Button>
+                      )}
+                    </>
+                  )}
+                  
+                  {/* Client (Buyer) specific actions on sell ads they've joined */}
+                  {routeMode === 'client' && ad.userInteraction && ad.kind !== AD_KIND_BUY && (
                     <>
                       {ad.userInteraction.state === INTERACTION_JOINED && (
                         <Button 
@@ -480,7 +700,7 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
                         <Flex gap="2">
                           <Button 
                             color="green" 
-                            onClick={() => showReleaseDialog(ad.id, ad.userInteraction!.id)}
+                            onClick={() => showReleaseDialog(ad.id, currentAccount!.address, ad.userInteraction!.id)}
                           >
                             <CheckCircle size={16} /> Release Payment
                           </Button>
@@ -519,8 +739,7 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
                         
                         try {
                           // Fetch the full advertisement data which includes userProfiles
-                          const adData = await fetchAdvertisements(suiClient, packageId, registryId);
-                          const fullAd = adData.find(a => a.id === ad.id);
+                          const fullAd = await fetchAdvertisement(suiClient, ad.id, packageId);
                           
                           if (fullAd) {
                             setSelectedAdvertisement(fullAd);
@@ -554,6 +773,14 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
         </Flex>
       )}
       
+      {!isLoading && !error && (
+        <InfiniteScrollTrigger
+          hasMore={hasNextPage}
+          isLoading={isLoadingMore}
+          onLoadMore={loadMoreAdvertisements}
+        />
+      )}
+      
       {/* Confirmation Dialogs */}
       <DisputeConfirmation 
         open={showDisputeConfirmation}
@@ -566,7 +793,8 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
         open={showReleaseConfirmation}
         onOpenChange={setShowReleaseConfirmation}
         onConfirm={handleReleasePayment}
-        amount={releaseData?.advertisementId ? advertisements.find(ad => ad.id === releaseData.advertisementId)?.amount || 0 : 0}
+        amount={releaseData?.advertisementId ? getRemainingEscrow(releaseData.advertisementId) : 0}
+        coinType={releaseData?.advertisementId ? getCoinType(releaseData.advertisementId) : SUI_COIN_INFO.coinType}
       />
       
       <MarkCompletedConfirmation 
@@ -650,9 +878,9 @@ export function MyAdvertisements({ routeMode }: MyAdvertisementsProps) {
                       showDisputeDialog(selectedAdvertisement.id, userAddress, interactionId);
                     }
                   }}
-                  onReleasePayment={(interactionId: number) => {
+                  onReleasePayment={(userAddress: string, interactionId: number) => {
                     if (selectedAdvertisement) {
-                      showReleaseDialog(selectedAdvertisement.id, interactionId);
+                      showReleaseDialog(selectedAdvertisement.id, userAddress, interactionId);
                     }
                   }}
                 />
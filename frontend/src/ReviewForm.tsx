@@ -1,28 +1,32 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
-import { Transaction } from '@mysten/sui/transactions';
 import { Button, Card, Flex, Text, Heading, Box } from '@radix-ui/themes';
 import { useNetworkVariable } from './networkConfig';
 import { Star } from 'lucide-react';
+import { Interaction, Review } from './types';
+import { addReview, fetchInteractionReviews, formatAddress } from './api';
 
 interface ReviewFormProps {
   advertisementId: string;
+  coinType: string; // Coin the advertisement is paid in
   advertisementTitle: string;
-  counterpartyAddress: string;
-  isForSeller: boolean;
+  interaction: Interaction;
+  isForSeller: boolean; // True when the buyer reviews the seller
   onReviewSubmitted: () => void;
   debugMode?: boolean;
 }
 
 export function ReviewForm({
   advertisementId,
+  coinType,
   advertisementTitle,
-  counterpartyAddress,
+  interaction,
   isForSeller,
   onReviewSubmitted,
   debugMode = false
 }: ReviewFormProps) {
   const packageId = useNetworkVariable('packageId');
+  const statsRegistryId = useNetworkVariable('statsRegistryId');
   const suiClient = useSuiClient();
   const currentAccount = useCurrentAccount();
   
@@ -30,6 +34,28 @@ export function ReviewForm({
   const [comment, setComment] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [existingReviews, setExistingReviews] = useState<Review[]>([]);
+
+  const counterpartyAddress = isForSeller ? interaction.seller : interaction.buyer;
+
+  // Each side of the deal can only review once
+  const hasReviewed = (isForSeller ? interaction.buyerReviewed : interaction.sellerReviewed) ||
+    existingReviews.some(review => review.reviewer === currentAccount?.address);
+
+  // Load reviews already left for this interaction
+  useEffect(() => {
+    const loadReviews = async () => {
+      const reviews = await fetchInteractionReviews(
+        suiClient,
+        statsRegistryId,
+        advertisementId,
+        interaction
+      );
+      setExistingReviews(reviews);
+    };
+
+    loadReviews();
+  }, [advertisementId, interaction, statsRegistryId, suiClient]);
   
   const { mutate: signAndExecute } = useSignAndExecuteTransaction({
     execute: async ({ bytes, signature }) =>
@@ -60,18 +86,16 @@ export function ReviewForm({
       return;
     }
     
-    const tx = new Transaction();
-    tx.moveCall({
-      target: `${packageId}::marketplace::add_review`,
-      arguments: [
-        tx.object(advertisementId),
-        tx.pure.address(counterpartyAddress),
-        tx.pure.u8(rating),
-        tx.pure.string(comment),
-        tx.pure.bool(isForSeller),
-      ],
-    });
-    tx.setGasBudget(10000000);
+    const tx = addReview(
+      packageId,
+      advertisementId,
+      coinType,
+      statsRegistryId,
+      interaction.user,
+      interaction.id,
+      rating,
+      comment
+    );
     
     signAndExecute(
       {
@@ -100,64 +124,102 @@ export function ReviewForm({
         </Heading>
         
         <Text size="2">
-          Your review helps build trust in the marketplace. Please be honest and constructive.
+          {advertisementTitle} · Interaction #{interaction.id} with {formatAddress(counterpartyAddress)}
         </Text>
         
-        <Flex direction="column" gap="2">
-          <Text weight="bold">Rating</Text>
-          <Flex gap="1">
-            {[1, 2, 3, 4, 5].map((star) => (
-              <Button 
-                key={star} 
-                variant="ghost" 
-                onClick={() => setRating(star)}
-                style={{ 
-                  color: star <= rating ? 'var(--amber-9)' : 'var(--gray-5)',
-                  padding: '4px'
-                }}
-              >
-                <Star size={24} fill={star <= rating ? 'var(--amber-9)' : 'none'} />
-              </Button>
+        {existingReviews.length > 0 && (
+          <Flex direction="column" gap="2">
+            <Text weight="bold">Reviews for this deal</Text>
+            {existingReviews.map((review) => (
+              <Box key={`${review.reviewer}-${review.timestamp}`}>
+                <Flex gap="1" align="center">
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <Star
+                      key={star}
+                      size={14}
+                      color="var(--amber-9)"
+                      fill={star <= review.rating ? 'var(--amber-9)' : 'none'}
+                    />
+                  ))}
+                  <Text size="1" color="gray" style={{ marginLeft: '4px' }}>
+                    {review.reviewer === currentAccount?.address ? 'You' : formatAddress(review.reviewer)}
+                  </Text>
+                </Flex>
+                <Text size="2">{review.comment}</Text>
+              </Box>
             ))}
           </Flex>
-        </Flex>
+        )}
+        
+        {hasReviewed ? (
+          <Flex justify="end">
+            <Button variant="soft" onClick={() => onReviewSubmitted()}>
+              Close
+            </Button>
+          </Flex>
+        ) : (
+          <>
+            <Text size="2">
+              Your review helps build trust in the marketplace. Please be honest and constructive.
+            </Text>
         
-        <Flex direction="column" gap="2">
-          <Text weight="bold">Comment</Text>
-          <textarea 
-            placeholder="Share your experience..."
-            value={comment}
-            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setComment(e.target.value)}
-            style={{ 
-              width: '100%', 
-              padding: '8px', 
-              borderRadius: '4px', 
-              border: '1px solid var(--gray-5)',
-              minHeight: '100px',
-              resize: 'vertical'
-            }}
-          />
-        </Flex>
+            <Flex direction="column" gap="2">
+              <Text weight="bold">Rating</Text>
+              <Flex gap="1">
+                {[1, 2, 3, 4, 5].map((star) => (
+                  <Button 
+                    key={star} 
+                    variant="ghost" 
+                    onClick={() => setRating(star)}
+                    style={{ 
+                      color: star <= rating ? 'var(--amber-9)' : 'var(--gray-5)',
+                      padding: '4px'
+                    }}
+                  >
+                    <Star size={24} fill={star <= rating ? 'var(--amber-9)' : 'none'} />
+                  </Button>
+                ))}
+              </Flex>
+            </Flex>
         
-        {error && (
-          <Text color="red" size="2">{error}</Text>
-        )}
+            <Flex direction="column" gap="2">
+              <Text weight="bold">Comment</Text>
+              <textarea 
+                placeholder="Share your experience..."
+                value={comment}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setComment(e.target.value)}
+                style={{ 
+                  width: '100%', 
+                  padding: '8px', 
+                  borderRadius: '4px', 
+                  border: '1px solid var(--gray-5)',
+                  minHeight: '100px',
+                  resize: 'vertical'
+                }}
+              />
+            </Flex>
+        
+            {error && (
+              <Text color="red" size="2">{error}</Text>
+            )}
         
-        <Flex gap="3" justify="end">
-          <Button 
-            variant="soft" 
-            onClick={() => onReviewSubmitted()}
-            disabled={isSubmitting}
-          >
-            Skip
-          </Button>
-          <Button 
-            onClick={submitReview}
-            disabled={isSubmitting}
-          >
-            {isSubmitting ? 'Submitting...' : 'Submit Review'}
-          </Button>
-        </Flex>
+            <Flex gap="3" justify="end">
+              <Button 
+                variant="soft" 
+                onClick={() => onReviewSubmitted()}
+                disabled={isSubmitting}
+              >
+                Skip
+              </Button>
+              <Button 
+                onClick={submitReview}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? 'Submitting...' : 'Submit Review'}
+              </Button>
+            </Flex>
+          </>
+        )}
       </Flex>
     </Card>
   );
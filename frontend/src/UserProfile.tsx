@@ -1,9 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
 import { Button, Card, Flex, Text, Heading, Badge, Tabs, Box, Avatar, Grid, Separator } from '@radix-ui/themes';
 import { useNetworkVariable } from './networkConfig';
 import { useParams } from 'react-router-dom';
 import { Star, DollarSign, Users, CheckCircle, AlertCircle, Clock, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { INTERACTION_BUYER_APPROVED, INTERACTION_RESOLVED, SUI_COIN_INFO } from './types';
+import { useIndexer } from './contexts/useIndexer';
+import { useCoinMetadata } from './contexts/useCoinMetadata';
+import {
+  fetchUserReputation,
+  fetchReviews,
+  getAverageRating,
+  formatCurrency,
+  formatAddress
+} from './api';
 
 // User profile interface
 interface UserProfile {
@@ -21,7 +31,9 @@ interface Transaction {
   id: string;
   advertisementId: string;
   advertisementTitle: string;
-  amount: number;
+  amount: number; // What changed hands, refunds from a dispute resolution are left out
+  refunded: number; // Returned to the buyer by a dispute resolution
+  coinType: string;
   counterparty: string;
   type: 'buy' | 'sell';
   state: 'completed' | 'disputed';
@@ -32,117 +44,29 @@ interface Transaction {
 interface Review {
   id: string;
   advertisementId: string;
-  advertisementTitle: string;
   reviewer: string;
   rating: number;
   comment: string;
   createdAt: number;
 }
 
-// Mock data for user profile (will be replaced with real data from blockchain)
-const mockUserProfile: UserProfile = {
-  address: '0x123456789abcdef123456789abcdef123456789abcdef123456789abcdef',
-  rating: 4.8,
-  totalDeals: 42,
-  totalVolume: 23750,
-  peacefulResolutions: 40,
-  disputedDeals: 2,
-  joinDate: Date.now() - 3600000 * 24 * 180 // 180 days ago
-};
-
-// Mock data for transactions (will be replaced with real data from blockchain)
-const mockTransactions: Transaction[] = [
-  {
-    id: '0x123456789abcdef1',
-    advertisementId: '0x123456789abcdef1',
-    advertisementTitle: 'Sell 500 USDT for cash',
-    amount: 490,
-    counterparty: '0x7890abcdef123456',
-    type: 'sell',
-    state: 'completed',
-    completedAt: Date.now() - 3600000 * 24 * 5 // 5 days ago
-  },
-  {
-    id: '0x123456789abcdef2',
-    advertisementId: '0x123456789abcdef2',
-    advertisementTitle: 'Sell 200 USDT for cash',
-    amount: 198,
-    counterparty: '0x7890abcdef123457',
-    type: 'sell',
-    state: 'completed',
-    completedAt: Date.now() - 3600000 * 24 * 10 // 10 days ago
-  },
-  {
-    id: '0x123456789abcdef3',
-    advertisementId: '0x123456789abcdef3',
-    advertisementTitle: 'Buy 750 USDT',
-    amount: 735,
-    counterparty: '0x7890abcdef123458',
-    type: 'buy',
-    state: 'completed',
-    completedAt: Date.now() - 3600000 * 24 * 15 // 15 days ago
-  },
-  {
-    id: '0x123456789abcdef4',
-    advertisementId: '0x123456789abcdef4',
-    advertisementTitle: 'Sell 300 USDT for cash',
-    amount: 295,
-    counterparty: '0x7890abcdef123459',
-    type: 'sell',
-    state: 'disputed',
-    completedAt: Date.now() - 3600000 * 24 * 20 // 20 days ago
-  }
-];
-
-// Mock data for reviews (will be replaced with real data from blockchain)
-const mockReviews: Review[] = [
-  {
-    id: '0x123456789abcdef1',
-    advertisementId: '0x123456789abcdef1',
-    advertisementTitle: 'Sell 500 USDT for cash',
-    reviewer: '0x7890abcdef123456',
-    rating: 5,
-    comment: 'Great seller, very fast and reliable. Would trade again!',
-    createdAt: Date.now() - 3600000 * 24 * 5 // 5 days ago
-  },
-  {
-    id: '0x123456789abcdef2',
-    advertisementId: '0x123456789abcdef2',
-    advertisementTitle: 'Sell 200 USDT for cash',
-    reviewer: '0x7890abcdef123457',
-    rating: 5,
-    comment: 'Smooth transaction, no issues at all.',
-    createdAt: Date.now() - 3600000 * 24 * 10 // 10 days ago
-  },
-  {
-    id: '0x123456789abcdef3',
-    advertisementId: '0x123456789abcdef3',
-    advertisementTitle: 'Buy 750 USDT',
-    reviewer: '0x7890abcdef123458',
-    rating: 4,
-    comment: 'Good buyer, but took a bit longer than expected to complete the transaction.',
-    createdAt: Date.now() - 3600000 * 24 * 15 // 15 days ago
-  },
-  {
-    id: '0x123456789abcdef4',
-    advertisementId: '0x123456789abcdef4',
-    advertisementTitle: 'Sell 300 USDT for cash',
-    reviewer: '0x7890abcdef123459',
-    rating: 2,
-    comment: 'Had some issues with the payment, but eventually resolved.',
-    createdAt: Date.now() - 3600000 * 24 * 20 // 20 days ago
-  }
-];
-
 export function UserProfile() {
   const { address } = useParams<{ address: string }>();
-  const packageId = useNetworkVariable('packageId');
+  const statsRegistryId = useNetworkVariable('statsRegistryId');
   const suiClient = useSuiClient();
   const currentAccount = useCurrentAccount();
+  const { state: indexerState, getDealsOfAddress } = useIndexer();
+  const { formatAmount } = useCoinMetadata();
+  
+  // Advertisement titles come from the indexed AdvertisementCreated events
+  const getAdvertisementTitle = useCallback(
+    (advertisementId: string) =>
+      indexerState.advertisements[advertisementId]?.title || formatAddress(advertisementId),
+    [indexerState.advertisements]
+  );
   
   // State for user profile
   const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [reviews, setReviews] = useState<Review[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -155,22 +79,31 @@ export function UserProfile() {
       setError(null);
       
       try {
-        // In a real implementation, we would fetch user profile from the blockchain
-        // For now, we'll use mock data
-        if (address) {
-          setProfile({
-            ...mockUserProfile,
-            address
-          });
-          setTransactions(mockTransactions);
-          setReviews(mockReviews);
-        } else if (currentAccount) {
+        const profileAddress = address || currentAccount?.address;
+        if (profileAddress) {
+          const [reputation, userReviews] = await Promise.all([
+            fetchUserReputation(suiClient, statsRegistryId, profileAddress),
+            fetchReviews(suiClient, statsRegistryId, profileAddress)
+          ]);
+
           setProfile({
-            ...mockUserProfile,
-            address: currentAccount.address
+            address: profileAddress,
+            rating: getAverageRating(reputation),
+            totalDeals: reputation?.totalDeals ?? 0,
+            totalVolume: reputation?.totalVolume ?? 0,
+            peacefulResolutions: reputation?.peacefulResolutions ?? 0,
+            disputedDeals: reputation?.disputedDeals ?? 0,
+            joinDate: reputation?.createdAt ?? Date.now()
           });
-          setTransactions(mockTransactions);
-          setReviews(mockReviews);
+
+          setReviews(userReviews.map((review) => ({
+            id: `${review.reviewer}-${review.timestamp}`,
+            advertisementId: review.transactionId,
+            reviewer: review.reviewer,
+            rating: review.rating,
+            comment: review.comment,
+            createdAt: review.timestamp
+          })));
         }
         setIsLoading(false);
       } catch (err) {
@@ -181,17 +114,34 @@ export function UserProfile() {
     };
     
     fetchUserProfile();
-  }, [address, currentAccount, packageId, suiClient]);
+  }, [address, currentAccount, statsRegistryId, suiClient]);
   
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount);
-  };
+  // Build the deal history from indexed events on both sides of the trade
+  const transactions = useMemo(() => {
+    const profileAddress = address || currentAccount?.address;
+    if (!profileAddress) return [];
+    
+    return getDealsOfAddress(profileAddress)
+      .filter((deal) =>
+        (deal.buyer === profileAddress || deal.seller === profileAddress) &&
+        (deal.state === INTERACTION_BUYER_APPROVED || deal.state === INTERACTION_RESOLVED)
+      )
+      .map((deal): Transaction => {
+        const isBuyer = deal.buyer === profileAddress;
+        return {
+          id: deal.key,
+          advertisementId: deal.advertisementId,
+          advertisementTitle: getAdvertisementTitle(deal.advertisementId),
+          amount: deal.amount - (deal.buyerPayout ?? 0),
+          refunded: deal.buyerPayout ?? 0,
+          coinType: indexerState.advertisements[deal.advertisementId]?.coinType ?? SUI_COIN_INFO.coinType,
+          counterparty: isBuyer ? deal.seller : deal.buyer,
+          type: isBuyer ? 'buy' : 'sell',
+          state: deal.state === INTERACTION_RESOLVED ? 'disputed' : 'completed',
+          completedAt: deal.updatedAt
+        };
+      });
+  }, [address, currentAccount, getDealsOfAddress, getAdvertisementTitle, indexerState.advertisements]);
   
   // Render stars for rating
   const renderStars = (rating: number) => {
@@ -219,12 +169,6 @@ export function UserProfile() {
     );
   };
   
-  // Format address
-  const formatAddress = (address: string) => {
-    if (!address) return '';
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
-  };
-  
   // Render overview tab
   const renderOverview = () => {
     if (!profile) return null;
@@ -260,7 +204,7 @@ export function UserProfile() {
                 <Flex direction="column" gap="1" align="center" justify="center" style={{ padding: '16px' }}>
                   <Flex gap="1" align="center">
                     <DollarSign size={20} />
-                    <Heading size="4">${profile.totalVolume.toLocaleString()}</Heading>
+                    <Heading size="4">{formatCurrency(profile.totalVolume)}</Heading>
                   </Flex>
                   <Text size="2">Total Volume</Text>
                 </Flex>
@@ -303,7 +247,7 @@ export function UserProfile() {
                   <Card key={review.id}>
                     <Flex direction="column" gap="2">
                       <Flex justify="between" align="start">
-                        <Text weight="bold">{review.advertisementTitle}</Text>
+                        <Text weight="bold">{getAdvertisementTitle(review.advertisementId)}</Text>
                         {renderStars(review.rating)}
                       </Flex>
                       
@@ -360,9 +304,15 @@ export function UserProfile() {
                     <Flex gap="3" align="center">
                       <Flex gap="1" align="center">
                         <DollarSign size={16} />
-                        <Text weight="bold">{formatCurrency(transaction.amount)}</Text>
+                        <Text weight="bold">{formatAmount(transaction.amount, transaction.coinType)}</Text>
                       </Flex>
                       
+                      {transaction.refunded > 0 && (
+                        <Text size="2" color="gray">
+                          {formatAmount(transaction.refunded, transaction.coinType)} refunded
+                        </Text>
+                      )}
+                      
                       <Badge color={transaction.type === 'buy' ? 'green' : 'blue'}>
                         {transaction.type === 'buy' ? 'Buy' : 'Sell'}
                       </Badge>
@@ -404,7 +354,7 @@ export function UserProfile() {
                 <Card key={review.id}>
                   <Flex direction="column" gap="2">
                     <Flex justify="between" align="start">
-                      <Text weight="bold">{review.advertisementTitle}</Text>
+                      <Text weight="bold">{getAdvertisementTitle(review.advertisementId)}</Text>
                       {renderStars(review.rating)}
                     </Flex>
                     
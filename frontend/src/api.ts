@@ -1,26 +1,401 @@
-import { SuiClient } from '@mysten/sui/client';
+import { SuiClient, SuiObjectResponse, CoinStruct } from '@mysten/sui/client';
+import { bcs } from '@mysten/sui/bcs';
 import { Transaction } from '@mysten/sui/transactions';
 import { SealClient } from '@mysten/seal';
-import { fromB64, toB64 } from '@mysten/sui/utils';
+import { fromB64, toB64, toHex, fromHex, normalizeStructTag, deriveDynamicFieldID, SUI_TYPE_ARG } from '@mysten/sui/utils';
 import { 
   Advertisement, 
+  AdminRegistry,
+  Treasury,
   UserProfile, 
+  UserReputation,
+  Review,
   Interaction, 
   ChatMessage,
+  CoinInfo,
+  Milestone,
+  Offer,
+  Terms,
+  JuryVote,
+  Escalation,
+  SUI_COIN_INFO,
   INTERACTION_JOINED,
   INTERACTION_SELLER_COMPLETED,
   INTERACTION_BUYER_APPROVED,
-  INTERACTION_DISPUTED
+  INTERACTION_DISPUTED,
+  INTERACTION_RESOLVED,
+  INTERACTION_CANCELLED,
+  LISTING_ACTIVE,
+  AD_KIND_BUY,
+  OFFER_PENDING,
+  OFFER_COUNTERED,
+  OFFER_ACCEPTED,
+  RESOLUTION_ADMIN_BUYER,
+  RESOLUTION_ADMIN_SELLER,
+  RESOLUTION_ADMIN_SPLIT,
+  BPS_DENOMINATOR,
+  APPEAL_BOND_BPS,
+  MAX_APPEALS,
+  ESCALATION_APPEAL
 } from './types';
 import { 
   generateAndEncryptEphemeralKey, 
-  storeEphemeralKey,
-  encryptMessage
+  encryptMessage,
+  ChatCipherContext
 } from './utils';
+import { normalizeCategory } from './categories';
 import { ShowerHead } from 'lucide-react';
 
+// Maximum number of objects per multiGetObjects / getDynamicFields request
+const MAX_OBJECTS_PER_REQUEST = 50;
+
+// Messages the contract deletes per archive or purge transaction
+export const MAX_CHAT_REMOVALS = 500;
+
+// Any address can be used as sender when inspecting read-only calls
+const INSPECT_SENDER = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+/**
+ * A page of advertisements
+ */
+export interface AdvertisementPage {
+  advertisements: Advertisement[];
+  nextCursor: string | null; // Pass to fetchAdvertisementsPage to load the next page
+  hasNextPage: boolean;
+}
+
+/**
+ * Fetch objects in batches of MAX_OBJECTS_PER_REQUEST
+ * @param suiClient The SuiClient instance
+ * @param ids The object IDs
+ * @returns The object responses in the same order as the IDs
+ */
+const multiGetObjectsChunked = async (suiClient: SuiClient, ids: string[]) => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += MAX_OBJECTS_PER_REQUEST) {
+    chunks.push(ids.slice(i, i + MAX_OBJECTS_PER_REQUEST));
+  }
+
+  const responses = await Promise.all(
+    chunks.map((chunk) =>
+      suiClient.multiGetObjects({
+        ids: chunk,
+        options: {
+          showContent: true,
+          showType: true,
+        },
+      })
+    )
+  );
+
+  return responses.flat();
+};
+
+/**
+ * Parse milestones stored in an advertisement or a terms snapshot
+ * @param milestones The Move values of the Milestone structs
+ * @returns The parsed milestones
+ */
+const parseMilestones = (
+  milestones: { fields: { description: string; amount: string } }[] | undefined
+): Milestone[] =>
+  (milestones ?? []).map(({ fields: milestone }) => ({
+    description: milestone.description,
+    amount: Number(milestone.amount)
+  }));
+
+/**
+ * Parse the terms snapshot of an interaction
+ * @param fields The Move fields of the Terms struct
+ * @returns The parsed terms
+ */
+const parseTerms = (fields: {
+  version: string;
+  title: string;
+  description: string;
+  amount: string;
+  delivery_window_ms: string;
+  review_window_ms: string;
+  milestones: { fields: { description: string; amount: string } }[];
+}): Terms => ({
+  version: Number(fields.version),
+  title: fields.title,
+  description: fields.description,
+  amount: Number(fields.amount),
+  deliveryWindowMs: Number(fields.delivery_window_ms),
+  reviewWindowMs: Number(fields.review_window_ms),
+  milestones: parseMilestones(fields.milestones)
+});
+
+/**
+ * Parse a user profile stored in an advertisement's user_profiles table
+ * @param fields The Move fields of the UserProfile struct
+ * @returns The parsed user profile
+ */
+const parseUserProfile = (fields: any): UserProfile => {
+  const userProfile: UserProfile = {
+    user: fields.user,
+    interactions: []
+  };
+
+  for (const { fields: interactionData } of fields.interactions) {
+    const interaction: Interaction = {
+      id: Number(interactionData.id),
+      user: interactionData.user,
+      joinedAt: Number(interactionData.joined_at),
+      amount: Number(interactionData.amount),
+      terms: parseTerms(interactionData.terms.fields),
+      termsHash: toHex(new Uint8Array(interactionData.terms_hash)),
+      buyer: interactionData.buyer,
+      seller: interactionData.seller,
+      assignedAdmin: interactionData.assigned_admin,
+      jurors: interactionData.jurors ?? [],
+      juryVotes: (interactionData.jury_votes ?? []).map(
+        ({ fields: vote }: { fields: { juror: string; buyer_share_bps: string } }) => ({
+          juror: vote.juror,
+          buyerShareBps: Number(vote.buyer_share_bps)
+        })
+      ),
+      state: Number(interactionData.state),
+      deadline: Number(interactionData.deadline),
+      releasedAmount: Number(interactionData.released_amount),
+      milestoneStates: (interactionData.milestone_states ?? []).map(Number),
+      resolution: interactionData.resolution != null ? Number(interactionData.resolution) : undefined,
+      proposedShareBps: interactionData.proposed_share_bps != null ? Number(interactionData.proposed_share_bps) : undefined,
+      escalations: (interactionData.escalations ?? []).map(
+        ({ fields: escalation }: { fields: Record<string, string> }): Escalation => ({
+          kind: Number(escalation.kind),
+          previousAdmin: escalation.previous_admin,
+          newAdmin: escalation.new_admin,
+          initiatedBy: escalation.initiated_by,
+          appealedShareBps: Number(escalation.appealed_share_bps),
+          bond: Number(escalation.bond),
+          timestamp: Number(escalation.timestamp)
+        })
+      ),
+      appealBond: Number(interactionData.appeal_bond?.fields?.balance ?? 0),
+      buyerPayout: Number(interactionData.buyer_payout),
+      sellerPayout: Number(interactionData.seller_payout),
+      cancelRequested: Boolean(interactionData.cancel_requested),
+      buyerReviewed: Boolean(interactionData.buyer_reviewed),
+      sellerReviewed: Boolean(interactionData.seller_reviewed),
+      chatId: interactionData.chat_id,
+      chatArchiveBlobId: interactionData.chat_archive_blob_id ?? undefined,
+      chatArchiveHash: interactionData.chat_archive_blob_id
+        ? toHex(new Uint8Array(interactionData.chat_archive_hash))
+        : undefined,
+      chatEphemeralKeyEncrypted: interactionData.chat_ephemeral_key_encrypted
+    };
+
+    userProfile.interactions.push(interaction);
+  }
+
+  return userProfile;
+};
+
+/**
+ * Fetch the user profiles of several advertisements at once
+ * All tables are listed in parallel and all profile entries are fetched with batched multiGetObjects,
+ * so the number of sequential round trips does not grow with the number of advertisements
+ * @param suiClient The SuiClient instance
+ * @param tableIds The user_profiles table IDs of the advertisements
+ * @returns User profiles for each table, in the same order as the table IDs
+ */
+const fetchUserProfilesForTables = async (
+  suiClient: SuiClient,
+  tableIds: string[]
+): Promise<Record<string, UserProfile>[]> => {
+  // List the entries of every table, following pagination within each table
+  const fieldIdsPerTable = await Promise.all(
+    tableIds.map(async (tableId) => {
+      const fieldIds: string[] = [];
+      let cursor: string | null | undefined = null;
+      do {
+        const fields = await suiClient.getDynamicFields({ parentId: tableId, cursor });
+        fieldIds.push(...fields.data.map((field) => field.objectId));
+        cursor = fields.hasNextPage ? fields.nextCursor : null;
+      } while (cursor);
+      return fieldIds;
+    })
+  );
+
+  const profileObjects = await multiGetObjectsChunked(suiClient, fieldIdsPerTable.flat());
+
+  // Split the flat response back per table
+  let offset = 0;
+  return fieldIdsPerTable.map((fieldIds) => {
+    const userProfiles: Record<string, UserProfile> = {};
+
+    for (const profileObj of profileObjects.slice(offset, offset + fieldIds.length)) {
+      if (profileObj.data?.content?.dataType !== 'moveObject') {
+        console.warn('Profile object content not found or not a Move object');
+        continue;
+      }
+
+      // Table entries are stored as { name, value: UserProfile }
+      const fields = (profileObj.data.content.fields as any).value?.fields;
+      if (!fields || !fields.user) {
+        console.warn(`Profile object ${profileObj.data.objectId} does not have expected 'value.fields.user' structure`);
+        continue;
+      }
+
+      userProfiles[fields.user] = parseUserProfile(fields);
+    }
+
+    offset += fieldIds.length;
+    return userProfiles;
+  });
+};
+
+/**
+ * Extract the coin type from an advertisement object type
+ * @param objectType The object type, e.g. 0x...::marketplace::Advertisement<0x2::sui::SUI>
+ * @returns The normalized coin type
+ */
+const getAdvertisementCoinType = (objectType: string): string =>
+  normalizeStructTag(objectType.slice(objectType.indexOf('<') + 1, objectType.lastIndexOf('>')));
+
+/**
+ * Parse advertisement objects and attach their user profiles
+ * @param suiClient The SuiClient instance
+ * @param responses The advertisement object responses
+ * @returns Parsed advertisements, objects that could not be read are skipped
+ */
+const parseAdvertisements = async (
+  suiClient: SuiClient,
+  responses: SuiObjectResponse[]
+): Promise<Advertisement[]> => {
+  const advertisementFields = responses.flatMap((response) => {
+    if (response.data?.content?.dataType !== 'moveObject') {
+      console.error('Advertisement content not found or not a Move object');
+      return [];
+    }
+    return [{
+      id: response.data.objectId,
+      coinType: getAdvertisementCoinType(response.data.content.type),
+      fields: response.data.content.fields as any
+    }];
+  });
+
+  const userProfiles = await fetchUserProfilesForTables(
+    suiClient,
+    advertisementFields.map(({ fields }) => fields.user_profiles.fields.id.id)
+  );
+
+  return advertisementFields.map(({ id, coinType, fields }, index) => ({
+    id,
+    creator: fields.creator,
+    kind: Number(fields.kind),
+    version: Number(fields.version),
+    coinType,
+    title: fields.title,
+    description: fields.description,
+    category: normalizeCategory(fields.category),
+    tags: fields.tags ?? [],
+    amount: Number(fields.amount),
+    createdAt: Number(fields.created_at),
+    status: Number(fields.status),
+    deliveryWindowMs: Number(fields.delivery_window_ms),
+    reviewWindowMs: Number(fields.review_window_ms),
+    milestones: parseMilestones(fields.milestones),
+    budget: Number(fields.budget ?? 0),
+    offers: (fields.offers ?? []).map(({ fields: offer }: { fields: Record<string, string> }): Offer => ({
+      id: Number(offer.id),
+      user: offer.user,
+      amount: Number(offer.amount),
+      message: offer.message,
+      status: Number(offer.status),
+      createdAt: Number(offer.created_at),
+      expiresAt: Number(offer.expires_at)
+    })),
+    images: fields.images ?? [],
+    userProfiles: userProfiles[index]
+  }));
+};
+
+/**
+ * Fetch a page of advertisement IDs from the registry, newest first
+ * @param suiClient The SuiClient instance
+ * @param packageId The package ID
+ * @param registryId The registry ID
+ * @param cursor The cursor returned by the previous page, or null for the first page
+ * @param limit Maximum number of IDs to return
+ * @returns The advertisement IDs and the cursor of the next page
+ */
+const fetchAdvertisementIdsPage = async (
+  suiClient: SuiClient,
+  packageId: string,
+  registryId: string,
+  cursor: string | null,
+  limit: number
+): Promise<{ ids: string[]; nextCursor: string | null }> => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::get_advertisements_page`,
+    arguments: [
+      tx.object(registryId),
+      tx.pure.option('address', cursor),
+      tx.pure.u64(limit),
+    ],
+  });
+
+  const result = await suiClient.devInspectTransactionBlock({
+    sender: INSPECT_SENDER,
+    transactionBlock: tx,
+  });
+
+  const returnValues = result.results?.[0]?.returnValues;
+  if (!returnValues) {
+    throw new Error(`Failed to read advertisement registry: ${result.error ?? 'no return values'}`);
+  }
+
+  const [idsBytes] = returnValues[0];
+  const [cursorBytes] = returnValues[1];
+
+  return {
+    ids: bcs.vector(bcs.Address).parse(Uint8Array.from(idsBytes)),
+    nextCursor: bcs.option(bcs.Address).parse(Uint8Array.from(cursorBytes)),
+  };
+};
+
+/**
+ * Fetch a page of advertisements, newest first
+ * Uses a constant number of round trips regardless of the page size
+ * @param suiClient The SuiClient instance
+ * @param packageId The package ID
+ * @param registryId The registry ID
+ * @param cursor The cursor returned by the previous page, or null for the first page
+ * @param limit Maximum number of advertisements in the page
+ * @returns The page of advertisements
+ */
+export const fetchAdvertisementsPage = async (
+  suiClient: SuiClient,
+  packageId: string,
+  registryId: string,
+  cursor: string | null,
+  limit: number = 20
+): Promise<AdvertisementPage> => {
+  const { ids, nextCursor } = await fetchAdvertisementIdsPage(
+    suiClient,
+    packageId,
+    registryId,
+    cursor,
+    limit
+  );
+
+  const responses = await multiGetObjectsChunked(suiClient, ids);
+  const advertisements = await parseAdvertisements(suiClient, responses);
+
+  return {
+    advertisements,
+    nextCursor,
+    hasNextPage: nextCursor !== null,
+  };
+};
+
 /**
  * Fetch all advertisements
+ * Prefer fetchAdvertisementsPage for lists shown to the user
  * @param suiClient The SuiClient instance
  * @param packageId The package ID
  * @param registryId The registry ID
@@ -32,45 +407,20 @@ export const fetchAdvertisements = async (
   registryId: string
 ): Promise<Advertisement[]> => {
   try {
-    // First, get the registry object
-    const registryResponse = await suiClient.getObject({
-      id: registryId,
-      options: {
-        showContent: true,
-        showType: true,
-      },
-    });
-
-    if (!registryResponse.data?.content) {
-      console.error('Registry not found');
-      return [];
-    }
-
-    // Get the advertisement IDs from the registry
-    const content = registryResponse.data.content;
-    if (content?.dataType !== 'moveObject') {
-      console.error('Invalid registry content format or not a Move object');
-      return [];
-    }
-    const fields = content.fields as { advertisements: string[] }; // Assuming 'advertisements' is string[]
-    const advertisementIds = fields.advertisements;
-    
-    console.log('Advertisement IDs from registry:', advertisementIds);
-    
     const advertisements: Advertisement[] = [];
+    let cursor: string | null = null;
 
-    // Fetch each advertisement by ID
-    for (const adId of advertisementIds) {
-      try {
-        const advertisement = await fetchAdvertisement(suiClient, adId, packageId);
-        if (advertisement) {
-          advertisements.push(advertisement);
-        }
-      } catch (error) {
-        console.error(`Error fetching advertisement ${adId}:`, error);
-        // Continue with the next advertisement
-      }
-    }
+    do {
+      const page: AdvertisementPage = await fetchAdvertisementsPage(
+        suiClient,
+        packageId,
+        registryId,
+        cursor,
+        MAX_OBJECTS_PER_REQUEST
+      );
+      advertisements.push(...page.advertisements);
+      cursor = page.nextCursor;
+    } while (cursor);
 
     return advertisements;
   } catch (error) {
@@ -100,185 +450,76 @@ export const fetchAdvertisement = async (
       },
     });
 
-    if (response.data?.content?.dataType !== 'moveObject') {
-      console.error('Advertisement content not found or not a Move object');
-      return null;
-    }
-
-    const fields = response.data.content.fields as any; // Cast to any for easier access, or define specific type
-    
-    const advertisement: Advertisement = {
-      id: advertisementId,
-      creator: fields.creator,
-      title: fields.title,
-      description: fields.description,
-      amount: Number(fields.amount),
-      createdAt: Number(fields.created_at),
-      userProfiles: {}
-    };
-
-    // Fetch user profiles for this advertisement
-    advertisement.userProfiles = await fetchUserProfiles(suiClient, advertisement.id, packageId);
-    
-    return advertisement;
+    const [advertisement] = await parseAdvertisements(suiClient, [response]);
+    return advertisement ?? null;
   } catch (error) {
     console.error(`Error fetching advertisement ${advertisementId}:`, error);
     return null;
   }
 };
 
-/**
- * Fetch user profiles for an advertisement
- * @param suiClient The SuiClient instance
- * @param advertisementId The advertisement ID
- * @param packageId The package ID
- * @returns Record of user profiles
- */
-export const fetchUserProfiles = async (
-  suiClient: SuiClient,
-  advertisementId: string,
-  packageId: string
-): Promise<Record<string, UserProfile>> => {
-  try {
-
-    // Get the user_profiles field from the advertisement
-    const advertisementResponse = await suiClient.getObject({
-      id: advertisementId,
-      options: {
-        showContent: true,
-        showType: true,
-      },
-    });
-
-    if (advertisementResponse?.data?.content?.dataType !== 'moveObject') {
-      console.error('Advertisement content for user profiles not found or not a Move object');
-      return {};
-    }
-    const adFields = advertisementResponse.data.content.fields as any;
-    const userProfilesTableInfo = adFields.user_profiles as { fields: { id: { id: string } } };
-    const user_profiles_table_id = userProfilesTableInfo.fields.id.id;
-
-    console.log({user_profiles_table_id});
-
-    const user_profiles_table = await suiClient.getDynamicFields({
-      parentId: user_profiles_table_id!, // Add non-null assertion if confident it exists
-    });
-
-    // map user_profiles_table[i].name.value to values of joined user addresses
-    const dynamicFields = user_profiles_table.data.map((field) => ({
-      objectId: field.objectId,
-      name: field.name.value,
-    }));
-
-    const userProfiles: Record<string, UserProfile> = {};
-
-    for (const field of dynamicFields) {
-      // Get the user profile object
-      const profileObj = await suiClient.getObject({
-        id: field.objectId,
-        options: {
-          showContent: true,
-          showType: true,
-
-        },
-      });
-
-      if (profileObj.data?.content?.dataType !== 'moveObject') {
-        console.warn(`Profile object ${field.objectId} content not found or not a Move object`);
-        continue;
-      }
-
-      const profileFields = profileObj.data.content.fields as any;
-
-      // Assuming the structure is { value: { fields: { user: string, interactions: any[] } } }
-      const fields = profileFields.value?.fields || profileFields; 
-      
-      if (!fields || !fields.user) {
-        console.warn(`Profile object ${field.objectId} does not have expected 'value.fields.user' structure`);
-        continue;
-      }
-      
-      // Create the user profile
-      const userAddress = fields.user;
-      const userProfile: UserProfile = {
-        user: userAddress,
-        interactions: []
-      };
-
-      // Get the interactions from the profile
-      const interactions = fields.interactions;
-      
-      // Parse each interaction
-      for (let i = 0; i < interactions.length; i++) {
-        const interactionData = interactions[i]?.fields;
-        
-        const interaction: Interaction = {
-          id: Number(interactionData.id),
-          user: interactionData.user,
-          joinedAt: Number(interactionData.joined_at),
-          seller: interactionData.seller,
-          assignedAdmin: interactionData.assigned_admin,
-          state: Number(interactionData.state),
-          chatMessages: [],
-          chatEphemeralKeyEncrypted: interactionData.chat_ephemeral_key_encrypted
-        };
-
-        // Parse chat messages
-        if (interactionData.chat_messages) {
-          for (const { fields: msgData} of interactionData.chat_messages) {
-            console.log({msgData})
-            const chatMessage: ChatMessage = {
-              id: msgData.id.id,
-              advertisementId: msgData.advertisement_id,
-              interactionUser: msgData.interaction_user,
-              interactionId: Number(msgData.interaction_id),
-              sender: msgData.sender,
-              timestamp: Number(msgData.timestamp),
-              messageEncryptedText: msgData.message_encrypted_text,
-              messageBlobId: msgData.message_blob_id
-            };
-            
-            interaction.chatMessages.push(chatMessage);
-          }
-        }
-
-        userProfile.interactions.push(interaction);
-      }
-
-      userProfiles[userAddress] = userProfile;
-    }
-
-    return userProfiles;
-  } catch (error) {
-    console.error(`Error fetching user profiles for advertisement ${advertisementId}:`, error);
-    return {};
-  }
-};
-
 /**
  * Create a new advertisement
+ * @param suiClient The SuiClient instance
  * @param packageId The package ID
  * @param registryId The registry ID
+ * @param coinType The coin type buyers pay in, e.g. 0x2::sui::SUI
+ * @param creatorAddress The creator's address, pays the budget of a buy advertisement
+ * @param kind AD_KIND_SELL or AD_KIND_BUY
+ * @param budget Funds of a buy advertisement, at least the amount; ignored for a sell advertisement
  * @param title The advertisement title
  * @param description The advertisement description
- * @param amount The advertisement amount
+ * @param category Category ID from CATEGORIES
+ * @param tags Free-form search keywords, see parseTags
+ * @param amount The advertisement amount in the smallest unit of the coin
+ * @param deliveryWindowMs Time the seller has to deliver after a buyer joins
+ * @param reviewWindowMs Time the buyer has to approve or dispute after delivery
+ * @param milestones Milestones adding up to the amount, or an empty list for a lump sum deal
  * @returns Transaction to create the advertisement
  */
-export const createAdvertisement = (
+export const createAdvertisement = async (
+  suiClient: SuiClient,
   packageId: string,
   registryId: string,
+  coinType: string,
+  creatorAddress: string,
+  kind: number,
+  budget: number,
   title: string,
   description: string,
-  amount: number
-): Transaction => {
+  category: string,
+  tags: string[],
+  amount: number,
+  deliveryWindowMs: number,
+  reviewWindowMs: number,
+  milestones: Milestone[]
+): Promise<Transaction> => {
   const tx = new Transaction();
+
+  // Only a buy advertisement is funded up front, a sell advertisement gets a zero coin
+  const [budgetCoin] = kind === AD_KIND_BUY
+    ? tx.splitCoins(
+        await selectPaymentCoin(suiClient, tx, creatorAddress, coinType, budget),
+        [tx.pure.u64(budget)]
+      )
+    : tx.moveCall({ target: '0x2::coin::zero', typeArguments: [coinType] });
+
   tx.moveCall({
     target: `${packageId}::marketplace::create_advertisement_entry`,
+    typeArguments: [coinType],
     arguments: [
       tx.object(registryId), // Registry object
+      tx.pure.u8(kind),
+      budgetCoin,
       tx.pure.string(title),
       tx.pure.string(description),
+      tx.pure.string(category),
+      tx.pure.vector('string', tags),
       tx.pure.u64(amount),
+      tx.pure.u64(deliveryWindowMs),
+      tx.pure.u64(reviewWindowMs),
+      tx.pure.vector('string', milestones.map((milestone) => milestone.description)),
+      tx.pure.vector('u64', milestones.map((milestone) => milestone.amount)),
       tx.object('0x6'), // Clock object
     ],
   });
@@ -287,25 +528,84 @@ export const createAdvertisement = (
   return tx;
 };
 
+/**
+ * Pick wallet coins covering an amount and merge them into one transaction argument
+ * SUI payments are taken from the gas coin, which the wallet already merges
+ * @param suiClient The SuiClient instance
+ * @param tx The transaction the coins are used in
+ * @param owner The paying address
+ * @param coinType The coin type to pay with
+ * @param amount The amount needed, in the smallest unit of the coin
+ * @returns The coin argument to split the payment from
+ */
+const selectPaymentCoin = async (
+  suiClient: SuiClient,
+  tx: Transaction,
+  owner: string,
+  coinType: string,
+  amount: number
+) => {
+  if (normalizeStructTag(coinType) === normalizeStructTag(SUI_TYPE_ARG)) {
+    return tx.gas;
+  }
+
+  // Take the largest coins first to keep the number of merged objects low
+  const coins: CoinStruct[] = [];
+  let cursor: string | null | undefined = null;
+  do {
+    const page = await suiClient.getCoins({ owner, coinType, cursor });
+    coins.push(...page.data);
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+  coins.sort((a, b) => (BigInt(b.balance) > BigInt(a.balance) ? 1 : -1));
+
+  const selected: CoinStruct[] = [];
+  let total = BigInt(0);
+  for (const coin of coins) {
+    if (total >= BigInt(amount)) break;
+    selected.push(coin);
+    total += BigInt(coin.balance);
+  }
+
+  if (total < BigInt(amount)) {
+    throw new Error(`Insufficient ${coinType} balance for this payment`);
+  }
+
+  const [primary, ...rest] = selected.map((coin) => tx.object(coin.coinObjectId));
+  if (rest.length > 0) {
+    tx.mergeCoins(primary, rest);
+  }
+  return primary;
+};
+
 /**
  * Join an advertisement
+ * On a sell advertisement the user pays the escrow, on a buy advertisement it is taken from the budget
  * @param suiClient The SuiClient instance
  * @param sealClient The SealClient instance
  * @param packageId The package ID
+ * @param adminRegistryId The admin registry ID, used to assign a dispute admin
  * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
  * @param userAddress The user's address
  * @param interactionId The interaction ID
- * @param amount The amount to pay
+ * @param amount The amount to pay, 0 when responding to a buy advertisement
+ * @param termsVersion The version of the terms shown to the user, the join aborts if they were edited since
+ * @param offerId The offer accepted for the user, to join at its amount instead of the listed one
  * @returns Transaction to join the advertisement
  */
 export const joinAdvertisement = async (
   suiClient: SuiClient,
   sealClient: SealClient,
   packageId: string,
+  adminRegistryId: string,
   advertisementId: string,
+  coinType: string,
   userAddress: string,
   interactionId: number,
-  amount: number
+  amount: number,
+  termsVersion: number,
+  offerId?: number
 ): Promise<{ transaction: Transaction; ephemeralKey: Uint8Array }> => {
   // Generate and encrypt ephemeral key for chat
   const { rawKey, encryptedKey } = await generateAndEncryptEphemeralKey(
@@ -318,50 +618,1573 @@ export const joinAdvertisement = async (
   
   // Create transaction to join advertisement
   const tx = new Transaction();
-  
-  // Create a coin with the exact amount
-  const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(amount)]);
-  
+  
+  // Create a coin with the exact amount
+  const [coin] = amount > 0
+    ? tx.splitCoins(
+        await selectPaymentCoin(suiClient, tx, userAddress, coinType, amount),
+        [tx.pure.u64(amount)]
+      )
+    : tx.moveCall({ target: '0x2::coin::zero', typeArguments: [coinType] });
+  
+  if (offerId !== undefined) {
+    tx.moveCall({
+      target: `${packageId}::marketplace::join_with_offer_entry`,
+      typeArguments: [coinType],
+      arguments: [
+        tx.object(advertisementId),
+        tx.object(adminRegistryId),
+        tx.pure.u64(offerId),
+        coin,
+        tx.pure.u64(termsVersion),
+        tx.pure.vector('u8', Array.from(encryptedKey)),
+        tx.object('0x6'), // Clock object
+        tx.object('0x8'), // Random object
+      ],
+    });
+  } else {
+    tx.moveCall({
+      target: `${packageId}::marketplace::join_advertisement_entry`,
+      typeArguments: [coinType],
+      arguments: [
+        tx.object(advertisementId),
+        tx.object(adminRegistryId),
+        coin,
+        tx.pure.u64(termsVersion),
+        tx.pure.vector('u8', Array.from(encryptedKey)),
+        tx.object('0x6'), // Clock object
+        tx.object('0x8'), // Random object
+      ],
+    });
+  }
+  
+  tx.setGasBudget(10000000);
+  
+  return { 
+    transaction: tx,
+    ephemeralKey: rawKey
+  };
+};
+
+/**
+ * Mark an interaction as completed
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param userAddress The user address
+ * @param interactionId The interaction ID
+ * @returns Transaction to mark the interaction as completed
+ */
+export const markInteractionCompleted = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  userAddress: string,
+  interactionId: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::mark_completed`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Release payment for an interaction (buyer approves)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param statsRegistryId The stats registry ID (reputation is updated on release)
+ * @param treasuryId The treasury ID (keeps the platform fee)
+ * @param userAddress The user whose interaction to release payment for
+ * @param interactionId The interaction ID
+ * @returns Transaction to release payment
+ */
+export const releasePayment = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  statsRegistryId: string,
+  treasuryId: string,
+  userAddress: string,
+  interactionId: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::release_payment_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(statsRegistryId),
+      tx.object(treasuryId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Mark a single milestone of an interaction as delivered (seller only)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param userAddress The user address
+ * @param interactionId The interaction ID
+ * @param milestoneIndex Index of the milestone in the advertisement
+ * @returns Transaction to mark the milestone as completed
+ */
+export const markMilestoneCompleted = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  userAddress: string,
+  interactionId: number,
+  milestoneIndex: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::mark_milestone_completed_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.pure.u64(milestoneIndex),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+
+  return tx;
+};
+
+/**
+ * Release the payment of a single delivered milestone (buyer only)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param statsRegistryId The stats registry ID (reputation is updated once the last milestone is released)
+ * @param treasuryId The treasury ID (keeps the platform fee)
+ * @param userAddress The user whose interaction to release the milestone for
+ * @param interactionId The interaction ID
+ * @param milestoneIndex Index of the milestone in the advertisement
+ * @returns Transaction to release the milestone
+ */
+export const releaseMilestone = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  statsRegistryId: string,
+  treasuryId: string,
+  userAddress: string,
+  interactionId: number,
+  milestoneIndex: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::release_milestone_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(statsRegistryId),
+      tx.object(treasuryId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.pure.u64(milestoneIndex),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+
+  return tx;
+};
+
+/**
+ * Dispute an interaction
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param userAddress The user address whose interaction is being disputed
+ * @param interactionId The interaction ID
+ * @returns Transaction to dispute the interaction
+ */
+export const disputeInteraction = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  userAddress: string,
+  interactionId: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::dispute_transaction_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Settle an interaction whose deadline has passed (callable by anyone)
+ * Refunds the buyer after a missed delivery deadline, pays the seller after a missed review deadline
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param statsRegistryId The stats registry ID (reputation is updated on auto-release)
+ * @param treasuryId The treasury ID (keeps the platform fee on auto-release)
+ * @param userAddress The user whose interaction to settle
+ * @param interactionId The interaction ID
+ * @returns Transaction to claim the timeout
+ */
+export const claimAfterTimeout = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  statsRegistryId: string,
+  treasuryId: string,
+  userAddress: string,
+  interactionId: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::claim_after_timeout_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(statsRegistryId),
+      tx.object(treasuryId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Check whether the deadline of an interaction has passed and it can be settled with claimAfterTimeout
+ * @param interaction The interaction
+ * @param now Current time in milliseconds
+ * @returns True if the interaction can be claimed
+ */
+export const isInteractionTimedOut = (interaction: Interaction, now: number = Date.now()): boolean =>
+  (interaction.state === INTERACTION_JOINED || interaction.state === INTERACTION_SELLER_COMPLETED) &&
+  now > interaction.deadline;
+
+/**
+ * Ask the seller to cancel an interaction that has not been delivered yet (buyer only)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param userAddress The user whose interaction to cancel
+ * @param interactionId The interaction ID
+ * @returns Transaction to request the cancellation
+ */
+export const requestCancellation = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  userAddress: string,
+  interactionId: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::request_cancellation_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Cancel an interaction that has not been delivered yet and refund the buyer (seller only)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param userAddress The user whose interaction to cancel
+ * @param interactionId The interaction ID
+ * @returns Transaction to refund the interaction
+ */
+export const refundInteraction = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  userAddress: string,
+  interactionId: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::refund_interaction_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Get the resolution type matching a buyer share
+ * @param buyerShareBps Share of the escrow returned to the buyer, in basis points
+ * @returns RESOLUTION_ADMIN_BUYER for a full refund, RESOLUTION_ADMIN_SELLER for no refund, RESOLUTION_ADMIN_SPLIT otherwise
+ */
+export const getResolutionForShare = (buyerShareBps: number): number => {
+  if (buyerShareBps >= BPS_DENOMINATOR) return RESOLUTION_ADMIN_BUYER;
+  if (buyerShareBps <= 0) return RESOLUTION_ADMIN_SELLER;
+  return RESOLUTION_ADMIN_SPLIT;
+};
+
+/**
+ * Split an escrow between buyer and seller the same way the contract does
+ * @param amount The escrowed amount
+ * @param buyerShareBps Share of the escrow returned to the buyer, in basis points
+ * @returns The rounded down buyer amount and the remainder for the seller
+ */
+export const splitEscrow = (
+  amount: number,
+  buyerShareBps: number
+): { buyerAmount: number; sellerAmount: number } => {
+  // BigInt avoids losing precision on amount * bps for large escrows
+  const buyerAmount = Number((BigInt(amount) * BigInt(buyerShareBps)) / BigInt(BPS_DENOMINATOR));
+  return { buyerAmount, sellerAmount: amount - buyerAmount };
+};
+
+/**
+ * Compute the payouts of a dispute resolution the same way the contract does
+ * The arbitration fee is charged to the side that gets less than half of the escrow, the platform fee to the seller
+ * @param amount The escrowed amount
+ * @param buyerShareBps Share of the escrow returned to the buyer, in basis points
+ * @param treasury The fee settings, or null to ignore fees
+ * @returns What each side receives and the fees kept from the escrow
+ */
+export const getDisputePayouts = (
+  amount: number,
+  buyerShareBps: number,
+  treasury: Pick<Treasury, 'feeBps' | 'arbitrationFeeBps'> | null
+): { buyerAmount: number; sellerAmount: number; arbitrationFee: number; platformFee: number } => {
+  const { buyerAmount: buyerShare, sellerAmount: sellerShare } = splitEscrow(amount, buyerShareBps);
+  if (!treasury) {
+    return { buyerAmount: buyerShare, sellerAmount: sellerShare, arbitrationFee: 0, platformFee: 0 };
+  }
+
+  // Whatever the losing side cannot cover from its share is taken from the other share
+  const arbitrationFee = getFee(amount, treasury.arbitrationFeeBps);
+  let buyerFee = buyerShareBps * 2 > BPS_DENOMINATOR ? 0
+    : buyerShareBps * 2 < BPS_DENOMINATOR ? arbitrationFee
+    : Math.floor(arbitrationFee / 2);
+  buyerFee = Math.min(buyerFee, buyerShare);
+  let sellerFee = arbitrationFee - buyerFee;
+  if (sellerFee > sellerShare) {
+    sellerFee = sellerShare;
+    buyerFee = arbitrationFee - sellerFee;
+  }
+
+  const platformFee = getFee(sellerShare - sellerFee, treasury.feeBps);
+  return {
+    buyerAmount: buyerShare - buyerFee,
+    sellerAmount: sellerShare - sellerFee - platformFee,
+    arbitrationFee,
+    platformFee,
+  };
+};
+
+/**
+ * Resolve a disputed interaction (assigned admin only)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param statsRegistryId The stats registry ID (reputation is updated on resolution)
+ * @param treasuryId The treasury ID (keeps the platform fee when the decision is final)
+ * @param userAddress The user address whose interaction is disputed
+ * @param interactionId The interaction ID
+ * @param buyerShareBps Share of the escrow returned to the buyer, in basis points
+ * @returns Transaction to resolve the dispute
+ */
+export const resolveDispute = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  statsRegistryId: string,
+  treasuryId: string,
+  userAddress: string,
+  interactionId: number,
+  buyerShareBps: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::resolve_dispute_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(statsRegistryId),
+      tx.object(treasuryId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.pure.u8(getResolutionForShare(buyerShareBps)),
+      tx.pure.u64(buyerShareBps),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Get the number of agreeing votes needed to settle a jury dispute
+ * @param jurySize The number of jurors
+ * @returns More than half of the jurors
+ */
+export const getJuryMajority = (jurySize: number): number => Math.floor(jurySize / 2) + 1;
+
+/**
+ * Vote on a high-value dispute (jurors only)
+ * The vote that forms a majority settles the escrow
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param statsRegistryId The stats registry ID (reputation is updated on resolution)
+ * @param treasuryId The treasury ID (keeps the platform fee when the vote settles the dispute)
+ * @param userAddress The user address whose interaction is disputed
+ * @param interactionId The interaction ID
+ * @param buyerShareBps Share of the escrow the juror wants returned to the buyer, in basis points
+ * @returns Transaction to cast the vote
+ */
+export const castJuryVote = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  statsRegistryId: string,
+  treasuryId: string,
+  userAddress: string,
+  interactionId: number,
+  buyerShareBps: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::cast_jury_vote_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(statsRegistryId),
+      tx.object(treasuryId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.pure.u64(buyerShareBps),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Get the median buyer share of a jury's votes, the share a deadlocked jury is settled at
+ * @param votes The buyer shares the jurors voted for, in basis points
+ * @returns The middle share once sorted, the jury size is odd
+ */
+export const getMedianShare = (votes: number[]): number =>
+  [...votes].sort((a, b) => a - b)[Math.floor(votes.length / 2)];
+
+/**
+ * Settle a jury dispute at the median vote (callable by anyone)
+ * Only possible after the response deadline once every juror has voted without a majority
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param statsRegistryId The stats registry ID (reputation is updated on resolution)
+ * @param treasuryId The treasury ID (keeps the platform fee from the seller's share)
+ * @param userAddress The user address whose interaction is disputed
+ * @param interactionId The interaction ID
+ * @returns Transaction to settle the dispute
+ */
+export const settleJuryByMedian = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  statsRegistryId: string,
+  treasuryId: string,
+  userAddress: string,
+  interactionId: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::settle_jury_by_median_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(statsRegistryId),
+      tx.object(treasuryId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Get the bond required to appeal a decision, rounded down like the contract does
+ * @param escrow The escrow at stake
+ * @param coinType The coin type of the escrow
+ * @param adminRegistry The admin registry holding the bond floors
+ * @returns APPEAL_BOND_BPS of the escrow, at least the floor of the coin
+ */
+export const getAppealBond = (escrow: number, coinType: string, adminRegistry: AdminRegistry): number => {
+  const bond = Number((BigInt(escrow) * BigInt(APPEAL_BOND_BPS)) / BigInt(BPS_DENOMINATOR));
+  return Math.max(bond, adminRegistry.minAppealBonds[normalizeStructTag(coinType)] ?? 1);
+};
+
+/**
+ * Check whether a decision of the assigned admin can still be appealed
+ * @param interaction The interaction
+ * @param now Current time in milliseconds
+ * @returns True while the appeal window is open and appeals are left
+ */
+export const canAppealResolution = (interaction: Interaction, now: number = Date.now()): boolean =>
+  interaction.state === INTERACTION_DISPUTED &&
+  interaction.proposedShareBps !== undefined &&
+  now <= interaction.deadline &&
+  interaction.escalations.filter((escalation) => escalation.kind === ESCALATION_APPEAL).length < MAX_APPEALS;
+
+/**
+ * Check whether a decision of the assigned admin can be paid out with finalizeResolution
+ * @param interaction The interaction
+ * @param now Current time in milliseconds
+ * @returns True once the appeal window has closed
+ */
+export const canFinalizeResolution = (interaction: Interaction, now: number = Date.now()): boolean =>
+  interaction.state === INTERACTION_DISPUTED &&
+  interaction.proposedShareBps !== undefined &&
+  now > interaction.deadline;
+
+/**
+ * Check whether the admins of a dispute missed their response deadline and can be replaced
+ * @param interaction The interaction
+ * @param now Current time in milliseconds
+ * @returns True if reassignInactiveAdmin can be called
+ */
+export const isDisputeAdminInactive = (interaction: Interaction, now: number = Date.now()): boolean =>
+  interaction.state === INTERACTION_DISPUTED &&
+  interaction.proposedShareBps === undefined &&
+  now > interaction.deadline &&
+  (interaction.jurors.length === 0 ||
+    interaction.jurors.some((juror) => !interaction.juryVotes.some((vote) => vote.juror === juror)));
+
+/**
+ * Check whether a jury dispute is deadlocked: every juror voted, no share got a majority and the deadline passed
+ * @param interaction The interaction
+ * @param now Current time in milliseconds
+ * @returns True if settleJuryByMedian can be called
+ */
+export const isJuryDeadlocked = (interaction: Interaction, now: number = Date.now()): boolean =>
+  interaction.state === INTERACTION_DISPUTED &&
+  interaction.jurors.length > 0 &&
+  interaction.juryVotes.length === interaction.jurors.length &&
+  now > interaction.deadline;
+
+/**
+ * Pay out the decision of the assigned admin after its appeal window (callable by anyone)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param statsRegistryId The stats registry ID (reputation is updated on resolution)
+ * @param treasuryId The treasury ID (keeps the platform fee)
+ * @param userAddress The user address whose interaction is disputed
+ * @param interactionId The interaction ID
+ * @returns Transaction to finalize the resolution
+ */
+export const finalizeResolution = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  statsRegistryId: string,
+  treasuryId: string,
+  userAddress: string,
+  interactionId: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::finalize_resolution_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(statsRegistryId),
+      tx.object(treasuryId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Appeal the decision of the assigned admin (buyer or seller only)
+ * Posts the appeal bond and hands the dispute to a freshly drawn admin
+ * @param suiClient The SuiClient instance
+ * @param packageId The package ID
+ * @param adminRegistryId The admin registry ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param senderAddress The appellant, who pays the bond
+ * @param userAddress The user address whose interaction is disputed
+ * @param interactionId The interaction ID
+ * @param bond The bond to post, see getAppealBond
+ * @returns Transaction to appeal the resolution
+ */
+export const appealResolution = async (
+  suiClient: SuiClient,
+  packageId: string,
+  adminRegistryId: string,
+  advertisementId: string,
+  coinType: string,
+  senderAddress: string,
+  userAddress: string,
+  interactionId: number,
+  bond: number
+): Promise<Transaction> => {
+  const tx = new Transaction();
+
+  // Create a coin with the exact bond
+  const [coin] = tx.splitCoins(
+    await selectPaymentCoin(suiClient, tx, senderAddress, coinType, bond),
+    [tx.pure.u64(bond)]
+  );
+
+  tx.moveCall({
+    target: `${packageId}::marketplace::appeal_resolution_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(adminRegistryId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      coin,
+      tx.object('0x6'), // Clock object
+      tx.object('0x8'), // Random object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Replace the admins of a dispute who missed their response deadline (callable by anyone)
+ * @param packageId The package ID
+ * @param adminRegistryId The admin registry ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param userAddress The user address whose interaction is disputed
+ * @param interactionId The interaction ID
+ * @returns Transaction to reassign the dispute
+ */
+export const reassignInactiveAdmin = (
+  packageId: string,
+  adminRegistryId: string,
+  advertisementId: string,
+  coinType: string,
+  userAddress: string,
+  interactionId: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::reassign_inactive_admin_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(adminRegistryId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.object('0x6'), // Clock object
+      tx.object('0x8'), // Random object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Review the counterparty of a finished interaction (buyer or seller of the interaction only)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param statsRegistryId The stats registry ID
+ * @param userAddress The buyer address of the interaction
+ * @param interactionId The interaction ID
+ * @param rating The rating (1-5)
+ * @param comment The review comment
+ * @returns Transaction to add the review
+ */
+export const addReview = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  statsRegistryId: string,
+  userAddress: string,
+  interactionId: number,
+  rating: number,
+  comment: string
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::add_review_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(statsRegistryId),
+      tx.pure.address(userAddress),
+      tx.pure.u64(interactionId),
+      tx.pure.u64(rating),
+      tx.pure.string(comment),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Add a chat message
+ * @param packageId The package ID
+ * @param chatId The chat room of the interaction
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param content The message text or the blob ID of an uploaded file
+ * @param ephemeralKey The ephemeral key for encryption
+ * @param context The message being sent, its seq must be the next sequence number of the chat room
+ * @returns Transaction to add the chat message
+ */
+export const addChatMessage = async (
+  packageId: string,
+  chatId: string,
+  advertisementId: string,
+  coinType: string,
+  content: { text?: string; blobId?: string },
+  ephemeralKey: Uint8Array,
+  context: ChatCipherContext
+): Promise<Transaction> => {
+  let encryptedTextOption: string | null = null;
+  let blobIdOption: string | null = null;
+
+  if (content.text) {
+    encryptedTextOption = await encryptMessage(content.text, ephemeralKey, context);
+  }
+  if (content.blobId) {
+    blobIdOption = content.blobId;
+  }
+  
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::add_chat_message_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(chatId),
+      tx.object(advertisementId),
+      tx.pure.option('string', blobIdOption),
+      tx.pure.option('string', encryptedTextOption),
+      tx.pure.u64(context.seq),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Archive the chat of an approved deal to a Walrus blob, deleting its messages on-chain
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param chatId The chat room of the interaction
+ * @param blobId The Walrus blob holding the encrypted messages
+ * @param contentHash The sha256 of the blob
+ * @param commitment The message count and running hash of the archived messages, must match the chat room
+ * @returns Transaction to archive the chat
+ */
+export const archiveChat = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  chatId: string,
+  blobId: string,
+  contentHash: Uint8Array,
+  commitment: ChatCommitment
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::archive_chat_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(chatId),
+      tx.pure.string(blobId),
+      tx.pure.vector('u8', Array.from(contentHash)),
+      tx.pure.u64(commitment.messageCount),
+      tx.pure.vector('u8', Array.from(fromHex(commitment.messagesHash))),
+    ],
+  });
+  tx.setGasBudget(10000000);
+
+  return tx;
+};
+
+/**
+ * Delete the messages left on-chain after archiving a chat longer than MAX_CHAT_REMOVALS
+ * @param packageId The package ID
+ * @param chatId The chat room of the interaction
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @returns Transaction to purge the chat room
+ */
+export const purgeArchivedChat = (
+  packageId: string,
+  chatId: string,
+  advertisementId: string,
+  coinType: string
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::purge_archived_chat_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(chatId),
+      tx.object(advertisementId),
+    ],
+  });
+  tx.setGasBudget(10000000);
+
+  return tx;
+};
+
+/**
+ * Fetch the raw fields of a chat room object
+ * @param suiClient The SuiClient instance
+ * @param chatId The chat room of the interaction
+ * @returns The message table, the next sequence number and the running hash of the messages
+ */
+const fetchChatRoomFields = async (suiClient: SuiClient, chatId: string) => {
+  const response = await suiClient.getObject({
+    id: chatId,
+    options: {
+      showContent: true,
+    },
+  });
+
+  if (response.data?.content?.dataType !== 'moveObject') {
+    throw new Error('Chat room not found');
+  }
+
+  return response.data.content.fields as {
+    messages: { fields: { id: { id: string } } };
+    next_seq: string;
+    messages_hash: number[];
+  };
+};
+
+/**
+ * What a chat room has committed to on-chain, kept after its messages are archived
+ */
+export interface ChatCommitment {
+  messageCount: number;
+  messagesHash: string; // Hex encoded running sha256 over every message sent, empty before the first one
+}
+
+/**
+ * Fetch the message count and running hash of a chat room
+ * @param suiClient The SuiClient instance
+ * @param chatId The chat room of the interaction
+ * @returns The commitment of the chat room
+ */
+export const fetchChatCommitment = async (suiClient: SuiClient, chatId: string): Promise<ChatCommitment> => {
+  const chatFields = await fetchChatRoomFields(suiClient, chatId);
+  return {
+    messageCount: Number(chatFields.next_seq),
+    messagesHash: toHex(new Uint8Array(chatFields.messages_hash)),
+  };
+};
+
+/**
+ * Fetch the sequence number the next message of a chat room will get
+ * Messages are encrypted for their sequence number, so senders read it before encrypting
+ * @param suiClient The SuiClient instance
+ * @param chatId The chat room of the interaction
+ * @returns The next sequence number
+ */
+export const fetchNextChatSeq = async (suiClient: SuiClient, chatId: string): Promise<number> => {
+  const chatFields = await fetchChatRoomFields(suiClient, chatId);
+  return Number(chatFields.next_seq);
+};
+
+/**
+ * A page of chat messages
+ */
+export interface ChatMessagesPage {
+  messages: ChatMessage[];
+  nextCursor: number; // Sequence number of the first message not loaded yet
+  hasNextPage: boolean;
+}
+
+/**
+ * Fetch chat messages of an interaction in sequence order
+ * Messages are keyed by sequence number, so their dynamic field IDs are derived instead of listed
+ * @param suiClient The SuiClient instance
+ * @param chatId The chat room of the interaction
+ * @param cursor Sequence number of the first message to fetch
+ * @param limit Maximum number of messages to fetch
+ * @returns The page of messages
+ */
+export const fetchChatMessages = async (
+  suiClient: SuiClient,
+  chatId: string,
+  cursor = 0,
+  limit = MAX_OBJECTS_PER_REQUEST
+): Promise<ChatMessagesPage> => {
+  const chatFields = await fetchChatRoomFields(suiClient, chatId);
+  const tableId = chatFields.messages.fields.id.id;
+  const messageCount = Number(chatFields.next_seq);
+  const end = Math.min(messageCount, cursor + limit);
+
+  const fieldIds: string[] = [];
+  for (let seq = cursor; seq < end; seq++) {
+    fieldIds.push(deriveDynamicFieldID(tableId, 'u64', bcs.u64().serialize(seq).toBytes()));
+  }
+
+  const fieldObjects = await multiGetObjectsChunked(suiClient, fieldIds);
+
+  const messages: ChatMessage[] = [];
+  fieldObjects.forEach((fieldObject, index) => {
+    if (fieldObject.data?.content?.dataType !== 'moveObject') {
+      return;
+    }
+    const msgData = (fieldObject.data.content.fields as { value: { fields: Record<string, string> } }).value.fields;
+    messages.push({
+      id: fieldIds[index],
+      seq: Number(msgData.seq),
+      advertisementId: msgData.advertisement_id,
+      interactionUser: msgData.interaction_user,
+      interactionId: Number(msgData.interaction_id),
+      sender: msgData.sender,
+      timestamp: Number(msgData.timestamp),
+      messageEncryptedText: msgData.message_encrypted_text ?? undefined,
+      messageBlobId: msgData.message_blob_id ?? undefined
+    });
+  });
+
+  return {
+    messages,
+    nextCursor: end,
+    hasNextPage: end < messageCount,
+  };
+};
+
+/**
+ * Fetch the admin registry
+ * @param suiClient The SuiClient instance
+ * @param adminRegistryId The admin registry ID
+ * @returns The admin registry or null if not found
+ */
+export const fetchAdminRegistry = async (
+  suiClient: SuiClient,
+  adminRegistryId: string
+): Promise<AdminRegistry | null> => {
+  try {
+    const response = await suiClient.getObject({
+      id: adminRegistryId,
+      options: {
+        showContent: true,
+      },
+    });
+
+    if (response.data?.content?.dataType !== 'moveObject') {
+      console.error('Admin registry content not found or not a Move object');
+      return null;
+    }
+
+    const fields = response.data.content.fields as {
+      admins: string[];
+      suspended: string[];
+      jury_size: string;
+      jury_thresholds: { fields: { contents: { fields: { key: { fields: { name: string } }; value: string } }[] } };
+      min_appeal_bonds: { fields: { contents: { fields: { key: { fields: { name: string } }; value: string } }[] } };
+    };
+
+    // VecMap entries are keyed by the type name, which lacks the 0x prefix
+    const juryThresholds: Record<string, number> = {};
+    for (const { fields: entry } of fields.jury_thresholds.fields.contents) {
+      juryThresholds[normalizeStructTag(entry.key.fields.name)] = Number(entry.value);
+    }
+    const minAppealBonds: Record<string, number> = {};
+    for (const { fields: entry } of fields.min_appeal_bonds.fields.contents) {
+      minAppealBonds[normalizeStructTag(entry.key.fields.name)] = Number(entry.value);
+    }
+
+    return {
+      id: adminRegistryId,
+      admins: fields.admins,
+      suspended: fields.suspended,
+      jurySize: Number(fields.jury_size),
+      juryThresholds,
+      minAppealBonds,
+    };
+  } catch (error) {
+    console.error(`Error fetching admin registry ${adminRegistryId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Check if an address is a registered admin who is not suspended
+ * @param adminRegistry The admin registry
+ * @param address The address to check
+ * @returns Whether the address can be assigned to disputes
+ */
+export const isActiveAdmin = (
+  adminRegistry: AdminRegistry | null,
+  address?: string
+): boolean => {
+  if (!adminRegistry || !address) return false;
+  return adminRegistry.admins.includes(address) && !adminRegistry.suspended.includes(address);
+};
+
+/**
+ * Fetch the treasury with its fee settings and the fees collected per coin
+ * @param suiClient The SuiClient instance
+ * @param treasuryId The treasury ID
+ * @returns The treasury or null if not found
+ */
+export const fetchTreasury = async (
+  suiClient: SuiClient,
+  treasuryId: string
+): Promise<Treasury | null> => {
+  try {
+    const response = await suiClient.getObject({
+      id: treasuryId,
+      options: {
+        showContent: true,
+      },
+    });
+
+    if (response.data?.content?.dataType !== 'moveObject') {
+      console.error('Treasury content not found or not a Move object');
+      return null;
+    }
+
+    const fields = response.data.content.fields as {
+      fee_bps: string;
+      arbitration_fee_bps: string;
+      balances: { fields: { id: { id: string } } };
+    };
+
+    // Every bag entry is a Balance keyed by the type name of its coin
+    const entries: { name: string; objectId: string }[] = [];
+    let cursor: string | null | undefined = null;
+    do {
+      const page = await suiClient.getDynamicFields({ parentId: fields.balances.fields.id.id, cursor });
+      for (const field of page.data) {
+        entries.push({ name: (field.name.value as { name: string }).name, objectId: field.objectId });
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    const balanceObjects = await multiGetObjectsChunked(suiClient, entries.map(({ objectId }) => objectId));
+    const balances: Record<string, number> = {};
+    balanceObjects.forEach((balanceObj, index) => {
+      if (balanceObj.data?.content?.dataType !== 'moveObject') return;
+      const value = (balanceObj.data.content.fields as { value: string }).value;
+      balances[normalizeStructTag(entries[index].name)] = Number(value);
+    });
+
+    return {
+      id: treasuryId,
+      feeBps: Number(fields.fee_bps),
+      arbitrationFeeBps: Number(fields.arbitration_fee_bps),
+      balances,
+    };
+  } catch (error) {
+    console.error(`Error fetching treasury ${treasuryId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Get the fee kept from an amount, rounded down like the contract does
+ * @param amount The amount the fee is charged on
+ * @param feeBps The fee in basis points
+ * @returns The fee
+ */
+export const getFee = (amount: number, feeBps: number): number =>
+  Number((BigInt(amount) * BigInt(feeBps)) / BigInt(BPS_DENOMINATOR));
+
+/**
+ * Find the platform treasury cap owned by an address
+ * @param suiClient The SuiClient instance
+ * @param packageId The package ID
+ * @param owner The address to check
+ * @returns The cap object ID or null if the address does not hold it
+ */
+export const fetchPlatformTreasuryCapId = async (
+  suiClient: SuiClient,
+  packageId: string,
+  owner: string
+): Promise<string | null> => {
+  const response = await suiClient.getOwnedObjects({
+    owner,
+    filter: { StructType: `${packageId}::marketplace::PlatformTreasuryCap` },
+  });
+  return response.data[0]?.data?.objectId ?? null;
+};
+
+/**
+ * Find the admin governance cap owned by an address
+ * @param suiClient The SuiClient instance
+ * @param packageId The package ID
+ * @param owner The owner address
+ * @returns The cap object ID or null if the address does not govern the registry
+ */
+export const fetchAdminGovernanceCapId = async (
+  suiClient: SuiClient,
+  packageId: string,
+  owner: string
+): Promise<string | null> => {
+  const response = await suiClient.getOwnedObjects({
+    owner,
+    filter: { StructType: `${packageId}::marketplace::AdminGovernanceCap` },
+  });
+  return response.data[0]?.data?.objectId ?? null;
+};
+
+/**
+ * Find the marketplace cap of an advertisement owned by an address
+ * @param suiClient The SuiClient instance
+ * @param packageId The package ID
+ * @param owner The owner address (advertisement creator)
+ * @param advertisementId The advertisement ID
+ * @returns The cap object ID or null if the owner does not hold it
+ */
+export const fetchMarketplaceCapId = async (
+  suiClient: SuiClient,
+  packageId: string,
+  owner: string,
+  advertisementId: string
+): Promise<string | null> => {
+  let cursor: string | null | undefined = null;
+  do {
+    const response = await suiClient.getOwnedObjects({
+      owner,
+      filter: { StructType: `${packageId}::marketplace::MarketplaceCap` },
+      options: { showContent: true },
+      cursor,
+    });
+
+    const cap = response.data.find((object) => {
+      const content = object.data?.content;
+      return content?.dataType === 'moveObject' &&
+        (content.fields as { advertisement_id: string }).advertisement_id === advertisementId;
+    });
+    if (cap?.data) {
+      return cap.data.objectId;
+    }
+
+    cursor = response.hasNextPage ? response.nextCursor : null;
+  } while (cursor);
+
+  return null;
+};
+
+/**
+ * Change the terms of a listing (MarketplaceCap holder only)
+ * Deals already joined keep the terms they were joined under
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param capId The marketplace cap ID of the advertisement
+ * @param title The new title
+ * @param description The new description
+ * @param category The new category ID from CATEGORIES
+ * @param tags The new search keywords, see parseTags
+ * @param amount The new amount in the smallest unit of the coin
+ * @param deliveryWindowMs Time the seller has to deliver after a buyer joins
+ * @param reviewWindowMs Time the buyer has to approve or dispute after delivery
+ * @param milestones Milestones adding up to the amount, or an empty list for a lump sum deal
+ * @returns Transaction to edit the advertisement
+ */
+export const editAdvertisement = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  capId: string,
+  title: string,
+  description: string,
+  category: string,
+  tags: string[],
+  amount: number,
+  deliveryWindowMs: number,
+  reviewWindowMs: number,
+  milestones: Milestone[]
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::edit_advertisement_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(capId),
+      tx.pure.string(title),
+      tx.pure.string(description),
+      tx.pure.string(category),
+      tx.pure.vector('string', tags),
+      tx.pure.u64(amount),
+      tx.pure.u64(deliveryWindowMs),
+      tx.pure.u64(reviewWindowMs),
+      tx.pure.vector('string', milestones.map((milestone) => milestone.description)),
+      tx.pure.vector('u64', milestones.map((milestone) => milestone.amount)),
+    ],
+  });
+  tx.setGasBudget(10000000);
+
+  return tx;
+};
+
+/**
+ * Bring the image gallery of a listing to the given blob IDs (MarketplaceCap holder only)
+ * Removed images are unpublished, new ones published, then the gallery is reordered if needed
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param capId The marketplace cap ID of the advertisement
+ * @param currentImages Blob IDs published on the listing, in gallery order
+ * @param nextImages Blob IDs of the gallery after the update, in gallery order
+ * @param tx Transaction to add the calls to, a new one by default
+ * @returns Transaction to update the images
+ */
+export const updateAdvertisementImages = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  capId: string,
+  currentImages: string[],
+  nextImages: string[],
+  tx: Transaction = new Transaction()
+): Transaction => {
+  const removed = currentImages.filter((blobId) => !nextImages.includes(blobId));
+  const added = nextImages.filter((blobId) => !currentImages.includes(blobId));
+
+  for (const blobId of removed) {
+    tx.moveCall({
+      target: `${packageId}::marketplace::unpublish_entry`,
+      typeArguments: [coinType],
+      arguments: [tx.object(advertisementId), tx.object(capId), tx.pure.string(blobId)],
+    });
+  }
+  for (const blobId of added) {
+    tx.moveCall({
+      target: `${packageId}::marketplace::publish_entry`,
+      typeArguments: [coinType],
+      arguments: [tx.object(advertisementId), tx.object(capId), tx.pure.string(blobId)],
+    });
+  }
+
+  // Published images are appended, so only reorder when that isn't already the wanted order
+  const published = [...currentImages.filter((blobId) => !removed.includes(blobId)), ...added];
+  if (published.some((blobId, index) => blobId !== nextImages[index])) {
+    tx.moveCall({
+      target: `${packageId}::marketplace::reorder_images_entry`,
+      typeArguments: [coinType],
+      arguments: [tx.object(advertisementId), tx.object(capId), tx.pure.vector('string', nextImages)],
+    });
+  }
+  tx.setGasBudget(10000000);
+
+  return tx;
+};
+
+/**
+ * Pause or resume a listing (MarketplaceCap holder only)
+ * @param packageId The package ID
+ * @param functionName pause_advertisement or resume_advertisement
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param capId The marketplace cap ID of the advertisement
+ * @returns Transaction to change the listing status
+ */
+export const setAdvertisementPaused = (
+  packageId: string,
+  functionName: 'pause_advertisement' | 'resume_advertisement',
+  advertisementId: string,
+  coinType: string,
+  capId: string
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::${functionName}`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(capId),
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Close a listing for good, it stays in the registry so its deals remain listed (MarketplaceCap holder only)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param capId The marketplace cap ID of the advertisement
+ * @returns Transaction to close the listing
+ */
+export const closeAdvertisement = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  capId: string
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::close_advertisement`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(capId),
+    ],
+  });
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Add funds to the budget of a buy advertisement (creator only)
+ * @param suiClient The SuiClient instance
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param creatorAddress The creator's address
+ * @param amount The amount to add, in the smallest unit of the coin
+ * @returns Transaction to fund the advertisement
+ */
+export const fundAdvertisement = async (
+  suiClient: SuiClient,
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  creatorAddress: string,
+  amount: number
+): Promise<Transaction> => {
+  const tx = new Transaction();
+  const [coin] = tx.splitCoins(
+    await selectPaymentCoin(suiClient, tx, creatorAddress, coinType, amount),
+    [tx.pure.u64(amount)]
+  );
+
+  tx.moveCall({
+    target: `${packageId}::marketplace::fund_advertisement_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      coin,
+    ],
+  });
+  tx.setGasBudget(10000000);
+
+  return tx;
+};
+
+/**
+ * Take funds back from the budget of a buy advertisement (MarketplaceCap holder only)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param capId The marketplace cap ID of the advertisement
+ * @param amount The amount to withdraw, in the smallest unit of the coin
+ * @returns Transaction to withdraw from the budget
+ */
+export const withdrawBudget = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  capId: string,
+  amount: number
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::withdraw_budget_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.object(capId),
+      tx.pure.u64(amount),
+    ],
+  });
+  tx.setGasBudget(10000000);
+
+  return tx;
+};
+
+/**
+ * Propose a different price for a lump sum advertisement before joining it
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param amount The proposed amount, in the smallest unit of the coin
+ * @param message Note to the creator, may be empty
+ * @returns Transaction to make the offer
+ */
+export const makeOffer = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  amount: number,
+  message: string
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::make_offer_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.pure.u64(amount),
+      tx.pure.string(message),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+
+  return tx;
+};
+
+/**
+ * Propose another amount in answer to an offer (the side whose turn it is only)
+ * @param packageId The package ID
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param offerId The offer ID
+ * @param amount The proposed amount, in the smallest unit of the coin
+ * @param message Note to the other side, may be empty
+ * @returns Transaction to counter the offer
+ */
+export const counterOffer = (
+  packageId: string,
+  advertisementId: string,
+  coinType: string,
+  offerId: number,
+  amount: number,
+  message: string
+): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::marketplace::counter_offer_entry`,
+    typeArguments: [coinType],
+    arguments: [
+      tx.object(advertisementId),
+      tx.pure.u64(offerId),
+      tx.pure.u64(amount),
+      tx.pure.string(message),
+      tx.object('0x6'), // Clock object
+    ],
+  });
+  tx.setGasBudget(10000000);
+
+  return tx;
+};
+
+/**
+ * Accept or reject an offer (the side whose turn it is only)
+ * @param packageId The package ID
+ * @param functionName accept_offer_entry or reject_offer_entry
+ * @param advertisementId The advertisement ID
+ * @param coinType The coin type the advertisement is paid in
+ * @param offerId The offer ID
+ * @returns Transaction to answer the offer
+ */
+export const answerOffer = (
+  packageId: string,
+  functionName: 'accept_offer_entry' | 'reject_offer_entry',
+  advertisementId: string,
+  coinType: string,
+  offerId: number
+): Transaction => {
+  const tx = new Transaction();
   tx.moveCall({
-    target: `${packageId}::marketplace::join_advertisement_entry`,
+    target: `${packageId}::marketplace::${functionName}`,
+    typeArguments: [coinType],
     arguments: [
       tx.object(advertisementId),
-      coin,
-      tx.pure.vector('u8', Array.from(encryptedKey)),
+      tx.pure.u64(offerId),
       tx.object('0x6'), // Clock object
-      tx.object('0x8'), // Random object
     ],
   });
-  
   tx.setGasBudget(10000000);
-  
-  return { 
-    transaction: tx,
-    ephemeralKey: rawKey
-  };
+
+  return tx;
 };
 
 /**
- * Mark an interaction as completed
+ * Set how many admins are drawn for a jury (governance cap holder only)
  * @param packageId The package ID
- * @param advertisementId The advertisement ID
- * @param userAddress The user address
- * @param interactionId The interaction ID
- * @returns Transaction to mark the interaction as completed
+ * @param adminRegistryId The admin registry ID
+ * @param capId The admin governance cap ID
+ * @param jurySize Odd number of jurors
+ * @returns Transaction to update the jury size
  */
-export const markInteractionCompleted = (
+export const setJurySize = (
   packageId: string,
-  advertisementId: string,
-  userAddress: string,
-  interactionId: number
+  adminRegistryId: string,
+  capId: string,
+  jurySize: number
 ): Transaction => {
   const tx = new Transaction();
   tx.moveCall({
-    target: `${packageId}::marketplace::mark_completed`,
+    target: `${packageId}::marketplace::set_jury_size`,
     arguments: [
-      tx.object(advertisementId),
-      tx.pure.address(userAddress),
-      tx.pure.u64(interactionId),
+      tx.object(adminRegistryId),
+      tx.object(capId),
+      tx.pure.u64(jurySize),
     ],
   });
   tx.setGasBudget(10000000);
@@ -370,23 +2193,112 @@ export const markInteractionCompleted = (
 };
 
 /**
- * Release payment for an interaction (buyer approves)
+ * Set or remove the escrow amount from which disputes in a coin are decided by a jury (governance cap holder only)
  * @param packageId The package ID
- * @param advertisementId The advertisement ID
- * @param interactionId The interaction ID
- * @returns Transaction to release payment
+ * @param adminRegistryId The admin registry ID
+ * @param capId The admin governance cap ID
+ * @param coinType The coin type the threshold applies to
+ * @param threshold The threshold in the smallest unit of the coin, or null to remove it
+ * @returns Transaction to update the jury threshold
  */
-export const releasePayment = (
+export const setJuryThreshold = (
   packageId: string,
-  advertisementId: string,
-  interactionId: number
+  adminRegistryId: string,
+  capId: string,
+  coinType: string,
+  threshold: number | null
+): Transaction => {
+  const tx = new Transaction();
+  if (threshold === null) {
+    tx.moveCall({
+      target: `${packageId}::marketplace::remove_jury_threshold`,
+      typeArguments: [coinType],
+      arguments: [
+        tx.object(adminRegistryId),
+        tx.object(capId),
+      ],
+    });
+  } else {
+    tx.moveCall({
+      target: `${packageId}::marketplace::set_jury_threshold`,
+      typeArguments: [coinType],
+      arguments: [
+        tx.object(adminRegistryId),
+        tx.object(capId),
+        tx.pure.u64(threshold),
+      ],
+    });
+  }
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Set or remove the smallest bond an appeal in a coin posts (governance cap holder only)
+ * @param packageId The package ID
+ * @param adminRegistryId The admin registry ID
+ * @param capId The admin governance cap ID
+ * @param coinType The coin type the floor applies to
+ * @param minBond The floor in the smallest unit of the coin, or null to remove it
+ * @returns Transaction to update the appeal bond floor
+ */
+export const setMinAppealBond = (
+  packageId: string,
+  adminRegistryId: string,
+  capId: string,
+  coinType: string,
+  minBond: number | null
+): Transaction => {
+  const tx = new Transaction();
+  if (minBond === null) {
+    tx.moveCall({
+      target: `${packageId}::marketplace::remove_min_appeal_bond`,
+      typeArguments: [coinType],
+      arguments: [
+        tx.object(adminRegistryId),
+        tx.object(capId),
+      ],
+    });
+  } else {
+    tx.moveCall({
+      target: `${packageId}::marketplace::set_min_appeal_bond`,
+      typeArguments: [coinType],
+      arguments: [
+        tx.object(adminRegistryId),
+        tx.object(capId),
+        tx.pure.u64(minBond),
+      ],
+    });
+  }
+  tx.setGasBudget(10000000);
+  
+  return tx;
+};
+
+/**
+ * Change the platform fee or the arbitration fee (treasury cap holder only)
+ * @param packageId The package ID
+ * @param treasuryId The treasury ID
+ * @param capId The platform treasury cap ID
+ * @param fee Which fee to change
+ * @param feeBps The new fee in basis points
+ * @returns Transaction to update the fee
+ */
+export const setTreasuryFee = (
+  packageId: string,
+  treasuryId: string,
+  capId: string,
+  fee: 'platform' | 'arbitration',
+  feeBps: number
 ): Transaction => {
   const tx = new Transaction();
   tx.moveCall({
-    target: `${packageId}::marketplace::release_payment_entry`,
+    target: `${packageId}::marketplace::${fee === 'platform' ? 'set_platform_fee' : 'set_arbitration_fee'}`,
     arguments: [
-      tx.object(advertisementId),
-      tx.pure.u64(interactionId),
+      tx.object(treasuryId),
+      tx.object(capId),
+      tx.pure.u64(feeBps),
     ],
   });
   tx.setGasBudget(10000000);
@@ -395,26 +2307,29 @@ export const releasePayment = (
 };
 
 /**
- * Dispute an interaction
+ * Withdraw collected fees of a coin to the sender (treasury cap holder only)
  * @param packageId The package ID
- * @param advertisementId The advertisement ID
- * @param userAddress The user address whose interaction is being disputed
- * @param interactionId The interaction ID
- * @returns Transaction to dispute the interaction
+ * @param treasuryId The treasury ID
+ * @param capId The platform treasury cap ID
+ * @param coinType The coin type to withdraw
+ * @param amount The amount in the smallest unit of the coin
+ * @returns Transaction to withdraw the fees
  */
-export const disputeInteraction = (
+export const withdrawFees = (
   packageId: string,
-  advertisementId: string,
-  userAddress: string,
-  interactionId: number
+  treasuryId: string,
+  capId: string,
+  coinType: string,
+  amount: number
 ): Transaction => {
   const tx = new Transaction();
   tx.moveCall({
-    target: `${packageId}::marketplace::dispute_transaction_entry`,
+    target: `${packageId}::marketplace::withdraw_fees_entry`,
+    typeArguments: [coinType],
     arguments: [
-      tx.object(advertisementId),
-      tx.pure.address(userAddress),
-      tx.pure.u64(interactionId),
+      tx.object(treasuryId),
+      tx.object(capId),
+      tx.pure.u64(amount),
     ],
   });
   tx.setGasBudget(10000000);
@@ -423,43 +2338,28 @@ export const disputeInteraction = (
 };
 
 /**
- * Add a chat message
+ * Build a governance call on the admin registry
  * @param packageId The package ID
- * @param advertisementId The advertisement ID
- * @param userAddress The user address
- * @param interactionId The interaction ID
- * @param message The message text
- * @param ephemeralKey The ephemeral key for encryption
- * @returns Transaction to add the chat message
+ * @param functionName One of add_admin, remove_admin, suspend_admin, reinstate_admin
+ * @param adminRegistryId The admin registry ID
+ * @param capId The admin governance cap ID
+ * @param adminAddress The admin to manage
+ * @returns Transaction to update the admin registry
  */
-export const addChatMessage = async (
+export const manageAdmin = (
   packageId: string,
-  advertisementId: string,
-  userAddress: string,
-  interactionId: number,
-  content: { text?: string; blobId?: string },
-  ephemeralKey: Uint8Array
-): Promise<Transaction> => {
-  let encryptedTextOption: string | null = null;
-  let blobIdOption: string | null = null;
-
-  if (content.text) {
-    encryptedTextOption = await encryptMessage(content.text, ephemeralKey);
-  }
-  if (content.blobId) {
-    blobIdOption = content.blobId;
-  }
-  
+  functionName: 'add_admin' | 'remove_admin' | 'suspend_admin' | 'reinstate_admin',
+  adminRegistryId: string,
+  capId: string,
+  adminAddress: string
+): Transaction => {
   const tx = new Transaction();
   tx.moveCall({
-    target: `${packageId}::marketplace::add_chat_message`,
+    target: `${packageId}::marketplace::${functionName}`,
     arguments: [
-      tx.object(advertisementId),
-      tx.pure.address(userAddress),
-      tx.pure.u64(interactionId),
-      tx.pure.option('string', blobIdOption),
-      tx.pure.option('string', encryptedTextOption),
-      tx.object('0x6'), // Clock object
+      tx.object(adminRegistryId),
+      tx.object(capId),
+      tx.pure.address(adminAddress),
     ],
   });
   tx.setGasBudget(10000000);
@@ -467,6 +2367,200 @@ export const addChatMessage = async (
   return tx;
 };
 
+/**
+ * Look up a value stored under an address key in one of the stats registry tables
+ * @param suiClient The SuiClient instance
+ * @param statsRegistryId The stats registry ID
+ * @param tableName The table field on the registry ('reputations' or 'reviews')
+ * @param address The address key
+ * @returns The Move value or null if the address has no entry
+ */
+const fetchStatsTableEntry = async <T>(
+  suiClient: SuiClient,
+  statsRegistryId: string,
+  tableName: 'reputations' | 'reviews',
+  address: string
+): Promise<T | null> => {
+  const registryResponse = await suiClient.getObject({
+    id: statsRegistryId,
+    options: {
+      showContent: true,
+    },
+  });
+
+  if (registryResponse.data?.content?.dataType !== 'moveObject') {
+    console.error('Stats registry content not found or not a Move object');
+    return null;
+  }
+
+  const registryFields = registryResponse.data.content.fields as Record<
+    string,
+    { fields: { id: { id: string } } }
+  >;
+  const tableId = registryFields[tableName].fields.id.id as string;
+
+  const entry = await suiClient.getDynamicFieldObject({
+    parentId: tableId,
+    name: { type: 'address', value: address },
+  });
+
+  // Users who never finished a deal have no entry
+  if (entry.data?.content?.dataType !== 'moveObject') {
+    return null;
+  }
+
+  return (entry.data.content.fields as unknown as { value: T }).value;
+};
+
+/**
+ * Fetch the on-chain reputation of a user
+ * @param suiClient The SuiClient instance
+ * @param statsRegistryId The stats registry ID
+ * @param address The user address
+ * @returns The user's reputation or null if they have not finished any deal yet
+ */
+export const fetchUserReputation = async (
+  suiClient: SuiClient,
+  statsRegistryId: string,
+  address: string
+): Promise<UserReputation | null> => {
+  try {
+    const value = await fetchStatsTableEntry<{ fields: Record<string, string> }>(
+      suiClient,
+      statsRegistryId,
+      'reputations',
+      address
+    );
+    if (!value) {
+      return null;
+    }
+
+    const fields = value.fields;
+
+    return {
+      user: fields.user,
+      ratingSum: Number(fields.rating_sum),
+      ratingCount: Number(fields.rating_count),
+      totalVolume: Number(fields.total_volume),
+      totalDeals: Number(fields.total_deals),
+      peacefulResolutions: Number(fields.peaceful_resolutions),
+      disputedDeals: Number(fields.disputed_deals),
+      createdAt: Number(fields.created_at),
+      lastActive: Number(fields.last_active),
+    };
+  } catch (error) {
+    console.error(`Error fetching reputation for ${address}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Fetch the on-chain reputation of several users
+ * @param suiClient The SuiClient instance
+ * @param statsRegistryId The stats registry ID
+ * @param addresses The user addresses
+ * @returns Map of user address to reputation, users without a reputation are omitted
+ */
+export const fetchUserReputations = async (
+  suiClient: SuiClient,
+  statsRegistryId: string,
+  addresses: string[]
+): Promise<Record<string, UserReputation>> => {
+  const uniqueAddresses = Array.from(new Set(addresses));
+  const reputations = await Promise.all(
+    uniqueAddresses.map((address) => fetchUserReputation(suiClient, statsRegistryId, address))
+  );
+
+  const result: Record<string, UserReputation> = {};
+  reputations.forEach((reputation, index) => {
+    if (reputation) {
+      result[uniqueAddresses[index]] = reputation;
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Fetch the reviews a user has received
+ * @param suiClient The SuiClient instance
+ * @param statsRegistryId The stats registry ID
+ * @param address The reviewed user address
+ * @returns Reviews of the user, newest first
+ */
+export const fetchReviews = async (
+  suiClient: SuiClient,
+  statsRegistryId: string,
+  address: string
+): Promise<Review[]> => {
+  try {
+    const value = await fetchStatsTableEntry<{ fields: Record<string, string> }[]>(
+      suiClient,
+      statsRegistryId,
+      'reviews',
+      address
+    );
+    if (!value) {
+      return [];
+    }
+
+    const reviews: Review[] = value.map((review) => ({
+      transactionId: review.fields.transaction_id,
+      interactionUser: review.fields.interaction_user,
+      interactionId: Number(review.fields.interaction_id),
+      reviewer: review.fields.reviewer,
+      reviewed: review.fields.reviewed,
+      rating: Number(review.fields.rating),
+      comment: review.fields.comment,
+      timestamp: Number(review.fields.timestamp),
+      resolutionType: Number(review.fields.resolution_type),
+    }));
+
+    return reviews.sort((a, b) => b.timestamp - a.timestamp);
+  } catch (error) {
+    console.error(`Error fetching reviews for ${address}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Fetch the reviews both parties left for a single interaction
+ * @param suiClient The SuiClient instance
+ * @param statsRegistryId The stats registry ID
+ * @param advertisementId The advertisement ID
+ * @param interaction The interaction
+ * @returns Reviews of the interaction (at most one per side)
+ */
+export const fetchInteractionReviews = async (
+  suiClient: SuiClient,
+  statsRegistryId: string,
+  advertisementId: string,
+  interaction: Interaction
+): Promise<Review[]> => {
+  const [buyerReviews, sellerReviews] = await Promise.all([
+    fetchReviews(suiClient, statsRegistryId, interaction.buyer),
+    fetchReviews(suiClient, statsRegistryId, interaction.seller),
+  ]);
+
+  return [...sellerReviews, ...buyerReviews].filter((review) =>
+    review.transactionId === advertisementId &&
+    review.interactionUser === interaction.user &&
+    review.interactionId === interaction.id
+  );
+};
+
+/**
+ * Get the average rating of a user
+ * @param reputation The user's reputation
+ * @returns Average rating between 0 and 5 (0 if the user has no ratings)
+ */
+export const getAverageRating = (reputation?: UserReputation | null): number => {
+  if (!reputation || reputation.ratingCount === 0) {
+    return 0;
+  }
+  return reputation.ratingSum / reputation.ratingCount;
+};
+
 /**
  * Get advertisements created by the current user
  * @param advertisements All advertisements
@@ -515,6 +2609,53 @@ export const getLatestInteraction = (
     .sort((a, b) => b.id - a.id)[0];
 };
 
+/**
+ * Check if an offer is still negotiated, or accepted and waiting for the user to join
+ * @param offer The offer
+ * @param now Current time in milliseconds
+ * @returns False once the offer is rejected, taken or expired, its slot can then be reused
+ */
+export const isOfferOpen = (offer: Offer, now: number = Date.now()): boolean =>
+  (offer.status === OFFER_PENDING || offer.status === OFFER_COUNTERED || offer.status === OFFER_ACCEPTED) &&
+  now <= offer.expiresAt;
+
+/**
+ * Get the address that has to answer an offer next
+ * @param advertisement The advertisement the offer was made on
+ * @param offer The offer
+ * @param now Current time in milliseconds
+ * @returns The creator for a pending offer, the user for a countered one, null once the negotiation is over
+ */
+export const getOfferTurn = (
+  advertisement: Advertisement,
+  offer: Offer,
+  now: number = Date.now()
+): string | null => {
+  if (now > offer.expiresAt) {
+    return null;
+  }
+  if (offer.status === OFFER_PENDING) {
+    return advertisement.creator;
+  }
+  return offer.status === OFFER_COUNTERED ? offer.user : null;
+};
+
+/**
+ * Find the offer a user can join an advertisement with
+ * @param advertisement The advertisement
+ * @param userAddress The user's address
+ * @param now Current time in milliseconds
+ * @returns The latest accepted offer of the user that has not expired, if any
+ */
+export const getAcceptedOffer = (
+  advertisement: Advertisement,
+  userAddress: string,
+  now: number = Date.now()
+): Offer | undefined =>
+  [...advertisement.offers]
+    .reverse()
+    .find((offer) => offer.user === userAddress && offer.status === OFFER_ACCEPTED && now <= offer.expiresAt);
+
 /**
  * Check if a user can join an advertisement
  * @param advertisement The advertisement
@@ -530,6 +2671,16 @@ export const canJoinAdvertisement = (
     return false;
   }
   
+  // Paused and closed listings don't accept new deals
+  if (advertisement.status !== LISTING_ACTIVE) {
+    return false;
+  }
+
+  // A buy advertisement needs budget left for the escrow of another deal
+  if (advertisement.kind === AD_KIND_BUY && advertisement.budget < advertisement.amount) {
+    return false;
+  }
+  
   // Check if user has a profile
   const userProfile = advertisement.userProfiles[userAddress];
   if (!userProfile) {
@@ -547,22 +2698,58 @@ export const canJoinAdvertisement = (
     return true; // No previous interactions, can join
   }
   
-  // Can only join if the latest interaction is completed
-  return latestInteraction.state === INTERACTION_BUYER_APPROVED;
+  // Can only join if the latest interaction is completed, resolved by an admin or cancelled
+  return latestInteraction.state === INTERACTION_BUYER_APPROVED ||
+    latestInteraction.state === INTERACTION_RESOLVED ||
+    latestInteraction.state === INTERACTION_CANCELLED;
 };
 
 /**
  * Format currency amount
- * @param amount The amount to format
+ * @param amount The amount to format, in the smallest unit of the coin
+ * @param coin The coin metadata, SUI by default
  * @returns Formatted currency string
  */
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'SUI',
+export const formatCurrency = (amount: number, coin: CoinInfo = SUI_COIN_INFO): string => {
+  const value = new Intl.NumberFormat('en-US', {
     minimumFractionDigits: 0,
-    maximumFractionDigits: 2
-  }).format(amount/1_000_000_000); // Convert from MIST to SUI
+    maximumFractionDigits: Math.min(coin.decimals, 4)
+  }).format(amount / 10 ** coin.decimals); // Convert from the smallest unit
+  return `${value} ${coin.symbol}`;
+};
+
+/**
+ * Convert a user-entered amount to the smallest unit of a coin
+ * @param value The amount in whole coins, e.g. "1.5"
+ * @param coin The coin metadata
+ * @returns The amount in the smallest unit of the coin
+ */
+export const parseCurrency = (value: string, coin: CoinInfo = SUI_COIN_INFO): number =>
+  Math.round(Number(value) * 10 ** coin.decimals);
+
+/**
+ * Fetch the symbol and decimals of a coin type
+ * Falls back to the type name and no decimals when the coin has no metadata
+ * @param suiClient The SuiClient instance
+ * @param coinType The coin type
+ * @returns The coin metadata
+ */
+export const fetchCoinInfo = async (suiClient: SuiClient, coinType: string): Promise<CoinInfo> => {
+  const normalized = normalizeStructTag(coinType);
+  if (normalized === normalizeStructTag(SUI_COIN_INFO.coinType)) {
+    return { ...SUI_COIN_INFO, coinType: normalized };
+  }
+
+  try {
+    const metadata = await suiClient.getCoinMetadata({ coinType: normalized });
+    if (metadata) {
+      return { coinType: normalized, symbol: metadata.symbol, decimals: metadata.decimals };
+    }
+  } catch (error) {
+    console.error(`Error fetching coin metadata for ${normalized}:`, error);
+  }
+
+  return { coinType: normalized, symbol: normalized.split('::').pop() ?? normalized, decimals: 0 };
 };
 
 /**
@@ -575,6 +2762,22 @@ export const formatAddress = (address: string): string => {
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 };
 
+/**
+ * Format a duration as days, hours and minutes
+ * @param ms The duration in milliseconds
+ * @returns Formatted duration string, e.g. "2d 4h 10m"
+ */
+export const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60_000));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
 /**
  * Get state label and color
  * @param state The state number
@@ -603,8 +2806,12 @@ export interface DisplayAdvertisement {
   title: string;
   description: string;
   amount: number;
+  coinType: string;
   creator: string;
+  kind: number; // AD_KIND_SELL or AD_KIND_BUY
+  budget: number; // Funds left for new deals of a buy advertisement
   state: number; // 0: available, 1: joined, 2: completed, 3: disputed
+  status: number; // Listing status (LISTING_*)
   createdAt: number;
   joinedBy?: string;
   interactionId?: number;
@@ -640,8 +2847,12 @@ export const convertToDisplayAdvertisement = (
     title: advertisement.title,
     description: advertisement.description,
     amount: advertisement.amount,
+    coinType: advertisement.coinType,
     creator: advertisement.creator,
+    kind: advertisement.kind,
+    budget: advertisement.budget,
     state: interactionState,
+    status: advertisement.status,
     createdAt: advertisement.createdAt,
     userInteraction: userInteraction
   };
@@ -655,6 +2866,83 @@ export const convertToDisplayAdvertisement = (
   return displayAd;
 };
 
+/**
+ * Interface for a disputed (or dispute-resolved) interaction shown in the admin panel
+ */
+export interface Dispute {
+  advertisementId: string;
+  advertisementTitle: string;
+  coinType: string;
+  amount: number; // Escrow at stake, milestones released before the dispute are not included
+  seller: string;
+  buyer: string;
+  interactionId: number;
+  assignedAdmin: string;
+  createdAt: number;
+  status: 'pending' | 'resolved';
+  resolution?: number;
+  buyerPayout: number;
+  sellerPayout: number;
+  jurors: string[]; // Empty when the assigned admin decides alone
+  votes: JuryVote[];
+  proposedShareBps?: number; // Decision waiting for its appeal window to close
+  deadline: number; // Decision due while undecided, end of the appeal window once proposed
+  escalations: Escalation[];
+  terms: Terms; // What the parties agreed to when the buyer joined
+  termsHash: string;
+}
+
+/**
+ * Collect all disputed and dispute-resolved interactions across the registry
+ * @param suiClient The SuiClient instance
+ * @param packageId The package ID
+ * @param registryId The registry ID
+ * @returns Array of disputes, newest first
+ */
+export const fetchDisputes = async (
+  suiClient: SuiClient,
+  packageId: string,
+  registryId: string
+): Promise<Dispute[]> => {
+  const advertisements = await fetchAdvertisements(suiClient, packageId, registryId);
+  const disputes: Dispute[] = [];
+
+  for (const advertisement of advertisements) {
+    for (const profile of Object.values(advertisement.userProfiles)) {
+      for (const interaction of profile.interactions) {
+        const isPending = interaction.state === INTERACTION_DISPUTED;
+        const isResolved = interaction.state === INTERACTION_RESOLVED;
+        if (!isPending && !isResolved) continue;
+
+        disputes.push({
+          advertisementId: advertisement.id,
+          advertisementTitle: advertisement.title,
+          coinType: advertisement.coinType,
+          amount: interaction.amount - interaction.releasedAmount,
+          seller: interaction.seller,
+          buyer: interaction.buyer,
+          interactionId: interaction.id,
+          assignedAdmin: interaction.assignedAdmin,
+          createdAt: interaction.joinedAt,
+          status: isPending ? 'pending' : 'resolved',
+          resolution: interaction.resolution,
+          buyerPayout: interaction.buyerPayout,
+          sellerPayout: interaction.sellerPayout,
+          jurors: interaction.jurors,
+          votes: interaction.juryVotes,
+          proposedShareBps: interaction.proposedShareBps,
+          deadline: interaction.deadline,
+          escalations: interaction.escalations,
+          terms: interaction.terms,
+          termsHash: interaction.termsHash,
+        });
+      }
+    }
+  }
+
+  return disputes.sort((a, b) => b.createdAt - a.createdAt);
+};
+
 /**
  * Check if current user is the creator of an advertisement
  * @param advertisement The advertisement
@@ -669,6 +2957,16 @@ export const isCreator = (
   return advertisement.creator === currentUserAddress;
 };
 
+/**
+ * Check if the creator of an advertisement is the seller of its deals
+ * The creator of a sell advertisement delivers the work, the creator of a buy advertisement pays for it
+ * @param advertisement The advertisement
+ * @returns Whether the creator is the seller
+ */
+export const isCreatorSeller = (
+  advertisement: DisplayAdvertisement | Advertisement
+): boolean => advertisement.kind !== AD_KIND_BUY;
+
 /**
  * Check if current user is the joiner of an advertisement
  * @param advertisement The advertisement
@@ -0,0 +1,114 @@
+// Category taxonomy of the marketplace, listings store the ID of a category or subcategory
+
+export interface Category {
+  id: string;
+  label: string;
+  subcategories: { id: string; label: string }[];
+}
+
+// Listings without a known category are shown under it
+export const DEFAULT_CATEGORY = 'other';
+
+// Limits enforced by the contract
+export const MAX_TAGS = 8;
+export const MAX_TAG_LENGTH = 32;
+
+export const CATEGORIES: Category[] = [
+  {
+    id: 'development',
+    label: 'Development',
+    subcategories: [
+      { id: 'development.web', label: 'Web' },
+      { id: 'development.mobile', label: 'Mobile' },
+      { id: 'development.smart-contracts', label: 'Smart Contracts' },
+      { id: 'development.data', label: 'Data & AI' },
+    ],
+  },
+  {
+    id: 'design',
+    label: 'Design',
+    subcategories: [
+      { id: 'design.graphics', label: 'Graphics & Logos' },
+      { id: 'design.ui', label: 'UI & UX' },
+      { id: 'design.video', label: 'Video & Animation' },
+    ],
+  },
+  {
+    id: 'writing',
+    label: 'Writing',
+    subcategories: [
+      { id: 'writing.content', label: 'Content' },
+      { id: 'writing.translation', label: 'Translation' },
+    ],
+  },
+  {
+    id: 'marketing',
+    label: 'Marketing',
+    subcategories: [
+      { id: 'marketing.social', label: 'Social Media' },
+      { id: 'marketing.community', label: 'Community' },
+    ],
+  },
+  {
+    id: 'consulting',
+    label: 'Consulting',
+    subcategories: [
+      { id: 'consulting.business', label: 'Business' },
+      { id: 'consulting.legal', label: 'Legal' },
+      { id: 'consulting.tokenomics', label: 'Tokenomics' },
+    ],
+  },
+  {
+    id: DEFAULT_CATEGORY,
+    label: 'Other',
+    subcategories: [],
+  },
+];
+
+/**
+ * Get the display label of a category ID, subcategories include their parent
+ * @param categoryId The category ID stored on the listing
+ * @returns The label, "Other" for unknown IDs
+ */
+export const getCategoryLabel = (categoryId: string): string => {
+  for (const category of CATEGORIES) {
+    if (category.id === categoryId) return category.label;
+    const subcategory = category.subcategories.find((sub) => sub.id === categoryId);
+    if (subcategory) return `${category.label} › ${subcategory.label}`;
+  }
+  return getCategoryLabel(DEFAULT_CATEGORY);
+};
+
+/**
+ * Map a stored category ID to the taxonomy, listings created before categories fall back to the default
+ * @param categoryId The category ID stored on the listing
+ * @returns The ID if the taxonomy knows it, otherwise DEFAULT_CATEGORY
+ */
+export const normalizeCategory = (categoryId: string | undefined): string =>
+  categoryId && CATEGORIES.some((category) =>
+    category.id === categoryId || category.subcategories.some((sub) => sub.id === categoryId)
+  )
+    ? categoryId
+    : DEFAULT_CATEGORY;
+
+/**
+ * Check whether a listing's category falls under a filter, a top-level category matches its subcategories
+ * @param categoryId The category ID of the listing
+ * @param filterId The category ID filtered on
+ * @returns True if the listing matches
+ */
+export const matchesCategory = (categoryId: string, filterId: string): boolean =>
+  categoryId === filterId || categoryId.startsWith(`${filterId}.`);
+
+/**
+ * Parse comma separated tags as typed by a user
+ * @param input The raw input
+ * @returns Lowercase, trimmed and unique tags within the contract limits
+ */
+export const parseTags = (input: string): string[] => {
+  const tags = input
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter((tag) => tag.length > 0 && new TextEncoder().encode(tag).length <= MAX_TAG_LENGTH);
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+};
@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import { useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { Transaction } from '@mysten/sui/transactions';
+import { Button, Card, Flex, Text, Heading, Badge, Separator } from '@radix-ui/themes';
+import { UserPlus, UserX, PauseCircle, PlayCircle, Scale } from 'lucide-react';
+import { useNetworkVariable } from '../networkConfig';
+import { AdminRegistry, SUI_COIN_INFO } from '../types';
+import { manageAdmin, setJurySize, setJuryThreshold, setMinAppealBond, parseCurrency, formatAddress } from '../api';
+import { useCoinMetadata } from '../contexts/useCoinMetadata';
+
+interface AdminRegistryManagerProps {
+  adminRegistry: AdminRegistry;
+  governanceCapId: string;
+  onRegistryChanged: () => void;
+}
+
+export function AdminRegistryManager({
+  adminRegistry,
+  governanceCapId,
+  onRegistryChanged
+}: AdminRegistryManagerProps) {
+  const packageId = useNetworkVariable('packageId');
+  const suiClient = useSuiClient();
+  const { loadCoinInfo, formatAmount } = useCoinMetadata();
+
+  const [newAdminAddress, setNewAdminAddress] = useState('');
+  const [jurySizeInput, setJurySizeInput] = useState(String(adminRegistry.jurySize));
+  const [thresholdCoinType, setThresholdCoinType] = useState(SUI_COIN_INFO.coinType);
+  const [thresholdAmount, setThresholdAmount] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Transaction signing and execution
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction({
+    execute: async ({ bytes, signature }) =>
+      await suiClient.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature,
+        options: {
+          showRawEffects: true,
+          showEffects: true,
+        },
+      }),
+  });
+
+  // Run a governance transaction against the admin registry
+  const runGovernanceTx = (tx: Transaction, label: string) => {
+    setIsUpdating(true);
+    setError(null);
+
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: async (result) => {
+          console.log(`Admin registry updated (${label}):`, result);
+          setNewAdminAddress('');
+          setThresholdAmount('');
+          setIsUpdating(false);
+          onRegistryChanged();
+        },
+        onError: (error) => {
+          console.error(`Error updating admin registry (${label}):`, error);
+          setError('Failed to update the admin registry. Please try again.');
+          setIsUpdating(false);
+        },
+      },
+    );
+  };
+
+  // Run a governance call on a single admin
+  const updateRegistry = (
+    functionName: 'add_admin' | 'remove_admin' | 'suspend_admin' | 'reinstate_admin',
+    adminAddress: string
+  ) => {
+    runGovernanceTx(
+      manageAdmin(packageId, functionName, adminRegistry.id, governanceCapId, adminAddress),
+      functionName
+    );
+  };
+
+  // Draw a jury for escrows of a coin from the entered amount on, or make appeals in the coin post at least that amount
+  const updateCoinSetting = async (setting: 'set_jury_threshold' | 'set_min_appeal_bond') => {
+    try {
+      const coin = await loadCoinInfo(thresholdCoinType.trim());
+      const buildTx = setting === 'set_jury_threshold' ? setJuryThreshold : setMinAppealBond;
+      runGovernanceTx(
+        buildTx(
+          packageId,
+          adminRegistry.id,
+          governanceCapId,
+          coin.coinType,
+          parseCurrency(thresholdAmount, coin)
+        ),
+        setting
+      );
+    } catch (err) {
+      console.error('Error loading coin metadata:', err);
+      setError('Unknown coin type.');
+    }
+  };
+
+  const jurySize = Number(jurySizeInput);
+  const isValidJurySize = Number.isInteger(jurySize) && jurySize > 0 && jurySize % 2 === 1;
+
+  return (
+    <Card>
+      <Flex direction="column" gap="3">
+        <Heading size="4">Admin Registry</Heading>
+
+        <Flex gap="2" align="center">
+          <input
+            placeholder="Admin address (0x...)"
+            value={newAdminAddress}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewAdminAddress(e.target.value.trim())}
+            style={{
+              flex: 1,
+              padding: '8px',
+              borderRadius: '4px',
+              border: '1px solid var(--gray-5)'
+            }}
+          />
+          <Button
+            onClick={() => updateRegistry('add_admin', newAdminAddress)}
+            disabled={isUpdating || !newAdminAddress.startsWith('0x')}
+          >
+            <UserPlus size={16} />
+            Add Admin
+          </Button>
+        </Flex>
+
+        {error && <Text color="red" size="2">{error}</Text>}
+
+        {adminRegistry.admins.length === 0 ? (
+          <Text size="2">No admins registered yet. Joining advertisements is blocked until one is added.</Text>
+        ) : (
+          <Flex direction="column" gap="2">
+            {adminRegistry.admins.map((admin) => {
+              const isSuspended = adminRegistry.suspended.includes(admin);
+
+              return (
+                <Flex key={admin} justify="between" align="center">
+                  <Flex gap="2" align="center">
+                    <Text size="2">{formatAddress(admin)}</Text>
+                    <Badge color={isSuspended ? 'orange' : 'green'}>
+                      {isSuspended ? 'Suspended' : 'Active'}
+                    </Badge>
+                  </Flex>
+
+                  <Flex gap="2">
+                    {isSuspended ? (
+                      <Button
+                        size="1"
+                        variant="soft"
+                        onClick={() => updateRegistry('reinstate_admin', admin)}
+                        disabled={isUpdating}
+                      >
+                        <PlayCircle size={14} />
+                        Reinstate
+                      </Button>
+                    ) : (
+                      <Button
+                        size="1"
+                        variant="soft"
+                        color="orange"
+                        onClick={() => updateRegistry('suspend_admin', admin)}
+                        disabled={isUpdating}
+                      >
+                        <PauseCircle size={14} />
+                        Suspend
+                      </Button>
+                    )}
+                    <Button
+                      size="1"
+                      variant="soft"
+                      color="red"
+                      onClick={() => updateRegistry('remove_admin', admin)}
+                      disabled={isUpdating}
+                    >
+                      <UserX size={14} />
+                      Remove
+                    </Button>
+                  </Flex>
+                </Flex>
+              );
+            })}
+          </Flex>
+        )}
+
+        <Separator size="4" />
+
+        <Flex gap="2" align="center">
+          <Scale size={16} />
+          <Heading size="3">Jury for High-Value Disputes</Heading>
+        </Flex>
+        <Text size="2" color="gray">
+          Deals whose escrow reaches the threshold of their coin get a jury of randomly drawn admins instead of a single one.
+        </Text>
+
+        <Flex gap="2" align="center">
+          <Text size="2">Jury size</Text>
+          <input
+            type="number"
+            min="1"
+            step="2"
+            value={jurySizeInput}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setJurySizeInput(e.target.value)}
+            style={{
+              width: '80px',
+              padding: '8px',
+              borderRadius: '4px',
+              border: '1px solid var(--gray-5)'
+            }}
+          />
+          <Button
+            variant="soft"
+            onClick={() => runGovernanceTx(setJurySize(packageId, adminRegistry.id, governanceCapId, jurySize), 'set_jury_size')}
+            disabled={isUpdating || !isValidJurySize || jurySize === adminRegistry.jurySize}
+          >
+            Update Size
+          </Button>
+          {!isValidJurySize && <Text size="1" color="red">Must be an odd number</Text>}
+        </Flex>
+
+        <Flex gap="2" align="center">
+          <input
+            placeholder="Coin type (0x2::sui::SUI)"
+            value={thresholdCoinType}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setThresholdCoinType(e.target.value)}
+            style={{
+              flex: 2,
+              padding: '8px',
+              borderRadius: '4px',
+              border: '1px solid var(--gray-5)'
+            }}
+          />
+          <input
+            type="number"
+            placeholder="Threshold"
+            value={thresholdAmount}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setThresholdAmount(e.target.value)}
+            style={{
+              flex: 1,
+              padding: '8px',
+              borderRadius: '4px',
+              border: '1px solid var(--gray-5)'
+            }}
+          />
+          <Button
+            onClick={() => updateCoinSetting('set_jury_threshold')}
+            disabled={isUpdating || !thresholdCoinType.trim() || !(Number(thresholdAmount) > 0)}
+          >
+            Set Threshold
+          </Button>
+          <Button
+            variant="soft"
+            onClick={() => updateCoinSetting('set_min_appeal_bond')}
+            disabled={isUpdating || !thresholdCoinType.trim() || !(Number(thresholdAmount) > 0)}
+          >
+            Set Min Bond
+          </Button>
+        </Flex>
+
+        {Object.entries(adminRegistry.juryThresholds).map(([coinType, threshold]) => (
+          <Flex key={coinType} justify="between" align="center">
+            <Text size="2">Jury from {formatAmount(threshold, coinType)}</Text>
+            <Button
+              size="1"
+              variant="soft"
+              color="red"
+              onClick={() => runGovernanceTx(
+                setJuryThreshold(packageId, adminRegistry.id, governanceCapId, coinType, null),
+                'remove_jury_threshold'
+              )}
+              disabled={isUpdating}
+            >
+              Remove
+            </Button>
+          </Flex>
+        ))}
+
+        {Object.entries(adminRegistry.minAppealBonds).map(([coinType, minBond]) => (
+          <Flex key={coinType} justify="between" align="center">
+            <Text size="2">Appeal bond at least {formatAmount(minBond, coinType)}</Text>
+            <Button
+              size="1"
+              variant="soft"
+              color="red"
+              onClick={() => runGovernanceTx(
+                setMinAppealBond(packageId, adminRegistry.id, governanceCapId, coinType, null),
+                'remove_min_appeal_bond'
+              )}
+              disabled={isUpdating}
+            >
+              Remove
+            </Button>
+          </Flex>
+        ))}
+      </Flex>
+    </Card>
+  );
+}
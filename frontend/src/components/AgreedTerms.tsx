@@ -0,0 +1,46 @@
+import { Badge, Flex, Text } from '@radix-ui/themes';
+import { FileText } from 'lucide-react';
+import { Terms } from '../types';
+import { formatDuration } from '../api';
+import { useCoinMetadata } from '../contexts/useCoinMetadata';
+
+interface AgreedTermsProps {
+  terms: Terms;
+  termsHash: string;
+  coinType: string;
+  currentVersion?: number;
+  heading?: string;
+}
+
+// The terms a deal was joined under, flagged when the listing has been edited since
+export function AgreedTerms({ terms, termsHash, coinType, currentVersion, heading = 'Terms you agreed to' }: AgreedTermsProps) {
+  const { formatAmount } = useCoinMetadata();
+  const isOutdated = currentVersion !== undefined && currentVersion !== terms.version;
+
+  return (
+    <Flex direction="column" gap="1">
+      <Flex gap="2" align="center">
+        <FileText size={16} />
+        <Text size="2" weight="bold">{heading}</Text>
+        <Badge color={isOutdated ? 'orange' : 'gray'}>Version {terms.version}</Badge>
+        {isOutdated && <Text size="1" color="gray">The listing is now at version {currentVersion}</Text>}
+      </Flex>
+
+      <Text size="2" weight="bold">{terms.title}</Text>
+      <Text size="2">{terms.description}</Text>
+      <Text size="2">
+        {formatAmount(terms.amount, coinType)} · delivery within {formatDuration(terms.deliveryWindowMs)},
+        review within {formatDuration(terms.reviewWindowMs)}
+      </Text>
+
+      {terms.milestones.map((milestone, index) => (
+        <Flex key={index} justify="between">
+          <Text size="2">{index + 1}. {milestone.description}</Text>
+          <Text size="2">{formatAmount(milestone.amount, coinType)}</Text>
+        </Flex>
+      ))}
+
+      <Text size="1" color="gray" style={{ wordBreak: 'break-all' }}>Terms hash: {termsHash}</Text>
+    </Flex>
+  );
+}
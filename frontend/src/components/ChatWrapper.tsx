@@ -1,8 +1,9 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { Card, Flex, Text, Box, TextField, Avatar, Badge, Dialog, IconButton, Button } from '@radix-ui/themes';
-import { Send, Image, Paperclip, X, CheckCircle, AlertCircle, User, History, RefreshCw, Key } from 'lucide-react';
+import { Send, Image, Paperclip, X, CheckCircle, AlertCircle, User, History, RefreshCw, Key, Archive } from 'lucide-react';
 import { ChatProvider, useChat } from '../contexts/ChatContext';
-import { Advertisement } from '../types';
+import { Advertisement, INTERACTION_BUYER_APPROVED } from '../types';
+import { getFileDisplayName, WALRUS_ARCHIVE_EPOCHS } from '../utils';
 
 // Message type for UI rendering
 interface Message {
@@ -13,6 +14,7 @@ interface Message {
   type: 'text' | 'image' | 'file';
   status: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
   imageUrl?: string;
+  thumbnailUrl?: string;
   fileUrl?: string;
   fileMetadata?: {
     filename: string;
@@ -20,11 +22,13 @@ interface Message {
     type: string;
     size: number;
   };
+  tampered?: boolean;
+  unverified?: boolean;
 }
 
 interface ChatWrapperProps {
   advertisement: Advertisement;
-  userAddress: string;
+  userAddress: string; // The user who joined, the interaction is looked up in its profile
   interactionId?: number;
   isCreator: boolean;
   isAdmin: boolean;
@@ -49,14 +53,30 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
     error,
     isInitializingKey,
     keyInitializationError,
+    isSessionExpired,
     sendMessage,
     sendFileMessage,
     retryKeyInitialization,
     currentAdvertisementId,
+    currentInteractionUser,
     currentInteractionId,
     setCurrentChat,
-    currentAccount
+    currentAccount,
+    archiveChat,
+    isChatArchived,
+    isArchiving
   } = useChat();
+
+  // Parties of an approved deal can move its chat to Walrus
+  const currentInteraction = currentInteractionUser
+    ? advertisement.userProfiles[currentInteractionUser]?.interactions.find((interaction) => interaction.id === currentInteractionId)
+    : undefined;
+  const canArchive =
+    !!currentInteraction &&
+    !isChatArchived &&
+    !currentInteraction.chatArchiveBlobId &&
+    currentInteraction.state === INTERACTION_BUYER_APPROVED &&
+    (currentAccount?.address === currentInteraction.buyer || currentAccount?.address === currentInteraction.seller);
   
   // Initialize chat when component mounts
   useEffect(() => {
@@ -84,10 +104,10 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
           
           // Short delay before setting current chat to ensure key initialization has started
           setTimeout(() => {
-            setCurrentChat(advertisement.id, chatInteractionId);
+            setCurrentChat(advertisement.id, userAddress, chatInteractionId);
           }, 500);
         } else {
-          setCurrentChat(advertisement.id, chatInteractionId);
+          setCurrentChat(advertisement.id, userAddress, chatInteractionId);
         }
       } else {
         console.warn('No valid interaction ID found for chat initialization');
@@ -204,8 +224,11 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
       type: chatMessage.type || (chatMessage.messageBlobId ? 'image' : 'text'),
       status: chatMessage.status || 'read',
       imageUrl: chatMessage.imageUrl,
+      thumbnailUrl: chatMessage.thumbnailUrl,
       fileUrl: chatMessage.fileUrl,
-      fileMetadata: chatMessage.fileMetadata
+      fileMetadata: chatMessage.fileMetadata,
+      tampered: chatMessage.tampered,
+      unverified: chatMessage.unverified
     };
     
     const isCurrentUser = message.sender === currentAccount?.address;
@@ -232,7 +255,9 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
               color: isCurrentUser ? 'white' : 'var(--gray-12)',
               borderRadius: '12px',
               padding: '8px 12px',
-              wordBreak: 'break-word'
+              wordBreak: 'break-word',
+              // A tampered message cannot be trusted as evidence, so it stands out
+              border: message.tampered ? '1px solid var(--red-9)' : undefined
             }}
           >
             {message.type === 'text' ? (
@@ -255,7 +280,7 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
             ) : message.type === 'image' ? (
               <Box style={{ position: 'relative' }}>
                 <img 
-                  src={message.imageUrl || message.content} 
+                  src={message.thumbnailUrl || message.imageUrl || message.content} 
                   alt="Shared image" 
                   style={{ 
                     maxWidth: '100%', 
@@ -289,10 +314,16 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
             ) : message.type === 'file' && message.fileUrl ? (
               <Flex direction="column" gap="1">
                 <Text>{message.content}</Text>
+                {/* Media plays inline, the blob URL carries the type the file was sent with */}
+                {message.fileMetadata?.type.startsWith('video/') ? (
+                  <video src={message.fileUrl} controls style={{ maxWidth: '100%', maxHeight: '240px', borderRadius: '8px' }} />
+                ) : message.fileMetadata?.type.startsWith('audio/') ? (
+                  <audio src={message.fileUrl} controls style={{ maxWidth: '100%' }} />
+                ) : null}
                 <Button size="1" variant="soft" asChild>
                   <a 
                     href={message.fileUrl} 
-                    download={message.fileMetadata?.filename}
+                    download={message.fileMetadata ? getFileDisplayName(message.fileMetadata) : 'file'}
                     style={{ textDecoration: 'none' }}
                   >
                     Download File
@@ -308,6 +339,21 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
             <Text size="1" style={{ color: 'var(--gray-9)' }}>
               {formatTime(message.timestamp)}
             </Text>
+
+            {message.tampered && (
+              <Badge color="red" size="1">
+                <AlertCircle size={10} />
+                Tampered
+              </Badge>
+            )}
+
+            {/* Sent before ciphertexts were bound to their message, so it may have been copied from another one */}
+            {message.unverified && (
+              <Badge color="orange" size="1" title="Sent before messages were bound to the chat, its origin can't be verified">
+                <AlertCircle size={10} />
+                Unverified
+              </Badge>
+            )}
             
             {isCurrentUser && (
               <Box style={{ color: 'var(--gray-9)' }}>
@@ -432,6 +478,29 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
         <div ref={messagesEndRef} />
       </Box>
       
+      {/* Archive bar */}
+      {(canArchive || isChatArchived) && (
+        <Flex 
+          align="center" 
+          justify="between" 
+          gap="2" 
+          style={{ borderTop: '1px solid var(--gray-5)', padding: '8px 16px' }}
+        >
+          <Text size="1" color="gray">
+            {isChatArchived
+              ? 'This chat is archived on Walrus and no longer accepts messages.'
+              : 'The deal is complete. Archive the chat to Walrus to free its on-chain storage.'}{' '}
+            {`Messages are stored for ${WALRUS_ARCHIVE_EPOCHS} Walrus epochs. Attachments are only stored for one epoch and are not kept in the archive.`}
+          </Text>
+          {canArchive && (
+            <Button size="1" variant="soft" onClick={archiveChat} disabled={isArchiving || isLoading}>
+              <Archive size={14} />
+              {isArchiving ? 'Archiving...' : 'Archive Chat'}
+            </Button>
+          )}
+        </Flex>
+      )}
+
       {/* Input area */}
       <Flex 
         align="center" 
@@ -445,7 +514,7 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
         <IconButton 
           variant="ghost" 
           onClick={() => fileInputRef.current?.click()}
-          disabled={isSending || isInitializingKey || !!keyInitializationError}
+          disabled={isSending || isInitializingKey || !!keyInitializationError || isSessionExpired || isChatArchived}
         >
           <Paperclip size={20} />
         </IconButton>
@@ -464,7 +533,9 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
                 ? "Initializing secure chat..." 
                 : keyInitializationError 
                   ? "Chat encryption failed" 
-                  : "Type a message..."
+                  : isSessionExpired
+                    ? "Chat session expired"
+                    : "Type a message..."
             }
             value={newMessage}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewMessage(e.target.value)}
@@ -474,7 +545,7 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
                 handleSendMessage();
               }
             }}
-            disabled={isSending || isInitializingKey || !!keyInitializationError}
+            disabled={isSending || isInitializingKey || !!keyInitializationError || isSessionExpired || isChatArchived}
             style={{ 
               width: '100%', 
               padding: '8px', 
@@ -487,7 +558,7 @@ const ChatUI: React.FC<ChatWrapperProps> = ({
         <Button 
           variant="solid" 
           onClick={handleSendMessage}
-          disabled={isSending || !newMessage.trim() || isInitializingKey || !!keyInitializationError}
+          disabled={isSending || !newMessage.trim() || isInitializingKey || !!keyInitializationError || isSessionExpired || isChatArchived}
         >
           <Send size={18} />
         </Button>
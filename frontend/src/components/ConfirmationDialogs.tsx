@@ -1,6 +1,13 @@
 import React from 'react';
 import { Button, Box, Flex, Text, Dialog } from '@radix-ui/themes';
 import { AlertCircle, CheckCircle, DollarSign, ShieldAlert } from 'lucide-react';
+import { useCoinMetadata } from '../contexts/useCoinMetadata';
+import { useTreasury } from '../contexts/useTreasury';
+import { getFee } from '../api';
+import { AD_KIND_BUY } from '../types';
+
+// Format a fee in basis points as a percentage
+const formatFeeBps = (bps: number) => `${bps / 100}%`;
 
 interface DisputeConfirmationProps {
   open: boolean;
@@ -64,6 +71,7 @@ interface ReleasePaymentConfirmationProps {
   onOpenChange: (open: boolean) => void;
   onConfirm: () => void;
   amount: number;
+  coinType: string;
   isLoading?: boolean;
 }
 
@@ -72,12 +80,12 @@ export function ReleasePaymentConfirmation({
   onOpenChange, 
   onConfirm,
   amount,
+  coinType,
   isLoading = false
 }: ReleasePaymentConfirmationProps) {
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return `${(amount / 1_000_000_000).toFixed(2)} SUI`;
-  };
+  const { formatAmount } = useCoinMetadata();
+  const { treasury } = useTreasury();
+  const platformFee = treasury ? getFee(amount, treasury.feeBps) : 0;
 
   return (
     <Dialog.Root open={open} onOpenChange={onOpenChange}>
@@ -103,8 +111,18 @@ export function ReleasePaymentConfirmation({
                 The funds will be transferred to the seller immediately.
               </Text>
               <Text>
-                Amount: {formatCurrency(amount)}
+                Amount: {formatAmount(amount, coinType)}
               </Text>
+              {treasury && (
+                <>
+                  <Text size="2" color="gray">
+                    Platform fee ({formatFeeBps(treasury.feeBps)}): {formatAmount(platformFee, coinType)}
+                  </Text>
+                  <Text size="2" color="gray">
+                    Seller receives: {formatAmount(amount - platformFee, coinType)}
+                  </Text>
+                </>
+              )}
             </Flex>
           </Box>
           
@@ -187,6 +205,8 @@ interface JoinAdvertisementConfirmationProps {
   onOpenChange: (open: boolean) => void;
   onConfirm: () => void;
   amount: number;
+  coinType: string;
+  kind: number; // AD_KIND_SELL or AD_KIND_BUY, decides who pays the escrow
   isLoading?: boolean;
 }
 
@@ -195,12 +215,12 @@ export function JoinAdvertisementConfirmation({
   onOpenChange, 
   onConfirm,
   amount,
+  coinType,
+  kind,
   isLoading = false
 }: JoinAdvertisementConfirmationProps) {
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return `${(amount / 1_000_000_000).toFixed(2)} SUI`;
-  };
+  const { formatAmount } = useCoinMetadata();
+  const { treasury } = useTreasury();
 
   return (
     <Dialog.Root open={open} onOpenChange={onOpenChange}>
@@ -220,18 +240,50 @@ export function JoinAdvertisementConfirmation({
             border: '1px solid var(--blue-6)'
           }}>
             <Flex direction="column" gap="2">
-              <Text weight="bold" color="blue">This action will lock your funds in escrow!</Text>
-              <Text>
-                By joining this advertisement, you are agreeing to lock {formatCurrency(amount)} in an escrow contract.
-                These funds will only be released when:
-              </Text>
-              <ul style={{ paddingLeft: '20px' }}>
-                <li>You approve the seller's work and release the payment, or</li>
-                <li>An admin resolves a dispute in the seller's favor</li>
-              </ul>
-              <Text>
-                If you dispute the transaction and an admin rules in your favor, the funds will be returned to you.
-              </Text>
+              {kind === AD_KIND_BUY ? (
+                <>
+                  <Text weight="bold" color="blue">The advertiser pays for your work from escrow</Text>
+                  <Text>
+                    By joining this advertisement, {formatAmount(amount, coinType)} of its budget is locked in an escrow contract
+                    for you. These funds will only be paid to you when:
+                  </Text>
+                  <ul style={{ paddingLeft: '20px' }}>
+                    <li>The advertiser approves your work and releases the payment, or</li>
+                    <li>An admin resolves a dispute in your favor</li>
+                  </ul>
+                  <Text>
+                    If you do not deliver before the deadline, the funds are returned to the advertiser.
+                  </Text>
+                </>
+              ) : (
+                <>
+                  <Text weight="bold" color="blue">This action will lock your funds in escrow!</Text>
+                  <Text>
+                    By joining this advertisement, you are agreeing to lock {formatAmount(amount, coinType)} in an escrow contract.
+                    These funds will only be released when:
+                  </Text>
+                  <ul style={{ paddingLeft: '20px' }}>
+                    <li>You approve the seller&apos;s work and release the payment, or</li>
+                    <li>An admin resolves a dispute in the seller&apos;s favor</li>
+                  </ul>
+                  <Text>
+                    If you dispute the transaction and an admin rules in your favor, the funds will be returned to you.
+                  </Text>
+                </>
+              )}
+              {treasury && (
+                <Flex direction="column" gap="1">
+                  <Text size="2" color="gray">
+                    Platform fee: {formatFeeBps(treasury.feeBps)} of every payment to the seller
+                    ({formatAmount(getFee(amount, treasury.feeBps), coinType)} on the full amount), paid by the seller
+                  </Text>
+                  <Text size="2" color="gray">
+                    Arbitration fee: {formatFeeBps(treasury.arbitrationFeeBps)} of the escrow
+                    ({formatAmount(getFee(amount, treasury.arbitrationFeeBps), coinType)}) if an admin has to decide a dispute,
+                    paid by the side the ruling goes against
+                  </Text>
+                </Flex>
+              )}
             </Flex>
           </Box>
           
@@ -241,7 +293,7 @@ export function JoinAdvertisementConfirmation({
             </Dialog.Close>
             <Button color="blue" onClick={onConfirm} disabled={isLoading}>
               <DollarSign size={16} />
-              {isLoading ? 'Processing...' : 'Lock Funds & Join'}
+              {isLoading ? 'Processing...' : kind === AD_KIND_BUY ? 'Join as Provider' : 'Lock Funds & Join'}
             </Button>
           </Flex>
         </Flex>
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Flex, Text } from '@radix-ui/themes';
+import { Timer } from 'lucide-react';
+import { Interaction, INTERACTION_JOINED, INTERACTION_SELLER_COMPLETED, INTERACTION_DISPUTED } from '../types';
+import { formatDuration } from '../api';
+import { useNow } from './useNow';
+
+interface DeadlineCountdownProps {
+  interaction: Interaction;
+  size?: '1' | '2' | '3';
+}
+
+// Time left before the delivery or review deadline of an interaction can be claimed,
+// or before a dispute can be reassigned or its decision finalized
+export function DeadlineCountdown({ interaction, size = '2' }: DeadlineCountdownProps) {
+  const now = useNow();
+
+  const isDelivery = interaction.state === INTERACTION_JOINED;
+  const isReview = interaction.state === INTERACTION_SELLER_COMPLETED;
+  const isDispute = interaction.state === INTERACTION_DISPUTED;
+  if (!isDelivery && !isReview && !isDispute) return null;
+
+  const remaining = interaction.deadline - now;
+  const expired = remaining < 0;
+
+  let label: string;
+  if (isDelivery) {
+    label = expired
+      ? 'Delivery deadline passed, the buyer can claim a refund'
+      : `Delivery due in ${formatDuration(remaining)}`;
+  } else if (isReview) {
+    label = expired
+      ? 'Review window ended, the seller can claim the payment'
+      : `Auto-release in ${formatDuration(remaining)}`;
+  } else if (interaction.proposedShareBps !== undefined) {
+    label = expired
+      ? 'Appeal window closed, the decision can be finalized'
+      : `Appeal window closes in ${formatDuration(remaining)}`;
+  } else {
+    label = expired
+      ? 'Admin decision overdue, the dispute can be reassigned'
+      : `Admin decision due in ${formatDuration(remaining)}`;
+  }
+
+  return (
+    <Flex gap="1" align="center">
+      <Timer size={size === '1' ? 14 : 16} />
+      <Text size={size} color={expired ? 'red' : remaining < 24 * 60 * 60 * 1000 ? 'orange' : 'gray'}>
+        {label}
+      </Text>
+    </Flex>
+  );
+}
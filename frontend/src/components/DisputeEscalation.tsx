@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { Transaction } from '@mysten/sui/transactions';
+import { Badge, Button, Flex, Text } from '@radix-ui/themes';
+import { ArrowRight, Gavel, Scale, UserX } from 'lucide-react';
+import { useNetworkVariable } from '../networkConfig';
+import { Advertisement, AdminRegistry, Interaction, BPS_DENOMINATOR, ESCALATION_APPEAL } from '../types';
+import {
+  appealResolution,
+  finalizeResolution,
+  reassignInactiveAdmin,
+  settleJuryByMedian,
+  canAppealResolution,
+  canFinalizeResolution,
+  isDisputeAdminInactive,
+  isJuryDeadlocked,
+  getMedianShare,
+  getAppealBond,
+  getDisputePayouts,
+  fetchAdminRegistry,
+  formatAddress
+} from '../api';
+import { useCoinMetadata } from '../contexts/useCoinMetadata';
+import { useTreasury } from '../contexts/useTreasury';
+import { useNow } from './useNow';
+
+interface DisputeEscalationProps {
+  advertisement: Advertisement;
+  interaction: Interaction;
+  onEscalationChanged: () => void;
+}
+
+// Appeals and admin replacements of a dispute, with the actions open to the parties
+export function DisputeEscalation({ advertisement, interaction, onEscalationChanged }: DisputeEscalationProps) {
+  const packageId = useNetworkVariable('packageId');
+  const statsRegistryId = useNetworkVariable('statsRegistryId');
+  const treasuryId = useNetworkVariable('treasuryId');
+  const adminRegistryId = useNetworkVariable('adminRegistryId');
+  const suiClient = useSuiClient();
+  const currentAccount = useCurrentAccount();
+  const { formatAmount } = useCoinMetadata();
+  const { treasury } = useTreasury();
+  const now = useNow();
+
+  const [pendingAction, setPendingAction] = useState<'appeal' | 'finalize' | 'reassign' | 'median' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [adminRegistry, setAdminRegistry] = useState<AdminRegistry | null>(null);
+
+  // The admin registry holds the floor of the appeal bond
+  useEffect(() => {
+    fetchAdminRegistry(suiClient, adminRegistryId).then(setAdminRegistry);
+  }, [suiClient, adminRegistryId]);
+
+  // Transaction signing and execution
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction({
+    execute: async ({ bytes, signature }) =>
+      await suiClient.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature,
+        options: {
+          showRawEffects: true,
+          showEffects: true,
+        },
+      }),
+  });
+
+  const escrow = interaction.amount - interaction.releasedAmount;
+  const isParty = currentAccount?.address === interaction.buyer || currentAccount?.address === interaction.seller;
+  const canAppeal = isParty && canAppealResolution(interaction, now);
+  const appealBond = adminRegistry ? getAppealBond(escrow, advertisement.coinType, adminRegistry) : null;
+  const canFinalize = canFinalizeResolution(interaction, now);
+  const canReassign = isDisputeAdminInactive(interaction, now);
+  const canSettleAtMedian = isJuryDeadlocked(interaction, now);
+
+  if (interaction.escalations.length === 0 && interaction.proposedShareBps === undefined && !canReassign && !canSettleAtMedian) {
+    return null;
+  }
+
+  const runAction = async (action: 'appeal' | 'finalize' | 'reassign' | 'median') => {
+    if (!currentAccount) return;
+
+    setPendingAction(action);
+    setError(null);
+
+    let tx: Transaction;
+    try {
+      if (action === 'appeal') {
+        tx = await appealResolution(
+          suiClient,
+          packageId,
+          adminRegistryId,
+          advertisement.id,
+          advertisement.coinType,
+          currentAccount.address,
+          interaction.user,
+          interaction.id,
+          appealBond ?? 0
+        );
+      } else if (action === 'finalize') {
+        tx = finalizeResolution(
+          packageId,
+          advertisement.id,
+          advertisement.coinType,
+          statsRegistryId,
+          treasuryId,
+          interaction.user,
+          interaction.id
+        );
+      } else if (action === 'median') {
+        tx = settleJuryByMedian(
+          packageId,
+          advertisement.id,
+          advertisement.coinType,
+          statsRegistryId,
+          treasuryId,
+          interaction.user,
+          interaction.id
+        );
+      } else {
+        tx = reassignInactiveAdmin(
+          packageId,
+          adminRegistryId,
+          advertisement.id,
+          advertisement.coinType,
+          interaction.user,
+          interaction.id
+        );
+      }
+    } catch (err) {
+      console.error(`Error preparing ${action} transaction:`, err);
+      setError(err instanceof Error ? err.message : 'Failed to prepare the transaction.');
+      setPendingAction(null);
+      return;
+    }
+
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: (result) => {
+          console.log(`Dispute ${action} executed:`, result);
+          setPendingAction(null);
+          onEscalationChanged();
+        },
+        onError: (error) => {
+          console.error(`Error executing dispute ${action}:`, error);
+          setError('Failed to update the dispute. Please try again.');
+          setPendingAction(null);
+        },
+      },
+    );
+  };
+
+  const proposed = interaction.proposedShareBps !== undefined
+    ? getDisputePayouts(escrow, interaction.proposedShareBps, treasury)
+    : null;
+
+  return (
+    <Flex direction="column" gap="2">
+      <Text size="2" weight="bold">Dispute Escalation</Text>
+
+      {proposed && interaction.proposedShareBps !== undefined && (
+        <Flex justify="between" align="center" gap="2">
+          <Flex gap="2" align="center">
+            <Scale size={16} />
+            <Text size="2">
+              Proposed decision: buyer {formatAmount(proposed.buyerAmount, advertisement.coinType)}
+              {' · '}
+              seller {formatAmount(proposed.sellerAmount, advertisement.coinType)}
+              {' '}({(interaction.proposedShareBps / BPS_DENOMINATOR * 100).toFixed(0)}% refunded)
+            </Text>
+          </Flex>
+
+          <Flex gap="2">
+            {canAppeal && (
+              <Button
+                size="1"
+                color="orange"
+                variant="soft"
+                onClick={() => runAction('appeal')}
+                disabled={pendingAction !== null || appealBond === null}
+              >
+                <Gavel size={14} />
+                {pendingAction === 'appeal'
+                  ? 'Appealing...'
+                  : appealBond === null
+                    ? 'Appeal'
+                    : `Appeal (bond ${formatAmount(appealBond, advertisement.coinType)})`}
+              </Button>
+            )}
+
+            {canFinalize && (
+              <Button
+                size="1"
+                color="green"
+                variant="soft"
+                onClick={() => runAction('finalize')}
+                disabled={pendingAction !== null}
+              >
+                {pendingAction === 'finalize' ? 'Finalizing...' : 'Finalize Decision'}
+              </Button>
+            )}
+          </Flex>
+        </Flex>
+      )}
+
+      {canReassign && (
+        <Flex justify="between" align="center" gap="2">
+          <Text size="2" color="orange">The assigned admin did not decide in time</Text>
+          <Button
+            size="1"
+            color="orange"
+            variant="soft"
+            onClick={() => runAction('reassign')}
+            disabled={pendingAction !== null}
+          >
+            <UserX size={14} />
+            {pendingAction === 'reassign' ? 'Reassigning...' : 'Reassign Admin'}
+          </Button>
+        </Flex>
+      )}
+
+      {canSettleAtMedian && (
+        <Flex justify="between" align="center" gap="2">
+          <Text size="2" color="orange">
+            The jury found no majority in time, the median vote refunds{' '}
+            {(getMedianShare(interaction.juryVotes.map((vote) => vote.buyerShareBps)) / BPS_DENOMINATOR * 100).toFixed(0)}%
+          </Text>
+          <Button
+            size="1"
+            color="orange"
+            variant="soft"
+            onClick={() => runAction('median')}
+            disabled={pendingAction !== null}
+          >
+            <Scale size={14} />
+            {pendingAction === 'median' ? 'Settling...' : 'Settle at Median'}
+          </Button>
+        </Flex>
+      )}
+
+      {interaction.escalations.map((escalation, index) => (
+        <Flex key={index} direction="column" gap="1">
+          <Flex gap="2" align="center">
+            {escalation.kind === ESCALATION_APPEAL ? (
+              <Badge color="orange">Appeal</Badge>
+            ) : (
+              <Badge color="gray">Inactive admin</Badge>
+            )}
+            <Text size="1" color="gray">{new Date(escalation.timestamp).toLocaleString()}</Text>
+          </Flex>
+
+          <Flex gap="1" align="center">
+            <Text size="2">{formatAddress(escalation.previousAdmin)}</Text>
+            <ArrowRight size={14} />
+            <Text size="2">{formatAddress(escalation.newAdmin)}</Text>
+          </Flex>
+
+          {escalation.kind === ESCALATION_APPEAL && (
+            <Text size="1" color="gray">
+              {formatAddress(escalation.initiatedBy)} appealed a{' '}
+              {(escalation.appealedShareBps / BPS_DENOMINATOR * 100).toFixed(0)}% refund,
+              bond {formatAmount(escalation.bond, advertisement.coinType)}
+            </Text>
+          )}
+        </Flex>
+      ))}
+
+      {error && <Text color="red" size="2">{error}</Text>}
+    </Flex>
+  );
+}
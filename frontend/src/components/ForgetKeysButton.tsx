@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Button, Dialog, Flex, Text } from '@radix-ui/themes';
+import { KeyRound } from 'lucide-react';
+import { useSealSession } from '../contexts/useSealSession';
+
+// Delete the Seal session key and the cached chat keys of the connected wallet from this browser
+export function ForgetKeysButton() {
+  const { forgetKeys } = useSealSession();
+  const [open, setOpen] = useState(false);
+  const [isForgetting, setIsForgetting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const confirm = async () => {
+    setIsForgetting(true);
+    setError(null);
+    try {
+      await forgetKeys();
+      setOpen(false);
+    } catch (err) {
+      console.error('Error forgetting keys:', err);
+      setError('Failed to delete the keys stored in this browser.');
+    } finally {
+      setIsForgetting(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={setOpen}>
+      <Dialog.Trigger>
+        <Button variant="ghost" color="gray" size="1">
+          <KeyRound size={14} />
+          Forget keys on this device
+        </Button>
+      </Dialog.Trigger>
+      <Dialog.Content style={{ maxWidth: 450 }}>
+        <Dialog.Title>Forget keys on this device</Dialog.Title>
+        <Flex direction="column" gap="3">
+          <Text size="2">
+            Your Seal session and the chat keys cached in this browser will be deleted. Chats stay readable: the
+            next time you open one, your wallet will ask for a signature and the keys are fetched again.
+          </Text>
+          {error && <Text color="red" size="2">{error}</Text>}
+          <Flex gap="3" justify="end">
+            <Dialog.Close>
+              <Button variant="soft" color="gray">Cancel</Button>
+            </Dialog.Close>
+            <Button color="red" onClick={confirm} disabled={isForgetting}>
+              {isForgetting ? 'Deleting...' : 'Forget Keys'}
+            </Button>
+          </Flex>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
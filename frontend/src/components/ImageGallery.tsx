@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Flex, IconButton, Text } from '@radix-ui/themes';
+import { ArrowLeft, ArrowRight, ImageOff, ImagePlus, X } from 'lucide-react';
+import { downloadFromWalrus } from '../utils';
+
+// Upper bound of images per listing enforced by the contract
+export const MAX_IMAGES = 10;
+
+// Largest image accepted for upload, Walrus publishers reject bigger blobs
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Object URLs of downloaded images, shared by every gallery so a blob is fetched once per page load
+const imageUrls = new Map<string, Promise<string | null>>();
+
+const loadImageUrl = (blobId: string): Promise<string | null> => {
+  let url = imageUrls.get(blobId);
+  if (!url) {
+    url = downloadFromWalrus(blobId).then((data) => {
+      // Missing blobs are not remembered, the aggregators may only have been unreachable
+      if (!data) {
+        imageUrls.delete(blobId);
+        return null;
+      }
+      return URL.createObjectURL(new Blob([new Uint8Array(data)]));
+    });
+    imageUrls.set(blobId, url);
+  }
+  return url;
+};
+
+// Resolve the object URL of a published image, null while loading or when it can't be retrieved
+const useImageUrl = (blobId: string) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setFailed(false);
+    loadImageUrl(blobId).then((loaded) => {
+      if (cancelled) return;
+      if (loaded) setUrl(loaded);
+      else setFailed(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [blobId]);
+
+  return { url, failed };
+};
+
+interface WalrusImageProps {
+  blobId: string;
+  height: number;
+  onClick?: () => void;
+  onFailed?: () => void; // The blob can't be retrieved, it may have expired on Walrus
+  selected?: boolean;
+}
+
+const WalrusImage = ({ blobId, height, onClick, onFailed, selected }: WalrusImageProps) => {
+  const { url, failed } = useImageUrl(blobId);
+
+  useEffect(() => {
+    if (failed) onFailed?.();
+  }, [failed, onFailed]);
+
+  const frameStyle: React.CSSProperties = {
+    height,
+    width: '100%',
+    borderRadius: '6px',
+    backgroundColor: 'var(--gray-3)',
+    outline: selected ? '2px solid var(--accent-9)' : undefined,
+    cursor: onClick ? 'pointer' : undefined
+  };
+
+  if (!url) {
+    return (
+      <Flex
+        direction="column"
+        align="center"
+        justify="center"
+        gap="1"
+        style={frameStyle}
+        onClick={onClick}
+        title={failed ? 'This image is no longer available on Walrus' : undefined}
+      >
+        {failed ? <ImageOff size={20} color="var(--gray-9)" /> : <Text size="1" color="gray">Loading...</Text>}
+        {failed && height >= 90 && <Text size="1" color="gray">Image unavailable</Text>}
+      </Flex>
+    );
+  }
+
+  return <img src={url} alt="" onClick={onClick} style={{ ...frameStyle, objectFit: 'cover', display: 'block' }} />;
+};
+
+interface ImageGalleryProps {
+  blobIds: string[];
+  compact?: boolean; // Only the cover image, for advertisement cards
+}
+
+// Public images of a listing, downloaded from Walrus
+export function ImageGallery({ blobIds, compact = false }: ImageGalleryProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [coverIndex, setCoverIndex] = useState(0);
+
+  // A missing cover gives way to the next image of the listing
+  const showNextCover = useCallback(() => {
+    setCoverIndex((current) => (current < blobIds.length - 1 ? current + 1 : current));
+  }, [blobIds.length]);
+
+  if (blobIds.length === 0) return null;
+
+  if (compact) {
+    const cover = Math.min(coverIndex, blobIds.length - 1);
+    return <WalrusImage key={blobIds[cover]} blobId={blobIds[cover]} height={160} onFailed={showNextCover} />;
+  }
+
+  // The gallery can shrink after a reload while an image further down was selected
+  const index = Math.min(selectedIndex, blobIds.length - 1);
+
+  return (
+    <Flex direction="column" gap="2">
+      <WalrusImage blobId={blobIds[index]} height={320} />
+      {blobIds.length > 1 && (
+        <Flex gap="2">
+          {blobIds.map((blobId, thumbnailIndex) => (
+            <div key={blobId} style={{ width: '72px' }}>
+              <WalrusImage
+                blobId={blobId}
+                height={54}
+                selected={thumbnailIndex === index}
+                onClick={() => setSelectedIndex(thumbnailIndex)}
+              />
+            </div>
+          ))}
+        </Flex>
+      )}
+    </Flex>
+  );
+}
+
+/**
+ * Image of a listing being edited: already published on Walrus, or a local file uploaded on save
+ */
+export type GalleryImage =
+  | { kind: 'published'; blobId: string }
+  | { kind: 'file'; file: File; previewUrl: string };
+
+interface ImageGalleryEditorProps {
+  images: GalleryImage[];
+  onChange: (images: GalleryImage[]) => void;
+  disabled?: boolean;
+}
+
+// Pick, reorder and remove the images of a listing, the first one is the cover shown on cards
+export function ImageGalleryEditor({ images, onChange, disabled = false }: ImageGalleryEditorProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const addFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    setError(null);
+
+    const accepted = files.filter((file) => file.type.startsWith('image/') && file.size <= MAX_IMAGE_BYTES);
+    if (accepted.length < files.length) {
+      setError(`Only images up to ${MAX_IMAGE_BYTES / 1024 / 1024} MiB are accepted.`);
+    }
+
+    const room = MAX_IMAGES - images.length;
+    if (accepted.length > room) {
+      setError(`A listing can show at most ${MAX_IMAGES} images.`);
+    }
+
+    onChange([
+      ...images,
+      ...accepted.slice(0, room).map((file): GalleryImage => ({
+        kind: 'file',
+        file,
+        previewUrl: URL.createObjectURL(file)
+      }))
+    ]);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...images];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const remove = (index: number) => {
+    const image = images[index];
+    if (image.kind === 'file') URL.revokeObjectURL(image.previewUrl);
+    onChange(images.filter((_, imageIndex) => imageIndex !== index));
+  };
+
+  return (
+    <Flex direction="column" gap="2">
+      <Flex gap="2" wrap="wrap">
+        {images.map((image, index) => (
+          <Flex
+            key={image.kind === 'published' ? image.blobId : image.previewUrl}
+            direction="column"
+            gap="1"
+            style={{ width: '120px' }}
+          >
+            {image.kind === 'published' ? (
+              <WalrusImage blobId={image.blobId} height={90} />
+            ) : (
+              <img
+                src={image.previewUrl}
+                alt={image.file.name}
+                style={{ height: 90, width: '100%', objectFit: 'cover', borderRadius: '6px', display: 'block' }}
+              />
+            )}
+            <Flex justify="between" align="center">
+              <IconButton size="1" variant="ghost" onClick={() => move(index, -1)} disabled={disabled || index === 0}>
+                <ArrowLeft size={14} />
+              </IconButton>
+              <Text size="1" color="gray">{index === 0 ? 'Cover' : index + 1}</Text>
+              <IconButton
+                size="1"
+                variant="ghost"
+                onClick={() => move(index, 1)}
+                disabled={disabled || index === images.length - 1}
+              >
+                <ArrowRight size={14} />
+              </IconButton>
+              <IconButton size="1" variant="ghost" color="red" onClick={() => remove(index)} disabled={disabled}>
+                <X size={14} />
+              </IconButton>
+            </Flex>
+          </Flex>
+        ))}
+      </Flex>
+
+      {images.length < MAX_IMAGES && (
+        <label>
+          <input type="file" accept="image/*" multiple onChange={addFiles} disabled={disabled} style={{ display: 'none' }} />
+          <Button variant="soft" asChild disabled={disabled}>
+            <span>
+              <ImagePlus size={16} /> Add Images
+            </span>
+          </Button>
+        </label>
+      )}
+
+      {error && <Text color="red" size="2">{error}</Text>}
+    </Flex>
+  );
+}
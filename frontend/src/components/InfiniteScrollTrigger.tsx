@@ -0,0 +1,35 @@
+import React, { useEffect, useRef } from 'react';
+import { Flex, Text } from '@radix-ui/themes';
+
+interface InfiniteScrollTriggerProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// Calls onLoadMore whenever the end of a list scrolls into view
+export function InfiniteScrollTrigger({ hasMore, isLoading, onLoadMore }: InfiniteScrollTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        onLoadMore();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <Flex ref={sentinelRef} justify="center" p="3">
+      {isLoading && <Text size="2" color="gray">Loading more...</Text>}
+    </Flex>
+  );
+}
@@ -1,19 +1,25 @@
 import React from 'react';
 import { Button, Flex } from '@radix-ui/themes';
-import { CheckCircle, AlertCircle, ShieldAlert } from 'lucide-react';
-import { Advertisement, Interaction, STATE_AVAILABLE, STATE_JOINED, STATE_COMPLETED, STATE_DISPUTED, INTERACTION_JOINED, INTERACTION_SELLER_COMPLETED, INTERACTION_BUYER_APPROVED, INTERACTION_DISPUTED } from '../types';
+import { CheckCircle, AlertCircle, ShieldAlert, Star, Undo2, XCircle, Timer } from 'lucide-react';
+import { Advertisement, Interaction, STATE_AVAILABLE, STATE_JOINED, STATE_COMPLETED, STATE_DISPUTED, INTERACTION_JOINED, INTERACTION_SELLER_COMPLETED, INTERACTION_BUYER_APPROVED, INTERACTION_DISPUTED, INTERACTION_RESOLVED } from '../types';
+import { isInteractionTimedOut, isCreatorSeller } from '../api';
+import { useNow } from './useNow';
 
 interface InteractionActionButtonsProps {
   advertisement: Advertisement;
   interaction: Interaction;
   interactionUserAddress: string;
-  isCreator: boolean;
+  isCreator: boolean; // The creator is the seller of a sell advertisement and the buyer of a buy advertisement
   isAdmin?: boolean;
   isDisputing?: boolean;
   size?: '1' | '2' | '3' | '4';
   onMarkCompleted: (userAddress: string, interactionId: number) => void;
   onDispute: (userAddress: string, interactionId: number) => void;
-  onReleasePayment: (interactionId: number) => void;
+  onReleasePayment: (userAddress: string, interactionId: number) => void;
+  onReview?: (userAddress: string, interactionId: number) => void;
+  onRefund?: (userAddress: string, interactionId: number) => void;
+  onRequestCancellation?: (userAddress: string, interactionId: number) => void;
+  onClaimTimeout?: (userAddress: string, interactionId: number) => void;
 }
 
 export function InteractionActionButtons({
@@ -26,21 +32,29 @@ export function InteractionActionButtons({
   size = '2',
   onMarkCompleted,
   onDispute,
-  onReleasePayment
+  onReleasePayment,
+  onReview,
+  onRefund,
+  onRequestCancellation,
+  onClaimTimeout
 }: InteractionActionButtonsProps) {
+  const now = useNow();
+  const isTimedOut = isInteractionTimedOut(interaction, now);
+  const isSeller = isCreator === isCreatorSeller(advertisement);
+  
   // Determine which buttons to show based on interaction state and user role
   
-  // Only show Mark as Completed button for sellers (creators) when interaction is in JOINED state
-  const showMarkCompletedButton = isCreator && interaction.state === INTERACTION_JOINED;
+  // Only show Mark as Completed button for sellers when interaction is in JOINED state
+  const showMarkCompletedButton = isSeller && interaction.state === INTERACTION_JOINED && !isTimedOut;
   
   // Show Release Payment button for buyers when seller has marked as completed
-  const showReleasePaymentButton = !isCreator && interaction.state === INTERACTION_SELLER_COMPLETED;
+  const showReleasePaymentButton = !isSeller && interaction.state === INTERACTION_SELLER_COMPLETED;
   
   // Show Dispute button for sellers in JOINED state
-  const showSellerDisputeButton = isCreator && interaction.state === INTERACTION_JOINED;
+  const showSellerDisputeButton = isSeller && interaction.state === INTERACTION_JOINED && !isTimedOut;
   
   // Show Dispute button for both buyer and seller in SELLER_COMPLETED state
-  const showDisputeButton = interaction.state === INTERACTION_SELLER_COMPLETED;
+  const showDisputeButton = interaction.state === INTERACTION_SELLER_COMPLETED && !isTimedOut;
   
   // Show Resolve Dispute button for admins in DISPUTED state
   const showResolveDisputeButton = isAdmin && interaction.state === INTERACTION_DISPUTED;
@@ -48,6 +62,23 @@ export function InteractionActionButtons({
   // Show Awaiting Resolution button for disputed interactions (disabled)
   const showAwaitingResolutionButton = interaction.state === INTERACTION_DISPUTED && !isAdmin;
   
+  // Once a deadline passes, the party that was left waiting can settle the interaction:
+  // the buyer after a missed delivery, the seller after a missed review
+  const isClaimant = interaction.state === INTERACTION_JOINED ? !isSeller : isSeller;
+  const showClaimTimeoutButton = !!onClaimTimeout && !isAdmin && isTimedOut && isClaimant;
+  
+  // Show Refund button for sellers while the work has not been delivered yet
+  const showRefundButton = !!onRefund && isSeller && interaction.state === INTERACTION_JOINED;
+  
+  // Show Request Cancellation button for buyers while the work has not been delivered yet
+  const showRequestCancellationButton = !!onRequestCancellation && !isSeller && !isAdmin &&
+    interaction.state === INTERACTION_JOINED && !isTimedOut;
+  
+  // Show Leave Review button for either party once the deal is finished and their side has not reviewed yet
+  const isFinished = interaction.state === INTERACTION_BUYER_APPROVED || interaction.state === INTERACTION_RESOLVED;
+  const hasReviewed = isSeller ? interaction.sellerReviewed : interaction.buyerReviewed;
+  const showReviewButton = !!onReview && !isAdmin && isFinished && !hasReviewed;
+  
   return (
     <Flex gap="2">
       {/* Mark as Completed button for sellers */}
@@ -67,7 +98,7 @@ export function InteractionActionButtons({
         <Button 
           color="green" 
           size={size}
-          onClick={() => onReleasePayment(interaction.id)}
+          onClick={() => onReleasePayment(interactionUserAddress, interaction.id)}
         >
           <CheckCircle size={size === '1' ? 14 : 16} />
           Release Payment
@@ -149,6 +180,57 @@ export function InteractionActionButtons({
           Awaiting Resolution
         </Button>
       )}
+      
+      {/* Refund button for sellers, labelled as an acceptance when the buyer asked for it */}
+      {showRefundButton && (
+        <Button 
+          color="orange" 
+          variant="soft"
+          size={size}
+          onClick={() => onRefund?.(interactionUserAddress, interaction.id)}
+        >
+          <Undo2 size={size === '1' ? 14 : 16} />
+          {interaction.cancelRequested ? 'Accept Cancellation' : 'Refund Buyer'}
+        </Button>
+      )}
+      
+      {/* Request Cancellation button for buyers */}
+      {showRequestCancellationButton && (
+        <Button 
+          color="orange" 
+          variant="soft"
+          size={size}
+          onClick={() => onRequestCancellation?.(interactionUserAddress, interaction.id)}
+          disabled={interaction.cancelRequested}
+        >
+          <XCircle size={size === '1' ? 14 : 16} />
+          {interaction.cancelRequested ? 'Cancellation Requested' : 'Request Cancellation'}
+        </Button>
+      )}
+      
+      {/* Claim button once the other party missed its deadline */}
+      {showClaimTimeoutButton && (
+        <Button 
+          color="green" 
+          size={size}
+          onClick={() => onClaimTimeout?.(interactionUserAddress, interaction.id)}
+        >
+          <Timer size={size === '1' ? 14 : 16} />
+          {interaction.state === INTERACTION_JOINED ? 'Claim Refund' : 'Claim Payment'}
+        </Button>
+      )}
+      
+      {/* Leave Review button for finished deals */}
+      {showReviewButton && (
+        <Button 
+          variant="soft"
+          size={size}
+          onClick={() => onReview?.(interactionUserAddress, interaction.id)}
+        >
+          <Star size={size === '1' ? 14 : 16} />
+          Leave Review
+        </Button>
+      )}
     </Flex>
   );
 }
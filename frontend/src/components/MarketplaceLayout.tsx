@@ -2,13 +2,19 @@ import React from 'react';
 import { Outlet } from 'react-router-dom';
 import { Flex, Box } from '@radix-ui/themes';
 import { BackButton } from './BackButton';
+import { ForgetKeysButton } from './ForgetKeysButton';
+import { SessionRenewalBanner } from './SessionRenewalBanner';
 
 export function MarketplaceLayout() {
   return (
     <Flex direction="column" gap="3">
-      <Box>
-        <BackButton />
-      </Box>
+      <Flex justify="between" align="center">
+        <Box>
+          <BackButton />
+        </Box>
+        <ForgetKeysButton />
+      </Flex>
+      <SessionRenewalBanner />
       <Outlet />
     </Flex>
   );
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { Badge, Button, Flex, Text } from '@radix-ui/themes';
+import { CheckCircle, DollarSign } from 'lucide-react';
+import { useNetworkVariable } from '../networkConfig';
+import {
+  Advertisement,
+  Interaction,
+  INTERACTION_JOINED,
+  INTERACTION_SELLER_COMPLETED,
+  MILESTONE_PENDING,
+  MILESTONE_COMPLETED,
+  MILESTONE_RELEASED
+} from '../types';
+import { markMilestoneCompleted, releaseMilestone, isInteractionTimedOut } from '../api';
+import { useCoinMetadata } from '../contexts/useCoinMetadata';
+import { useNow } from './useNow';
+
+interface MilestoneTrackerProps {
+  advertisement: Advertisement;
+  interaction: Interaction;
+  onMilestoneChanged: () => void;
+}
+
+// Get the badge of a milestone state
+const getMilestoneBadge = (state: number) => {
+  switch (state) {
+    case MILESTONE_COMPLETED:
+      return <Badge color="yellow">Delivered</Badge>;
+    case MILESTONE_RELEASED:
+      return <Badge color="green">Paid</Badge>;
+    default:
+      return <Badge color="blue">Pending</Badge>;
+  }
+};
+
+// Milestones of an interaction, the seller delivers and the buyer pays them one at a time
+export function MilestoneTracker({ advertisement, interaction, onMilestoneChanged }: MilestoneTrackerProps) {
+  const packageId = useNetworkVariable('packageId');
+  const statsRegistryId = useNetworkVariable('statsRegistryId');
+  const treasuryId = useNetworkVariable('treasuryId');
+  const suiClient = useSuiClient();
+  const currentAccount = useCurrentAccount();
+  const { formatAmount } = useCoinMetadata();
+  const now = useNow();
+
+  const [updatingIndex, setUpdatingIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Transaction signing and execution
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction({
+    execute: async ({ bytes, signature }) =>
+      await suiClient.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature,
+        options: {
+          showRawEffects: true,
+          showEffects: true,
+        },
+      }),
+  });
+
+  // A deal keeps the milestones it was joined under, even after the listing is edited
+  if (interaction.terms.milestones.length === 0) return null;
+
+  const isSeller = currentAccount?.address === interaction.seller;
+  const isBuyer = currentAccount?.address === interaction.buyer;
+  const isRunning =
+    interaction.state === INTERACTION_JOINED || interaction.state === INTERACTION_SELLER_COMPLETED;
+  const canDeliver =
+    isSeller && interaction.state === INTERACTION_JOINED && !isInteractionTimedOut(interaction, now);
+
+  const remaining = interaction.amount - interaction.releasedAmount;
+
+  // Deliver or pay a single milestone
+  const updateMilestone = (index: number, action: 'complete' | 'release') => {
+    setUpdatingIndex(index);
+    setError(null);
+
+    const tx =
+      action === 'complete'
+        ? markMilestoneCompleted(
+            packageId,
+            advertisement.id,
+            advertisement.coinType,
+            interaction.user,
+            interaction.id,
+            index
+          )
+        : releaseMilestone(
+            packageId,
+            advertisement.id,
+            advertisement.coinType,
+            statsRegistryId,
+            treasuryId,
+            interaction.user,
+            interaction.id,
+            index
+          );
+
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: (result) => {
+          console.log(`Milestone ${index} updated (${action}):`, result);
+          setUpdatingIndex(null);
+          onMilestoneChanged();
+        },
+        onError: (error) => {
+          console.error(`Error updating milestone ${index} (${action}):`, error);
+          setError('Failed to update the milestone. Please try again.');
+          setUpdatingIndex(null);
+        },
+      },
+    );
+  };
+
+  return (
+    <Flex direction="column" gap="2">
+      <Flex justify="between" align="center">
+        <Text size="2" weight="bold">Milestones</Text>
+        <Text size="1" color="gray">
+          Paid {formatAmount(interaction.releasedAmount, advertisement.coinType)}
+          {' · '}
+          In escrow {formatAmount(remaining, advertisement.coinType)}
+        </Text>
+      </Flex>
+
+      {interaction.terms.milestones.map((milestone, index) => {
+        const state = interaction.milestoneStates[index] ?? MILESTONE_PENDING;
+
+        return (
+          <Flex key={index} justify="between" align="center" gap="2">
+            <Flex gap="2" align="center">
+              {getMilestoneBadge(state)}
+              <Text size="2">{milestone.description}</Text>
+            </Flex>
+
+            <Flex gap="2" align="center">
+              <Text size="2">{formatAmount(milestone.amount, advertisement.coinType)}</Text>
+
+              {canDeliver && state === MILESTONE_PENDING && (
+                <Button
+                  size="1"
+                  variant="soft"
+                  onClick={() => updateMilestone(index, 'complete')}
+                  disabled={updatingIndex !== null}
+                >
+                  <CheckCircle size={14} />
+                  {updatingIndex === index ? 'Updating...' : 'Mark Delivered'}
+                </Button>
+              )}
+
+              {isBuyer && isRunning && state === MILESTONE_COMPLETED && (
+                <Button
+                  size="1"
+                  variant="soft"
+                  color="green"
+                  onClick={() => updateMilestone(index, 'release')}
+                  disabled={updatingIndex !== null}
+                >
+                  <DollarSign size={14} />
+                  {updatingIndex === index ? 'Releasing...' : 'Release'}
+                </Button>
+              )}
+            </Flex>
+          </Flex>
+        );
+      })}
+
+      {error && <Text color="red" size="2">{error}</Text>}
+    </Flex>
+  );
+}
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { Transaction } from '@mysten/sui/transactions';
+import { Badge, Button, Card, Flex, Text } from '@radix-ui/themes';
+import { HandCoins, User } from 'lucide-react';
+import { useNetworkVariable } from '../networkConfig';
+import {
+  Advertisement,
+  Offer,
+  LISTING_ACTIVE,
+  OFFER_PENDING,
+  OFFER_COUNTERED,
+  OFFER_ACCEPTED,
+  OFFER_REJECTED,
+  OFFER_TAKEN,
+  MAX_OFFERS
+} from '../types';
+import { makeOffer, counterOffer, answerOffer, getOfferTurn, isOfferOpen, formatAddress, parseCurrency } from '../api';
+import { useCoinMetadata } from '../contexts/useCoinMetadata';
+import { useNow } from './useNow';
+
+interface OffersListProps {
+  advertisement: Advertisement;
+  onOffersChanged: () => void;
+}
+
+// Get the badge of an offer status, open offers past their deadline show as expired
+const getOfferBadge = (offer: Offer, now: number) => {
+  if (now > offer.expiresAt && offer.status !== OFFER_REJECTED && offer.status !== OFFER_TAKEN) {
+    return <Badge color="gray">Expired</Badge>;
+  }
+  switch (offer.status) {
+    case OFFER_PENDING:
+      return <Badge color="blue">Waiting on Creator</Badge>;
+    case OFFER_COUNTERED:
+      return <Badge color="yellow">Countered</Badge>;
+    case OFFER_ACCEPTED:
+      return <Badge color="green">Accepted</Badge>;
+    case OFFER_REJECTED:
+      return <Badge color="red">Rejected</Badge>;
+    case OFFER_TAKEN:
+      return <Badge color="gray">Joined</Badge>;
+    default:
+      return <Badge color="gray">Unknown</Badge>;
+  }
+};
+
+// Price negotiations of an advertisement: the creator sees every offer, other users their own
+export function OffersList({ advertisement, onOffersChanged }: OffersListProps) {
+  const packageId = useNetworkVariable('packageId');
+  const suiClient = useSuiClient();
+  const currentAccount = useCurrentAccount();
+  const { formatAmount, loadCoinInfo } = useCoinMetadata();
+  const now = useNow();
+
+  const [amountInput, setAmountInput] = useState('');
+  const [messageInput, setMessageInput] = useState('');
+  const [counteringOfferId, setCounteringOfferId] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Transaction signing and execution
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction({
+    execute: async ({ bytes, signature }) =>
+      await suiClient.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature,
+        options: {
+          showRawEffects: true,
+          showEffects: true,
+        },
+      }),
+  });
+
+  const isCreator = currentAccount?.address === advertisement.creator;
+  const offers = advertisement.offers
+    .filter((offer) => isCreator || offer.user === currentAccount?.address)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  // Milestone amounts are fixed by the listing, so only lump sum deals can be negotiated
+  const canMakeOffer =
+    !!currentAccount &&
+    !isCreator &&
+    advertisement.status === LISTING_ACTIVE &&
+    advertisement.milestones.length === 0;
+
+  // A user can have one open offer, and a new offer needs a free or reusable slot
+  const hasOpenOffer = advertisement.offers.some(
+    (offer) => offer.user === currentAccount?.address && isOfferOpen(offer, now)
+  );
+  const hasFreeSlot =
+    advertisement.offers.length < MAX_OFFERS || advertisement.offers.some((offer) => !isOfferOpen(offer, now));
+
+  const runOfferTx = (tx: Transaction, label: string) => {
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: (result) => {
+          console.log(`Offer updated (${label}):`, result);
+          setIsSubmitting(false);
+          setCounteringOfferId(null);
+          setAmountInput('');
+          setMessageInput('');
+          onOffersChanged();
+        },
+        onError: (error) => {
+          console.error(`Error updating offer (${label}):`, error);
+          setError('Failed to update the offer. Please try again.');
+          setIsSubmitting(false);
+        },
+      },
+    );
+  };
+
+  // Make a new offer, or counter an open one when an offer ID is given
+  const submitAmount = async (offerId?: number) => {
+    setError(null);
+
+    const coin = await loadCoinInfo(advertisement.coinType);
+    const amount = parseCurrency(amountInput, coin);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setError('Please enter a valid amount.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    runOfferTx(
+      offerId === undefined
+        ? makeOffer(packageId, advertisement.id, advertisement.coinType, amount, messageInput.trim())
+        : counterOffer(packageId, advertisement.id, advertisement.coinType, offerId, amount, messageInput.trim()),
+      offerId === undefined ? 'make' : 'counter'
+    );
+  };
+
+  const answer = (offerId: number, functionName: 'accept_offer_entry' | 'reject_offer_entry') => {
+    setError(null);
+    setIsSubmitting(true);
+    runOfferTx(
+      answerOffer(packageId, functionName, advertisement.id, advertisement.coinType, offerId),
+      functionName
+    );
+  };
+
+  const amountForm = (offerId?: number) => (
+    <Flex direction="column" gap="2">
+      <Flex gap="2" align="center">
+        <input
+          type="number"
+          min="0"
+          step="any"
+          placeholder="Amount"
+          value={amountInput}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmountInput(e.target.value)}
+          style={{
+            width: '140px',
+            padding: '8px',
+            borderRadius: '4px',
+            border: '1px solid var(--gray-5)'
+          }}
+        />
+        <input
+          type="text"
+          placeholder="Message (optional)"
+          value={messageInput}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMessageInput(e.target.value)}
+          style={{
+            flex: 1,
+            padding: '8px',
+            borderRadius: '4px',
+            border: '1px solid var(--gray-5)'
+          }}
+        />
+        <Button onClick={() => submitAmount(offerId)} disabled={isSubmitting || amountInput === ''}>
+          {offerId === undefined ? 'Make Offer' : 'Send Counter'}
+        </Button>
+      </Flex>
+    </Flex>
+  );
+
+  return (
+    <Flex direction="column" gap="3">
+      {canMakeOffer && (
+        <Flex direction="column" gap="1">
+          <Text size="2" color="gray">
+            Listed at {formatAmount(advertisement.amount, advertisement.coinType)}. Propose another price; once it is
+            accepted you can join at that amount until the offer expires.
+          </Text>
+          {hasOpenOffer ? (
+            <Text size="2" color="orange">You already have an open offer on this listing.</Text>
+          ) : !hasFreeSlot ? (
+            <Text size="2" color="orange">This listing has too many open offers, please try again later.</Text>
+          ) : (
+            counteringOfferId === null && amountForm()
+          )}
+        </Flex>
+      )}
+
+      {offers.length === 0 ? (
+        <Card>
+          <Text>No offers yet.</Text>
+        </Card>
+      ) : (
+        offers.map((offer) => {
+          const isMyTurn = !!currentAccount && getOfferTurn(advertisement, offer, now) === currentAccount.address;
+
+          return (
+            <Card key={offer.id}>
+              <Flex direction="column" gap="2">
+                <Flex justify="between" align="center">
+                  <Flex gap="2" align="center">
+                    <User size={16} />
+                    <Text>{formatAddress(offer.user)}</Text>
+                  </Flex>
+                  {getOfferBadge(offer, now)}
+                </Flex>
+
+                <Flex gap="3" align="center">
+                  <Flex gap="1" align="center">
+                    <HandCoins size={16} />
+                    <Text weight="bold">{formatAmount(offer.amount, advertisement.coinType)}</Text>
+                  </Flex>
+                  {(offer.status === OFFER_PENDING || offer.status === OFFER_COUNTERED || offer.status === OFFER_ACCEPTED) && (
+                    <Text size="1" color="gray">
+                      {now > offer.expiresAt ? 'Expired' : 'Expires'} {new Date(offer.expiresAt).toLocaleString()}
+                    </Text>
+                  )}
+                </Flex>
+
+                {offer.message && <Text size="2" color="gray">{offer.message}</Text>}
+
+                {offer.status === OFFER_ACCEPTED && offer.user === currentAccount?.address && now <= offer.expiresAt && (
+                  <Text size="2" color="green">Accepted: join the listing to lock in this price.</Text>
+                )}
+
+                {isMyTurn && (
+                  counteringOfferId === offer.id ? (
+                    amountForm(offer.id)
+                  ) : (
+                    <Flex gap="2" justify="end">
+                      <Button color="green" onClick={() => answer(offer.id, 'accept_offer_entry')} disabled={isSubmitting}>
+                        Accept
+                      </Button>
+                      <Button variant="soft" onClick={() => setCounteringOfferId(offer.id)} disabled={isSubmitting}>
+                        Counter
+                      </Button>
+                      <Button color="red" variant="soft" onClick={() => answer(offer.id, 'reject_offer_entry')} disabled={isSubmitting}>
+                        Reject
+                      </Button>
+                    </Flex>
+                  )
+                )}
+              </Flex>
+            </Card>
+          );
+        })
+      )}
+
+      {error && <Text color="red" size="2">{error}</Text>}
+    </Flex>
+  );
+}
@@ -0,0 +1,26 @@
+import { Button, Callout, Flex } from '@radix-ui/themes';
+import { KeyRound } from 'lucide-react';
+import { useSealSession } from '../contexts/useSealSession';
+
+// Ask for a new Seal session key before the current one expires, or after it expired unnoticed
+export function SessionRenewalBanner() {
+  const { isRenewalDue, isSessionExpired, isInitializingKey, renewSessionKey } = useSealSession();
+
+  if (!isRenewalDue && !isSessionExpired) return null;
+
+  return (
+    <Callout.Root color="orange" size="1">
+      <Flex justify="between" align="center" gap="3">
+        <Callout.Text>
+          {isSessionExpired
+            ? 'Your chat session expired. Renew it to keep reading and sending encrypted messages.'
+            : 'Your chat session expires in a few minutes. Renew it now to keep reading and sending encrypted messages.'}
+        </Callout.Text>
+        <Button size="1" variant="soft" color="orange" onClick={renewSessionKey} disabled={isInitializingKey}>
+          <KeyRound size={14} />
+          {isInitializingKey ? 'Renewing...' : 'Renew Session'}
+        </Button>
+      </Flex>
+    </Callout.Root>
+  );
+}
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { Transaction } from '@mysten/sui/transactions';
+import { Button, Card, Flex, Text, Heading, Separator } from '@radix-ui/themes';
+import { Landmark } from 'lucide-react';
+import { useNetworkVariable } from '../networkConfig';
+import { Treasury } from '../types';
+import { setTreasuryFee, withdrawFees } from '../api';
+import { useCoinMetadata } from '../contexts/useCoinMetadata';
+
+// Upper bound of both fees enforced by the contract, in basis points
+const MAX_FEE_BPS = 1000;
+
+interface TreasuryManagerProps {
+  treasury: Treasury;
+  treasuryCapId: string;
+  onTreasuryChanged: () => void;
+}
+
+export function TreasuryManager({
+  treasury,
+  treasuryCapId,
+  onTreasuryChanged
+}: TreasuryManagerProps) {
+  const packageId = useNetworkVariable('packageId');
+  const suiClient = useSuiClient();
+  const { formatAmount } = useCoinMetadata();
+
+  const [platformFeeInput, setPlatformFeeInput] = useState(String(treasury.feeBps));
+  const [arbitrationFeeInput, setArbitrationFeeInput] = useState(String(treasury.arbitrationFeeBps));
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Transaction signing and execution
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction({
+    execute: async ({ bytes, signature }) =>
+      await suiClient.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature,
+        options: {
+          showRawEffects: true,
+          showEffects: true,
+        },
+      }),
+  });
+
+  // Run a transaction guarded by the treasury cap
+  const runTreasuryTx = (tx: Transaction, label: string) => {
+    setIsUpdating(true);
+    setError(null);
+
+    signAndExecute(
+      {
+        transaction: tx,
+      },
+      {
+        onSuccess: async (result) => {
+          console.log(`Treasury updated (${label}):`, result);
+          setIsUpdating(false);
+          onTreasuryChanged();
+        },
+        onError: (error) => {
+          console.error(`Error updating treasury (${label}):`, error);
+          setError('Failed to update the treasury. Please try again.');
+          setIsUpdating(false);
+        },
+      },
+    );
+  };
+
+  const isValidFee = (value: string) => {
+    const fee = Number(value);
+    return value !== '' && Number.isInteger(fee) && fee >= 0 && fee <= MAX_FEE_BPS;
+  };
+
+  const feeInputs = [
+    { fee: 'platform' as const, label: 'Platform fee', value: platformFeeInput, setValue: setPlatformFeeInput, current: treasury.feeBps },
+    { fee: 'arbitration' as const, label: 'Arbitration fee', value: arbitrationFeeInput, setValue: setArbitrationFeeInput, current: treasury.arbitrationFeeBps },
+  ];
+
+  return (
+    <Card>
+      <Flex direction="column" gap="3">
+        <Flex gap="2" align="center">
+          <Landmark size={16} />
+          <Heading size="4">Treasury</Heading>
+        </Flex>
+        <Text size="2" color="gray">
+          The platform fee is kept from every payment to a seller. The arbitration fee is paid out of a disputed escrow
+          to the admins who decide it. Both are in basis points, up to {MAX_FEE_BPS}.
+        </Text>
+
+        {feeInputs.map(({ fee, label, value, setValue, current }) => (
+          <Flex key={fee} gap="2" align="center">
+            <Text size="2" style={{ width: '120px' }}>{label}</Text>
+            <input
+              type="number"
+              min="0"
+              max={MAX_FEE_BPS}
+              value={value}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setValue(e.target.value)}
+              style={{
+                width: '100px',
+                padding: '8px',
+                borderRadius: '4px',
+                border: '1px solid var(--gray-5)'
+              }}
+            />
+            <Text size="2" color="gray">{Number(value) / 100}%</Text>
+            <Button
+              variant="soft"
+              onClick={() => runTreasuryTx(
+                setTreasuryFee(packageId, treasury.id, treasuryCapId, fee, Number(value)),
+                `set_${fee}_fee`
+              )}
+              disabled={isUpdating || !isValidFee(value) || Number(value) === current}
+            >
+              Update
+            </Button>
+          </Flex>
+        ))}
+
+        {error && <Text color="red" size="2">{error}</Text>}
+
+        <Separator size="4" />
+
+        <Heading size="3">Collected Fees</Heading>
+        {Object.keys(treasury.balances).length === 0 ? (
+          <Text size="2">No fees collected yet.</Text>
+        ) : (
+          Object.entries(treasury.balances).map(([coinType, balance]) => (
+            <Flex key={coinType} justify="between" align="center">
+              <Text size="2">{formatAmount(balance, coinType)}</Text>
+              <Button
+                size="1"
+                variant="soft"
+                onClick={() => runTreasuryTx(
+                  withdrawFees(packageId, treasury.id, treasuryCapId, coinType, balance),
+                  'withdraw_fees'
+                )}
+                disabled={isUpdating || balance === 0}
+              >
+                Withdraw All
+              </Button>
+            </Flex>
+          ))
+        )}
+      </Flex>
+    </Card>
+  );
+}
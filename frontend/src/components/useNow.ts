@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+// Deadlines are shown with minute precision, so there is no need to re-render more often
+const TICK_INTERVAL_MS = 30_000;
+
+// Current time, refreshed periodically so deadline-dependent UI updates on its own
+export function useNow(intervalMs: number = TICK_INTERVAL_MS) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+}
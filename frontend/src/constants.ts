@@ -6,3 +6,18 @@ export const MAINNET_PACKAGE_ID = '0xTODO';
 export const DEVNET_REGISTRY_ID = '0xTODO';
 export const TESTNET_REGISTRY_ID = '0xdc1c2a103754b37070ceac61c97a3ec114b648ab9fdcb0a2fb5e08d1b5c66dfa';
 export const MAINNET_REGISTRY_ID = '0xTODO';
+
+// Admin registry IDs for each network (created by the module init on publish)
+export const DEVNET_ADMIN_REGISTRY_ID = '0xTODO';
+export const TESTNET_ADMIN_REGISTRY_ID = '0xTODO';
+export const MAINNET_ADMIN_REGISTRY_ID = '0xTODO';
+
+// Stats registry IDs for each network (created by the module init on publish)
+export const DEVNET_STATS_REGISTRY_ID = '0xTODO';
+export const TESTNET_STATS_REGISTRY_ID = '0xTODO';
+export const MAINNET_STATS_REGISTRY_ID = '0xTODO';
+
+// Treasury IDs for each network (created by the module init on publish)
+export const DEVNET_TREASURY_ID = '0xTODO';
+export const TESTNET_TREASURY_ID = '0xTODO';
+export const MAINNET_TREASURY_ID = '0xTODO';
@@ -1,22 +1,48 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useRef, useCallback } from 'react';
-import { useSuiClient, useCurrentAccount, useSignPersonalMessage, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
-import { SealClient, getAllowlistedKeyServers, SessionKey } from '@mysten/seal';
+import { useSuiClient, useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
+import { SealClient } from '@mysten/seal';
 import { Transaction } from '@mysten/sui/transactions';
 import { useNetworkVariable } from '../networkConfig';
-import { Advertisement, ChatMessage as ChatMessageType, Interaction } from '../types';
-import { fetchAdvertisement, addChatMessage } from '../api';
+import {
+  Advertisement,
+  ChatMessage as ChatMessageType,
+  Interaction,
+  INTERACTION_BUYER_APPROVED,
+  INTERACTION_RESOLVED,
+  INTERACTION_CANCELLED
+} from '../types';
+import {
+  fetchAdvertisement,
+  fetchChatMessages,
+  fetchChatCommitment,
+  fetchNextChatSeq,
+  addChatMessage,
+  archiveChat as archiveChatTx,
+  purgeArchivedChat,
+  MAX_CHAT_REMOVALS
+} from '../api';
+import { useMarketplaceEvents } from './useIndexer';
+import { useSealSession } from './useSealSession';
+import { storeEphemeralKey, retrieveEphemeralKey, clearEphemeralKey } from '../keyStore';
 import { 
   decryptMessage, 
   encryptMessage, 
-  storeEphemeralKey, 
-  retrieveEphemeralKey,
-  clearEphemeralKey,
   decryptEphemeralKey,
   encryptFileData,
   uploadToWalrus,
   downloadFromWalrus,
+  encryptChatArchive,
+  downloadChatArchive,
+  hashChatMessages,
+  WALRUS_ARCHIVE_EPOCHS,
+  sha256,
   decryptFileData,
-  FileMetadata
+  FileMetadata,
+  getFileMetadata,
+  getFileDisplayName,
+  createImageThumbnail,
+  ChatCipherContext,
+  TamperedCiphertextError
 } from '../utils';
 import { fromHex, toHex } from '@mysten/sui/utils';
 import { bcs } from '@mysten/sui/bcs';
@@ -27,8 +53,11 @@ interface ChatMessage extends ChatMessageType {
   type?: 'text' | 'image' | 'file';
   status?: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
   imageUrl?: string;
+  thumbnailUrl?: string; // Preview shown in the chat, the image opens at full size
   fileUrl?: string;
   fileMetadata?: FileMetadata;
+  tampered?: boolean; // The ciphertext was not written for this message
+  unverified?: boolean; // Sent before ciphertexts were bound to their message, so the binding can't be checked
 }
 
 interface ChatContextType {
@@ -40,20 +69,27 @@ interface ChatContextType {
   // Key initialization state
   isInitializingKey: boolean;
   keyInitializationError: string | null;
+  isSessionExpired: boolean; // Set until the user signs a new session key
   
   // Chat functions
   sendMessage: (text: string) => Promise<void>;
   sendFileMessage: (file: File) => Promise<void>;
-  loadMessages: (advertisementId: string, interactionId: number) => Promise<void>;
+  loadMessages: (advertisementId: string, interactionUser: string, interactionId: number) => Promise<void>;
   retryKeyInitialization: () => void;
+  archiveChat: () => Promise<void>;
+  
+  // Archive state
+  isChatArchived: boolean;
+  isArchiving: boolean;
   
   // Seal client
-  sealClient: SealClient | null;
+  sealClient: SealClient;
   
   // Current chat info
   currentAdvertisementId: string | null;
+  currentInteractionUser: string | null; // Interaction ids count per user, the user is part of the chat's identity
   currentInteractionId: number | null;
-  setCurrentChat: (advertisementId: string | null, interactionId: number | null) => void;
+  setCurrentChat: (advertisementId: string | null, interactionUser: string | null, interactionId: number | null) => void;
   
   // User info
   currentAccount: ReturnType<typeof useCurrentAccount>;
@@ -61,7 +97,15 @@ interface ChatContextType {
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
-// Global session key cache REMOVED for simplification
+// Deals in these states take no more work, their chat keys are not kept on the device
+const FINISHED_STATES = [INTERACTION_BUYER_APPROVED, INTERACTION_RESOLVED, INTERACTION_CANCELLED];
+
+// Interaction ids are indexes into the profile of the user who joined, so a chat is identified by both
+const getChatKey = (advertisementId: string, interactionUser: string, interactionId: number) =>
+  `${advertisementId}_${interactionUser}_${interactionId}`;
+
+const findInteraction = (advertisement: Advertisement, interactionUser: string, interactionId: number): Interaction | null =>
+  advertisement.userProfiles[interactionUser]?.interactions[interactionId] ?? null;
 
 export function ChatProvider({ children }: { children: ReactNode }) {
   const suiClient = useSuiClient();
@@ -69,180 +113,70 @@ export function ChatProvider({ children }: { children: ReactNode }) {
   const packageId = useNetworkVariable('packageId');
   
   // State
-  const [sealClient, setSealClient] = useState<SealClient | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentAdvertisementId, setCurrentAdvertisementId] = useState<string | null>(null);
+  const [currentInteractionUser, setCurrentInteractionUser] = useState<string | null>(null);
   const [currentInteractionId, setCurrentInteractionId] = useState<number | null>(null);
   
-  // Key initialization state
-  const [isInitializingKey, setIsInitializingKey] = useState(false);
-  const [keyInitializationError, setKeyInitializationError] = useState<string | null>(null);
-  
-  // Session key management - bulletproof approach
-  const [sessionKey, setSessionKey] = useState<SessionKey | null>(null);
-  const { 
-    mutate: signPersonalMessage, 
-    reset: resetSignPersonalMessage, 
-    isPending: isSignPersonalMessagePending 
-  } = useSignPersonalMessage();
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  // Session key shared by every page, restored from IndexedDB or signed once
+  const {
+    sealClient,
+    sessionKey,
+    isInitializingKey,
+    keyInitializationError,
+    isSessionExpired,
+    initializeSessionKey,
+    retryKeyInitialization: retrySessionKey
+  } = useSealSession();
+  const { mutate: signAndExecute, mutateAsync: signAndExecuteAsync } = useSignAndExecuteTransaction();
   
-  // Polling management
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Upload tracking
   const [isFileUploading, setIsFileUploading] = useState(false);
   const [uploadingFileIds, setUploadingFileIds] = useState<string[]>([]);
   
   // Track if we've attempted to fetch ephemeral key for current chat
   const [ephemeralKeyFetched, setEphemeralKeyFetched] = useState<string | null>(null);
-  // const signPromiseRef = useRef<Promise<SessionKey | null> | null>(null); // REMOVED
-  
-  // Initialize SealClient
-  useEffect(() => {
-    if (currentAccount && suiClient) {
-      const client = new SealClient({
-        suiClient,
-        serverConfigs: getAllowlistedKeyServers('testnet').map((id) => ({
-        objectId: id,
-        weight: 1,
-      })),
-        verifyKeyServers: false,
-      });
-      setSealClient(client);
-    }
-  }, [currentAccount, suiClient]);
-
-  // Bulletproof session key initialization
-  const initializeSessionKey = useCallback(async (): Promise<SessionKey | null> => {
-    const userAddress = currentAccount?.address;
-    console.log(`[ChatContext::SessionKey] Attempting to initialize. User: ${userAddress}, Package: ${packageId}`);
-
-    if (!currentAccount || !suiClient || !userAddress) {
-      const errorMsg = `[ChatContext::SessionKey] Pre-requisites not met. Account: ${!!currentAccount}, SuiClient: ${!!suiClient}, UserAddress: ${userAddress}`;
-      console.error(errorMsg);
-      setIsInitializingKey(false);
-      setKeyInitializationError('User account or Sui client not available.');
-      return null;
-    }
-    
-    // Global cache removed. If a session key exists in state, use it.
-    if (sessionKey) {
-      console.log(`[ChatContext::SessionKey] Using existing session key from state for user ${userAddress}.`);
-      setIsInitializingKey(false); // No longer initializing if we already have one
-      setKeyInitializationError(null);
-      return sessionKey;
-    }
-
-    // If a signature request is already pending from this hook, don't start another.
-    // This is the primary guard against double prompts.
-    if (isSignPersonalMessagePending) {
-      console.warn(`[ChatContext::SessionKey] signPersonalMessage is already pending for user ${userAddress}. Aborting new attempt to prevent double prompt.`);
-      setIsInitializingKey(true); // Still indicate we are in an initializing phase for UI
-      return null;
-    }
-    
-    // Secondary guard: if isInitializingKey is true (set by a previous call that hasn't completed but
-    // isSignPersonalMessagePending might be false if the actual signPersonalMessage call hasn't been made yet
-    // or if there's a slight delay in its state update), also abort.
-    if (isInitializingKey) {
-        console.warn(`[ChatContext::SessionKey] isInitializingKey is true (but signPersonalMessage not pending) for user ${userAddress}. Aborting new attempt.`);
-        return null; 
-    }
-    
-    console.log(`[ChatContext::SessionKey] No session key in state, not currently initializing, and signPersonalMessage not pending. Starting new initialization for user ${userAddress}.`);
-    setIsInitializingKey(true);
-    setKeyInitializationError(null);
-    
-    try {
-      console.log(`[ChatContext::SessionKey] Creating new SessionKey instance for user ${userAddress}.`);
-      const newSessionKey = new SessionKey({
-        address: userAddress,
-        packageId,
-        ttlMin: 10, // 10 minutes TTL
-        suiClient
-      });
-      
-      console.log(`[ChatContext::SessionKey] Getting personal message bytes for user ${userAddress}.`);
-      const messageBytes = newSessionKey.getPersonalMessage();
-      
-      console.log(`[ChatContext::SessionKey] Prompting user for signature. Current isSignPersonalMessagePending: ${isSignPersonalMessagePending} for user ${userAddress}.`);
-      
-      // Directly await the signature result
-      const signatureResult = await new Promise<{ signature: string } | null>((resolve, reject) => {
-        signPersonalMessage(
-          { message: messageBytes },
-          {
-            onSuccess: (sigResult) => {
-              console.log(`[ChatContext::SessionKey] signPersonalMessage onSuccess: Signature received for user ${userAddress}.`);
-              resolve(sigResult);
-            },
-            onError: (error) => {
-              console.error(`[ChatContext::SessionKey] signPersonalMessage onError for user ${userAddress}:`, error);
-              reject(new Error(error.message || 'Wallet signature required or user cancelled.'));
-            }
-          }
-        );
-      });
 
-      if (!signatureResult) {
-        throw new Error('Signature process did not return a result.');
-      }
+  // Chat keys already resolved by this page, so sending and reloading skip the lookup
+  const ephemeralKeysRef = useRef(new Map<string, Uint8Array>());
 
-      console.log(`[ChatContext::SessionKey] Setting personal message signature on SessionKey instance for user ${userAddress}.`);
-      await newSessionKey.setPersonalMessageSignature(signatureResult.signature);
-      
-      console.log(`[ChatContext::SessionKey] SessionKey successfully initialized for user ${userAddress}.`);
-      setSessionKey(newSessionKey);
-      setIsInitializingKey(false);
-      setKeyInitializationError(null);
-      return newSessionKey;
+  // Another wallet may not have access to the chats this one opened
+  useEffect(() => {
+    ephemeralKeysRef.current.clear();
+  }, [currentAccount?.address]);
 
-    } catch (err: any) {
-      console.error(`[ChatContext::SessionKey] Error during session key initialization for user ${userAddress}:`, err);
-      setIsInitializingKey(false);
-      setKeyInitializationError(err.message || 'Failed to initialize session key.');
-      setSessionKey(null); // Ensure sessionKey is null on failure
-      return null; // Return null on error, rather than re-throwing, to match original simpler structure
-    }
-  }, [currentAccount, suiClient, packageId, signPersonalMessage, sessionKey, isInitializingKey, keyInitializationError, isSignPersonalMessagePending, resetSignPersonalMessage]);
+  // Chat room and first message not loaded yet of the open chat, so reloads only fetch new messages
+  const chatCursorRef = useRef<{ chatKey: string; chatId: string; cursor: number; archived: boolean } | null>(null);
 
+  // Archive state of the open chat
+  const [isChatArchived, setIsChatArchived] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+  // const signPromiseRef = useRef<Promise<SessionKey | null> | null>(null); // REMOVED
+  
   // Retry key initialization
   const retryKeyInitialization = useCallback(() => {
-    console.log('[ChatContext::SessionKey] RetryKeyInitialization called.');
-    console.log(`[ChatContext::SessionKey] Before reset - isSignPersonalMessagePending: ${isSignPersonalMessagePending}`);
-    resetSignPersonalMessage();
-    console.log('[ChatContext::SessionKey] Called resetSignPersonalMessage().');
-
-    // Clear local session key state to force re-initialization
-    setSessionKey(null);
-    setIsInitializingKey(false); // Reset initialization lock
-    setKeyInitializationError(null);
     setEphemeralKeyFetched(null); // Reset ephemeral key fetch status
-    console.log('[ChatContext::SessionKey] Triggering initializeSessionKey from retry.');
-    initializeSessionKey(); // This will now attempt a fresh initialization
-  }, [initializeSessionKey, resetSignPersonalMessage, isSignPersonalMessagePending]);
-
-  // Helper function to find interaction
-  const findInteraction = useCallback((advertisement: Advertisement, interactionId: number): { interaction: Interaction; userAddress: string } | null => {
-    for (const [address, profile] of Object.entries(advertisement.userProfiles)) {
-      const interaction = profile.interactions.find(i => i.id === interactionId);
-      if (interaction) {
-        return { interaction, userAddress: address };
-      }
-    }
-    return null;
-  }, []);
+    retrySessionKey();
+  }, [retrySessionKey]);
 
   // Get or fetch ephemeral key for a chat
   const getEphemeralKey = useCallback(async (
     advertisementId: string, 
+    clientAddress: string,
     interactionId: number
   ): Promise<Uint8Array | null> => {
-    const logPrefix = `[ChatContext::EphemeralGet Ad: ${advertisementId}, Int: ${interactionId}]`;
+    const logPrefix = `[ChatContext::EphemeralGet Ad: ${advertisementId}, User: ${clientAddress}, Int: ${interactionId}]`;
     console.log(`${logPrefix} Attempting to get key.`);
     let ephemeralKey: Uint8Array | null = null; // Re-declare ephemeralKey here
 
+    const chatKey = getChatKey(advertisementId, clientAddress, interactionId);
+    const knownKey = ephemeralKeysRef.current.get(chatKey);
+    if (knownKey) {
+      return knownKey;
+    }
+
     if (!sessionKey) {
       console.error(`${logPrefix} SessionKey not available. Cannot proceed.`);
       setError('Session key not initialized. Cannot fetch chat key.'); // User-facing error
@@ -254,27 +188,42 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       return null;
     }
     
-    // We need to get the client address first to check storage properly
     // Fetch the advertisement to get the interaction details
-    console.log(`${logPrefix} Fetching advertisement to find interaction and client address.`);
+    console.log(`${logPrefix} Fetching advertisement to find interaction.`);
     const advertisement = await fetchAdvertisement(suiClient, advertisementId, packageId);
     if (!advertisement) {
       console.error(`${logPrefix} Advertisement not found.`);
       throw new Error('Advertisement not found');
     }
     
-    // Find the interaction to get the client address
-    const result = findInteraction(advertisement, interactionId);
-    if (!result) {
+    // Find the interaction in the profile of its user
+    const interaction = findInteraction(advertisement, clientAddress, interactionId);
+    if (!interaction) {
       console.error(`${logPrefix} Interaction not found in advertisement.`);
       throw new Error('Interaction not found');
     }
+    console.log(`${logPrefix} Found interaction.`);
     
-    const { interaction, userAddress: clientAddress } = result;
-    console.log(`${logPrefix} Found interaction. Client address for key: ${clientAddress}`);
-    
-    // retrieveEphemeralKey will now always return null due to utils.ts changes.
-    console.log(`${logPrefix} Ephemeral key storage disabled. Proceeding to fetch and decrypt for client ${clientAddress}.`);
+    // Keys of finished deals are evicted from the device, others are read from the local cache when present
+    const owner = currentAccount?.address;
+    const isFinished = FINISHED_STATES.includes(interaction.state);
+    if (owner) {
+      try {
+        if (isFinished) {
+          await clearEphemeralKey(owner, advertisementId, clientAddress, interactionId);
+        } else {
+          const cachedKey = await retrieveEphemeralKey(owner, advertisementId, clientAddress, interactionId);
+          if (cachedKey) {
+            console.log(`${logPrefix} Using chat key cached on this device.`);
+            ephemeralKeysRef.current.set(chatKey, cachedKey);
+            return cachedKey;
+          }
+        }
+      } catch (err) {
+        console.warn(`${logPrefix} Local chat key cache unavailable:`, err);
+      }
+    }
+    console.log(`${logPrefix} Chat key not cached. Proceeding to fetch and decrypt for client ${clientAddress}.`);
 
     console.log(`${logPrefix} State before decryption attempt: sessionKey valid: ${!!sessionKey}, sealClient valid: ${!!sealClient}`);
 
@@ -310,6 +259,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       
       tx.moveCall({
         target: `${packageId}::marketplace::seal_approve`,
+        typeArguments: [advertisement.coinType],
         arguments: [
           tx.pure.vector('u8', Array.from(idForDecryption)),
           tx.object(advertisementId),
@@ -332,8 +282,13 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       console.log(`${logPrefix} Stage 3 ${ephemeralKey ? 'SUCCESS' : 'FAILURE (returned null)'}: utils.decryptEphemeralKey result: ${!!ephemeralKey}`);
           
       if (ephemeralKey) {
-        console.log(`${logPrefix} Ephemeral key decryption successful. Storing (no-op) and returning key.`);
-        storeEphemeralKey(advertisementId, clientAddress, interactionId, ephemeralKey); // This is now a no-op but kept for logical flow
+        console.log(`${logPrefix} Ephemeral key decryption successful. Caching and returning key.`);
+        ephemeralKeysRef.current.set(chatKey, ephemeralKey);
+        if (owner && !isFinished) {
+          storeEphemeralKey(owner, advertisementId, clientAddress, interactionId, ephemeralKey).catch(err => {
+            console.warn(`${logPrefix} Failed to cache chat key on this device:`, err);
+          });
+        }
         return ephemeralKey;
       } else {
         // This path should ideally not be reached if decryptEphemeralKey throws on failure.
@@ -352,10 +307,10 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       }
       throw err; // Re-throw to be caught by calling function (e.g., attemptEphemeralKeyFetch)
     }
-  }, [sealClient, sessionKey, suiClient, packageId, findInteraction, setError]);
+  }, [sealClient, sessionKey, suiClient, packageId, currentAccount, setError]);
 
   // Load messages for a chat - memoized to prevent excessive calls
-  const loadMessages = useCallback(async (advertisementId: string, interactionId: number) => {
+  const loadMessages = useCallback(async (advertisementId: string, interactionUser: string, interactionId: number) => {
     if (!suiClient || !currentAccount) {
       setError('Client not initialized');
       return;
@@ -366,56 +321,97 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     
     try {
       // Get the ephemeral key
-      const ephemeralKey = await getEphemeralKey(advertisementId, interactionId);
+      const ephemeralKey = await getEphemeralKey(advertisementId, interactionUser, interactionId);
       if (!ephemeralKey) {
         throw new Error('No ephemeral key available for decryption');
       }
       
-      // Fetch advertisement and interaction
-      const advertisement = await fetchAdvertisement(suiClient, advertisementId, packageId);
-      if (!advertisement) {
-        throw new Error('Advertisement not found');
+      // Resolve the chat room once per chat, later loads continue from the cursor
+      const chatKey = getChatKey(advertisementId, interactionUser, interactionId);
+      let chatCursor = chatCursorRef.current?.chatKey === chatKey ? chatCursorRef.current : null;
+      let archivedMessages: ChatMessageType[] | null = null;
+      if (!chatCursor) {
+        const advertisement = await fetchAdvertisement(suiClient, advertisementId, packageId);
+        if (!advertisement) {
+          throw new Error('Advertisement not found');
+        }
+
+        const interaction = findInteraction(advertisement, interactionUser, interactionId);
+        if (!interaction) {
+          throw new Error('Interaction not found');
+        }
+
+        chatCursor = { chatKey, chatId: interaction.chatId, cursor: 0, archived: !!interaction.chatArchiveBlobId };
+
+        // Archived chats have no messages left on-chain, their history is read from Walrus
+        if (interaction.chatArchiveBlobId && interaction.chatArchiveHash) {
+          archivedMessages = await downloadChatArchive(
+            interaction.chatArchiveBlobId,
+            interaction.chatArchiveHash,
+            ephemeralKey,
+            await fetchChatCommitment(suiClient, interaction.chatId)
+          );
+        }
       }
-      
-      const result = findInteraction(advertisement, interactionId);
-      if (!result) {
-        throw new Error('Interaction not found');
+      setIsChatArchived(chatCursor.archived);
+      const isFirstLoad = chatCursor.cursor === 0;
+
+      // Get the messages sent since the last load, page by page
+      const chatMessages: ChatMessageType[] = archivedMessages ?? [];
+      let cursor = archivedMessages ? archivedMessages.length : chatCursor.cursor;
+      let hasNextPage = !chatCursor.archived;
+      while (hasNextPage) {
+        const page = await fetchChatMessages(suiClient, chatCursor.chatId, cursor);
+        chatMessages.push(...page.messages);
+        cursor = page.nextCursor;
+        hasNextPage = page.hasNextPage;
       }
-      
-      const { interaction } = result;
-      
-      // Get and decrypt messages
-      const chatMessages = interaction.chatMessages || [];
+      chatCursorRef.current = { ...chatCursor, cursor };
+
+      // Decrypt only the new messages
       const decryptedMessages: ChatMessage[] = [];
       
       for (const message of chatMessages) {
+        // Every ciphertext must have been written for the message it is attached to
+        const context: ChatCipherContext = {
+          advertisementId: message.advertisementId,
+          interactionUser: message.interactionUser,
+          interactionId: message.interactionId,
+          sender: message.sender,
+          seq: message.seq,
+        };
         try {
           if (message.messageBlobId) {
             // Handle file/image messages
             const encryptedFileData = await downloadFromWalrus(message.messageBlobId);
             if (encryptedFileData) {
-              const { data: decryptedFileData, metadata } = await decryptFileData(encryptedFileData, ephemeralKey);
-              const isImage = metadata?.type?.startsWith('image/') || !metadata;
-              const mimeType = metadata?.type || 'image/png';
-              const blob = new Blob([decryptedFileData], { type: mimeType });
+              const { data: decryptedFileData, metadata, thumbnail, unverified } = await decryptFileData(encryptedFileData, ephemeralKey, context);
+              const blob = new Blob([new Uint8Array(decryptedFileData)], { type: metadata.type });
 
-              if (isImage) {
+              if (metadata.type.startsWith('image/')) {
                 const imageUrl = URL.createObjectURL(blob);
+                const thumbnailUrl = thumbnail
+                  ? URL.createObjectURL(new Blob([new Uint8Array(thumbnail.data)], { type: thumbnail.type }))
+                  : undefined;
                 decryptedMessages.push({
                   ...message,
                   text: '[Image]',
                   imageUrl,
+                  thumbnailUrl,
+                  fileMetadata: metadata,
                   type: 'image',
+                  unverified,
                 });
               } else {
                 const fileUrl = URL.createObjectURL(blob);
-                const displayName = metadata ? `${metadata.filename}.${metadata.extension}` : 'file';
+                const displayName = getFileDisplayName(metadata);
                 decryptedMessages.push({
                   ...message,
                   text: `[File: ${displayName}]`,
                   fileUrl,
                   fileMetadata: metadata,
                   type: 'file',
+                  unverified,
                 });
               }
             } else {
@@ -427,11 +423,12 @@ export function ChatProvider({ children }: { children: ReactNode }) {
             }
           } else if (message.messageEncryptedText) {
             // Handle text messages
-            const decryptedText = await decryptMessage(message.messageEncryptedText, ephemeralKey);
+            const { text: decryptedText, unverified } = await decryptMessage(message.messageEncryptedText, ephemeralKey, context);
             decryptedMessages.push({
               ...message,
               text: decryptedText || 'Failed to decrypt message',
               type: 'text',
+              unverified,
             });
           } else {
             decryptedMessages.push({
@@ -441,6 +438,16 @@ export function ChatProvider({ children }: { children: ReactNode }) {
             });
           }
         } catch (err) {
+          if (err instanceof TamperedCiphertextError) {
+            console.warn(`Message ${message.id} carries a ciphertext written for another message`);
+            decryptedMessages.push({
+              ...message,
+              text: message.messageBlobId ? '[File - failed integrity check]' : 'Message failed integrity check',
+              type: message.messageBlobId ? 'file' : 'text',
+              tampered: true,
+            });
+            continue;
+          }
           console.error(`Error processing message ${message.id}:`, err);
           decryptedMessages.push({
             ...message,
@@ -450,17 +457,16 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         }
       }
       
-      // Sort by timestamp and update state
-      decryptedMessages.sort((a, b) => a.timestamp - b.timestamp);
-      
-      // Preserve uploading messages
-      if (uploadingFileIds.length > 0) {
-        const uploadingMessages = messages.filter(m => 
-          uploadingFileIds.includes(m.id) && m.status === 'sending'
-        );
-        setMessages([...decryptedMessages, ...uploadingMessages]);
-      } else {
-        setMessages(decryptedMessages);
+      // Messages arrive in sequence order, append them to the ones already shown
+      if (isFirstLoad || decryptedMessages.length > 0) {
+        setMessages(prev => {
+          // Sent messages are shown locally until they are loaded from the chat room, pending ones are kept
+          const pending = prev.filter(m => m.status === 'sending' || m.status === 'failed');
+          const loaded = isFirstLoad ? [] : prev.filter(m => m.status === undefined);
+          // Overlapping loads can fetch the same messages twice
+          const lastSeq = loaded.length > 0 ? loaded[loaded.length - 1].seq : -1;
+          return [...loaded, ...decryptedMessages.filter(m => m.seq > lastSeq), ...pending];
+        });
       }
       
     } catch (err: any) {
@@ -469,17 +475,17 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     } finally {
       setIsLoadingMessages(false);
     }
-  }, [suiClient, currentAccount, packageId, getEphemeralKey, findInteraction, uploadingFileIds]);
+  }, [suiClient, currentAccount, packageId, getEphemeralKey]);
 
   // BULLETPROOF FIX: Auto-fetch ephemeral key after session key is ready
   useEffect(() => {
     const attemptEphemeralKeyFetch = async () => {
       // Only proceed if we have all required components and haven't already fetched for this chat
-      if (!sessionKey || !currentAdvertisementId || currentInteractionId === null || !sealClient) {
+      if (!sessionKey || !currentAdvertisementId || !currentInteractionUser || currentInteractionId === null || !sealClient) {
         return;
       }
       
-      const chatKey = `${currentAdvertisementId}_${currentInteractionId}`;
+      const chatKey = getChatKey(currentAdvertisementId, currentInteractionUser, currentInteractionId);
       
       // Skip if we've already attempted to fetch for this chat
       if (ephemeralKeyFetched === chatKey) {
@@ -491,12 +497,12 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       
       try {
         // Force a fresh fetch of the ephemeral key
-        const ephemeralKey = await getEphemeralKey(currentAdvertisementId, currentInteractionId);
+        const ephemeralKey = await getEphemeralKey(currentAdvertisementId, currentInteractionUser, currentInteractionId);
         
         if (ephemeralKey) {
           console.log('Ephemeral key auto-fetch successful');
           // Now load messages since we have the key
-          await loadMessages(currentAdvertisementId, currentInteractionId);
+          await loadMessages(currentAdvertisementId, currentInteractionUser, currentInteractionId);
         } else {
           console.error('Ephemeral key auto-fetch returned null');
           // Force a retry of the key initialization
@@ -514,72 +520,80 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     };
     
     attemptEphemeralKeyFetch();
-  }, [sessionKey, currentAdvertisementId, currentInteractionId, sealClient, ephemeralKeyFetched, getEphemeralKey, loadMessages]);
+  }, [sessionKey, currentAdvertisementId, currentInteractionUser, currentInteractionId, sealClient, ephemeralKeyFetched, getEphemeralKey, loadMessages]);
 
-  // Set up polling for message updates - fixed to prevent spam
+  // Load messages when the chat is opened
   useEffect(() => {
-    // Clear any existing interval
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
-    }
-    
-    // Only set up polling if we have a valid chat and session key
-    if (!currentAdvertisementId || currentInteractionId === null) {
+    if (!currentAdvertisementId || !currentInteractionUser || currentInteractionId === null || !sessionKey) {
       return;
     }
     
-    // Load messages immediately if we have a session key
-    if (sessionKey) {
-      const chatKey = `${currentAdvertisementId}_${currentInteractionId}`;
-      if (ephemeralKeyFetched !== chatKey) {
-        console.log('Immediate message load triggered by polling setup');
-        loadMessages(currentAdvertisementId, currentInteractionId).catch(err => {
-          console.error('Error in immediate message load:', err);
-        });
-      }
+    const chatKey = getChatKey(currentAdvertisementId, currentInteractionUser, currentInteractionId);
+    if (ephemeralKeyFetched !== chatKey) {
+      console.log('Immediate message load triggered on chat open');
+      loadMessages(currentAdvertisementId, currentInteractionUser, currentInteractionId).catch(err => {
+        console.error('Error in immediate message load:', err);
+      });
     }
-    
-    // Set up polling every 3 seconds
-    pollingIntervalRef.current = setInterval(() => {
-      // Only poll if we have a session key, not uploading files, and we still have the same chat
-      if (sessionKey && !isFileUploading && uploadingFileIds.length === 0 && 
-          currentAdvertisementId && currentInteractionId !== null) {
-        console.log(`Polling messages for ${currentAdvertisementId}:${currentInteractionId}`);
-        loadMessages(currentAdvertisementId, currentInteractionId).catch(err => {
-          console.error('Error in polling message load:', err);
+  }, [currentAdvertisementId, currentInteractionUser, currentInteractionId, sessionKey, ephemeralKeyFetched, loadMessages]);
+
+  // Reload messages when the indexer sees a new message in the current chat
+  useMarketplaceEvents(
+    (event) =>
+      event.type === 'ChatMessageAdded' &&
+      event.advertisementId === currentAdvertisementId &&
+      event.user === currentInteractionUser &&
+      event.interactionId === currentInteractionId,
+    () => {
+      // Skip while uploading, the upload reloads messages itself once finished
+      if (sessionKey && !isFileUploading && uploadingFileIds.length === 0 &&
+          currentAdvertisementId && currentInteractionUser && currentInteractionId !== null) {
+        console.log(`New message event for ${currentAdvertisementId}:${currentInteractionUser}:${currentInteractionId}`);
+        loadMessages(currentAdvertisementId, currentInteractionUser, currentInteractionId).catch(err => {
+          console.error('Error loading messages after event:', err);
         });
       }
-    }, 3000);
-    
-    return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-        pollingIntervalRef.current = null;
+    }
+  );
+
+  // The current chat was archived, its messages are already shown and no new ones can be sent
+  useMarketplaceEvents(
+    (event) =>
+      event.type === 'ChatArchived' &&
+      event.advertisementId === currentAdvertisementId &&
+      event.user === currentInteractionUser &&
+      event.interactionId === currentInteractionId,
+    () => {
+      if (chatCursorRef.current) {
+        chatCursorRef.current = { ...chatCursorRef.current, archived: true };
       }
-    };
-  }, [currentAdvertisementId, currentInteractionId, sessionKey, isFileUploading, uploadingFileIds, ephemeralKeyFetched, loadMessages]);
+      setIsChatArchived(true);
+    }
+  );
 
   // Set current chat
-  const setCurrentChat = useCallback((advertisementId: string | null, interactionId: number | null) => {
-    if (advertisementId !== currentAdvertisementId || interactionId !== currentInteractionId) {
+  const setCurrentChat = useCallback((advertisementId: string | null, interactionUser: string | null, interactionId: number | null) => {
+    if (advertisementId !== currentAdvertisementId || interactionUser !== currentInteractionUser || interactionId !== currentInteractionId) {
       setMessages([]);
       setError(null);
       setEphemeralKeyFetched(null); // Reset ephemeral key fetch status for new chat
+      setIsChatArchived(false);
+      chatCursorRef.current = null;
     }
     setCurrentAdvertisementId(advertisementId);
+    setCurrentInteractionUser(interactionUser);
     setCurrentInteractionId(interactionId);
-  }, [currentAdvertisementId, currentInteractionId]);
+  }, [currentAdvertisementId, currentInteractionUser, currentInteractionId]);
 
-  // Initialize session key when account changes or when chat changes - bulletproof approach
+  // Initialize session key when account changes or when chat changes, a failed signature or an expired session waits for a retry
   useEffect(() => {
-    if (currentAccount && suiClient && !sessionKey && !isInitializingKey) {
+    if (currentAccount && suiClient && !sessionKey && !isInitializingKey && !keyInitializationError && !isSessionExpired) {
       console.log('Auto-initializing session key...');
       initializeSessionKey().catch(err => {
         console.error('Error in auto-initializing session key:', err);
       });
     }
-  }, [currentAccount, suiClient, sessionKey, isInitializingKey, initializeSessionKey, currentAdvertisementId, currentInteractionId]);
+  }, [currentAccount, suiClient, sessionKey, isInitializingKey, keyInitializationError, isSessionExpired, initializeSessionKey, currentAdvertisementId, currentInteractionUser, currentInteractionId]);
 
   // Clean up cache when account changes - Global cache removed, so this is no longer needed.
   // useEffect(() => {
@@ -600,7 +614,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
 
   // Send text message
   const sendMessage = useCallback(async (text: string) => {
-    if (!suiClient || !currentAccount || !currentAdvertisementId || currentInteractionId === null) {
+    if (!suiClient || !currentAccount || !currentAdvertisementId || !currentInteractionUser || currentInteractionId === null) {
       setError('Chat not properly initialized');
       return;
     }
@@ -609,7 +623,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     
     try {
       // Get ephemeral key
-      const ephemeralKey = await getEphemeralKey(currentAdvertisementId, currentInteractionId);
+      const ephemeralKey = await getEphemeralKey(currentAdvertisementId, currentInteractionUser, currentInteractionId);
       if (!ephemeralKey) {
         throw new Error('No ephemeral key available for encryption');
       }
@@ -617,9 +631,10 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       // Create temporary message for UI
       const tempMessage: ChatMessage = {
         id: `temp-${Date.now()}`,
+        seq: -1, // Not in the chat room yet
         advertisementId: currentAdvertisementId,
         interactionId: currentInteractionId,
-        interactionUser: currentAccount.address,
+        interactionUser: currentInteractionUser,
         sender: currentAccount.address,
         timestamp: Date.now(),
         messageEncryptedText: '',
@@ -630,31 +645,36 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       
       setMessages(prev => [...prev, tempMessage]);
       
-      // Get the correct interaction user address
+      // Get the chat room of the interaction
       const advertisement = await fetchAdvertisement(suiClient, currentAdvertisementId, packageId);
       if (!advertisement) {
         throw new Error('Advertisement not found');
       }
       
-      let interactionUser = currentAccount.address;
-      const isCreator = advertisement.creator === currentAccount.address;
-      
-      if (isCreator) {
-        // Find the client's address for this interaction
-        const result = findInteraction(advertisement, currentInteractionId);
-        if (result) {
-          interactionUser = result.userAddress;
-        }
+      const interaction = findInteraction(advertisement, currentInteractionUser, currentInteractionId);
+      if (!interaction) {
+        throw new Error('Interaction not found');
       }
+      const { chatId } = interaction;
+
+      // Bind the ciphertext to the message it is about to become
+      const context: ChatCipherContext = {
+        advertisementId: currentAdvertisementId,
+        interactionUser: currentInteractionUser,
+        interactionId: currentInteractionId,
+        sender: currentAccount.address,
+        seq: await fetchNextChatSeq(suiClient, chatId),
+      };
       
       // Create and execute transaction
       const tx = await addChatMessage(
         packageId,
+        chatId,
         currentAdvertisementId,
-        interactionUser,
-        currentInteractionId,
+        advertisement.coinType,
         { text },
-        ephemeralKey
+        ephemeralKey,
+        context
       );
       
       signAndExecute(
@@ -682,11 +702,11 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       setError(err.message || 'Failed to prepare message');
       setMessages(prev => prev.filter(msg => !msg.id.startsWith('temp-')));
     }
-  }, [suiClient, currentAccount, currentAdvertisementId, currentInteractionId, packageId, getEphemeralKey, signAndExecute, findInteraction]);
+  }, [suiClient, currentAccount, currentAdvertisementId, currentInteractionUser, currentInteractionId, packageId, getEphemeralKey, signAndExecute]);
 
   // Send file message
   const sendFileMessage = useCallback(async (file: File) => {
-    if (!suiClient || !currentAccount || !currentAdvertisementId || currentInteractionId === null) {
+    if (!suiClient || !currentAccount || !currentAdvertisementId || !currentInteractionUser || currentInteractionId === null) {
       setError('Chat not properly initialized');
       return;
     }
@@ -699,9 +719,10 @@ export function ChatProvider({ children }: { children: ReactNode }) {
 
     const tempMessage: ChatMessage = {
       id: tempId,
+      seq: -1, // Not in the chat room yet
       advertisementId: currentAdvertisementId,
       interactionId: currentInteractionId,
-      interactionUser: currentAccount.address,
+      interactionUser: currentInteractionUser,
       sender: currentAccount.address,
       timestamp: Date.now(),
       messageEncryptedText: '',
@@ -716,59 +737,54 @@ export function ChatProvider({ children }: { children: ReactNode }) {
 
     try {
       // Get ephemeral key
-      const ephemeralKey = await getEphemeralKey(currentAdvertisementId, currentInteractionId);
+      const ephemeralKey = await getEphemeralKey(currentAdvertisementId, currentInteractionUser, currentInteractionId);
       if (!ephemeralKey) {
         throw new Error('No ephemeral key available for file encryption');
       }
 
-      // Prepare file data
+      // Prepare file data, images get a thumbnail for the chat
       const fileData = new Uint8Array(await file.arrayBuffer());
-      let metadata: FileMetadata | undefined;
+      const metadata = getFileMetadata(file, fileData);
+      const thumbnail = isImage ? await createImageThumbnail(file) : undefined;
+
+      // Get the chat room of the interaction
+      const advertisement = await fetchAdvertisement(suiClient, currentAdvertisementId, packageId);
+      if (!advertisement) {
+        throw new Error('Advertisement not found');
+      }
       
-      if (!isImage) {
-        const filenameParts = file.name.split('.');
-        const extension = filenameParts.length > 1 ? filenameParts.pop() || '' : '';
-        const filename = filenameParts.join('.');
-        metadata = {
-          filename,
-          extension,
-          type: file.type || 'application/octet-stream',
-          size: file.size
-        };
+      const interaction = findInteraction(advertisement, currentInteractionUser, currentInteractionId);
+      if (!interaction) {
+        throw new Error('Interaction not found');
       }
+      const { chatId } = interaction;
+
+      // Bind the file to the message it is about to become
+      const context: ChatCipherContext = {
+        advertisementId: currentAdvertisementId,
+        interactionUser: currentInteractionUser,
+        interactionId: currentInteractionId,
+        sender: currentAccount.address,
+        seq: await fetchNextChatSeq(suiClient, chatId),
+      };
 
       // Encrypt and upload
-      const encryptedFileData = await encryptFileData(fileData, ephemeralKey, metadata);
+      const encryptedFileData = await encryptFileData(fileData, ephemeralKey, context, metadata, thumbnail);
       const blobId = await uploadToWalrus(encryptedFileData);
 
       if (!blobId) {
         throw new Error('Failed to upload file to Walrus');
       }
-
-      // Get interaction user address
-      const advertisement = await fetchAdvertisement(suiClient, currentAdvertisementId, packageId);
-      if (!advertisement) {
-        throw new Error('Advertisement not found');
-      }
-      
-      let interactionUser = currentAccount.address;
-      const isCreator = advertisement.creator === currentAccount.address;
-      
-      if (isCreator) {
-        const result = findInteraction(advertisement, currentInteractionId);
-        if (result) {
-          interactionUser = result.userAddress;
-        }
-      }
       
       // Create transaction
       const tx = await addChatMessage(
         packageId,
+        chatId,
         currentAdvertisementId,
-        interactionUser,
-        currentInteractionId,
+        advertisement.coinType,
         { blobId },
-        ephemeralKey
+        ephemeralKey,
+        context
       );
 
       // Update message to show wallet prompt
@@ -799,9 +815,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
             );
             
             // Reload messages to get proper URLs
-            if (currentAdvertisementId && currentInteractionId !== null) {
-              loadMessages(currentAdvertisementId, currentInteractionId);
-            }
+            loadMessages(currentAdvertisementId, currentInteractionUser, currentInteractionId);
           },
           onError: (error) => {
             console.error('Error sending file message:', error);
@@ -831,7 +845,81 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         )
       );
     }
-  }, [suiClient, currentAccount, currentAdvertisementId, currentInteractionId, packageId, getEphemeralKey, signAndExecute, findInteraction, loadMessages]);
+  }, [suiClient, currentAccount, currentAdvertisementId, currentInteractionUser, currentInteractionId, packageId, getEphemeralKey, signAndExecute, loadMessages]);
+
+  // Archive the current chat to Walrus and delete its messages on-chain
+  const archiveChat = useCallback(async () => {
+    if (!suiClient || !currentAccount || !currentAdvertisementId || !currentInteractionUser || currentInteractionId === null) {
+      setError('Chat not properly initialized');
+      return;
+    }
+
+    setIsArchiving(true);
+    setError(null);
+
+    try {
+      const ephemeralKey = await getEphemeralKey(currentAdvertisementId, currentInteractionUser, currentInteractionId);
+      if (!ephemeralKey) {
+        throw new Error('No ephemeral key available for encryption');
+      }
+
+      const advertisement = await fetchAdvertisement(suiClient, currentAdvertisementId, packageId);
+      if (!advertisement) {
+        throw new Error('Advertisement not found');
+      }
+
+      const interaction = findInteraction(advertisement, currentInteractionUser, currentInteractionId);
+      if (!interaction) {
+        throw new Error('Interaction not found');
+      }
+      const { chatId } = interaction;
+
+      // Bundle every message the chat room has committed to, as stored on-chain
+      const commitment = await fetchChatCommitment(suiClient, chatId);
+      const chatMessages: ChatMessageType[] = [];
+      while (chatMessages.length < commitment.messageCount) {
+        const page = await fetchChatMessages(suiClient, chatId, chatMessages.length);
+        chatMessages.push(...page.messages);
+        if (page.messages.length === 0) break;
+      }
+      chatMessages.splice(commitment.messageCount);
+
+      // The contract only accepts the archive if it holds exactly these messages, checked here to fail before uploading
+      if ((await hashChatMessages(chatMessages)) !== commitment.messagesHash) {
+        throw new Error('Chat messages could not all be read, try archiving again');
+      }
+
+      const archive = await encryptChatArchive(chatMessages, ephemeralKey);
+      const blobId = await uploadToWalrus(archive, WALRUS_ARCHIVE_EPOCHS);
+      if (!blobId) {
+        throw new Error('Failed to upload chat archive to Walrus');
+      }
+      const contentHash = await sha256(archive);
+
+      // Aborts if a message was sent since the commitment was read, nothing is deleted then
+      const { digest } = await signAndExecuteAsync({
+        transaction: archiveChatTx(packageId, currentAdvertisementId, advertisement.coinType, chatId, blobId, contentHash, commitment),
+      });
+      await suiClient.waitForTransaction({ digest });
+
+      // The archive transaction deletes up to MAX_CHAT_REMOVALS messages, longer chats are purged in batches
+      for (let remaining = chatMessages.length - MAX_CHAT_REMOVALS; remaining > 0; remaining -= MAX_CHAT_REMOVALS) {
+        const purge = await signAndExecuteAsync({
+          transaction: purgeArchivedChat(packageId, chatId, currentAdvertisementId, advertisement.coinType),
+        });
+        await suiClient.waitForTransaction({ digest: purge.digest });
+      }
+
+      console.log(`Chat archived to Walrus blob ${blobId}`);
+      chatCursorRef.current = null;
+      setIsChatArchived(true);
+    } catch (err) {
+      console.error('Error archiving chat:', err);
+      setError(err instanceof Error ? err.message : 'Failed to archive chat');
+    } finally {
+      setIsArchiving(false);
+    }
+  }, [suiClient, currentAccount, currentAdvertisementId, currentInteractionUser, currentInteractionId, packageId, getEphemeralKey, signAndExecuteAsync]);
 
   const value = {
     messages,
@@ -839,12 +927,17 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     error,
     isInitializingKey,
     keyInitializationError,
+    isSessionExpired,
     sendMessage,
     sendFileMessage,
     loadMessages,
     retryKeyInitialization,
+    archiveChat,
+    isChatArchived,
+    isArchiving,
     sealClient,
     currentAdvertisementId,
+    currentInteractionUser,
     currentInteractionId,
     setCurrentChat,
     currentAccount,
@@ -0,0 +1,56 @@
+import React, { useState, useEffect, ReactNode, useCallback, useRef } from 'react';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { CoinInfo } from '../types';
+import { fetchCoinInfo, formatCurrency } from '../api';
+import { CoinMetadataContext } from './useCoinMetadata';
+
+export function CoinMetadataProvider({ children }: { children: ReactNode }) {
+  const suiClient = useSuiClient();
+  const [coins, setCoins] = useState<Record<string, CoinInfo>>({});
+  const pendingRef = useRef(new Map<string, Promise<CoinInfo>>());
+
+  // Metadata depends on the network
+  useEffect(() => {
+    pendingRef.current.clear();
+    setCoins({});
+  }, [suiClient]);
+
+  const loadCoinInfo = useCallback((coinType: string) => {
+    const normalized = normalizeStructTag(coinType);
+    let pending = pendingRef.current.get(normalized);
+    if (!pending) {
+      pending = fetchCoinInfo(suiClient, normalized);
+      pendingRef.current.set(normalized, pending);
+      pending.then((info) => setCoins((prev) => ({ ...prev, [normalized]: info })));
+    }
+    return pending;
+  }, [suiClient]);
+
+  const getCoinInfo = useCallback((coinType: string) => {
+    const normalized = normalizeStructTag(coinType);
+    const info = coins[normalized];
+    if (!info) {
+      loadCoinInfo(normalized);
+    }
+    return info;
+  }, [coins, loadCoinInfo]);
+
+  // Show the raw amount with the type name while the metadata is loading
+  const formatAmount = useCallback((amount: number, coinType: string) => {
+    const info = getCoinInfo(coinType);
+    return formatCurrency(amount, info ?? {
+      coinType,
+      symbol: coinType.split('::').pop() ?? coinType,
+      decimals: 0,
+    });
+  }, [getCoinInfo]);
+
+  const value = {
+    getCoinInfo,
+    loadCoinInfo,
+    formatAmount,
+  };
+
+  return <CoinMetadataContext.Provider value={value}>{children}</CoinMetadataContext.Provider>;
+}
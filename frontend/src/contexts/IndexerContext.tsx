@@ -0,0 +1,97 @@
+import React, { useState, useEffect, ReactNode, useRef, useCallback } from 'react';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { useNetworkVariable } from '../networkConfig';
+import {
+  IndexerState,
+  createIndexerState,
+  applyMarketplaceEvents,
+  fetchMarketplaceEvents,
+  getDealsOfAddress as selectDealsOfAddress,
+  getDealsOfAdvertisement as selectDealsOfAdvertisement
+} from '../indexer';
+import { EventListener, IndexerContext } from './useIndexer';
+
+// How often new events are requested from the fullnode
+const EVENT_POLL_INTERVAL_MS = 5000;
+
+export function IndexerProvider({ children }: { children: ReactNode }) {
+  const suiClient = useSuiClient();
+  const packageId = useNetworkVariable('packageId');
+
+  const [state, setState] = useState<IndexerState>(createIndexerState);
+  const [isSynced, setIsSynced] = useState(false);
+  const stateRef = useRef(state);
+  const listenersRef = useRef(new Set<EventListener>());
+
+  // Consume new events and notify listeners
+  useEffect(() => {
+    let cancelled = false;
+    let timeout: NodeJS.Timeout | null = null;
+    let synced = false;
+
+    // Start over when the package changes
+    stateRef.current = createIndexerState();
+    setState(stateRef.current);
+    setIsSynced(false);
+
+    const poll = async () => {
+      try {
+        const { events, cursor } = await fetchMarketplaceEvents(suiClient, packageId, stateRef.current.cursor);
+        if (cancelled) return;
+
+        if (events.length > 0 || cursor !== stateRef.current.cursor) {
+          stateRef.current = applyMarketplaceEvents(stateRef.current, events, cursor);
+          setState(stateRef.current);
+        }
+        // The initial sync replays the whole history, listeners only hear about events that happen afterwards
+        if (synced && events.length > 0) {
+          listenersRef.current.forEach((listener) => listener(events));
+        }
+        synced = true;
+        setIsSynced(true);
+      } catch (err) {
+        console.error('Error fetching marketplace events:', err);
+      }
+
+      if (!cancelled) {
+        timeout = setTimeout(poll, EVENT_POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timeout) {
+        clearTimeout(timeout);
+      }
+    };
+  }, [suiClient, packageId]);
+
+  const subscribe = useCallback((listener: EventListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const getDealsOfAddress = useCallback(
+    (address: string) => selectDealsOfAddress(state, address),
+    [state]
+  );
+
+  const getDealsOfAdvertisement = useCallback(
+    (advertisementId: string) => selectDealsOfAdvertisement(state, advertisementId),
+    [state]
+  );
+
+  const value = {
+    state,
+    isSynced,
+    getDealsOfAddress,
+    getDealsOfAdvertisement,
+    subscribe,
+  };
+
+  return <IndexerContext.Provider value={value}>{children}</IndexerContext.Provider>;
+}
@@ -0,0 +1,242 @@
+import React, { useState, useEffect, ReactNode, useRef, useCallback, useMemo } from 'react';
+import { useSuiClient, useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit';
+import { SealClient, getAllowlistedKeyServers, SessionKey } from '@mysten/seal';
+import { useNetworkVariable } from '../networkConfig';
+import { loadSessionKey, saveSessionKey, deleteSessionKey, clearEphemeralKey, clearAllEphemeralKeys } from '../keyStore';
+import { MarketplaceEvent } from '../indexer';
+import { useMarketplaceEvents } from './useIndexer';
+import { SealSessionContext } from './useSealSession';
+
+// Longest lifetime key servers accept for a session key
+const SESSION_KEY_TTL_MIN = 30;
+
+// Session keys are renewed this long before they expire, so requests in flight never carry an expired key
+const REFRESH_MARGIN_MS = 2 * 60 * 1000;
+
+// The user is asked to renew the session key this long before it has to be replaced
+const RENEWAL_NOTICE_MS = 5 * 60 * 1000;
+
+// Tabs sign one at a time and announce new session keys, so a single signature serves all of them
+const SESSION_LOCK = 'trust-marketplace-seal-session';
+const SESSION_CHANNEL = 'trust-marketplace-seal-session';
+
+// Time after which a session key should no longer be used
+const getRefreshTime = (sessionKey: SessionKey) => {
+  const { creationTimeMs, ttlMin } = sessionKey.export();
+  return creationTimeMs + ttlMin * 60 * 1000 - REFRESH_MARGIN_MS;
+};
+
+// Events after which a deal takes no more work, so its chat key is no longer kept on the device
+const finishesDeal = (event: MarketplaceEvent) =>
+  event.type === 'PaymentReleased' ||
+  (event.type === 'MilestoneReleased' && event.remaining === 0) ||
+  event.type === 'Resolved' ||
+  event.type === 'InteractionCancelled' ||
+  event.type === 'ChatArchived';
+
+// Run with the cross-tab session lock where the browser supports it
+const withSessionLock = async <T,>(run: () => Promise<T>): Promise<T> =>
+  navigator.locks ? await navigator.locks.request(SESSION_LOCK, run) : run();
+
+export function SealSessionProvider({ children }: { children: ReactNode }) {
+  const suiClient = useSuiClient();
+  const currentAccount = useCurrentAccount();
+  const packageId = useNetworkVariable('packageId');
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  const address = currentAccount?.address;
+
+  const [sessionKey, setSessionKey] = useState<SessionKey | null>(null);
+  const [isInitializingKey, setIsInitializingKey] = useState(false);
+  const [keyInitializationError, setKeyInitializationError] = useState<string | null>(null);
+  const [isSessionExpired, setIsSessionExpired] = useState(false);
+  const [isRenewalDue, setIsRenewalDue] = useState(false);
+  const pendingRef = useRef<Promise<SessionKey | null> | null>(null);
+
+  // One SealClient for every page that encrypts or decrypts
+  const sealClient = useMemo(
+    () =>
+      new SealClient({
+        suiClient,
+        serverConfigs: getAllowlistedKeyServers('testnet').map((id) => ({
+          objectId: id,
+          weight: 1,
+        })),
+        verifyKeyServers: false,
+      }),
+    [suiClient]
+  );
+
+  // Session key stored by an earlier page load or another tab, null when missing or about to expire
+  const restoreSessionKey = useCallback(async (): Promise<SessionKey | null> => {
+    if (!address) return null;
+    try {
+      const stored = await loadSessionKey(address, packageId);
+      if (!stored) return null;
+      const restored = SessionKey.import(stored, suiClient);
+      return Date.now() < getRefreshTime(restored) ? restored : null;
+    } catch (err) {
+      console.warn('[SealSession] Stored session key is not usable:', err);
+      return null;
+    }
+  }, [address, packageId, suiClient]);
+
+  // Ask the wallet to sign a new session key and persist it
+  const signSessionKey = useCallback(async (userAddress: string): Promise<SessionKey> => {
+    const newSessionKey = await SessionKey.create({
+      address: userAddress,
+      packageId,
+      ttlMin: SESSION_KEY_TTL_MIN,
+      suiClient,
+    });
+    const { signature } = await signPersonalMessage({ message: newSessionKey.getPersonalMessage() });
+    await newSessionKey.setPersonalMessageSignature(signature);
+
+    try {
+      await saveSessionKey(newSessionKey.export());
+      const channel = new BroadcastChannel(SESSION_CHANNEL);
+      channel.postMessage({ address: userAddress, packageId });
+      channel.close();
+    } catch (err) {
+      // The key still works for this page, it just has to be signed again after a reload
+      console.warn('[SealSession] Failed to persist session key:', err);
+    }
+    return newSessionKey;
+  }, [packageId, suiClient, signPersonalMessage]);
+
+  const obtainSessionKey = useCallback((renew: boolean): Promise<SessionKey | null> => {
+    if (!address) return Promise.resolve(null);
+    if (!pendingRef.current) {
+      setIsInitializingKey(true);
+      setKeyInitializationError(null);
+      pendingRef.current = withSessionLock(async () => {
+        if (renew) {
+          await deleteSessionKey(address, packageId).catch(() => undefined);
+        }
+        return (renew ? null : await restoreSessionKey()) ?? (await signSessionKey(address));
+      })
+        .then((key) => {
+          setSessionKey(key);
+          setIsSessionExpired(false);
+          return key;
+        })
+        .catch((err) => {
+          console.error('[SealSession] Error initializing session key:', err);
+          setKeyInitializationError(err instanceof Error ? err.message : 'Failed to initialize session key.');
+          return null;
+        })
+        .finally(() => {
+          setIsInitializingKey(false);
+          pendingRef.current = null;
+        });
+    }
+    return pendingRef.current;
+  }, [address, packageId, restoreSessionKey, signSessionKey]);
+
+  const initializeSessionKey = useCallback(async () => {
+    if (sessionKey && Date.now() < getRefreshTime(sessionKey)) {
+      return sessionKey;
+    }
+    return obtainSessionKey(false);
+  }, [sessionKey, obtainSessionKey]);
+
+  const retryKeyInitialization = useCallback(() => {
+    setSessionKey(null);
+    obtainSessionKey(true);
+  }, [obtainSessionKey]);
+
+  // The current key stays in use until the new one is signed
+  const renewSessionKey = useCallback(() => {
+    obtainSessionKey(true);
+  }, [obtainSessionKey]);
+
+  const forgetKeys = useCallback(async () => {
+    if (!address) return;
+    setSessionKey(null);
+    setKeyInitializationError(null);
+    await Promise.all([deleteSessionKey(address, packageId), clearAllEphemeralKeys(address)]);
+  }, [address, packageId]);
+
+  // Evict the cached chat keys of deals that just finished
+  useMarketplaceEvents(finishesDeal, (events) => {
+    if (!address) return;
+    for (const event of events) {
+      if (!('interactionId' in event)) continue;
+      clearEphemeralKey(address, event.advertisementId, event.user, event.interactionId).catch((err) => {
+        console.warn('[SealSession] Failed to evict chat key:', err);
+      });
+    }
+  });
+
+  // Restore the session key of the connected wallet without prompting
+  useEffect(() => {
+    let cancelled = false;
+    setSessionKey(null);
+    setKeyInitializationError(null);
+    setIsSessionExpired(false);
+    restoreSessionKey().then((restored) => {
+      if (!cancelled && restored) setSessionKey(restored);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreSessionKey]);
+
+  // Adopt session keys signed in other tabs
+  useEffect(() => {
+    const channel = new BroadcastChannel(SESSION_CHANNEL);
+    channel.onmessage = (event: MessageEvent<{ address: string; packageId: string }>) => {
+      if (event.data.address !== address || event.data.packageId !== packageId) return;
+      restoreSessionKey().then((restored) => {
+        if (restored) {
+          setSessionKey(restored);
+          setKeyInitializationError(null);
+          setIsSessionExpired(false);
+        }
+      });
+    };
+    return () => channel.close();
+  }, [address, packageId, restoreSessionKey]);
+
+  // Ask the user to renew the session key ahead of its expiry, unless another tab already stored a newer one,
+  // and drop it if it was not renewed in time. The wallet is only prompted once the user asks for the renewal
+  useEffect(() => {
+    setIsRenewalDue(false);
+    if (!sessionKey) return;
+    const refreshTime = getRefreshTime(sessionKey);
+    const { creationTimeMs } = sessionKey.export();
+    const notice = setTimeout(() => {
+      restoreSessionKey().then((restored) => {
+        if (restored && restored.export().creationTimeMs > creationTimeMs) {
+          setSessionKey(restored);
+        } else {
+          setIsRenewalDue(true);
+        }
+      });
+    }, Math.max(0, refreshTime - RENEWAL_NOTICE_MS - Date.now()));
+    const expiry = setTimeout(() => {
+      restoreSessionKey().then((restored) => {
+        setSessionKey(restored);
+        setIsSessionExpired(!restored);
+      });
+    }, Math.max(0, refreshTime - Date.now()));
+    return () => {
+      clearTimeout(notice);
+      clearTimeout(expiry);
+    };
+  }, [sessionKey, restoreSessionKey]);
+
+  const value = {
+    sealClient,
+    sessionKey,
+    isInitializingKey,
+    keyInitializationError,
+    isSessionExpired,
+    isRenewalDue,
+    initializeSessionKey,
+    retryKeyInitialization,
+    renewSessionKey,
+    forgetKeys,
+  };
+
+  return <SealSessionContext.Provider value={value}>{children}</SealSessionContext.Provider>;
+}
@@ -0,0 +1,29 @@
+import React, { useState, useEffect, ReactNode, useCallback } from 'react';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { useNetworkVariable } from '../networkConfig';
+import { Treasury } from '../types';
+import { fetchTreasury } from '../api';
+import { TreasuryContext } from './useTreasury';
+
+export function TreasuryProvider({ children }: { children: ReactNode }) {
+  const suiClient = useSuiClient();
+  const treasuryId = useNetworkVariable('treasuryId');
+  const [treasury, setTreasury] = useState<Treasury | null>(null);
+
+  const reloadTreasury = useCallback(async () => {
+    setTreasury(await fetchTreasury(suiClient, treasuryId));
+  }, [suiClient, treasuryId]);
+
+  // Fee settings depend on the network
+  useEffect(() => {
+    setTreasury(null);
+    reloadTreasury();
+  }, [reloadTreasury]);
+
+  const value = {
+    treasury,
+    reloadTreasury,
+  };
+
+  return <TreasuryContext.Provider value={value}>{children}</TreasuryContext.Provider>;
+}
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { CoinInfo } from '../types';
+
+export interface CoinMetadataContextType {
+  getCoinInfo: (coinType: string) => CoinInfo | undefined; // Undefined until the metadata is loaded
+  loadCoinInfo: (coinType: string) => Promise<CoinInfo>;
+  formatAmount: (amount: number, coinType: string) => string;
+}
+
+export const CoinMetadataContext = createContext<CoinMetadataContextType | undefined>(undefined);
+
+export function useCoinMetadata() {
+  const context = useContext(CoinMetadataContext);
+  if (context === undefined) {
+    throw new Error('useCoinMetadata must be used within a CoinMetadataProvider');
+  }
+  return context;
+}
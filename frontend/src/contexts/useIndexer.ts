@@ -0,0 +1,47 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import { IndexerState, IndexedDeal, MarketplaceEvent } from '../indexer';
+
+export type EventListener = (events: MarketplaceEvent[]) => void;
+
+export interface IndexerContextType {
+  state: IndexerState;
+  isSynced: boolean; // True once the full event history has been processed
+  getDealsOfAddress: (address: string) => IndexedDeal[];
+  getDealsOfAdvertisement: (advertisementId: string) => IndexedDeal[];
+  subscribe: (listener: EventListener) => () => void;
+}
+
+export const IndexerContext = createContext<IndexerContextType | undefined>(undefined);
+
+export function useIndexer() {
+  const context = useContext(IndexerContext);
+  if (context === undefined) {
+    throw new Error('useIndexer must be used within an IndexerProvider');
+  }
+  return context;
+}
+
+/**
+ * Run a callback for every new marketplace event matching a filter
+ * The callback is not called for events that were already processed before subscribing, nor for the history
+ * loaded by the initial sync
+ */
+export function useMarketplaceEvents(
+  filter: (event: MarketplaceEvent) => boolean,
+  onEvents: (events: MarketplaceEvent[]) => void
+) {
+  const { subscribe } = useIndexer();
+  const filterRef = useRef(filter);
+  const onEventsRef = useRef(onEvents);
+  filterRef.current = filter;
+  onEventsRef.current = onEvents;
+
+  useEffect(() => {
+    return subscribe((events) => {
+      const matching = events.filter((event) => filterRef.current(event));
+      if (matching.length > 0) {
+        onEventsRef.current(matching);
+      }
+    });
+  }, [subscribe]);
+}
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import { SealClient, SessionKey } from '@mysten/seal';
+
+export interface SealSessionContextType {
+  sealClient: SealClient;
+  sessionKey: SessionKey | null;
+  isInitializingKey: boolean;
+  keyInitializationError: string | null;
+  isSessionExpired: boolean; // The session key expired and no other tab renewed it, signing again waits for the user
+  isRenewalDue: boolean; // The session key expires within minutes, renewing it waits for the user
+  initializeSessionKey: () => Promise<SessionKey | null>; // Restores or signs a session key, shared by concurrent callers
+  retryKeyInitialization: () => void; // Drops the stored session key and asks for a new signature
+  renewSessionKey: () => void; // Asks for a new signature while the current session key keeps working
+  forgetKeys: () => Promise<void>; // Deletes the session key and the cached chat keys of the wallet from this device
+}
+
+export const SealSessionContext = createContext<SealSessionContextType | undefined>(undefined);
+
+export function useSealSession() {
+  const context = useContext(SealSessionContext);
+  if (context === undefined) {
+    throw new Error('useSealSession must be used within a SealSessionProvider');
+  }
+  return context;
+}
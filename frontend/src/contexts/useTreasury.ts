@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import { Treasury } from '../types';
+
+export interface TreasuryContextType {
+  treasury: Treasury | null; // Null until loaded or when the treasury cannot be read
+  reloadTreasury: () => Promise<void>;
+}
+
+export const TreasuryContext = createContext<TreasuryContextType | undefined>(undefined);
+
+export function useTreasury() {
+  const context = useContext(TreasuryContext);
+  if (context === undefined) {
+    throw new Error('useTreasury must be used within a TreasuryProvider');
+  }
+  return context;
+}
@@ -0,0 +1,697 @@
+import { SuiClient, EventId, SuiEvent } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import {
+  INTERACTION_JOINED,
+  INTERACTION_SELLER_COMPLETED,
+  INTERACTION_BUYER_APPROVED,
+  INTERACTION_DISPUTED,
+  INTERACTION_RESOLVED,
+  INTERACTION_CANCELLED,
+  LISTING_ACTIVE
+} from './types';
+
+// Maximum number of events per queryEvents request
+const EVENTS_PAGE_SIZE = 50;
+
+/**
+ * Marketplace event emitted by the contract, normalized to camelCase
+ */
+export type MarketplaceEvent =
+  | {
+      type: 'AdvertisementCreated';
+      advertisementId: string;
+      creator: string;
+      kind: number;
+      title: string;
+      coinType: string;
+      amount: number;
+      createdAt: number;
+      timestamp: number;
+    }
+  | {
+      type: 'InteractionJoined';
+      advertisementId: string;
+      user: string;
+      buyer: string;
+      seller: string;
+      interactionId: number;
+      amount: number;
+      assignedAdmin: string;
+      jurors: string[];
+      joinedAt: number;
+      deadline: number;
+      timestamp: number;
+    }
+  | {
+      type: 'MarkedCompleted';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      deadline: number;
+      timestamp: number;
+    }
+  | {
+      type: 'PaymentReleased';
+      advertisementId: string;
+      user: string;
+      seller: string;
+      interactionId: number;
+      amount: number;
+      timestamp: number;
+    }
+  | {
+      type: 'MilestoneCompleted';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      milestoneIndex: number;
+      timestamp: number;
+    }
+  | {
+      type: 'MilestoneReleased';
+      advertisementId: string;
+      user: string;
+      seller: string;
+      interactionId: number;
+      milestoneIndex: number;
+      amount: number;
+      remaining: number;
+      timestamp: number;
+    }
+  | {
+      type: 'Disputed';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      disputedBy: string;
+      assignedAdmin: string;
+      deadline: number;
+      timestamp: number;
+    }
+  | {
+      type: 'ChatMessageAdded';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      seq: number; // Position of the message in the chat room of the interaction
+      sender: string;
+      timestamp: number;
+    }
+  | {
+      type: 'ChatArchived';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      blobId: string;
+      messageCount: number;
+      timestamp: number;
+    }
+  | {
+      type: 'JuryVoteCast';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      juror: string;
+      buyerShareBps: number;
+      timestamp: number;
+    }
+  | {
+      type: 'ResolutionProposed';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      buyerShareBps: number;
+      assignedAdmin: string;
+      appealDeadline: number;
+      timestamp: number;
+    }
+  | {
+      type: 'DisputeEscalated';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      kind: number; // ESCALATION_* kind
+      previousAdmin: string;
+      newAdmin: string;
+      initiatedBy: string;
+      bond: number;
+      deadline: number;
+      timestamp: number;
+    }
+  | {
+      type: 'Resolved';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      resolution: number;
+      buyerAmount: number;
+      sellerAmount: number;
+      assignedAdmin: string;
+      timestamp: number;
+    }
+  | {
+      type: 'AdvertisementEdited';
+      advertisementId: string;
+      version: number;
+      title: string;
+      amount: number;
+      timestamp: number;
+    }
+  | {
+      type: 'AdvertisementStatusChanged';
+      advertisementId: string;
+      status: number;
+      timestamp: number;
+    }
+  | {
+      type: 'AdvertisementImagesChanged';
+      advertisementId: string;
+      images: string[];
+      timestamp: number;
+    }
+  | {
+      type: 'OfferUpdated';
+      advertisementId: string;
+      offerId: number;
+      user: string;
+      amount: number;
+      status: number;
+      expiresAt: number;
+      timestamp: number;
+    }
+  | {
+      type: 'CancellationRequested';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      timestamp: number;
+    }
+  | {
+      type: 'InteractionCancelled';
+      advertisementId: string;
+      user: string;
+      interactionId: number;
+      amount: number;
+      timestamp: number;
+    };
+
+/**
+ * Advertisement summary built from AdvertisementCreated events
+ */
+export interface IndexedAdvertisement {
+  id: string;
+  creator: string;
+  kind: number; // AD_KIND_SELL or AD_KIND_BUY
+  title: string;
+  coinType: string; // Coin the advertisement is paid in, amounts are in its smallest unit
+  amount: number;
+  createdAt: number;
+  status: number; // LISTING_* status
+}
+
+/**
+ * Deal (one interaction of a user with an advertisement) built from interaction events
+ */
+export interface IndexedDeal {
+  key: string;
+  advertisementId: string;
+  user: string; // Joined the advertisement: the buyer of a sell advertisement, the seller of a buy advertisement
+  buyer: string;
+  seller: string;
+  interactionId: number;
+  amount: number;
+  assignedAdmin: string;
+  jurors: string[]; // Empty when the assigned admin decides alone
+  state: number; // INTERACTION_* state
+  resolution?: number;
+  proposedShareBps?: number; // Decision waiting for its appeal window to close
+  escalationCount: number; // Appeals and inactive admin replacements
+  buyerPayout?: number; // Set by the admin resolution
+  sellerPayout?: number; // Set by the admin resolution
+  joinedAt: number;
+  deadline: number; // Deadline of the current phase (delivery, review, admin decision or appeal)
+  releasedAmount: number; // Paid to the seller through milestone releases
+  updatedAt: number;
+  chatMessageCount: number;
+  chatArchived: boolean; // Messages moved to a Walrus blob and deleted on-chain
+}
+
+/**
+ * Normalized client-side store of marketplace state
+ */
+export interface IndexerState {
+  advertisements: Record<string, IndexedAdvertisement>;
+  deals: Record<string, IndexedDeal>;
+  dealsByAddress: Record<string, string[]>; // Buyer, seller or admin address -> deal keys
+  cursor: EventId | null; // Last processed event
+}
+
+export const createIndexerState = (): IndexerState => ({
+  advertisements: {},
+  deals: {},
+  dealsByAddress: {},
+  cursor: null,
+});
+
+/**
+ * Get the key of a deal in the indexer store
+ * @param advertisementId The advertisement ID
+ * @param user The address that joined the advertisement
+ * @param interactionId The interaction ID
+ * @returns The deal key
+ */
+export const getDealKey = (advertisementId: string, user: string, interactionId: number): string =>
+  `${advertisementId}-${user}-${interactionId}`;
+
+/**
+ * Convert a raw Sui event of the marketplace module into a MarketplaceEvent
+ * @param event The raw Sui event
+ * @returns The normalized event or null if it is not a marketplace event
+ */
+export const parseMarketplaceEvent = (event: SuiEvent): MarketplaceEvent | null => {
+  const type = event.type.split('::').pop();
+  const json = event.parsedJson as Record<string, string>;
+  const timestamp = Number(event.timestampMs ?? 0);
+
+  switch (type) {
+    case 'AdvertisementCreated':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        creator: json.creator,
+        kind: Number(json.kind ?? 0),
+        title: json.title,
+        coinType: normalizeStructTag(json.coin_type),
+        amount: Number(json.amount),
+        createdAt: Number(json.created_at),
+        timestamp,
+      };
+    case 'InteractionJoined':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        buyer: json.buyer ?? json.user, // Deals joined before buy advertisements existed
+        seller: json.seller,
+        interactionId: Number(json.interaction_id),
+        amount: Number(json.amount),
+        assignedAdmin: json.assigned_admin,
+        jurors: (event.parsedJson as { jurors?: string[] }).jurors ?? [],
+        joinedAt: Number(json.joined_at),
+        deadline: Number(json.deadline),
+        timestamp,
+      };
+    case 'MarkedCompleted':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        deadline: Number(json.deadline),
+        timestamp,
+      };
+    case 'PaymentReleased':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        seller: json.seller,
+        interactionId: Number(json.interaction_id),
+        amount: Number(json.amount),
+        timestamp,
+      };
+    case 'MilestoneCompleted':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        milestoneIndex: Number(json.milestone_index),
+        timestamp,
+      };
+    case 'MilestoneReleased':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        seller: json.seller,
+        interactionId: Number(json.interaction_id),
+        milestoneIndex: Number(json.milestone_index),
+        amount: Number(json.amount),
+        remaining: Number(json.remaining),
+        timestamp,
+      };
+    case 'Disputed':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        disputedBy: json.disputed_by,
+        assignedAdmin: json.assigned_admin,
+        deadline: Number(json.deadline),
+        timestamp,
+      };
+    case 'ChatMessageAdded':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        seq: Number(json.seq),
+        sender: json.sender,
+        timestamp,
+      };
+    case 'ChatArchived':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        blobId: json.blob_id,
+        messageCount: Number(json.message_count),
+        timestamp,
+      };
+    case 'JuryVoteCast':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        juror: json.juror,
+        buyerShareBps: Number(json.buyer_share_bps),
+        timestamp,
+      };
+    case 'ResolutionProposed':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        buyerShareBps: Number(json.buyer_share_bps),
+        assignedAdmin: json.assigned_admin,
+        appealDeadline: Number(json.appeal_deadline),
+        timestamp,
+      };
+    case 'DisputeEscalated':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        kind: Number(json.kind),
+        previousAdmin: json.previous_admin,
+        newAdmin: json.new_admin,
+        initiatedBy: json.initiated_by,
+        bond: Number(json.bond),
+        deadline: Number(json.deadline),
+        timestamp,
+      };
+    case 'Resolved':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        resolution: Number(json.resolution),
+        buyerAmount: Number(json.buyer_amount),
+        sellerAmount: Number(json.seller_amount),
+        assignedAdmin: json.assigned_admin,
+        timestamp,
+      };
+    case 'AdvertisementEdited':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        version: Number(json.version),
+        title: json.title,
+        amount: Number(json.amount),
+        timestamp,
+      };
+    case 'AdvertisementStatusChanged':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        status: Number(json.status),
+        timestamp,
+      };
+    case 'AdvertisementImagesChanged':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        images: (event.parsedJson as { images?: string[] }).images ?? [],
+        timestamp,
+      };
+    case 'OfferUpdated':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        offerId: Number(json.offer_id),
+        user: json.user,
+        amount: Number(json.amount),
+        status: Number(json.status),
+        expiresAt: Number(json.expires_at),
+        timestamp,
+      };
+    case 'CancellationRequested':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        timestamp,
+      };
+    case 'InteractionCancelled':
+      return {
+        type,
+        advertisementId: json.advertisement_id,
+        user: json.user,
+        interactionId: Number(json.interaction_id),
+        amount: Number(json.amount),
+        timestamp,
+      };
+    default:
+      return null;
+  }
+};
+
+// Add a deal key to the index of an address (once)
+const indexDealForAddress = (state: IndexerState, address: string, key: string) => {
+  const keys = state.dealsByAddress[address] ?? [];
+  if (!keys.includes(key)) {
+    state.dealsByAddress[address] = [...keys, key];
+  }
+};
+
+// Apply a single event to a store that has already been copied
+const applyEventInPlace = (next: IndexerState, event: MarketplaceEvent) => {
+  if (event.type === 'AdvertisementCreated') {
+    next.advertisements[event.advertisementId] = {
+      id: event.advertisementId,
+      creator: event.creator,
+      kind: event.kind,
+      title: event.title,
+      coinType: event.coinType,
+      amount: event.amount,
+      createdAt: event.createdAt,
+      status: LISTING_ACTIVE,
+    };
+    return;
+  }
+
+  // Deals keep their own amount, only the listing changes
+  if (event.type === 'AdvertisementEdited') {
+    const advertisement = next.advertisements[event.advertisementId];
+    if (advertisement) {
+      next.advertisements[event.advertisementId] = { ...advertisement, title: event.title, amount: event.amount };
+    }
+    return;
+  }
+
+  if (event.type === 'AdvertisementStatusChanged') {
+    const advertisement = next.advertisements[event.advertisementId];
+    if (advertisement) {
+      next.advertisements[event.advertisementId] = { ...advertisement, status: event.status };
+    }
+    return;
+  }
+
+  // Offers and images are read from the advertisement itself, the events only notify listeners
+  if (event.type === 'OfferUpdated' || event.type === 'AdvertisementImagesChanged') {
+    return;
+  }
+
+  const key = getDealKey(event.advertisementId, event.user, event.interactionId);
+
+  if (event.type === 'InteractionJoined') {
+    next.deals[key] = {
+      key,
+      advertisementId: event.advertisementId,
+      user: event.user,
+      buyer: event.buyer,
+      seller: event.seller,
+      interactionId: event.interactionId,
+      amount: event.amount,
+      assignedAdmin: event.assignedAdmin,
+      jurors: event.jurors,
+      state: INTERACTION_JOINED,
+      joinedAt: event.joinedAt,
+      deadline: event.deadline,
+      releasedAmount: 0,
+      escalationCount: 0,
+      updatedAt: event.timestamp,
+      chatMessageCount: 0,
+      chatArchived: false,
+    };
+    indexDealForAddress(next, event.user, key);
+    indexDealForAddress(next, event.seller, key);
+    return;
+  }
+
+  const deal = next.deals[key];
+  if (!deal) {
+    // The join happened before the indexer started, nothing to update
+    return;
+  }
+
+  const updated: IndexedDeal = { ...deal, updatedAt: event.timestamp };
+  switch (event.type) {
+    case 'MarkedCompleted':
+      updated.state = INTERACTION_SELLER_COMPLETED;
+      updated.deadline = event.deadline;
+      break;
+    case 'PaymentReleased':
+      updated.state = INTERACTION_BUYER_APPROVED;
+      break;
+    case 'MilestoneReleased':
+      updated.releasedAmount = deal.releasedAmount + event.amount;
+      if (event.remaining === 0) {
+        updated.state = INTERACTION_BUYER_APPROVED;
+      }
+      break;
+    case 'Disputed':
+      updated.state = INTERACTION_DISPUTED;
+      updated.deadline = event.deadline;
+      indexDealForAddress(next, event.assignedAdmin, key);
+      deal.jurors.forEach((juror) => indexDealForAddress(next, juror, key));
+      break;
+    case 'ResolutionProposed':
+      updated.proposedShareBps = event.buyerShareBps;
+      updated.deadline = event.appealDeadline;
+      break;
+    case 'DisputeEscalated':
+      // The appealed decision is dropped and the new admin takes over the previous one's seat
+      updated.proposedShareBps = undefined;
+      updated.deadline = event.deadline;
+      updated.escalationCount = deal.escalationCount + 1;
+      updated.jurors = deal.jurors.map((juror) => (juror === event.previousAdmin ? event.newAdmin : juror));
+      updated.assignedAdmin = updated.jurors[0] ?? event.newAdmin;
+      indexDealForAddress(next, event.newAdmin, key);
+      break;
+    case 'Resolved':
+      updated.state = INTERACTION_RESOLVED;
+      updated.proposedShareBps = undefined;
+      updated.resolution = event.resolution;
+      updated.buyerPayout = event.buyerAmount;
+      updated.sellerPayout = event.sellerAmount;
+      break;
+    case 'ChatMessageAdded':
+      // Sequence numbers are dense, so a missed event doesn't leave the count behind
+      updated.chatMessageCount = Math.max(deal.chatMessageCount + 1, event.seq + 1);
+      break;
+    case 'ChatArchived':
+      updated.chatArchived = true;
+      updated.chatMessageCount = event.messageCount;
+      break;
+    case 'InteractionCancelled':
+      updated.state = INTERACTION_CANCELLED;
+      break;
+  }
+  next.deals[key] = updated;
+};
+
+/**
+ * Apply events to the store
+ * Events must be in chronological order
+ * @param state The current store (left untouched)
+ * @param events The events to apply
+ * @param cursor The cursor of the last event
+ * @returns The updated store
+ */
+export const applyMarketplaceEvents = (
+  state: IndexerState,
+  events: MarketplaceEvent[],
+  cursor: EventId | null
+): IndexerState => {
+  const next: IndexerState = {
+    advertisements: { ...state.advertisements },
+    deals: { ...state.deals },
+    dealsByAddress: { ...state.dealsByAddress },
+    cursor,
+  };
+
+  events.forEach((event) => applyEventInPlace(next, event));
+
+  return next;
+};
+
+/**
+ * Fetch marketplace events emitted after a cursor, oldest first
+ * @param suiClient The SuiClient instance
+ * @param packageId The package ID
+ * @param cursor The last processed event, or null to start from the beginning
+ * @returns New events and the cursor of the last one
+ */
+export const fetchMarketplaceEvents = async (
+  suiClient: SuiClient,
+  packageId: string,
+  cursor: EventId | null
+): Promise<{ events: MarketplaceEvent[]; cursor: EventId | null }> => {
+  const events: MarketplaceEvent[] = [];
+  let nextCursor = cursor;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const page = await suiClient.queryEvents({
+      query: { MoveModule: { package: packageId, module: 'marketplace' } },
+      cursor: nextCursor,
+      limit: EVENTS_PAGE_SIZE,
+      order: 'ascending',
+    });
+
+    for (const event of page.data) {
+      const parsed = parseMarketplaceEvent(event);
+      if (parsed) {
+        events.push(parsed);
+      }
+    }
+
+    // Keep the previous cursor when the page is empty so the next poll resumes at the same point
+    nextCursor = page.nextCursor ?? nextCursor;
+    hasNextPage = page.hasNextPage;
+  }
+
+  return { events, cursor: nextCursor };
+};
+
+/**
+ * Get all deals an address took part in as buyer, seller, assigned admin or juror of a dispute
+ * @param state The indexer store
+ * @param address The address
+ * @returns Deals of the address, newest first
+ */
+export const getDealsOfAddress = (state: IndexerState, address: string): IndexedDeal[] =>
+  (state.dealsByAddress[address] ?? [])
+    .map((key) => state.deals[key])
+    .sort((a, b) => b.joinedAt - a.joinedAt);
+
+/**
+ * Get all deals of an advertisement
+ * @param state The indexer store
+ * @param advertisementId The advertisement ID
+ * @returns Deals of the advertisement, newest first
+ */
+export const getDealsOfAdvertisement = (state: IndexerState, advertisementId: string): IndexedDeal[] =>
+  Object.values(state.deals)
+    .filter((deal) => deal.advertisementId === advertisementId)
+    .sort((a, b) => b.joinedAt - a.joinedAt);
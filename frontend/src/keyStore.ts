@@ -0,0 +1,253 @@
+import { ExportedSessionKey } from '@mysten/seal';
+
+// IndexedDB database holding the keys that survive page loads, shared by every tab of the app
+const DB_NAME = 'trust-marketplace-keys';
+const DB_VERSION = 2;
+const SESSION_KEYS_STORE = 'sessionKeys';
+const EPHEMERAL_KEYS_STORE = 'ephemeralKeys';
+const DEVICE_KEYS_STORE = 'deviceKeys';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the key database, creating its stores on first use
+ * @returns The database, shared by every caller of the page
+ */
+const openKeyDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const storeName of [SESSION_KEYS_STORE, EPHEMERAL_KEYS_STORE, DEVICE_KEYS_STORE]) {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Run a request against a store of the key database
+ * @param storeName The object store
+ * @param mode The transaction mode
+ * @param run Builds the request from the store
+ * @returns The result of the request
+ */
+const runKeyDbRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openKeyDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Session keys are signed for one address and one package
+const getSessionKeyId = (address: string, packageId: string) => `${address}_${packageId}`;
+
+/**
+ * Load the persisted Seal session key of an address
+ * @param address The wallet address
+ * @param packageId The package the session key was signed for
+ * @returns The exported session key, or null if none is stored
+ */
+export const loadSessionKey = async (address: string, packageId: string): Promise<ExportedSessionKey | null> => {
+  const stored = await runKeyDbRequest<ExportedSessionKey | undefined>(SESSION_KEYS_STORE, 'readonly', (store) =>
+    store.get(getSessionKeyId(address, packageId))
+  );
+  return stored ?? null;
+};
+
+/**
+ * Persist a signed Seal session key
+ * @param exported The exported session key
+ */
+export const saveSessionKey = async (exported: ExportedSessionKey): Promise<void> => {
+  await runKeyDbRequest(SESSION_KEYS_STORE, 'readwrite', (store) =>
+    store.put(exported, getSessionKeyId(exported.address, exported.packageId))
+  );
+};
+
+/**
+ * Delete the persisted Seal session key of an address
+ * @param address The wallet address
+ * @param packageId The package the session key was signed for
+ */
+export const deleteSessionKey = async (address: string, packageId: string): Promise<void> => {
+  await runKeyDbRequest(SESSION_KEYS_STORE, 'readwrite', (store) =>
+    store.delete(getSessionKeyId(address, packageId))
+  );
+};
+
+/**
+ * Chat key cached on this device, encrypted with the wrapping key of the wallet that decrypted it
+ */
+interface WrappedEphemeralKey {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+// Purpose of the keys derived from the device key, a new label yields unrelated keys
+const WRAPPING_KEY_INFO = new TextEncoder().encode('trust-marketplace/chat-key-cache');
+
+let deviceKeyPromise: Promise<CryptoKey> | null = null;
+
+/**
+ * Get the secret of this device, a non-extractable HKDF key created on first use
+ * @returns The device key, it can derive keys but never leaves the browser
+ */
+const getDeviceKey = (): Promise<CryptoKey> => {
+  if (!deviceKeyPromise) {
+    deviceKeyPromise = (async () => {
+      const stored = await runKeyDbRequest<CryptoKey | undefined>(DEVICE_KEYS_STORE, 'readonly', (store) =>
+        store.get('device')
+      );
+      if (stored) return stored;
+
+      const deviceKey = await crypto.subtle.importKey(
+        'raw',
+        crypto.getRandomValues(new Uint8Array(32)),
+        'HKDF',
+        false,
+        ['deriveKey']
+      );
+      // Another tab may have created one meanwhile, add fails rather than replacing it
+      try {
+        await runKeyDbRequest(DEVICE_KEYS_STORE, 'readwrite', (store) => store.add(deviceKey, 'device'));
+        return deviceKey;
+      } catch {
+        const existing = await runKeyDbRequest<CryptoKey | undefined>(DEVICE_KEYS_STORE, 'readonly', (store) =>
+          store.get('device')
+        );
+        if (!existing) throw new Error('Device key could not be stored');
+        return existing;
+      }
+    })();
+    deviceKeyPromise.catch(() => {
+      deviceKeyPromise = null;
+    });
+  }
+  return deviceKeyPromise;
+};
+
+/**
+ * Derive the non-extractable key wrapping the cached chat keys of a wallet
+ * @param owner The wallet address
+ * @returns The AES-GCM wrapping key
+ */
+const getWrappingKey = async (owner: string): Promise<CryptoKey> =>
+  crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new TextEncoder().encode(owner), info: WRAPPING_KEY_INFO },
+    await getDeviceKey(),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+// Cached chat keys belong to the wallet that decrypted them, so the owner prefixes the ID
+const getEphemeralKeyId = (owner: string, advertisementId: string, clientAddress: string, interactionId: number) =>
+  `${owner}|${advertisementId}|${clientAddress}|${interactionId}`;
+
+// Range of every cached chat key of a wallet
+const getOwnerRange = (owner: string) => IDBKeyRange.bound(`${owner}|`, `${owner}|\uffff`);
+
+/**
+ * Cache a decrypted chat key on this device
+ * @param owner The wallet address that decrypted the key
+ * @param advertisementId The advertisement ID
+ * @param clientAddress The client's address (the user who joined the advertisement)
+ * @param interactionId The unique ID of the interaction
+ * @param key The raw chat key
+ */
+export const storeEphemeralKey = async (
+  owner: string,
+  advertisementId: string,
+  clientAddress: string,
+  interactionId: number,
+  key: Uint8Array
+): Promise<void> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getWrappingKey(owner),
+    new Uint8Array(key)
+  );
+  const wrapped: WrappedEphemeralKey = { iv, ciphertext };
+  await runKeyDbRequest(EPHEMERAL_KEYS_STORE, 'readwrite', (store) =>
+    store.put(wrapped, getEphemeralKeyId(owner, advertisementId, clientAddress, interactionId))
+  );
+};
+
+/**
+ * Get a chat key cached on this device
+ * @param owner The wallet address that decrypted the key
+ * @param advertisementId The advertisement ID
+ * @param clientAddress The client's address (the user who joined the advertisement)
+ * @param interactionId The unique ID of the interaction
+ * @returns The raw chat key, or null if it is not cached or can no longer be unwrapped
+ */
+export const retrieveEphemeralKey = async (
+  owner: string,
+  advertisementId: string,
+  clientAddress: string,
+  interactionId: number
+): Promise<Uint8Array | null> => {
+  const id = getEphemeralKeyId(owner, advertisementId, clientAddress, interactionId);
+  const wrapped = await runKeyDbRequest<WrappedEphemeralKey | undefined>(EPHEMERAL_KEYS_STORE, 'readonly', (store) =>
+    store.get(id)
+  );
+  if (!wrapped) return null;
+
+  try {
+    const key = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(wrapped.iv) },
+      await getWrappingKey(owner),
+      wrapped.ciphertext
+    );
+    return new Uint8Array(key);
+  } catch (err) {
+    // Wrapped with a device key that has been replaced, fetch it from the key servers again
+    console.warn(`[KeyStore] Dropping chat key ${id} that cannot be unwrapped:`, err);
+    await runKeyDbRequest(EPHEMERAL_KEYS_STORE, 'readwrite', (store) => store.delete(id));
+    return null;
+  }
+};
+
+/**
+ * Evict a cached chat key, e.g. once its deal is finished
+ * @param owner The wallet address that decrypted the key
+ * @param advertisementId The advertisement ID
+ * @param clientAddress The client's address (the user who joined the advertisement)
+ * @param interactionId The unique ID of the interaction
+ */
+export const clearEphemeralKey = async (
+  owner: string,
+  advertisementId: string,
+  clientAddress: string,
+  interactionId: number
+): Promise<void> => {
+  await runKeyDbRequest(EPHEMERAL_KEYS_STORE, 'readwrite', (store) =>
+    store.delete(getEphemeralKeyId(owner, advertisementId, clientAddress, interactionId))
+  );
+};
+
+/**
+ * Evict every cached chat key of a wallet
+ * @param owner The wallet address
+ */
+export const clearAllEphemeralKeys = async (owner: string): Promise<void> => {
+  await runKeyDbRequest(EPHEMERAL_KEYS_STORE, 'readwrite', (store) => store.delete(getOwnerRange(owner)));
+};
@@ -1,5 +1,5 @@
 import { getFullnodeUrl } from '@mysten/sui/client';
-import { TESTNET_PACKAGE_ID, TESTNET_REGISTRY_ID } from './constants';
+import { TESTNET_PACKAGE_ID, TESTNET_REGISTRY_ID, TESTNET_ADMIN_REGISTRY_ID, TESTNET_STATS_REGISTRY_ID, TESTNET_TREASURY_ID } from './constants';
 import { createNetworkConfig } from '@mysten/dapp-kit';
 
 const { networkConfig, useNetworkVariable, useNetworkVariables } = createNetworkConfig({
@@ -8,6 +8,9 @@ const { networkConfig, useNetworkVariable, useNetworkVariables } = createNetwork
     variables: {
       packageId: TESTNET_PACKAGE_ID,
       registryId: TESTNET_REGISTRY_ID,
+      adminRegistryId: TESTNET_ADMIN_REGISTRY_ID,
+      statsRegistryId: TESTNET_STATS_REGISTRY_ID,
+      treasuryId: TESTNET_TREASURY_ID,
       gqlClient: 'https://sui-testnet.mystenlabs.com/graphql',
     },
   },
@@ -9,26 +9,101 @@ export interface UserProfile {
 export interface Advertisement {
   id: string;
   creator: string;
+  kind: number; // AD_KIND_SELL or AD_KIND_BUY, decides which side of a deal the creator is on
+  version: number; // Version of the terms, incremented by every edit
+  coinType: string; // Coin the advertisement is paid in
   title: string;
   description: string;
+  category: string; // Category ID from CATEGORIES, DEFAULT_CATEGORY when unknown
+  tags: string[]; // Free-form search keywords
   amount: number;
   createdAt: number;
+  status: number; // LISTING_ACTIVE, LISTING_PAUSED or LISTING_CLOSED
+  deliveryWindowMs: number; // Time the seller has to deliver after a buyer joins
+  reviewWindowMs: number; // Time the buyer has to approve or dispute after delivery
+  milestones: Milestone[]; // Empty for a lump sum deal, otherwise the amounts add up to amount
+  budget: number; // Funds of a buy advertisement, every responder's escrow is taken from it
+  offers: Offer[]; // Price negotiations with users who have not joined yet, at most MAX_OFFERS
+  images: string[]; // Walrus blob IDs of the public listing images, in gallery order
   userProfiles: Record<string, UserProfile>;
 }
 
+export interface Milestone {
+  description: string;
+  amount: number;
+}
+
+// Terms of an advertisement at one version, every deal keeps the terms it was joined under
+export interface Terms {
+  version: number;
+  title: string;
+  description: string;
+  amount: number; // Listed amount, the deal's price can differ after an accepted offer
+  deliveryWindowMs: number;
+  reviewWindowMs: number;
+  milestones: Milestone[];
+}
+
+// Price proposed by a user instead of the listed amount, negotiated with the creator before joining
+export interface Offer {
+  id: number; // Index in the advertisement's offers, reused once the offer is closed or expired
+  user: string; // Made the offer and joins at the agreed amount
+  amount: number;
+  message: string; // Left by whoever proposed the current amount
+  status: number; // OFFER_* status
+  createdAt: number;
+  expiresAt: number; // Deadline of the side whose turn it is, or of the user to join once accepted
+}
+
 export interface Interaction {
   id: number;
   user: string;
   joinedAt: number;
-  seller: string;
+  amount: number; // Agreed price: the listed amount or the amount of an accepted offer
+  terms: Terms; // Snapshot of the advertisement when the user joined
+  termsHash: string; // Hex encoded blake2b256 of the BCS encoded terms
+  buyer: string; // Pays the escrow: the user of a sell advertisement, the creator of a buy advertisement
+  seller: string; // Gets paid: the creator of a sell advertisement, the user of a buy advertisement
   assignedAdmin: string;
-  chatMessages: ChatMessage[];
-  state: number; // 0: joined, 1: seller_completed, 2: buyer_approved, 3: disputed
+  jurors: string[]; // Admins voting on a high-value dispute, empty when assignedAdmin decides alone
+  juryVotes: JuryVote[]; // Latest vote of every juror who voted
+  chatId: string; // Shared ChatRoom object holding the messages of this interaction
+  chatArchiveBlobId?: string; // Walrus blob holding the messages once the chat is archived
+  chatArchiveHash?: string; // Hex encoded sha256 of the archive blob
+  state: number; // 0: joined, 1: seller_completed, 2: buyer_approved, 3: disputed, 4: resolved, 5: cancelled
+  deadline: number; // End of the current phase: delivery while joined, review while seller_completed, decision or appeal while disputed
+  releasedAmount: number; // Already paid to the seller through milestone releases
+  milestoneStates: number[]; // MILESTONE_* state of each milestone of the advertisement
+  resolution?: number; // Set once an admin resolves a dispute (RESOLUTION_ADMIN_*)
+  proposedShareBps?: number; // Decision of the assigned admin that can still be appealed until the deadline
+  escalations: Escalation[]; // Appeals and inactive admin replacements, oldest first
+  appealBond: number; // Bond of a pending appeal, settled with the dispute
+  buyerPayout: number; // Escrow returned to the buyer by the dispute resolution
+  sellerPayout: number; // Escrow paid to the seller by the dispute resolution
+  cancelRequested: boolean; // Buyer asked the seller to cancel and refund
+  buyerReviewed: boolean; // Buyer has reviewed the seller
+  sellerReviewed: boolean; // Seller has reviewed the buyer
   chatEphemeralKeyEncrypted?: Uint8Array; // Encrypted symmetric key for chat
 }
 
+export interface JuryVote {
+  juror: string;
+  buyerShareBps: number; // Share of the escrow the juror wants returned to the buyer
+}
+
+export interface Escalation {
+  kind: number; // ESCALATION_APPEAL or ESCALATION_INACTIVE_ADMIN
+  previousAdmin: string;
+  newAdmin: string;
+  initiatedBy: string;
+  appealedShareBps: number; // Decision the appeal was filed against, 0 for a replacement
+  bond: number;
+  timestamp: number;
+}
+
 export interface ChatMessage {
   id: string;
+  seq: number; // Position in the chat room, starting at 0
   advertisementId: string;
   interactionUser: string;
   interactionId: number;
@@ -38,6 +113,28 @@ export interface ChatMessage {
   messageBlobId?: string;
 }
 
+export interface CoinInfo {
+  coinType: string; // Fully qualified coin type, e.g. 0x2::sui::SUI
+  symbol: string;
+  decimals: number;
+}
+
+export interface AdminRegistry {
+  id: string;
+  admins: string[]; // All registered admins
+  suspended: string[]; // Registered admins excluded from new dispute assignments
+  jurySize: number; // Number of admins drawn for a high-value dispute
+  juryThresholds: Record<string, number>; // Coin type -> escrow amount from which a jury is drawn
+  minAppealBonds: Record<string, number>; // Coin type -> smallest bond an appeal posts
+}
+
+export interface Treasury {
+  id: string;
+  feeBps: number; // Platform fee kept from every payment to a seller
+  arbitrationFeeBps: number; // Share of a disputed escrow paid to the admins who resolve it
+  balances: Record<string, number>; // Coin type -> fees collected so far
+}
+
 export interface UserReputation {
   user: string;
   ratingSum: number;
@@ -51,8 +148,9 @@ export interface UserReputation {
 }
 
 export interface Review {
-  id: string;
-  transactionId: string;
+  transactionId: string; // Advertisement the reviewed deal belongs to
+  interactionUser: string;
+  interactionId: number;
   reviewer: string;
   reviewed: string;
   rating: number;
@@ -72,9 +170,55 @@ export const INTERACTION_JOINED = 0;
 export const INTERACTION_SELLER_COMPLETED = 1;
 export const INTERACTION_BUYER_APPROVED = 2;
 export const INTERACTION_DISPUTED = 3;
+export const INTERACTION_RESOLVED = 4;
+export const INTERACTION_CANCELLED = 5;
+
+// Constants for advertisement kinds
+export const AD_KIND_SELL = 0; // The advertiser provides the work and responders pay for it
+export const AD_KIND_BUY = 1; // The advertiser pays for the work and responders provide it
+
+// Constants for listing statuses
+export const LISTING_ACTIVE = 0;
+export const LISTING_PAUSED = 1;
+export const LISTING_CLOSED = 2;
+
+// Constants for offer statuses
+export const OFFER_PENDING = 0; // Waiting on the creator
+export const OFFER_COUNTERED = 1; // Waiting on the user who made the offer
+export const OFFER_ACCEPTED = 2; // The user can join at the agreed amount until the offer expires
+export const OFFER_REJECTED = 3;
+export const OFFER_TAKEN = 4; // The user joined at the agreed amount
+
+// Number of offer slots of an advertisement, each user can have one open offer
+export const MAX_OFFERS = 50;
+
+// Constants for milestone states
+export const MILESTONE_PENDING = 0;
+export const MILESTONE_COMPLETED = 1;
+export const MILESTONE_RELEASED = 2;
+
+// Default coin, used for reputation volume which only counts SUI deals
+export const SUI_COIN_INFO: CoinInfo = {
+  coinType: '0x2::sui::SUI',
+  symbol: 'SUI',
+  decimals: 9,
+};
 
 // Constants for resolution types
 export const RESOLUTION_PEACEFUL = 0;
 export const RESOLUTION_ADMIN_BUYER = 1;
 export const RESOLUTION_ADMIN_SELLER = 2;
 export const RESOLUTION_ADMIN_SPLIT = 3;
+
+// Split shares are expressed in basis points of the escrow
+export const BPS_DENOMINATOR = 10000;
+
+// Appeal bonds are expressed in basis points of the escrow
+export const APPEAL_BOND_BPS = 500;
+
+// Number of times a dispute can be appealed, the decision after the last appeal is final
+export const MAX_APPEALS = 1;
+
+// Constants for escalation kinds
+export const ESCALATION_APPEAL = 0;
+export const ESCALATION_INACTIVE_ADMIN = 1;
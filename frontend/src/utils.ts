@@ -1,16 +1,11 @@
 import { SealClient, SessionKey, NoAccessError, EncryptedObject } from '@mysten/seal';
 
-// Add global type declaration for our ephemeral key cache
-declare global {
-  interface Window {
-    _ephemeralKeyCache?: Record<string, Uint8Array>;
-  }
-}
 import { bcs } from '@mysten/sui/bcs';
 import { SuiClient } from '@mysten/sui/client';
 import { Transaction } from '@mysten/sui/transactions';
 import { fromHex, toHex } from '@mysten/sui/utils';
 import React from 'react';
+import { ChatMessage } from './types';
 
 export type MoveCallConstructor = (tx: Transaction, id: string) => void;
 
@@ -113,92 +108,229 @@ export const decryptEphemeralKey = async (
 };
 
 /**
- * Encrypt a message using AES-GCM
- * @param message The message to encrypt
- * @param key The encryption key
- * @returns The encrypted message as a base64 string
+ * Fields a chat ciphertext is bound to, authenticated as AES-GCM associated data
+ * They mirror the on-chain ChatMessage, so a ciphertext only decrypts as the message it was written for
  */
-export const encryptMessage = async (
-  message: string,
-  key: Uint8Array
-): Promise<string> => {
-  // Convert message to bytes
-  const encoder = new TextEncoder();
-  const messageBytes = encoder.encode(message);
-  
-  // Generate a random IV (12 bytes for AES-GCM)
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  
-  // Import the key
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    key,
-    { name: 'AES-GCM' },
-    false,
-    ['encrypt']
-  );
-  
-  // Encrypt the message
+export interface ChatCipherContext {
+  advertisementId: string;
+  interactionUser: string;
+  interactionId: number;
+  sender: string;
+  seq: number; // Sequence number of the message in its chat room
+}
+
+// Associated data layout, fixed so every client derives the same bytes
+const ChatCipherAad = bcs.struct('ChatCipherAad', {
+  advertisement_id: bcs.Address,
+  interaction_user: bcs.Address,
+  interaction_id: bcs.u64(),
+  sender: bcs.Address,
+  seq: bcs.u64(),
+});
+
+// Chat ciphertext envelope: [magic (4 bytes)][version (1 byte)][IV (12 bytes)][ciphertext]
+// Ciphertexts without the magic were written before the envelope and carry no associated data
+const ENVELOPE_MAGIC = new TextEncoder().encode('TMCE');
+const ENVELOPE_VERSION = 1;
+const ENVELOPE_HEADER_LENGTH = ENVELOPE_MAGIC.length + 1;
+const IV_LENGTH = 12;
+
+/**
+ * Thrown when a chat ciphertext does not authenticate against the message it is attached to,
+ * e.g. because it was copied from another message or another interaction
+ */
+export class TamperedCiphertextError extends Error {
+  constructor() {
+    super('Ciphertext does not belong to this message');
+    this.name = 'TamperedCiphertextError';
+  }
+}
+
+// Plaintext of a chat ciphertext
+interface DecryptedEnvelope {
+  data: Uint8Array;
+  unverified: boolean; // Written before the envelope, so nothing binds it to its message
+}
+
+const importChatKey = (key: Uint8Array, usage: KeyUsage): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', new Uint8Array(key), { name: 'AES-GCM' }, false, [usage]);
+
+const isEnvelope = (data: Uint8Array): boolean =>
+  data.length > ENVELOPE_HEADER_LENGTH + IV_LENGTH &&
+  ENVELOPE_MAGIC.every((byte, index) => data[index] === byte);
+
+// Associated data of an envelope: its header followed by the message fields
+const getEnvelopeAad = (header: Uint8Array, context: ChatCipherContext): Uint8Array => {
+  const fields = ChatCipherAad.serialize({
+    advertisement_id: context.advertisementId,
+    interaction_user: context.interactionUser,
+    interaction_id: context.interactionId,
+    sender: context.sender,
+    seq: context.seq,
+  }).toBytes();
+  const aad = new Uint8Array(header.length + fields.length);
+  aad.set(header);
+  aad.set(fields, header.length);
+  return aad;
+};
+
+/**
+ * Encrypt bytes into a chat ciphertext envelope bound to a message
+ * @param plaintext The bytes to encrypt
+ * @param key The ephemeral key of the chat
+ * @param context The message the ciphertext is written for
+ * @returns The envelope
+ */
+const encryptEnvelope = async (
+  plaintext: Uint8Array,
+  key: Uint8Array,
+  context: ChatCipherContext
+): Promise<Uint8Array> => {
+  const header = new Uint8Array(ENVELOPE_HEADER_LENGTH);
+  header.set(ENVELOPE_MAGIC);
+  header[ENVELOPE_MAGIC.length] = ENVELOPE_VERSION;
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
   const encryptedBytes = await crypto.subtle.encrypt(
     {
       name: 'AES-GCM',
-      iv
+      iv,
+      additionalData: new Uint8Array(getEnvelopeAad(header, context))
     },
-    cryptoKey,
-    messageBytes
+    await importChatKey(key, 'encrypt'),
+    new Uint8Array(plaintext)
+  );
+
+  // Combine header, IV and encrypted bytes
+  const result = new Uint8Array(header.length + iv.length + encryptedBytes.byteLength);
+  result.set(header);
+  result.set(iv, header.length);
+  result.set(new Uint8Array(encryptedBytes), header.length + iv.length);
+  return result;
+};
+
+/**
+ * Encrypt bytes with AES-GCM and no associated data
+ * @param plaintext The bytes to encrypt
+ * @param key The encryption key
+ * @returns IV + ciphertext
+ */
+const encryptUnbound = async (plaintext: Uint8Array, key: Uint8Array): Promise<Uint8Array> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const encryptedBytes = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importChatKey(key, 'encrypt'),
+    new Uint8Array(plaintext)
   );
-  
-  // Combine IV and encrypted bytes
   const result = new Uint8Array(iv.length + encryptedBytes.byteLength);
   result.set(iv);
   result.set(new Uint8Array(encryptedBytes), iv.length);
-  
+  return result;
+};
+
+/**
+ * Decrypt IV + ciphertext encrypted with AES-GCM and no associated data
+ * @param encryptedData IV + ciphertext
+ * @param key The decryption key
+ * @returns The decrypted bytes
+ */
+const decryptUnbound = async (encryptedData: Uint8Array, key: Uint8Array): Promise<Uint8Array> => {
+  const decryptedBytes = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: encryptedData.slice(0, IV_LENGTH) },
+    await importChatKey(key, 'decrypt'),
+    encryptedData.slice(IV_LENGTH)
+  );
+  return new Uint8Array(decryptedBytes);
+};
+
+/**
+ * Decrypt a chat ciphertext, checking it was written for the given message
+ * @param encryptedData The envelope, or IV + ciphertext for messages written before the envelope
+ * @param key The ephemeral key of the chat
+ * @param context The message the ciphertext is attached to
+ * @returns The decrypted bytes, flagged as unverified for ciphertexts written before the envelope
+ * @throws TamperedCiphertextError if the envelope was written for another message
+ */
+const decryptEnvelope = async (
+  encryptedData: Uint8Array,
+  key: Uint8Array,
+  context: ChatCipherContext
+): Promise<DecryptedEnvelope> => {
+  if (!isEnvelope(encryptedData)) {
+    return { data: await decryptUnbound(encryptedData, key), unverified: true };
+  }
+
+  const version = encryptedData[ENVELOPE_MAGIC.length];
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported ciphertext version ${version}`);
+  }
+
+  const header = encryptedData.slice(0, ENVELOPE_HEADER_LENGTH);
+  const iv = encryptedData.slice(ENVELOPE_HEADER_LENGTH, ENVELOPE_HEADER_LENGTH + IV_LENGTH);
+  const ciphertext = encryptedData.slice(ENVELOPE_HEADER_LENGTH + IV_LENGTH);
+  const cryptoKey = await importChatKey(key, 'decrypt');
+
+  try {
+    const decryptedBytes = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: new Uint8Array(getEnvelopeAad(header, context))
+      },
+      cryptoKey,
+      ciphertext
+    );
+    return { data: new Uint8Array(decryptedBytes), unverified: false };
+  } catch {
+    // The key is the chat's own, so a failing tag means the ciphertext or its message fields were changed
+    throw new TamperedCiphertextError();
+  }
+};
+
+/**
+ * Encrypt a chat message using AES-GCM, bound to the message it is sent as
+ * @param message The message to encrypt
+ * @param key The encryption key
+ * @param context The message the ciphertext is written for
+ * @returns The encrypted envelope as a base64 string
+ */
+export const encryptMessage = async (
+  message: string,
+  key: Uint8Array,
+  context: ChatCipherContext
+): Promise<string> => {
+  const envelope = await encryptEnvelope(new TextEncoder().encode(message), key, context);
+
   // Convert to base64
-  return btoa(String.fromCharCode(...result));
+  return btoa(String.fromCharCode(...envelope));
 };
 
+export interface DecryptedMessage {
+  text: string;
+  unverified: boolean; // Sent before the envelope, so it could have been copied from another message
+}
+
 /**
- * Decrypt a message using AES-GCM
+ * Decrypt a chat message using AES-GCM
  * @param encryptedMessage The encrypted message as a base64 string
  * @param key The decryption key
- * @returns The decrypted message
+ * @param context The message the ciphertext is attached to
+ * @returns The decrypted message, flagged as unverified if it was sent before the envelope
+ * @throws TamperedCiphertextError if the ciphertext was written for another message
  */
 export const decryptMessage = async (
   encryptedMessage: string,
-  key: Uint8Array
-): Promise<string> => {
+  key: Uint8Array,
+  context: ChatCipherContext
+): Promise<DecryptedMessage> => {
   // Convert from base64
   const encryptedBytes = Uint8Array.from(
     atob(encryptedMessage),
     c => c.charCodeAt(0)
   );
 
-  // Extract IV (first 12 bytes)
-  const iv = encryptedBytes.slice(0, 12);
-  const ciphertext = encryptedBytes.slice(12);
-  
-  // Import the key
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    key,
-    { name: 'AES-GCM' },
-    false,
-    ['decrypt']
-  );
-  
-  // Decrypt the message
-  const decryptedBytes = await crypto.subtle.decrypt(
-    {
-      name: 'AES-GCM',
-      iv
-    },
-    cryptoKey,
-    ciphertext
-  );
-  
-  // Convert to string
-  const decoder = new TextDecoder();
-  return decoder.decode(decryptedBytes);
+  const { data, unverified } = await decryptEnvelope(encryptedBytes, key, context);
+  return { text: new TextDecoder().decode(data), unverified };
 };
 
 // File metadata interface
@@ -209,195 +341,246 @@ export interface FileMetadata {
   size: number;
 }
 
+// Small preview of an image, shown in the chat instead of the full file
+export interface FileThumbnail {
+  data: Uint8Array;
+  type: string;
+}
+
+export interface DecryptedFile {
+  data: Uint8Array;
+  metadata: FileMetadata;
+  thumbnail?: FileThumbnail;
+  unverified?: boolean; // Sent before the chat envelope, so it could have been copied from another message
+}
+
+// File envelope: [magic (4 bytes)][version (1 byte)][header length (4 bytes, little-endian)][header JSON][thumbnail][payload]
+// The header describes the file and the thumbnail and carries the hash of the payload
+const FILE_ENVELOPE_MAGIC = new TextEncoder().encode('TMFE');
+const FILE_ENVELOPE_VERSION = 1;
+const FILE_ENVELOPE_PREFIX_LENGTH = FILE_ENVELOPE_MAGIC.length + 1 + 4;
+
+interface FileEnvelopeHeader {
+  metadata: FileMetadata;
+  thumbnail?: { type: string; size: number };
+  payloadSize: number;
+  payloadSha256: string; // Hex encoded
+}
+
+// Longest side of generated thumbnails, in pixels
+const THUMBNAIL_MAX_SIZE = 320;
+
+// Leading bytes of the file types the chat renders inline
+const MIME_SIGNATURES: { type: string; bytes: (number | null)[] }[] = [
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+];
+
 /**
- * Encrypt file data using AES-GCM, with optional metadata
- * @param data The data to encrypt
- * @param key The encryption key
- * @param metadata Optional file metadata
- * @returns The encrypted data as Uint8Array (IV + ciphertext)
+ * Detect the MIME type of file content from its leading bytes
+ * @param data The file content
+ * @returns The detected MIME type, application/octet-stream when unknown
  */
-export const encryptFileData = async (
-  data: Uint8Array,
-  key: Uint8Array,
-  metadata?: FileMetadata
-): Promise<Uint8Array> => {
-  // Generate a random IV (12 bytes for AES-GCM)
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  
-  // Import the key
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    key,
-    { name: 'AES-GCM' },
-    false,
-    ['encrypt']
+export const detectMimeType = (data: Uint8Array): string => {
+  const match = MIME_SIGNATURES.find(({ bytes }) =>
+    data.length >= bytes.length && bytes.every((byte, index) => byte === null || data[index] === byte)
   );
-  
-  // If metadata is provided, prepend it to the data
-  let dataToEncrypt = data;
-  if (metadata) {
-    // Convert metadata to JSON string and then to bytes
-    const metadataJson = JSON.stringify(metadata);
-    const metadataBytes = new TextEncoder().encode(metadataJson);
-    
-    // Create a 4-byte header with metadata length
-    const metadataLength = new Uint32Array([metadataBytes.length]);
-    const metadataLengthBytes = new Uint8Array(metadataLength.buffer);
-    
-    // Combine: [metadata length (4 bytes)][metadata bytes][file content bytes]
-    dataToEncrypt = new Uint8Array(4 + metadataBytes.length + data.length);
-    dataToEncrypt.set(metadataLengthBytes, 0);
-    dataToEncrypt.set(metadataBytes, 4);
-    dataToEncrypt.set(data, 4 + metadataBytes.length);
-  }
-  
-  // Encrypt the data
-  const encryptedBytes = await crypto.subtle.encrypt(
-    {
-      name: 'AES-GCM',
-      iv
-    },
-    cryptoKey,
-    dataToEncrypt
-  );
-  
-  // Combine IV and encrypted bytes
-  const result = new Uint8Array(iv.length + encryptedBytes.byteLength);
-  result.set(iv);
-  result.set(new Uint8Array(encryptedBytes), iv.length);
-  
-  return result;
+  return match?.type ?? 'application/octet-stream';
 };
 
 /**
- * Decrypt file data using AES-GCM
- * @param encryptedData The encrypted data (IV + ciphertext)
- * @param key The decryption key
- * @returns An object containing the decrypted data and optional metadata
+ * Describe a file picked by the user
+ * @param file The file
+ * @param data The file content, used when the browser doesn't know the file type
+ * @returns The file metadata
  */
-export const decryptFileData = async (
-  encryptedData: Uint8Array,
-  key: Uint8Array
-): Promise<{ data: Uint8Array; metadata?: FileMetadata }> => {
-  // Extract IV (first 12 bytes)
-  const iv = encryptedData.slice(0, 12);
-  const ciphertext = encryptedData.slice(12);
-  
-  // Import the key
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    key,
-    { name: 'AES-GCM' },
-    false,
-    ['decrypt']
-  );
-  
-  // Decrypt the data
-  const decryptedBytes = await crypto.subtle.decrypt(
-    {
-      name: 'AES-GCM',
-      iv
-    },
-    cryptoKey,
-    ciphertext
-  );
-  
-  const decryptedData = new Uint8Array(decryptedBytes);
-  
-  // Check if the decrypted data contains metadata
-  // We do this by checking if the first 4 bytes contain a valid length
+export const getFileMetadata = (file: File, data: Uint8Array): FileMetadata => {
+  const filenameParts = file.name.split('.');
+  const extension = filenameParts.length > 1 ? filenameParts.pop() || '' : '';
+  return {
+    filename: filenameParts.join('.'),
+    extension,
+    type: file.type || detectMimeType(data),
+    size: file.size,
+  };
+};
+
+/**
+ * Get the name a file is shown and downloaded under
+ * @param metadata The file metadata
+ * @returns The filename with its extension
+ */
+export const getFileDisplayName = (metadata: FileMetadata): string =>
+  metadata.extension ? `${metadata.filename}.${metadata.extension}` : metadata.filename;
+
+/**
+ * Render a thumbnail of an image
+ * @param image The image
+ * @returns The JPEG thumbnail, or undefined if the browser cannot decode the image
+ */
+export const createImageThumbnail = async (image: Blob): Promise<FileThumbnail | undefined> => {
   try {
-    // Read the first 4 bytes as a Uint32Array to get metadata length
-    const metadataLengthView = new DataView(decryptedData.buffer, 0, 4);
-    const metadataLength = metadataLengthView.getUint32(0, true); // true for little-endian
-    
-    // Sanity check: metadata length should be reasonable (less than 10KB)
-    if (metadataLength > 0 && metadataLength < 10240 && metadataLength < decryptedData.length - 4) {
-      // Extract metadata bytes
-      const metadataBytes = decryptedData.slice(4, 4 + metadataLength);
-      const metadataJson = new TextDecoder().decode(metadataBytes);
-      
-      try {
-        // Parse metadata JSON
-        const metadata = JSON.parse(metadataJson) as FileMetadata;
-        
-        // Extract file content (everything after metadata)
-        const fileData = decryptedData.slice(4 + metadataLength);
-        
-        return { data: fileData, metadata };
-      } catch (e) {
-        // If JSON parsing fails, assume no valid metadata
-        console.warn('Failed to parse file metadata JSON:', e);
-        return { data: decryptedData };
-      }
-    }
-  } catch (e) {
-    // If any error occurs during metadata extraction, return the full data
-    console.warn('Error extracting file metadata:', e);
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const thumbnail = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+    if (!thumbnail) return undefined;
+    return { data: new Uint8Array(await thumbnail.arrayBuffer()), type: thumbnail.type };
+  } catch (err) {
+    console.warn('Failed to create image thumbnail:', err);
+    return undefined;
   }
-  
-  // If we get here, either there's no metadata or we couldn't parse it
-  return { data: decryptedData };
 };
 
 /**
- * Store an ephemeral key in multiple storage mechanisms for redundancy
- * @param advertisementId The advertisement ID
- * @param clientAddress The client's address (the user who joined the advertisement)
- * @param interactionId The unique ID of the interaction
- * @param key The key to store
+ * Pack a file into a file envelope
+ * @param data The file content
+ * @param metadata The file metadata
+ * @param thumbnail Optional thumbnail of the file
+ * @returns The envelope
  */
-export const storeEphemeralKey = (
-  advertisementId: string,
-  clientAddress: string,
-  interactionId: number,
-  key: Uint8Array,
-  logPrefix: string = '[Utils::EphemeralStore]'
-): void => {
-  // Storage is removed for simplification. This function is now a no-op.
-  console.log(`${logPrefix} storeEphemeralKey called for ad ${advertisementId}, int ${interactionId}. Storage is disabled.`);
+export const encodeFileEnvelope = async (
+  data: Uint8Array,
+  metadata: FileMetadata,
+  thumbnail?: FileThumbnail
+): Promise<Uint8Array> => {
+  const header: FileEnvelopeHeader = {
+    metadata,
+    thumbnail: thumbnail && { type: thumbnail.type, size: thumbnail.data.length },
+    payloadSize: data.length,
+    payloadSha256: toHex(await sha256(data)),
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const thumbnailBytes = thumbnail?.data ?? new Uint8Array(0);
+
+  const result = new Uint8Array(FILE_ENVELOPE_PREFIX_LENGTH + headerBytes.length + thumbnailBytes.length + data.length);
+  const view = new DataView(result.buffer);
+  result.set(FILE_ENVELOPE_MAGIC);
+  result[FILE_ENVELOPE_MAGIC.length] = FILE_ENVELOPE_VERSION;
+  view.setUint32(FILE_ENVELOPE_MAGIC.length + 1, headerBytes.length, true);
+  result.set(headerBytes, FILE_ENVELOPE_PREFIX_LENGTH);
+  result.set(thumbnailBytes, FILE_ENVELOPE_PREFIX_LENGTH + headerBytes.length);
+  result.set(data, FILE_ENVELOPE_PREFIX_LENGTH + headerBytes.length + thumbnailBytes.length);
+  return result;
 };
 
 /**
- * Retrieve an ephemeral key from multiple storage mechanisms
- * @param advertisementId The advertisement ID
- * @param clientAddress The client's address (the user who joined the advertisement)
- * @param interactionId The unique ID of the interaction
- * @returns The key or null if not found
+ * Unpack a file envelope
+ * @param bytes The envelope
+ * @returns The file, or null if the bytes are not a file envelope
+ * @throws Error if the envelope is malformed or its payload does not match its hash
  */
-export const retrieveEphemeralKey = (
-  advertisementId: string,
-  clientAddress: string,
-  interactionId: number,
-  logPrefix: string = '[Utils::EphemeralRetrieve]'
-): Uint8Array | null => {
-  // Storage is removed for simplification. Always return null to force decryption.
-  console.log(`${logPrefix} retrieveEphemeralKey called for ad ${advertisementId}, int ${interactionId}. Storage is disabled, returning null.`);
-  return null;
+export const decodeFileEnvelope = async (bytes: Uint8Array): Promise<DecryptedFile | null> => {
+  if (bytes.length < FILE_ENVELOPE_PREFIX_LENGTH || !FILE_ENVELOPE_MAGIC.every((byte, index) => bytes[index] === byte)) {
+    return null;
+  }
+
+  const version = bytes[FILE_ENVELOPE_MAGIC.length];
+  if (version !== FILE_ENVELOPE_VERSION) {
+    throw new Error(`Unsupported file envelope version ${version}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerLength = view.getUint32(FILE_ENVELOPE_MAGIC.length + 1, true);
+  const headerEnd = FILE_ENVELOPE_PREFIX_LENGTH + headerLength;
+  if (headerEnd > bytes.length) {
+    throw new Error('File envelope header exceeds the envelope');
+  }
+  let header: FileEnvelopeHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(bytes.slice(FILE_ENVELOPE_PREFIX_LENGTH, headerEnd)));
+  } catch {
+    throw new Error('File envelope header is malformed');
+  }
+
+  const thumbnailEnd = headerEnd + (header.thumbnail?.size ?? 0);
+  if (thumbnailEnd + header.payloadSize !== bytes.length) {
+    throw new Error('File envelope sizes do not match its content');
+  }
+
+  const data = bytes.slice(thumbnailEnd);
+  if (toHex(await sha256(data)) !== header.payloadSha256) {
+    throw new Error('File content does not match its hash');
+  }
+
+  return {
+    data,
+    metadata: header.metadata,
+    thumbnail: header.thumbnail && { data: bytes.slice(headerEnd, thumbnailEnd), type: header.thumbnail.type },
+  };
 };
 
 /**
- * Clear an ephemeral key from all storage mechanisms
- * @param advertisementId The advertisement ID
- * @param clientAddress The client's address (the user who joined the advertisement)
- * @param interactionId The unique ID of the interaction
+ * Read a file sent before the file envelope: [metadata length (4 bytes)][metadata JSON][content], or bare image content
+ * @param decryptedData The decrypted file
+ * @returns The file, with its type detected from the content when it carries no metadata
  */
-export const clearEphemeralKey = (
-  advertisementId: string,
-  clientAddress: string,
-  interactionId: number,
-  logPrefix: string = '[Utils::EphemeralClear]'
-): void => {
-  // Storage is removed for simplification. This function is now a no-op.
-  console.log(`${logPrefix} clearEphemeralKey called for ad ${advertisementId}, int ${interactionId}. Storage is disabled.`);
+const decodeLegacyFile = (decryptedData: Uint8Array): DecryptedFile => {
+  if (decryptedData.length > 4) {
+    const metadataLength = new DataView(decryptedData.buffer, decryptedData.byteOffset, 4).getUint32(0, true);
+    if (metadataLength > 0 && metadataLength < 10240 && metadataLength < decryptedData.length - 4) {
+      try {
+        const metadata = JSON.parse(new TextDecoder().decode(decryptedData.slice(4, 4 + metadataLength))) as FileMetadata;
+        // Content that merely starts like a length prefix does not parse into complete metadata
+        if (typeof metadata.filename === 'string' && typeof metadata.type === 'string') {
+          return { data: decryptedData.slice(4 + metadataLength), metadata };
+        }
+      } catch {
+        // Not metadata, the prefix is part of the content
+      }
+    }
+  }
+
+  return {
+    data: decryptedData,
+    metadata: { filename: 'file', extension: '', type: detectMimeType(decryptedData), size: decryptedData.length },
+  };
 };
 
 /**
- * Clear all ephemeral keys from all storage mechanisms
+ * Encrypt a file in a file envelope using AES-GCM, bound to the message it is sent as
+ * @param data The file content
+ * @param key The encryption key
+ * @param context The message the file is sent as
+ * @param metadata The file metadata
+ * @param thumbnail Optional thumbnail of the file
+ * @returns The encrypted envelope
  */
-export const clearAllEphemeralKeys = (logPrefix: string = '[Utils::EphemeralClearAll]'): void => {
-  // Storage is removed for simplification. This function is now a no-op.
-  console.log(`${logPrefix} clearAllEphemeralKeys called. Storage is disabled.`);
+export const encryptFileData = async (
+  data: Uint8Array,
+  key: Uint8Array,
+  context: ChatCipherContext,
+  metadata: FileMetadata,
+  thumbnail?: FileThumbnail
+): Promise<Uint8Array> => {
+  const fileEnvelope = await encodeFileEnvelope(data, metadata, thumbnail);
+  return encryptEnvelope(fileEnvelope, key, context);
+};
+
+/**
+ * Decrypt file data using AES-GCM
+ * @param encryptedData The encrypted envelope, or IV + ciphertext for files sent before the envelope
+ * @param key The decryption key
+ * @param context The message the file is attached to
+ * @returns The file content, its metadata and its thumbnail if it has one, flagged as unverified if it was sent before the envelope
+ * @throws TamperedCiphertextError if the file was encrypted for another message
+ */
+export const decryptFileData = async (
+  encryptedData: Uint8Array,
+  key: Uint8Array,
+  context: ChatCipherContext
+): Promise<DecryptedFile> => {
+  const { data, unverified } = await decryptEnvelope(encryptedData, key, context);
+  const file = (await decodeFileEnvelope(data)) ?? decodeLegacyFile(data);
+  return { ...file, unverified };
 };
 
 // Disclaimer Some Functions are inspired by Mysten's Seal Example :)
@@ -467,7 +650,11 @@ export const downloadAndDecrypt = async (
         sessionKey,
         txBytes,
       });
-      const blob = new Blob([decryptedFile], { type: 'image/jpg' });
+      // Files packed in an envelope describe themselves, bare files are typed from their content
+      const file = await decodeFileEnvelope(decryptedFile);
+      const blob = file
+        ? new Blob([new Uint8Array(file.data)], { type: file.metadata.type })
+        : new Blob([new Uint8Array(decryptedFile)], { type: detectMimeType(decryptedFile) });
       decryptedFileUrls.push(URL.createObjectURL(blob));
     } catch (err) {
       console.log(err);
@@ -490,24 +677,32 @@ export const downloadAndDecrypt = async (
 
 // Walrus interaction helpers
 const WALRUS_AGGREGATORS = ['aggregator1', 'aggregator2', 'aggregator3', 'aggregator4', 'aggregator5', 'aggregator6'];
-// As per EncryptAndUpload.tsx, uploads go to "publisher" services.
+// Uploads go to "publisher" services.
 // These correspond to the publisher proxies in vite.config.ts.
 const WALRUS_PUBLISHERS = ['publisher1', 'publisher2', 'publisher3', 'publisher4', 'publisher5', 'publisher6'];
 const WALRUS_TIMEOUT = 10000; // 10 seconds
-const WALRUS_UPLOAD_EPOCHS = 1; // Number of epochs to store the blob, as seen in EncryptAndUpload.tsx
+const WALRUS_UPLOAD_EPOCHS = 1; // Number of epochs to store the blob
+// Chat archives replace the on-chain messages, so they are stored for the longest period Walrus accepts
+export const WALRUS_ARCHIVE_EPOCHS = 53;
+// Listing images are shown for as long as the listing is up, which has no end date
+export const WALRUS_LISTING_EPOCHS = WALRUS_ARCHIVE_EPOCHS;
 
 /**
- * Uploads encrypted data to a Walrus publisher service.
- * @param encryptedData The encrypted data as Uint8Array.
+ * Uploads data to a Walrus publisher service, encrypted chat files or public listing images.
+ * @param encryptedData The data as Uint8Array.
+ * @param epochs Number of epochs to store the blob.
  * @returns The blob_id if successful, otherwise null.
  */
-export const uploadToWalrus = async (encryptedData: Uint8Array): Promise<string | null> => {
+export const uploadToWalrus = async (
+  encryptedData: Uint8Array,
+  epochs = WALRUS_UPLOAD_EPOCHS
+): Promise<string | null> => {
   // Always try publisher1 first as it has the best uptime, consistent with our download approach
   const prioritizedPublishers = ['publisher1', ...WALRUS_PUBLISHERS.filter(pub => pub !== 'publisher1')];
   
   for (const publisher of prioritizedPublishers) {
-    // Construct the URL based on EncryptAndUpload.tsx: /<publisher_proxy_path>/v1/blobs?epochs=<num_epochs>
-    const publisherUrl = `https://publisher.walrus-testnet.walrus.space/v1/blobs?epochs=${WALRUS_UPLOAD_EPOCHS}`;
+    // Construct the URL: /<publisher_proxy_path>/v1/blobs?epochs=<num_epochs>
+    const publisherUrl = `https://publisher.walrus-testnet.walrus.space/v1/blobs?epochs=${epochs}`;
     console.log(`Attempting to upload to Walrus via ${publisherUrl}`);
 
     try {
@@ -515,11 +710,11 @@ export const uploadToWalrus = async (encryptedData: Uint8Array): Promise<string
       const timeoutId = setTimeout(() => controller.abort(), WALRUS_TIMEOUT);
 
       const response = await fetch(publisherUrl, {
-        method: 'PUT', // Method is PUT as per EncryptAndUpload.tsx
+        method: 'PUT', // Walrus stores blobs with PUT /v1/blobs
         headers: {
           // Content-Type might not be strictly needed by Walrus for PUT /blobs if it expects raw octet-stream
           // but it's good practice for binary data.
-          // 'Content-Type': 'application/octet-stream', // EncryptAndUpload.tsx doesn't specify, often optional for PUT
+          // 'Content-Type': 'application/octet-stream', // Often optional for PUT
         },
         body: encryptedData,
         signal: controller.signal,
@@ -596,6 +791,108 @@ export const downloadFromWalrus = async (blobId: string): Promise<Uint8Array | n
   return null;
 };
 
+/**
+ * Hash data with SHA-256
+ * @param data The data to hash
+ * @returns The 32-byte digest
+ */
+export const sha256 = async (data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(data)));
+
+// Format version of chat archives, bumped when the bundled message layout changes
+const CHAT_ARCHIVE_VERSION = 1;
+
+// BCS layout of the on-chain ChatMessage, the running hash of a chat room is computed over it
+const ChatMessageBcs = bcs.struct('ChatMessage', {
+  seq: bcs.u64(),
+  advertisement_id: bcs.Address,
+  interaction_user: bcs.Address,
+  interaction_id: bcs.u64(),
+  sender: bcs.Address,
+  timestamp: bcs.u64(),
+  message_encrypted_text: bcs.option(bcs.string()),
+  message_blob_id: bcs.option(bcs.string()),
+});
+
+/**
+ * Compute the running hash a chat room keeps over its messages: sha256(previous hash || bcs(message))
+ * @param messages Every message of the chat, in sequence order
+ * @returns The hex encoded hash, empty for a chat without messages
+ */
+export const hashChatMessages = async (messages: ChatMessage[]): Promise<string> => {
+  let hash: Uint8Array = new Uint8Array(0);
+  for (const message of messages) {
+    const messageBytes = ChatMessageBcs.serialize({
+      seq: message.seq,
+      advertisement_id: message.advertisementId,
+      interaction_user: message.interactionUser,
+      interaction_id: message.interactionId,
+      sender: message.sender,
+      timestamp: message.timestamp,
+      message_encrypted_text: message.messageEncryptedText ?? null,
+      message_blob_id: message.messageBlobId ?? null,
+    }).toBytes();
+    const bytes = new Uint8Array(hash.length + messageBytes.length);
+    bytes.set(hash);
+    bytes.set(messageBytes, hash.length);
+    hash = await sha256(bytes);
+  }
+  return toHex(hash);
+};
+
+/**
+ * Bundle the messages of a chat into an archive blob
+ * Messages keep their own encryption and the bundle is encrypted again, so the archive reveals nothing
+ * The bundle carries no associated data, the hash recorded on-chain already pins it to the interaction
+ * @param messages The on-chain messages of the chat, still encrypted
+ * @param key The ephemeral key of the chat
+ * @returns The encrypted archive (IV + ciphertext)
+ */
+export const encryptChatArchive = async (messages: ChatMessage[], key: Uint8Array): Promise<Uint8Array> => {
+  const archive = new TextEncoder().encode(JSON.stringify({ version: CHAT_ARCHIVE_VERSION, messages }));
+  return encryptUnbound(archive, key);
+};
+
+/**
+ * Download a chat archive from Walrus and verify it against the hashes recorded on-chain
+ * The blob hash proves the archive is the one recorded, the running hash proves it holds the chat unaltered
+ * @param blobId The Walrus blob of the archive
+ * @param expectedHash The hex encoded sha256 recorded on the interaction
+ * @param key The ephemeral key of the chat
+ * @param commitment The message count and running hash kept by the chat room
+ * @returns The archived messages, still encrypted
+ */
+export const downloadChatArchive = async (
+  blobId: string,
+  expectedHash: string,
+  key: Uint8Array,
+  commitment: { messageCount: number; messagesHash: string }
+): Promise<ChatMessage[]> => {
+  const encryptedArchive = await downloadFromWalrus(blobId);
+  if (!encryptedArchive) {
+    throw new Error('Chat archive cannot be retrieved from Walrus');
+  }
+
+  if (toHex(await sha256(encryptedArchive)) !== expectedHash) {
+    throw new Error('Chat archive does not match the hash recorded on-chain');
+  }
+
+  const data = await decryptUnbound(encryptedArchive, key);
+  const archive = JSON.parse(new TextDecoder().decode(data)) as { version: number; messages: ChatMessage[] };
+  if (archive.version !== CHAT_ARCHIVE_VERSION) {
+    throw new Error(`Unsupported chat archive version ${archive.version}`);
+  }
+
+  if (
+    archive.messages.length !== commitment.messageCount ||
+    (await hashChatMessages(archive.messages)) !== commitment.messagesHash
+  ) {
+    throw new Error('Chat archive does not match the messages committed on-chain');
+  }
+
+  return archive.messages;
+};
+
 
 export const getObjectExplorerLink = (id: string): React.ReactElement => {
   return React.createElement(
@@ -0,0 +1,161 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  ChatCipherContext,
+  TamperedCiphertextError,
+  decodeFileEnvelope,
+  decryptFileData,
+  decryptMessage,
+  encodeFileEnvelope,
+  encryptFileData,
+  encryptMessage,
+} from '../src/utils';
+
+const key = new Uint8Array(32).fill(7);
+
+const context: ChatCipherContext = {
+  advertisementId: `0x${'a'.repeat(64)}`,
+  interactionUser: `0x${'b'.repeat(64)}`,
+  interactionId: 0,
+  sender: `0x${'c'.repeat(64)}`,
+  seq: 3,
+};
+
+const metadata = { filename: 'photo', extension: 'png', type: 'image/png', size: 4 };
+const payload = new Uint8Array([1, 2, 3, 4]);
+
+// Offset of the little-endian header length in a file envelope, after the magic and the version
+const HEADER_LENGTH_OFFSET = 5;
+
+// Encrypt the way clients did before the envelope: IV + ciphertext with no associated data
+const encryptLegacy = async (plaintext: Uint8Array): Promise<Uint8Array> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'AES-GCM' }, false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, new Uint8Array(plaintext)));
+  const result = new Uint8Array(iv.length + ciphertext.length);
+  result.set(iv);
+  result.set(ciphertext, iv.length);
+  return result;
+};
+
+const setHeaderLength = (envelope: Uint8Array, length: number): Uint8Array => {
+  const copy = envelope.slice();
+  new DataView(copy.buffer).setUint32(HEADER_LENGTH_OFFSET, length, true);
+  return copy;
+};
+
+const getHeaderLength = (envelope: Uint8Array): number =>
+  new DataView(envelope.buffer, envelope.byteOffset).getUint32(HEADER_LENGTH_OFFSET, true);
+
+describe('chat message envelope', () => {
+  it('decrypts a message for the context it was written for', async () => {
+    const encrypted = await encryptMessage('hello', key, context);
+
+    await expect(decryptMessage(encrypted, key, context)).resolves.toEqual({ text: 'hello', unverified: false });
+  });
+
+  it('rejects a message attached to another sequence number', async () => {
+    const encrypted = await encryptMessage('hello', key, context);
+
+    await expect(decryptMessage(encrypted, key, { ...context, seq: context.seq + 1 })).rejects.toBeInstanceOf(
+      TamperedCiphertextError
+    );
+  });
+
+  it('rejects a message attached to another interaction', async () => {
+    const encrypted = await encryptMessage('hello', key, context);
+
+    await expect(decryptMessage(encrypted, key, { ...context, interactionId: 1 })).rejects.toBeInstanceOf(
+      TamperedCiphertextError
+    );
+  });
+
+  it('reads a message sent before the envelope as unverified', async () => {
+    const legacy = await encryptLegacy(new TextEncoder().encode('hello'));
+
+    await expect(decryptMessage(btoa(String.fromCharCode(...legacy)), key, context)).resolves.toEqual({
+      text: 'hello',
+      unverified: true,
+    });
+  });
+});
+
+describe('file envelope', () => {
+  it('round-trips a file with its metadata and thumbnail', async () => {
+    const thumbnail = { data: new Uint8Array([9, 9]), type: 'image/jpeg' };
+    const encrypted = await encryptFileData(payload, key, context, metadata, thumbnail);
+
+    await expect(decryptFileData(encrypted, key, context)).resolves.toEqual({
+      data: payload,
+      metadata,
+      thumbnail,
+      unverified: false,
+    });
+  });
+
+  it('rejects a file attached to another message', async () => {
+    const encrypted = await encryptFileData(payload, key, context, metadata);
+
+    await expect(decryptFileData(encrypted, key, { ...context, sender: context.interactionUser })).rejects.toBeInstanceOf(
+      TamperedCiphertextError
+    );
+  });
+
+  it('rejects a header length past the end of the envelope', async () => {
+    const envelope = await encodeFileEnvelope(payload, metadata);
+
+    await expect(decodeFileEnvelope(setHeaderLength(envelope, 0xffffffff))).rejects.toThrow(
+      'File envelope header exceeds the envelope'
+    );
+  });
+
+  it('rejects a truncated header length', async () => {
+    const envelope = await encodeFileEnvelope(payload, metadata);
+
+    await expect(decodeFileEnvelope(setHeaderLength(envelope, getHeaderLength(envelope) - 1))).rejects.toThrow(
+      'File envelope header is malformed'
+    );
+  });
+
+  it('rejects a truncated payload', async () => {
+    const envelope = await encodeFileEnvelope(payload, metadata);
+
+    await expect(decodeFileEnvelope(envelope.slice(0, -1))).rejects.toThrow(
+      'File envelope sizes do not match its content'
+    );
+  });
+
+  it('rejects a payload that does not match its hash', async () => {
+    const envelope = await encodeFileEnvelope(payload, metadata);
+    envelope[envelope.length - 1] ^= 0xff;
+
+    await expect(decodeFileEnvelope(envelope)).rejects.toThrow('File content does not match its hash');
+  });
+
+  it('leaves bytes without the magic to the legacy reader', async () => {
+    await expect(decodeFileEnvelope(payload)).resolves.toBeNull();
+  });
+
+  it('reads a file with metadata sent before the envelope as unverified', async () => {
+    const metadataBytes = new TextEncoder().encode(JSON.stringify(metadata));
+    const legacyFile = new Uint8Array(4 + metadataBytes.length + payload.length);
+    new DataView(legacyFile.buffer).setUint32(0, metadataBytes.length, true);
+    legacyFile.set(metadataBytes, 4);
+    legacyFile.set(payload, 4 + metadataBytes.length);
+
+    await expect(decryptFileData(await encryptLegacy(legacyFile), key, context)).resolves.toEqual({
+      data: payload,
+      metadata,
+      unverified: true,
+    });
+  });
+
+  it('reads a bare image sent before the envelope, typed from its content', async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+
+    const file = await decryptFileData(await encryptLegacy(png), key, context);
+
+    expect(file.data).toEqual(png);
+    expect(file.metadata.type).toBe('image/png');
+    expect(file.unverified).toBe(true);
+  });
+});
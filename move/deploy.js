@@ -42,8 +42,8 @@ async function publish(cliPath, packagePath) {
     // Lookup this transaction block by digest
     const effects = await client.getTransactionBlock({
         digest: result.digest,
-        // only fetch the effects field
-        options: { showEffects: true },
+        // fetch the effects and object changes to find the objects created by init
+        options: { showEffects: true, showObjectChanges: true },
     });
 
     // Find the right transaction which created the contract
@@ -70,7 +70,34 @@ async function publish(cliPath, packagePath) {
     
     fs.writeFileSync(networkConfigPath, networkConfig);
     console.log('Package ID updated in frontend networkConfig.ts!');
-    
+
+    // The admin and stats registries are created by the module init function during publish
+    const initObjects = [
+        { type: 'AdminRegistry', constant: 'TESTNET_ADMIN_REGISTRY_ID' },
+        { type: 'StatsRegistry', constant: 'TESTNET_STATS_REGISTRY_ID' },
+    ];
+
+    for (const { type, constant } of initObjects) {
+        const createdObj = effects.objectChanges?.find(
+            change => change.type === 'created' && change.objectType === `${package_id}::marketplace::${type}`
+        );
+
+        if (!createdObj) {
+            console.error(`Failed to find ${type} object in publish transaction`);
+            continue;
+        }
+
+        console.log(`${type} ID:`, createdObj.objectId);
+
+        networkConfig = networkConfig.replace(
+            new RegExp(`${constant} = '0x[a-fA-F0-9]+'|${constant} = '0xTODO'`),
+            `${constant} = '${createdObj.objectId}'`
+        );
+
+        fs.writeFileSync(networkConfigPath, networkConfig);
+        console.log(`${type} ID updated in frontend constants.ts!`);
+    }
+
     // Initialize the advertisement registry
     console.log('Initializing advertisement registry...');
     const initTx = new Transaction();
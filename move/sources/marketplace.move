@@ -5,10 +5,15 @@ module trust::marketplace {
     use std::string::String;
     use std::vector;
     use std::option::{Self, Option};
-    use sui::{clock::Clock, coin::{Self, Coin}, dynamic_field as df, random::{Self, Random, RandomGenerator}, sui::SUI, table::{Self, Table}, object::{Self, ID, UID}, transfer, tx_context::{Self, TxContext}};
+    use sui::{clock::Clock, coin::{Self, Coin}, balance::{Self, Balance}, bag::{Self, Bag}, vec_map::{Self, VecMap}, dynamic_field as df, random::{Self, Random, RandomGenerator}, sui::SUI, table::{Self, Table}, linked_table::{Self, LinkedTable}, object::{Self, ID, UID}, transfer, tx_context::{Self, TxContext}};
     use trust::utils::is_prefix;
     use std::vector::append;
     use sui::bcs::{to_bytes};
+    use sui::hash::blake2b256;
+    use std::hash::sha2_256;
+    use sui::event;
+    use std::type_name::{Self, TypeName};
+    use std::ascii;
 
     const EInvalidCap: u64 = 0;
     const EInvalidAmount: u64 = 1;
@@ -20,6 +25,34 @@ module trust::marketplace {
     const EInteractionNotFound: u64 = 7;
     const EAlreadyJoined: u64 = 8;
     const EEmptyAdminList: u64 = 9;
+    const EInvalidResolution: u64 = 10;
+    const EAdminAlreadyRegistered: u64 = 11;
+    const EAdminNotRegistered: u64 = 12;
+    const EAdminAlreadySuspended: u64 = 13;
+    const EAdminNotSuspended: u64 = 14;
+    const EAlreadyReviewed: u64 = 15;
+    const EAdvertisementNotActive: u64 = 16;
+    const EAdvertisementClosed: u64 = 17;
+    const EInvalidDeadline: u64 = 18;
+    const EDeadlineNotReached: u64 = 19;
+    const EInvalidMilestone: u64 = 20;
+    const EInvalidSplit: u64 = 21;
+    const EInvalidJurySize: u64 = 22;
+    const EAppealWindowClosed: u64 = 23;
+    const EAppealLimitReached: u64 = 24;
+    const EInvalidFee: u64 = 25;
+    const EInvalidKind: u64 = 26;
+    const EInsufficientBudget: u64 = 27;
+    const EOfferNotFound: u64 = 28;
+    const EOfferExpired: u64 = 29;
+    const EImageNotFound: u64 = 30;
+    const EInvalidImages: u64 = 31;
+    const EInvalidTags: u64 = 32;
+    const EChatArchived: u64 = 33;
+    const EInvalidArchive: u64 = 34;
+    const ESequenceMismatch: u64 = 35;
+    const ETermsChanged: u64 = 36;
+    const EOfferLimitReached: u64 = 37;
 
     // Advertisement states
     const STATE_AVAILABLE: u8 = 0;
@@ -32,6 +65,45 @@ module trust::marketplace {
     const INTERACTION_SELLER_COMPLETED: u8 = 1;
     const INTERACTION_BUYER_APPROVED: u8 = 2;
     const INTERACTION_DISPUTED: u8 = 3;
+    const INTERACTION_RESOLVED: u8 = 4;
+    const INTERACTION_CANCELLED: u8 = 5;
+
+    // Advertisement kinds
+    const AD_KIND_SELL: u8 = 0; // The advertiser provides the work and responders pay for it
+    const AD_KIND_BUY: u8 = 1; // The advertiser pays for the work out of the budget and responders provide it
+
+    // Offer statuses
+    const OFFER_PENDING: u8 = 0; // Waiting on the creator
+    const OFFER_COUNTERED: u8 = 1; // Waiting on the user who made the offer
+    const OFFER_ACCEPTED: u8 = 2; // The user can join at the agreed amount until the offer expires
+    const OFFER_REJECTED: u8 = 3;
+    const OFFER_TAKEN: u8 = 4; // The user joined at the agreed amount
+
+    // Time the other side has to answer an offer, and the user to join once it is accepted (3 days)
+    const OFFER_VALIDITY_MS: u64 = 259_200_000;
+
+    // Number of offer slots of an advertisement, a slot is reused once its offer is closed or expired
+    const MAX_OFFERS: u64 = 50;
+
+    // Number of images a listing can show in its gallery
+    const MAX_IMAGES: u64 = 10;
+
+    // Free-form tags of a listing, the category comes from the frontend's taxonomy
+    const MAX_TAGS: u64 = 8;
+    const MAX_TAG_LENGTH: u64 = 32;
+
+    // Messages deleted per transaction when a chat is archived, keeps within the dynamic field access limit
+    const MAX_CHAT_REMOVALS: u64 = 500;
+
+    // Listing statuses (set by the holder of the MarketplaceCap)
+    const LISTING_ACTIVE: u8 = 0;
+    const LISTING_PAUSED: u8 = 1;
+    const LISTING_CLOSED: u8 = 2;
+
+    // Milestone states
+    const MILESTONE_PENDING: u8 = 0;
+    const MILESTONE_COMPLETED: u8 = 1;
+    const MILESTONE_RELEASED: u8 = 2;
 
     // Resolution types
     const RESOLUTION_PEACEFUL: u8 = 0;
@@ -39,53 +111,204 @@ module trust::marketplace {
     const RESOLUTION_ADMIN_SELLER: u8 = 2;
     const RESOLUTION_ADMIN_SPLIT: u8 = 3;
 
+    // Split shares are expressed in basis points of the escrow
+    const BPS_DENOMINATOR: u64 = 10_000;
+
+    // Number of admins drawn for a high-value dispute until governance changes it
+    const DEFAULT_JURY_SIZE: u64 = 3;
+
+    // Time the assigned admin has to decide a dispute before anyone can have it reassigned (7 days)
+    const ADMIN_RESPONSE_WINDOW_MS: u64 = 604_800_000;
+
+    // Time the parties have to appeal a decision before it can be finalized (3 days)
+    const APPEAL_WINDOW_MS: u64 = 259_200_000;
+
+    // Bond posted with an appeal, in basis points of the escrow
+    const APPEAL_BOND_BPS: u64 = 500;
+
+    // Floor of the appeal bond for SUI escrows until governance changes it (0.5 SUI), so appeals on small deals
+    // are not free; coins without a configured floor pay at least one base unit
+    const DEFAULT_MIN_APPEAL_BOND_SUI: u64 = 500_000_000;
+
+    // Number of times a dispute can be appealed, the decision after the last appeal is final
+    const MAX_APPEALS: u64 = 1;
+
+    // Fees charged until the treasury cap holder changes them, in basis points
+    const DEFAULT_PLATFORM_FEE_BPS: u64 = 100;
+    const DEFAULT_ARBITRATION_FEE_BPS: u64 = 200;
+
+    // Upper bound of both fees, in basis points
+    const MAX_FEE_BPS: u64 = 1_000;
+
+    // Escalation kinds
+    const ESCALATION_APPEAL: u8 = 0;
+    const ESCALATION_INACTIVE_ADMIN: u8 = 1;
+
 /// Registry to keep track of all statistics and reputation of users
+/// Created once at publish, so there is exactly one canonical instance
 public struct StatsRegistry has key {
     id: UID,
-    advertisements: vector<ID>, // Vector of advertisement IDs
-    // In production, a smart table based indexing would be used to avoid overflow
+    reputations: Table<address, UserReputation>, // Reputation of every user who finished a deal
+    reviews: Table<address, vector<Review>>, // Reviews received by every user
 }
 
 /// Registry to keep track of all advertisements
 public struct AdvertisementRegistry has key {
     id: UID,
-    advertisements: vector<ID>, // Vector of advertisement IDs
-    // In production, a smart table based indexing would be used to avoid overflow
+    advertisements: LinkedTable<ID, address>, // Advertisement ID -> creator, in creation order
+}
+
+/// Registry of admins eligible to arbitrate disputes
+/// Created once at publish, so there is exactly one canonical instance
+public struct AdminRegistry has key {
+    id: UID,
+    admins: vector<address>, // All registered admins
+    suspended: vector<address>, // Registered admins temporarily excluded from assignment
+    jury_size: u64, // Odd number of admins drawn for escrows at or above the jury threshold
+    jury_thresholds: VecMap<TypeName, u64>, // Coin type -> escrow amount from which a jury is drawn
+    min_appeal_bonds: VecMap<TypeName, u64>, // Coin type -> smallest bond an appeal posts
+}
+
+/// Capability to manage the admin registry, sent to the publisher
+public struct AdminGovernanceCap has key, store {
+    id: UID,
+}
+
+/// Fees collected by the platform, one balance per coin type
+/// Created once at publish, so there is exactly one canonical instance
+public struct Treasury has key {
+    id: UID,
+    fee_bps: u64, // Platform fee kept from every payment to a seller
+    arbitration_fee_bps: u64, // Share of a disputed escrow paid to the admins who resolve it
+    balances: Bag, // Coin type -> Balance of collected fees
 }
 
-public struct UserProfile has store {
+/// Capability to change the fees and withdraw from the treasury, sent to the publisher
+public struct PlatformTreasuryCap has key, store {
+    id: UID,
+}
+
+public struct UserProfile<phantom T> has store {
     user: address,
-    interactions: vector<Interaction>,
+    interactions: vector<Interaction<T>>,
 }
 
-public struct Advertisement has key {
+/// Advertisement paid in coin type T, every deal escrows a Coin<T>
+public struct Advertisement<phantom T> has key {
     id: UID,
     creator: address,
+    kind: u8, // AD_KIND_SELL or AD_KIND_BUY, decides which side of a deal the creator is on
+    version: u64, // Version of the terms below, incremented by every edit
     title: String,
     description: String,
+    category: String, // Category ID from the frontend's taxonomy, e.g. "development.web"
+    tags: vector<String>, // Free-form search keywords, at most MAX_TAGS
     amount: u64,
     created_at: u64,
+    status: u8, // LISTING_ACTIVE, LISTING_PAUSED or LISTING_CLOSED, only active listings can be joined
+    delivery_window_ms: u64, // Time the seller has to deliver after a buyer joins
+    review_window_ms: u64, // Time the buyer has to approve or dispute after delivery
+    milestones: vector<Milestone>, // Empty for a lump sum deal, otherwise the amounts add up to amount
+    budget: Balance<T>, // Funds of a buy advertisement, every responder's escrow is taken from it
+    offers: vector<Offer>, // Price negotiations with users who have not joined yet, at most MAX_OFFERS
+    images: vector<String>, // Walrus blob IDs of the public listing images, in gallery order
 
     // Table mapping user address to their profile containing interactions
-    user_profiles: Table<address, UserProfile>,
+    user_profiles: Table<address, UserProfile<T>>,
+}
+
+/// Part of a deal that is delivered and paid separately
+public struct Milestone has store, copy, drop {
+    description: String,
+    amount: u64,
+}
+
+/// Terms of an advertisement at one version, every deal keeps the terms it was joined under
+public struct Terms has store, copy, drop {
+    version: u64,
+    title: String,
+    description: String,
+    amount: u64, // Listed amount, the deal's price can differ after an accepted offer
+    delivery_window_ms: u64,
+    review_window_ms: u64,
+    milestones: vector<Milestone>,
+}
+
+/// Price proposed by a user instead of the listed amount, negotiated with the creator before joining
+public struct Offer has store, copy, drop {
+    id: u64, // Index in the advertisement's offers
+    user: address, // Made the offer and joins at the agreed amount
+    amount: u64,
+    message: String, // Left by whoever proposed the current amount
+    status: u8,
+    created_at: u64,
+    expires_at: u64, // Deadline of the side whose turn it is, or of the user to join once accepted
 }
 
-public struct Interaction has store {
+public struct Interaction<phantom T> has store {
     id: u64,  // Unique identifier within a user's interactions
     user: address,
     joined_at: u64,
-    payment: Coin<SUI>,  // Embedded escrow payment
-    seller: address,
+    amount: u64, // Agreed price: the listed amount or the amount of an accepted offer
+    terms: Terms, // Snapshot of the advertisement when the user joined, later edits don't change the deal
+    terms_hash: vector<u8>, // blake2b256 of the BCS encoded terms
+    payment: Coin<T>,  // Embedded escrow payment, holds what has not been released yet
+    released_amount: u64, // Already paid out to the seller through milestone releases
+    milestone_states: vector<u8>, // MILESTONE_* state of each milestone of the advertisement
+    buyer: address, // Pays the escrow: the user of a sell advertisement, the creator of a buy advertisement
+    seller: address, // Gets paid: the creator of a sell advertisement, the user of a buy advertisement
     assigned_admin: address,
-    chat_messages: vector<ChatMessage>,
+    jurors: vector<address>, // Admins voting on a high-value dispute, empty when assigned_admin decides alone
+    jury_votes: vector<JuryVote>, // Latest vote of every juror who voted
+    chat_id: ID, // ChatRoom holding the messages of this interaction
+    chat_archive_blob_id: Option<String>, // Walrus blob holding the messages once the chat is archived
+    chat_archive_hash: vector<u8>, // sha256 of the archive blob, empty until the chat is archived
     chat_ephemeral_key_encrypted: vector<u8>,
     state: u8,
+    deadline: u64, // End of the current phase: delivery while JOINED, review while SELLER_COMPLETED, decision or appeal while DISPUTED
+    resolution: Option<u8>, // Set by the assigned admin when a dispute is resolved
+    proposed_share_bps: Option<u64>, // Decision of the assigned admin that can still be appealed until the deadline
+    escalations: vector<Escalation>, // Appeals and inactive admin replacements, oldest first
+    appeal_bond: Coin<T>, // Bond of a pending appeal, settled with the dispute
+    buyer_payout: u64, // Escrow returned to the buyer by the dispute resolution
+    seller_payout: u64, // Escrow paid to the seller by the dispute resolution
+    cancel_requested: bool, // Buyer asked the seller to cancel and refund before work started
+    buyer_reviewed: bool, // Buyer has reviewed the seller for this interaction
+    seller_reviewed: bool, // Seller has reviewed the buyer for this interaction
+}
+
+/// Buyer share a juror votes for, in basis points of the escrow
+public struct JuryVote has store, copy, drop {
+    juror: address,
+    buyer_share_bps: u64,
+}
+
+/// Handover of a dispute to a freshly drawn admin
+public struct Escalation has store, copy, drop {
+    kind: u8, // ESCALATION_APPEAL or ESCALATION_INACTIVE_ADMIN
+    previous_admin: address,
+    new_admin: address,
+    initiated_by: address,
+    appealed_share_bps: u64, // Decision the appeal was filed against, 0 for a replacement
+    bond: u64,
+    timestamp: u64,
 }
 
-public struct ChatMessage has key, store {
+/// Messages of one interaction, kept out of the shared advertisement so chats don't contend with deals
+public struct ChatRoom has key {
     id: UID,
     advertisement_id: ID,
     interaction_user: address,
+    interaction_id: u64,
+    messages: Table<u64, ChatMessage>, // Keyed by sequence number
+    next_seq: u64, // Sequence number of the next message, also the number of messages sent
+    messages_hash: vector<u8>, // Running sha256 over every message sent, commits to the full history
+}
+
+public struct ChatMessage has store, drop {
+    seq: u64, // Position in the chat room, starting at 0
+    advertisement_id: ID,
+    interaction_user: address,
     interaction_id: u64,  // Added to identify which interaction this message belongs to
     sender: address,
     timestamp: u64,
@@ -93,12 +316,11 @@ public struct ChatMessage has key, store {
     message_blob_id: Option<String>,
 }
 
-public struct UserReputation has key {
-    id: UID,
+public struct UserReputation has store {
     user: address,
     rating_sum: u64,
     rating_count: u64,
-    total_volume: u64,
+    total_volume: u64, // In MIST, deals paid in other coins are not counted
     total_deals: u64,
     peaceful_resolutions: u64,
     disputed_deals: u64,
@@ -106,9 +328,10 @@ public struct UserReputation has key {
     last_active: u64,
 }
 
-public struct Review has key {
-    id: UID,
-    transaction_id: ID,
+public struct Review has store {
+    transaction_id: ID, // Advertisement the reviewed deal belongs to
+    interaction_user: address,
+    interaction_id: u64,
     reviewer: address,
     reviewed: address,
     rating: u64,
@@ -122,6 +345,229 @@ public struct MarketplaceCap has key {
     advertisement_id: ID,
 }
 
+    //////////////////////////////////////////
+    /////// Events
+
+public struct AdvertisementCreated has copy, drop {
+    advertisement_id: ID,
+    creator: address,
+    kind: u8,
+    title: String,
+    coin_type: ascii::String, // Fully qualified coin type the advertisement is paid in
+    amount: u64,
+    created_at: u64,
+}
+
+public struct InteractionJoined has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    buyer: address,
+    seller: address,
+    interaction_id: u64,
+    amount: u64,
+    terms_version: u64,
+    assigned_admin: address,
+    jurors: vector<address>,
+    joined_at: u64,
+    deadline: u64,
+}
+
+public struct MarkedCompleted has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    deadline: u64,
+}
+
+public struct PaymentReleased has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    seller: address,
+    interaction_id: u64,
+    amount: u64,
+    fee: u64, // Platform fee kept from amount
+}
+
+public struct MilestoneCompleted has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    milestone_index: u64,
+}
+
+public struct MilestoneReleased has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    seller: address,
+    interaction_id: u64,
+    milestone_index: u64,
+    amount: u64,
+    fee: u64, // Platform fee kept from amount
+    remaining: u64, // Escrow left after the release, the deal is finished once it reaches zero
+}
+
+public struct Disputed has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    disputed_by: address,
+    assigned_admin: address,
+    deadline: u64, // Assigned admin has to decide by then
+}
+
+public struct ChatMessageAdded has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    seq: u64,
+    sender: address,
+    timestamp: u64,
+}
+
+public struct ChatArchived has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    blob_id: String,
+    message_count: u64,
+}
+
+public struct AdvertisementEdited has copy, drop {
+    advertisement_id: ID,
+    version: u64,
+    title: String,
+    amount: u64,
+}
+
+public struct AdvertisementStatusChanged has copy, drop {
+    advertisement_id: ID,
+    status: u8,
+}
+
+public struct AdvertisementImagesChanged has copy, drop {
+    advertisement_id: ID,
+    images: vector<String>, // Blob IDs in gallery order after the change
+}
+
+public struct BudgetChanged has copy, drop {
+    advertisement_id: ID,
+    budget: u64, // Funds left for new deals after the change
+}
+
+public struct OfferUpdated has copy, drop {
+    advertisement_id: ID,
+    offer_id: u64,
+    user: address,
+    amount: u64,
+    status: u8,
+    expires_at: u64,
+}
+
+public struct CancellationRequested has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+}
+
+public struct InteractionCancelled has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    amount: u64,
+}
+
+public struct JuryVoteCast has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    juror: address,
+    buyer_share_bps: u64,
+}
+
+public struct ResolutionProposed has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    buyer_share_bps: u64,
+    assigned_admin: address,
+    appeal_deadline: u64,
+}
+
+public struct DisputeEscalated has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    kind: u8,
+    previous_admin: address,
+    new_admin: address,
+    initiated_by: address,
+    bond: u64,
+    deadline: u64, // New admin has to decide by then
+}
+
+public struct AppealBondSettled has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    recipient: address, // The appellant if the appeal changed the decision in their favour or the buyer released the escrow, the other party otherwise
+    amount: u64,
+}
+
+public struct Resolved has copy, drop {
+    advertisement_id: ID,
+    user: address,
+    interaction_id: u64,
+    resolution: u8,
+    buyer_share_bps: u64,
+    buyer_amount: u64, // Net of the arbitration fee
+    seller_amount: u64, // Net of the arbitration and platform fees
+    arbitration_fee: u64,
+    platform_fee: u64,
+    assigned_admin: address,
+}
+
+    //////////////////////////////////////////
+    /////// Module Initialization
+
+/// Create the admin and stats registries and the treasury, and hand their caps to the publisher
+fun init(ctx: &mut TxContext) {
+    let mut admin_registry = AdminRegistry {
+        id: object::new(ctx),
+        admins: vector::empty(),
+        suspended: vector::empty(),
+        jury_size: DEFAULT_JURY_SIZE,
+        jury_thresholds: vec_map::empty(),
+        min_appeal_bonds: vec_map::empty(),
+    };
+    vec_map::insert(&mut admin_registry.min_appeal_bonds, type_name::get<SUI>(), DEFAULT_MIN_APPEAL_BOND_SUI);
+    transfer::share_object(admin_registry);
+
+    let cap = AdminGovernanceCap {
+        id: object::new(ctx),
+    };
+    transfer::transfer(cap, ctx.sender());
+
+    let stats_registry = StatsRegistry {
+        id: object::new(ctx),
+        reputations: table::new(ctx),
+        reviews: table::new(ctx),
+    };
+    transfer::share_object(stats_registry);
+
+    let treasury = Treasury {
+        id: object::new(ctx),
+        fee_bps: DEFAULT_PLATFORM_FEE_BPS,
+        arbitration_fee_bps: DEFAULT_ARBITRATION_FEE_BPS,
+        balances: bag::new(ctx),
+    };
+    transfer::share_object(treasury);
+
+    let treasury_cap = PlatformTreasuryCap {
+        id: object::new(ctx),
+    };
+    transfer::transfer(treasury_cap, ctx.sender());
+}
+
     //////////////////////////////////////////
     /////// Advertisement Registry Management
 
@@ -130,48 +576,117 @@ public struct MarketplaceCap has key {
 public fun initialize_registry(ctx: &mut TxContext) {
     let registry = AdvertisementRegistry {
         id: object::new(ctx),
-        advertisements: vector::empty(),
+        advertisements: linked_table::new(ctx),
     };
     
     transfer::share_object(registry);
 }
 
 /// Add an advertisement to the registry
-public fun add_to_registry(registry: &mut AdvertisementRegistry, advertisement_id: ID) {
-    vector::push_back(&mut registry.advertisements, advertisement_id);
+fun add_to_registry(registry: &mut AdvertisementRegistry, advertisement_id: ID, creator: address) {
+    linked_table::push_back(&mut registry.advertisements, advertisement_id, creator);
+}
+
+/// Get the number of advertisements in the registry
+public fun advertisement_count(registry: &AdvertisementRegistry): u64 {
+    linked_table::length(&registry.advertisements)
 }
 
-/// Get all advertisement IDs from the registry
-public fun get_all_advertisements(registry: &AdvertisementRegistry): vector<ID> {
-    registry.advertisements
+/// Get a page of advertisement IDs, newest first
+/// Pass `option::none()` as cursor for the first page and the returned cursor for the next one
+/// The returned cursor is `none` once the oldest advertisement has been returned
+public fun get_advertisements_page(
+    registry: &AdvertisementRegistry,
+    cursor: Option<ID>,
+    limit: u64
+): (vector<ID>, Option<ID>) {
+    let mut page = vector::empty<ID>();
+    let mut current = if (option::is_some(&cursor)) {
+        cursor
+    } else {
+        *linked_table::back(&registry.advertisements)
+    };
+
+    while (option::is_some(&current) && vector::length(&page) < limit) {
+        let advertisement_id = *option::borrow(&current);
+        vector::push_back(&mut page, advertisement_id);
+        current = *linked_table::prev(&registry.advertisements, advertisement_id);
+    };
+
+    (page, current)
 }
 
     //////////////////////////////////////////
     /////// Advertisement Management
 
-/// Create a new advertisement
-public fun create_advertisement(
+/// Create a new advertisement paid in coin type T
+/// Pass empty milestone vectors for a lump sum deal
+/// A buy advertisement is funded with a budget covering at least one deal, a sell advertisement with a zero coin
+public fun create_advertisement<T>(
     registry: &mut AdvertisementRegistry,
+    kind: u8,
+    budget: Coin<T>,
     title: String,
     description: String,
+    category: String,
+    tags: vector<String>,
     amount: u64,
+    delivery_window_ms: u64,
+    review_window_ms: u64,
+    milestone_descriptions: vector<String>,
+    milestone_amounts: vector<u64>,
     c: &Clock,
     ctx: &mut TxContext
 ): MarketplaceCap {
-    let advertisement = Advertisement {
+    // Verify both deadlines are set, otherwise an escrow could stall forever
+    assert!(delivery_window_ms > 0 && review_window_ms > 0, EInvalidDeadline);
+
+    // Verify only a buy advertisement holds funds, and enough for its first deal
+    assert!(kind == AD_KIND_SELL || kind == AD_KIND_BUY, EInvalidKind);
+    if (kind == AD_KIND_SELL) {
+        assert!(coin::value(&budget) == 0, EInvalidAmount);
+    } else {
+        assert!(coin::value(&budget) >= amount, EInsufficientBudget);
+    };
+
+    let milestones = build_milestones(milestone_descriptions, milestone_amounts, amount);
+    validate_tags(&tags);
+
+    let advertisement = Advertisement<T> {
         id: object::new(ctx),
         creator: ctx.sender(),
+        kind,
+        version: 1,
         title,
         description,
+        category,
+        tags,
         amount,
         created_at: c.timestamp_ms(),
+        status: LISTING_ACTIVE,
+        delivery_window_ms,
+        review_window_ms,
+        milestones,
+        budget: coin::into_balance(budget),
+        offers: vector::empty(),
+        images: vector::empty(),
         user_profiles: table::new(ctx), // Initialize empty table
     };
     
     let advertisement_id = object::id(&advertisement);
     
     // Add the advertisement to the registry
-    add_to_registry(registry, advertisement_id);
+    add_to_registry(registry, advertisement_id, ctx.sender());
+
+    event::emit(AdvertisementCreated {
+        advertisement_id,
+        creator: advertisement.creator,
+        kind,
+        title: advertisement.title,
+        coin_type: type_name::get<T>().into_string(),
+        amount,
+        created_at: advertisement.created_at,
+    });
     
     let cap = MarketplaceCap {
         id: object::new(ctx),
@@ -183,78 +698,647 @@ public fun create_advertisement(
 }
 
     // Convenience function to create an advertisement and send the cap to the sender
-    entry fun create_advertisement_entry(
+    entry fun create_advertisement_entry<T>(
         registry: &mut AdvertisementRegistry,
+        kind: u8,
+        budget: Coin<T>,
         title: String,
         description: String,
+        category: String,
+        tags: vector<String>,
         amount: u64,
+        delivery_window_ms: u64,
+        review_window_ms: u64,
+        milestone_descriptions: vector<String>,
+        milestone_amounts: vector<u64>,
         c: &Clock,
         ctx: &mut TxContext
     ) {
-        transfer::transfer(create_advertisement(registry, title, description, amount, c, ctx), ctx.sender());
+        let cap = create_advertisement<T>(
+            registry,
+            kind,
+            budget,
+            title,
+            description,
+            category,
+            tags,
+            amount,
+            delivery_window_ms,
+            review_window_ms,
+            milestone_descriptions,
+            milestone_amounts,
+            c,
+            ctx
+        );
+        transfer::transfer(cap, ctx.sender());
     }
 
-/// Join an advertisement and lock funds in escrow
-entry fun join_advertisement_entry(
-    advertisement: &mut Advertisement,
-    payment: Coin<SUI>,
-    chat_ephemeral_key_encrypted: vector<u8>,
-    c: &Clock,
-    r: &Random,
-    ctx: &mut TxContext
-) {
-    let sender = ctx.sender();
-    
-    // Verify payment amount matches advertisement amount
-    assert!(coin::value(&payment) == advertisement.amount, EInvalidAmount);
-    
-    // Check if user already has a profile
-    if (table::contains(&advertisement.user_profiles, sender)) {
-        let profile = table::borrow(&advertisement.user_profiles, sender);
-        
-        // Check if user has any interactions
-        if (!vector::is_empty(&profile.interactions)) {
-            // Get the last interaction
-            let last_interaction = vector::borrow(&profile.interactions, vector::length(&profile.interactions) - 1);
-            
-            // Verify last interaction is completed
-            assert!(last_interaction.state == INTERACTION_BUYER_APPROVED, EInvalidState);
-        }
-    };
-    
-    // Select a random admin
-    let assigned_admin = select_random_admin(r, ctx);
-    
-    // Create a new interaction with embedded payment
-    let interaction = Interaction {
-        id: get_next_interaction_id(advertisement, sender),
-        user: sender,
-        joined_at: c.timestamp_ms(),
-        payment,
-        seller: advertisement.creator,
-        assigned_admin,
-        state: INTERACTION_JOINED,
-        chat_messages: vector::empty(),
-        chat_ephemeral_key_encrypted,
+/// Build the milestones of an advertisement and verify they add up to its amount
+fun build_milestones(descriptions: vector<String>, amounts: vector<u64>, amount: u64): vector<Milestone> {
+    assert!(vector::length(&descriptions) == vector::length(&amounts), EInvalidMilestone);
+
+    let mut milestones = vector::empty();
+    let mut total = 0;
+    let mut i = 0;
+    while (i < vector::length(&amounts)) {
+        let milestone_amount = *vector::borrow(&amounts, i);
+        assert!(milestone_amount > 0, EInvalidMilestone);
+        total = total + milestone_amount;
+        vector::push_back(&mut milestones, Milestone {
+            description: *vector::borrow(&descriptions, i),
+            amount: milestone_amount,
+        });
+        i = i + 1;
     };
-    
-    // Add to user profile
-    if (!table::contains(&mut advertisement.user_profiles, sender)) {
-        // Create new profile if it doesn't exist
-        let profile = UserProfile {
-            user: sender,
-            interactions: vector::empty(),
-        };
-        table::add(&mut advertisement.user_profiles, sender, profile);
+
+    // A single lump sum needs no milestones
+    assert!(vector::is_empty(&milestones) || total == amount, EInvalidMilestone);
+    milestones
+}
+
+fun validate_tags(tags: &vector<String>) {
+    assert!(vector::length(tags) <= MAX_TAGS, EInvalidTags);
+
+    let mut i = 0;
+    while (i < vector::length(tags)) {
+        let length = vector::borrow(tags, i).length();
+        assert!(length > 0 && length <= MAX_TAG_LENGTH, EInvalidTags);
+        i = i + 1;
     };
-    
-    // Get the profile and add the new interaction
-    let profile = table::borrow_mut(&mut advertisement.user_profiles, sender);
-    vector::push_back(&mut profile.interactions, interaction);
+}
+
+/// Temporarily stop accepting new deals, running deals are not affected
+public fun pause_advertisement<T>(advertisement: &mut Advertisement<T>, cap: &MarketplaceCap) {
+    assert!(cap.advertisement_id == object::id(advertisement), EInvalidCap);
+    assert!(advertisement.status == LISTING_ACTIVE, EAdvertisementNotActive);
+    set_status(advertisement, LISTING_PAUSED);
+}
+
+/// Accept new deals again after a pause
+public fun resume_advertisement<T>(advertisement: &mut Advertisement<T>, cap: &MarketplaceCap) {
+    assert!(cap.advertisement_id == object::id(advertisement), EInvalidCap);
+    assert!(advertisement.status == LISTING_PAUSED, EInvalidState);
+    set_status(advertisement, LISTING_ACTIVE);
+}
+
+/// Close the listing for good
+/// Running deals can still be finished, disputed or refunded, so the listing stays in the registry
+/// where parties and admins find them; browsing skips closed listings
+public fun close_advertisement<T>(advertisement: &mut Advertisement<T>, cap: &MarketplaceCap) {
+    assert!(cap.advertisement_id == object::id(advertisement), EInvalidCap);
+    assert!(advertisement.status != LISTING_CLOSED, EAdvertisementClosed);
+    set_status(advertisement, LISTING_CLOSED);
+}
+
+/// Change the terms of a listing, deals already joined keep the terms they were joined under
+/// Pass empty milestone vectors for a lump sum deal
+public fun edit_advertisement<T>(
+    advertisement: &mut Advertisement<T>,
+    cap: &MarketplaceCap,
+    title: String,
+    description: String,
+    category: String,
+    tags: vector<String>,
+    amount: u64,
+    delivery_window_ms: u64,
+    review_window_ms: u64,
+    milestone_descriptions: vector<String>,
+    milestone_amounts: vector<u64>
+) {
+    assert!(cap.advertisement_id == object::id(advertisement), EInvalidCap);
+    assert!(advertisement.status != LISTING_CLOSED, EAdvertisementClosed);
+
+    // Same rules as a new advertisement
+    assert!(delivery_window_ms > 0 && review_window_ms > 0, EInvalidDeadline);
+    advertisement.milestones = build_milestones(milestone_descriptions, milestone_amounts, amount);
+    validate_tags(&tags);
+
+    advertisement.title = title;
+    advertisement.description = description;
+    advertisement.category = category;
+    advertisement.tags = tags;
+    advertisement.amount = amount;
+    advertisement.delivery_window_ms = delivery_window_ms;
+    advertisement.review_window_ms = review_window_ms;
+    advertisement.version = advertisement.version + 1;
+
+    event::emit(AdvertisementEdited {
+        advertisement_id: object::id(advertisement),
+        version: advertisement.version,
+        title: advertisement.title,
+        amount,
+    });
+}
+
+    // Convenience function to edit an advertisement
+    entry fun edit_advertisement_entry<T>(
+        advertisement: &mut Advertisement<T>,
+        cap: &MarketplaceCap,
+        title: String,
+        description: String,
+        category: String,
+        tags: vector<String>,
+        amount: u64,
+        delivery_window_ms: u64,
+        review_window_ms: u64,
+        milestone_descriptions: vector<String>,
+        milestone_amounts: vector<u64>
+    ) {
+        edit_advertisement(
+            advertisement,
+            cap,
+            title,
+            description,
+            category,
+            tags,
+            amount,
+            delivery_window_ms,
+            review_window_ms,
+            milestone_descriptions,
+            milestone_amounts
+        );
+    }
+
+/// Get the current terms of an advertisement
+public fun current_terms<T>(advertisement: &Advertisement<T>): Terms {
+    Terms {
+        version: advertisement.version,
+        title: advertisement.title,
+        description: advertisement.description,
+        amount: advertisement.amount,
+        delivery_window_ms: advertisement.delivery_window_ms,
+        review_window_ms: advertisement.review_window_ms,
+        milestones: advertisement.milestones,
+    }
+}
+
+fun set_status<T>(advertisement: &mut Advertisement<T>, status: u8) {
+    advertisement.status = status;
+    event::emit(AdvertisementStatusChanged {
+        advertisement_id: object::id(advertisement),
+        status,
+    });
+}
+
+/// Add funds to the budget of a buy advertisement (by creator)
+public fun fund_advertisement<T>(
+    advertisement: &mut Advertisement<T>,
+    payment: Coin<T>,
+    ctx: &TxContext
+) {
+    // Verify sender is the creator of a buy advertisement
+    assert!(advertisement.creator == ctx.sender(), ENotAuthorized);
+    assert!(advertisement.kind == AD_KIND_BUY, EInvalidKind);
+    assert!(coin::value(&payment) > 0, EInvalidAmount);
+
+    balance::join(&mut advertisement.budget, coin::into_balance(payment));
+    emit_budget_changed(advertisement);
+}
+
+// Convenience function to fund an advertisement
+entry fun fund_advertisement_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    payment: Coin<T>,
+    ctx: &mut TxContext
+) {
+    fund_advertisement(advertisement, payment, ctx);
+}
+
+/// Take funds back from the budget of a buy advertisement
+/// Escrows of running deals have already left the budget and are not affected
+public fun withdraw_budget<T>(
+    advertisement: &mut Advertisement<T>,
+    cap: &MarketplaceCap,
+    amount: u64,
+    ctx: &mut TxContext
+): Coin<T> {
+    assert!(cap.advertisement_id == object::id(advertisement), EInvalidCap);
+    assert!(amount > 0 && amount <= balance::value(&advertisement.budget), EInvalidAmount);
+
+    let funds = coin::take(&mut advertisement.budget, amount, ctx);
+    emit_budget_changed(advertisement);
+    funds
+}
+
+// Convenience function to withdraw from the budget to the sender
+entry fun withdraw_budget_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    cap: &MarketplaceCap,
+    amount: u64,
+    ctx: &mut TxContext
+) {
+    let funds = withdraw_budget(advertisement, cap, amount, ctx);
+    transfer::public_transfer(funds, ctx.sender());
+}
+
+fun emit_budget_changed<T>(advertisement: &Advertisement<T>) {
+    event::emit(BudgetChanged {
+        advertisement_id: object::id(advertisement),
+        budget: balance::value(&advertisement.budget),
+    });
+}
+
+    //////////////////////////////////////////
+    /////// Offers
+
+/// Propose a different price for a lump sum advertisement before joining it
+/// Milestone amounts are fixed by the listing, so advertisements with milestones can't be negotiated
+/// A user can have one open offer per advertisement, the new offer takes the slot of a closed one when available
+public fun make_offer<T>(
+    advertisement: &mut Advertisement<T>,
+    amount: u64,
+    message: String,
+    c: &Clock,
+    ctx: &TxContext
+) {
+    let sender = ctx.sender();
+
+    // Verify the listing accepts new deals and the offer comes from the other side
+    assert!(advertisement.status == LISTING_ACTIVE, EAdvertisementNotActive);
+    assert!(sender != advertisement.creator, ENotAuthorized);
+    assert!(vector::is_empty(&advertisement.milestones), EInvalidMilestone);
+    assert!(amount > 0, EInvalidAmount);
+
+    // Verify the sender has no open offer yet, and find the first slot that can be reused
+    let count = vector::length(&advertisement.offers);
+    let mut offer_id = count;
+    let mut i = 0;
+    while (i < count) {
+        let offer = vector::borrow(&advertisement.offers, i);
+        if (is_offer_open(offer, c)) {
+            assert!(offer.user != sender, EOfferLimitReached);
+        } else if (offer_id == count) {
+            offer_id = i;
+        };
+        i = i + 1;
+    };
+
+    let offer = Offer {
+        id: offer_id,
+        user: sender,
+        amount,
+        message,
+        status: OFFER_PENDING,
+        created_at: c.timestamp_ms(),
+        expires_at: c.timestamp_ms() + OFFER_VALIDITY_MS,
+    };
+    if (offer_id < count) {
+        *vector::borrow_mut(&mut advertisement.offers, offer_id) = offer;
+    } else {
+        // Verify there is room for another offer
+        assert!(count < MAX_OFFERS, EOfferLimitReached);
+        vector::push_back(&mut advertisement.offers, offer);
+    };
+    emit_offer_updated(advertisement, offer_id);
+}
+
+// Convenience function to make an offer
+entry fun make_offer_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    amount: u64,
+    message: String,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    make_offer(advertisement, amount, message, c, ctx);
+}
+
+/// Propose another amount in answer to an offer (by the side whose turn it is)
+public fun counter_offer<T>(
+    advertisement: &mut Advertisement<T>,
+    offer_id: u64,
+    amount: u64,
+    message: String,
+    c: &Clock,
+    ctx: &TxContext
+) {
+    assert!(amount > 0, EInvalidAmount);
+
+    let offer = borrow_open_offer(advertisement, offer_id, c, ctx);
+
+    // Hand the turn to the other side
+    offer.status = if (offer.status == OFFER_PENDING) { OFFER_COUNTERED } else { OFFER_PENDING };
+    offer.amount = amount;
+    offer.message = message;
+    offer.expires_at = c.timestamp_ms() + OFFER_VALIDITY_MS;
+    emit_offer_updated(advertisement, offer_id);
+}
+
+// Convenience function to counter an offer
+entry fun counter_offer_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    offer_id: u64,
+    amount: u64,
+    message: String,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    counter_offer(advertisement, offer_id, amount, message, c, ctx);
+}
+
+/// Agree to the amount of an offer (by the side whose turn it is)
+/// The user then has until the offer expires to join at that amount
+public fun accept_offer<T>(
+    advertisement: &mut Advertisement<T>,
+    offer_id: u64,
+    c: &Clock,
+    ctx: &TxContext
+) {
+    let offer = borrow_open_offer(advertisement, offer_id, c, ctx);
+    offer.status = OFFER_ACCEPTED;
+    offer.expires_at = c.timestamp_ms() + OFFER_VALIDITY_MS;
+    emit_offer_updated(advertisement, offer_id);
+}
+
+// Convenience function to accept an offer
+entry fun accept_offer_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    offer_id: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    accept_offer(advertisement, offer_id, c, ctx);
+}
+
+/// End the negotiation of an offer (by the side whose turn it is)
+public fun reject_offer<T>(
+    advertisement: &mut Advertisement<T>,
+    offer_id: u64,
+    c: &Clock,
+    ctx: &TxContext
+) {
+    let offer = borrow_open_offer(advertisement, offer_id, c, ctx);
+    offer.status = OFFER_REJECTED;
+    emit_offer_updated(advertisement, offer_id);
+}
+
+// Convenience function to reject an offer
+entry fun reject_offer_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    offer_id: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    reject_offer(advertisement, offer_id, c, ctx);
+}
+
+/// Get an offer that waits on an answer from the sender
+/// A pending offer is answered by the creator, a countered one by the user who made it
+fun borrow_open_offer<T>(
+    advertisement: &mut Advertisement<T>,
+    offer_id: u64,
+    c: &Clock,
+    ctx: &TxContext
+): &mut Offer {
+    // Verify the offer exists
+    assert!(offer_id < vector::length(&advertisement.offers), EOfferNotFound);
+
+    let creator = advertisement.creator;
+    let offer = vector::borrow_mut(&mut advertisement.offers, offer_id);
+
+    // Verify the offer is still negotiated and it is the sender's turn
+    assert!(offer.status == OFFER_PENDING || offer.status == OFFER_COUNTERED, EInvalidState);
+    assert!(c.timestamp_ms() <= offer.expires_at, EOfferExpired);
+    let answering = if (offer.status == OFFER_PENDING) { creator } else { offer.user };
+    assert!(ctx.sender() == answering, ENotAuthorized);
+
+    offer
+}
+
+/// Check if an offer is still negotiated, or accepted and waiting for the user to join
+fun is_offer_open(offer: &Offer, c: &Clock): bool {
+    (offer.status == OFFER_PENDING || offer.status == OFFER_COUNTERED || offer.status == OFFER_ACCEPTED) &&
+        c.timestamp_ms() <= offer.expires_at
+}
+
+fun emit_offer_updated<T>(advertisement: &Advertisement<T>, offer_id: u64) {
+    let offer = vector::borrow(&advertisement.offers, offer_id);
+    event::emit(OfferUpdated {
+        advertisement_id: object::id(advertisement),
+        offer_id,
+        user: offer.user,
+        amount: offer.amount,
+        status: offer.status,
+        expires_at: offer.expires_at,
+    });
+}
+
+    //////////////////////////////////////////
+    /////// Deals
+
+/// Join an advertisement and lock funds in escrow
+/// On a sell advertisement the user pays the escrow, on a buy advertisement the user offers the work,
+/// passes a zero coin and the escrow is taken from the advertisement's budget
+/// The joiner passes the version of the terms it was shown, so an edit landing first aborts the join
+entry fun join_advertisement_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    admin_registry: &AdminRegistry,
+    payment: Coin<T>,
+    expected_terms_version: u64,
+    chat_ephemeral_key_encrypted: vector<u8>,
+    c: &Clock,
+    r: &Random,
+    ctx: &mut TxContext
+) {
+    let amount = advertisement.amount;
+    join_at_amount(advertisement, admin_registry, payment, amount, expected_terms_version, chat_ephemeral_key_encrypted, c, r, ctx);
+}
+
+/// Join an advertisement at the amount of an offer accepted for the sender
+/// The payment follows the same rules as join_advertisement_entry, with the agreed amount
+entry fun join_with_offer_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    admin_registry: &AdminRegistry,
+    offer_id: u64,
+    payment: Coin<T>,
+    expected_terms_version: u64,
+    chat_ephemeral_key_encrypted: vector<u8>,
+    c: &Clock,
+    r: &Random,
+    ctx: &mut TxContext
+) {
+    // Verify the offer exists
+    assert!(offer_id < vector::length(&advertisement.offers), EOfferNotFound);
+
+    let offer = vector::borrow_mut(&mut advertisement.offers, offer_id);
+
+    // Verify the offer was accepted for the sender and has not expired
+    assert!(offer.user == ctx.sender(), ENotAuthorized);
+    assert!(offer.status == OFFER_ACCEPTED, EInvalidState);
+    assert!(c.timestamp_ms() <= offer.expires_at, EOfferExpired);
+
+    offer.status = OFFER_TAKEN;
+    let amount = offer.amount;
+    emit_offer_updated(advertisement, offer_id);
+
+    join_at_amount(advertisement, admin_registry, payment, amount, expected_terms_version, chat_ephemeral_key_encrypted, c, r, ctx);
+}
+
+/// Open a deal at the given price with the sender on the other side of the advertisement
+fun join_at_amount<T>(
+    advertisement: &mut Advertisement<T>,
+    admin_registry: &AdminRegistry,
+    mut payment: Coin<T>,
+    amount: u64,
+    expected_terms_version: u64,
+    chat_ephemeral_key_encrypted: vector<u8>,
+    c: &Clock,
+    r: &Random,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    
+    // Verify the listing accepts new deals
+    assert!(advertisement.status == LISTING_ACTIVE, EAdvertisementNotActive);
+
+    // Verify the terms were not edited since the joiner read them, the snapshot records what it agreed to
+    assert!(advertisement.version == expected_terms_version, ETermsChanged);
+
+    // The creator can't take the other side of its own deal
+    assert!(sender != advertisement.creator, ENotAuthorized);
+
+    // Milestone amounts add up to the listed amount, a different price needs a lump sum deal
+    assert!(amount == advertisement.amount || vector::is_empty(&advertisement.milestones), EInvalidMilestone);
+
+    // Verify payment amount matches the agreed amount, or lock it from the budget of a buy advertisement
+    if (advertisement.kind == AD_KIND_SELL) {
+        assert!(coin::value(&payment) == amount, EInvalidAmount);
+    } else {
+        assert!(coin::value(&payment) == 0, EInvalidAmount);
+        assert!(balance::value(&advertisement.budget) >= amount, EInsufficientBudget);
+        coin::join(&mut payment, coin::take(&mut advertisement.budget, amount, ctx));
+        emit_budget_changed(advertisement);
+    };
+
+    let (buyer, seller) = if (advertisement.kind == AD_KIND_SELL) {
+        (sender, advertisement.creator)
+    } else {
+        (advertisement.creator, sender)
+    };
+    
+    // Check if user already has a profile
+    if (table::contains(&advertisement.user_profiles, sender)) {
+        let profile = table::borrow(&advertisement.user_profiles, sender);
+        
+        // Check if user has any interactions
+        if (!vector::is_empty(&profile.interactions)) {
+            // Get the last interaction
+            let last_interaction = vector::borrow(&profile.interactions, vector::length(&profile.interactions) - 1);
+            
+            // Verify last interaction is finished (approved by buyer, resolved by admin or cancelled)
+            assert!(
+                last_interaction.state == INTERACTION_BUYER_APPROVED ||
+                last_interaction.state == INTERACTION_RESOLVED ||
+                last_interaction.state == INTERACTION_CANCELLED,
+                EInvalidState
+            );
+        }
+    };
+    
+    // Select a random admin, never one of the deal participants
+    // High-value deals get a jury instead, its first juror doubles as the assigned admin
+    let participants = vector[sender, advertisement.creator];
+    let jurors = if (requires_jury<T>(admin_registry, amount)) {
+        select_random_admins(admin_registry, &participants, admin_registry.jury_size, r, ctx)
+    } else {
+        vector::empty()
+    };
+    let assigned_admin = if (vector::is_empty(&jurors)) {
+        *vector::borrow(&select_random_admins(admin_registry, &participants, 1, r, ctx), 0)
+    } else {
+        *vector::borrow(&jurors, 0)
+    };
+    
+    let interaction_id = get_next_interaction_id(advertisement, sender);
+    let deadline = c.timestamp_ms() + advertisement.delivery_window_ms;
+    let terms = current_terms(advertisement);
+    let terms_hash = blake2b256(&to_bytes(&terms));
+
+    event::emit(InteractionJoined {
+        advertisement_id: object::id(advertisement),
+        user: sender,
+        buyer,
+        seller,
+        interaction_id,
+        amount,
+        terms_version: terms.version,
+        assigned_admin,
+        jurors,
+        joined_at: c.timestamp_ms(),
+        deadline,
+    });
+
+    // Every milestone starts pending
+    let mut milestone_states = vector::empty();
+    let mut i = 0;
+    while (i < vector::length(&advertisement.milestones)) {
+        vector::push_back(&mut milestone_states, MILESTONE_PENDING);
+        i = i + 1;
+    };
+
+    // Messages go to a chat room of their own, so chatting never writes to the advertisement
+    let chat = ChatRoom {
+        id: object::new(ctx),
+        advertisement_id: object::id(advertisement),
+        interaction_user: sender,
+        interaction_id,
+        messages: table::new(ctx),
+        next_seq: 0,
+        messages_hash: vector::empty(),
+    };
+    let chat_id = object::id(&chat);
+    transfer::share_object(chat);
+
+    // Create a new interaction with embedded payment
+    let interaction = Interaction {
+        id: interaction_id,
+        user: sender,
+        joined_at: c.timestamp_ms(),
+        amount,
+        terms,
+        terms_hash,
+        payment,
+        released_amount: 0,
+        milestone_states,
+        buyer,
+        seller,
+        assigned_admin,
+        jurors,
+        jury_votes: vector::empty(),
+        state: INTERACTION_JOINED,
+        deadline,
+        resolution: option::none(),
+        proposed_share_bps: option::none(),
+        escalations: vector::empty(),
+        appeal_bond: coin::zero(ctx),
+        buyer_payout: 0,
+        seller_payout: 0,
+        cancel_requested: false,
+        buyer_reviewed: false,
+        seller_reviewed: false,
+        chat_id,
+        chat_archive_blob_id: option::none(),
+        chat_archive_hash: vector::empty(),
+        chat_ephemeral_key_encrypted,
+    };
+    
+    // Add to user profile
+    if (!table::contains(&mut advertisement.user_profiles, sender)) {
+        // Create new profile if it doesn't exist
+        let profile = UserProfile {
+            user: sender,
+            interactions: vector::empty(),
+        };
+        table::add(&mut advertisement.user_profiles, sender, profile);
+    };
+    
+    // Get the profile and add the new interaction
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, sender);
+    vector::push_back(&mut profile.interactions, interaction);
 }
 
 /// Get the next interaction ID for a user
-fun get_next_interaction_id(advertisement: &Advertisement, user: address): u64 {
+fun get_next_interaction_id<T>(advertisement: &Advertisement<T>, user: address): u64 {
     if (!table::contains(&advertisement.user_profiles, user)) {
         return 0
     };
@@ -263,34 +1347,64 @@ fun get_next_interaction_id(advertisement: &Advertisement, user: address): u64 {
     vector::length(&profile.interactions)
 }
 
-    /// Select a random admin from a hardcoded list of example addresses
+    /// Check if escrows of coin type T and this amount are decided by a jury
+    fun requires_jury<T>(admin_registry: &AdminRegistry, amount: u64): bool {
+        let coin_type = type_name::get<T>();
+        vec_map::contains(&admin_registry.jury_thresholds, &coin_type) &&
+            amount >= *vec_map::get(&admin_registry.jury_thresholds, &coin_type)
+    }
+
+    /// Select distinct random active admins from the admin registry, never one of the excluded addresses
+    /// When fewer admins are eligible, all of them are taken, dropping one if needed to keep the count odd
     /// Random has a reserved address 0x8. See random.move for the Move APIs for accessing randomness on Sui.
-    fun select_random_admin(r: &Random, ctx: &mut TxContext): address {
+    fun select_random_admins(
+        admin_registry: &AdminRegistry,
+        excluded: &vector<address>, // The buyer and the seller, plus admins already involved in the dispute
+        count: u64,
+        r: &Random,
+        ctx: &mut TxContext
+    ): vector<address> {
         let mut generator = random::new_generator(r, ctx);
         let mut admin_list: vector<address> = vector::empty();
         
-        // Add hardcoded admin addresses
-        vector::push_back(&mut admin_list, @0x1); // Example address
-        vector::push_back(&mut admin_list, @0x2); // Example address
+        // Collect admins who are not suspended and not excluded
+        let mut i = 0;
+        while (i < vector::length(&admin_registry.admins)) {
+            let admin = *vector::borrow(&admin_registry.admins, i);
+            if (!vector::contains(excluded, &admin) && !vector::contains(&admin_registry.suspended, &admin)) {
+                vector::push_back(&mut admin_list, admin);
+            };
+            i = i + 1;
+        };
         
-        // Check if the admin list is empty, might be useful later when dynamic list will be used
+        // Check if the admin list is empty
         assert!(!vector::is_empty(&admin_list), EEmptyAdminList);
         
-        // Select a random admin from the list
-        let random_index = random::generate_u8_in_range(&mut generator, 0, (vector::length(&admin_list) - 1) as u8);
-        *vector::borrow(&admin_list, random_index as u64)
+        let mut count = if (count < vector::length(&admin_list)) { count } else { vector::length(&admin_list) };
+        if (count % 2 == 0) {
+            count = count - 1;
+        };
+        
+        // Draw admins from the list without replacement
+        // Both bounds of generate_u64_in_range are inclusive, so the last valid index is length - 1
+        let mut selected = vector::empty();
+        while (vector::length(&selected) < count) {
+            let random_index = random::generate_u64_in_range(&mut generator, 0, vector::length(&admin_list) - 1);
+            vector::push_back(&mut selected, vector::swap_remove(&mut admin_list, random_index));
+        };
+        selected
     }
 
 /// Mark a transaction as completed (by seller)
-public fun mark_completed(
-    advertisement: &mut Advertisement,
+public fun mark_completed<T>(
+    advertisement: &mut Advertisement<T>,
     user_address: address, // Specify which user's interaction to mark
     interaction_id: u64, // Specify which interaction to mark
+    c: &Clock,
     ctx: &TxContext
 ) {
-    // Verify sender is the creator
-    assert!(advertisement.creator == ctx.sender(), ENotAuthorized);
-    
+    let advertisement_id = object::id(advertisement);
+
     // Verify the user profile exists
     assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
     
@@ -303,36 +1417,59 @@ public fun mark_completed(
     // Get the interaction
     let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
     
+    // Verify sender is the seller
+    assert!(interaction.seller == ctx.sender(), ENotAuthorized);
+    
     // Verify interaction is in JOINED state
     assert!(interaction.state == INTERACTION_JOINED, EInvalidState);
     
-    // Update state to SELLER_COMPLETED
+    // Verify the delivery deadline has not passed, the buyer can claim a refund after it
+    assert!(c.timestamp_ms() <= interaction.deadline, EInvalidState);
+    
+    // Delivering the whole deal completes every milestone that is still pending
+    set_unreleased_milestones(&mut interaction.milestone_states, MILESTONE_COMPLETED);
+
+    // Update state to SELLER_COMPLETED and start the review window agreed when joining
     interaction.state = INTERACTION_SELLER_COMPLETED;
+    interaction.deadline = c.timestamp_ms() + interaction.terms.review_window_ms;
+
+    event::emit(MarkedCompleted {
+        advertisement_id,
+        user: user_address,
+        interaction_id,
+        deadline: interaction.deadline,
+    });
 }
 
 // Convenience function to mark a transaction as completed
-entry fun mark_completed_entry(
-    advertisement: &mut Advertisement,
+entry fun mark_completed_entry<T>(
+    advertisement: &mut Advertisement<T>,
     user_address: address,
     interaction_id: u64,
+    c: &Clock,
     ctx: &mut TxContext
 ) {
-    mark_completed(advertisement, user_address, interaction_id, ctx);
+    mark_completed(advertisement, user_address, interaction_id, c, ctx);
 }
 
 /// Release payment (by buyer)
-public fun release_payment(
-    advertisement: &mut Advertisement,
+public fun release_payment<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address, // The user whose interaction to release payment for
     interaction_id: u64, // Specify which interaction to release payment for
+    c: &Clock,
     ctx: &mut TxContext
 ) {
     let sender = ctx.sender();
+    let advertisement_id = object::id(advertisement);
     
     // Verify the user profile exists
-    assert!(table::contains(&advertisement.user_profiles, sender), EInteractionNotFound);
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
     
     // Get the user profile
-    let profile = table::borrow_mut(&mut advertisement.user_profiles, sender);
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
     
     // Verify the interaction exists
     assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
@@ -340,39 +1477,248 @@ public fun release_payment(
     // Get the interaction
     let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
     
-    // Verify sender is the buyer (user in interaction)
-    assert!(interaction.user == sender, ENotAuthorized);
+    // Verify sender is the buyer
+    assert!(interaction.buyer == sender, ENotAuthorized);
     
     // Verify interaction is in SELLER_COMPLETED or DISPUTED state
     assert!((interaction.state == INTERACTION_SELLER_COMPLETED) || (interaction.state == INTERACTION_DISPUTED), EInvalidState);
     
-    // Update state to BUYER_APPROVED
+    // A buyer releasing during a dispute still counts as a disputed deal
+    let was_disputed = interaction.state == INTERACTION_DISPUTED;
+
+    // Update state to BUYER_APPROVED, releasing every remaining milestone
     interaction.state = INTERACTION_BUYER_APPROVED;
+    set_unreleased_milestones(&mut interaction.milestone_states, MILESTONE_RELEASED);
+
+    // Releasing ends a pending appeal by agreement, so the appellant gets the bond back
+    let bond = coin::value(&interaction.appeal_bond);
+    if (bond > 0) {
+        let recipient = last_appeal(interaction).initiated_by;
+        sui::pay::split_and_transfer(&mut interaction.appeal_bond, bond, recipient, ctx);
 
-    //Now take the escrow and send the funds to the advertisement creator
-    let advertisement_creator = advertisement.creator;
+        event::emit(AppealBondSettled {
+            advertisement_id,
+            user: user_address,
+            interaction_id,
+            recipient,
+            amount: bond,
+        });
+    };
+
+    //Now take the remaining escrow and send the funds to the seller
+    let seller = interaction.seller;
     let amount = coin::value(&interaction.payment);
     assert!(amount > 0, EInvalidAmount);
-    sui::pay::split_and_transfer(&mut interaction.payment, amount, advertisement_creator, ctx)
+    let deal_amount = interaction.released_amount + amount;
+    let fee = pay_seller(treasury, &mut interaction.payment, amount, seller, ctx);
+
+    event::emit(PaymentReleased {
+        advertisement_id,
+        user: user_address,
+        seller,
+        interaction_id,
+        amount,
+        fee,
+    });
+
+    // Update reputation of both parties
+    record_deal<T>(stats_registry, sender, deal_amount, was_disputed, c);
+    record_deal<T>(stats_registry, seller, deal_amount, was_disputed, c);
 }
 
 // Convenience function to release payment
-entry fun release_payment_entry(
-    advertisement: &mut Advertisement,
+entry fun release_payment_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address,
     interaction_id: u64,
+    c: &Clock,
     ctx: &mut TxContext
 ) {
-    release_payment(advertisement, interaction_id, ctx);
+    release_payment(advertisement, stats_registry, treasury, user_address, interaction_id, c, ctx);
 }
 
-/// Dispute a transaction (by buyer or seller)
-public fun dispute_transaction(
-    advertisement: &mut Advertisement,
-    user_address: address, // The user whose interaction to dispute
-    interaction_id: u64, // Specify which interaction to dispute
+/// Mark a single milestone as delivered (by seller)
+/// Once every milestone is delivered the interaction moves to SELLER_COMPLETED like mark_completed
+public fun mark_milestone_completed<T>(
+    advertisement: &mut Advertisement<T>,
+    user_address: address, // Specify which user's interaction to mark
+    interaction_id: u64,
+    milestone_index: u64,
+    c: &Clock,
     ctx: &TxContext
 ) {
-    let sender = ctx.sender();
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify sender is the seller
+    assert!(interaction.seller == ctx.sender(), ENotAuthorized);
+
+    // Verify interaction is in JOINED state and the delivery deadline has not passed
+    assert!(interaction.state == INTERACTION_JOINED, EInvalidState);
+    assert!(c.timestamp_ms() <= interaction.deadline, EInvalidState);
+
+    // Verify the milestone exists and has not been delivered yet
+    assert!(milestone_index < vector::length(&interaction.milestone_states), EInvalidMilestone);
+    let milestone_state = vector::borrow_mut(&mut interaction.milestone_states, milestone_index);
+    assert!(*milestone_state == MILESTONE_PENDING, EInvalidState);
+    *milestone_state = MILESTONE_COMPLETED;
+
+    event::emit(MilestoneCompleted {
+        advertisement_id,
+        user: user_address,
+        interaction_id,
+        milestone_index,
+    });
+
+    // Start the review window once nothing is left to deliver
+    if (!vector::contains(&interaction.milestone_states, &MILESTONE_PENDING)) {
+        interaction.state = INTERACTION_SELLER_COMPLETED;
+        interaction.deadline = c.timestamp_ms() + interaction.terms.review_window_ms;
+
+        event::emit(MarkedCompleted {
+            advertisement_id,
+            user: user_address,
+            interaction_id,
+            deadline: interaction.deadline,
+        });
+    }
+}
+
+// Convenience function to mark a milestone as completed
+entry fun mark_milestone_completed_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    user_address: address,
+    interaction_id: u64,
+    milestone_index: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    mark_milestone_completed(advertisement, user_address, interaction_id, milestone_index, c, ctx);
+}
+
+/// Release the payment of a single delivered milestone (by buyer)
+/// The rest of the escrow stays locked and can still be disputed
+/// Releasing the last milestone finishes the interaction like release_payment
+public fun release_milestone<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address, // The user whose interaction to release the milestone for
+    interaction_id: u64,
+    milestone_index: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify sender is the buyer
+    assert!(interaction.buyer == sender, ENotAuthorized);
+    let seller = interaction.seller;
+
+    // Verify the milestone exists in the terms the deal was joined under
+    assert!(milestone_index < vector::length(&interaction.terms.milestones), EInvalidMilestone);
+    let amount = vector::borrow(&interaction.terms.milestones, milestone_index).amount;
+
+    // Verify the deal is running, a disputed escrow is paid out by the admin
+    assert!(
+        interaction.state == INTERACTION_JOINED || interaction.state == INTERACTION_SELLER_COMPLETED,
+        EInvalidState
+    );
+
+    // Verify the milestone has been delivered and not paid yet
+    let milestone_state = vector::borrow_mut(&mut interaction.milestone_states, milestone_index);
+    assert!(*milestone_state == MILESTONE_COMPLETED, EInvalidState);
+    *milestone_state = MILESTONE_RELEASED;
+
+    // Pay the milestone out of the escrow
+    let fee = pay_seller(treasury, &mut interaction.payment, amount, seller, ctx);
+    interaction.released_amount = interaction.released_amount + amount;
+    let remaining = coin::value(&interaction.payment);
+
+    event::emit(MilestoneReleased {
+        advertisement_id,
+        user: user_address,
+        seller,
+        interaction_id,
+        milestone_index,
+        amount,
+        fee,
+        remaining,
+    });
+
+    // The whole deal is paid, finish it
+    if (remaining == 0) {
+        interaction.state = INTERACTION_BUYER_APPROVED;
+        let deal_amount = interaction.released_amount;
+
+        // Update reputation of both parties
+        record_deal<T>(stats_registry, sender, deal_amount, false, c);
+        record_deal<T>(stats_registry, seller, deal_amount, false, c);
+    }
+}
+
+// Convenience function to release a milestone
+entry fun release_milestone_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address,
+    interaction_id: u64,
+    milestone_index: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    release_milestone(advertisement, stats_registry, treasury, user_address, interaction_id, milestone_index, c, ctx);
+}
+
+/// Set every milestone that has not been paid yet to a state
+fun set_unreleased_milestones(milestone_states: &mut vector<u8>, state: u8) {
+    let mut i = 0;
+    while (i < vector::length(milestone_states)) {
+        let milestone_state = vector::borrow_mut(milestone_states, i);
+        if (*milestone_state != MILESTONE_RELEASED) {
+            *milestone_state = state;
+        };
+        i = i + 1;
+    };
+}
+
+/// Dispute a transaction (by buyer or seller)
+public fun dispute_transaction<T>(
+    advertisement: &mut Advertisement<T>,
+    user_address: address, // The user whose interaction to dispute
+    interaction_id: u64, // Specify which interaction to dispute
+    c: &Clock,
+    ctx: &TxContext
+) {
+    let sender = ctx.sender();
+    let advertisement_id = object::id(advertisement);
     
     // Verify the user profile exists
     assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
@@ -388,67 +1734,1005 @@ public fun dispute_transaction(
     
     // Verify sender is authorized (either the buyer or the seller)
     assert!(
-        sender == interaction.user || sender == advertisement.creator,
+        sender == interaction.buyer || sender == interaction.seller,
         ENotAuthorized
     );
     
     // Verify interaction is not finished
-    assert!(!(interaction.state == INTERACTION_BUYER_APPROVED), EInvalidState);
+    assert!(
+        !(interaction.state == INTERACTION_BUYER_APPROVED) &&
+        !(interaction.state == INTERACTION_RESOLVED) &&
+        !(interaction.state == INTERACTION_CANCELLED),
+        EInvalidState
+    );
+    
+    // Verify the deadline has not passed, otherwise the interaction is settled with claim_after_timeout
+    assert!(
+        interaction.state == INTERACTION_DISPUTED || c.timestamp_ms() <= interaction.deadline,
+        EInvalidState
+    );
     
-    // Update state to DISPUTED
-    interaction.state = INTERACTION_DISPUTED;
+    // Update state to DISPUTED, the assigned admin has to decide before the new deadline
+    if (interaction.state != INTERACTION_DISPUTED) {
+        interaction.state = INTERACTION_DISPUTED;
+        interaction.deadline = c.timestamp_ms() + ADMIN_RESPONSE_WINDOW_MS;
+    };
+
+    event::emit(Disputed {
+        advertisement_id,
+        user: user_address,
+        interaction_id,
+        disputed_by: sender,
+        assigned_admin: interaction.assigned_admin,
+        deadline: interaction.deadline,
+    });
+}
+
+// Convenience function to dispute a transaction
+entry fun dispute_transaction_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    user_address: address,
+    interaction_id: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    dispute_transaction(advertisement, user_address, interaction_id, c, ctx);
+}
+
+/// Ask the seller to cancel a deal that has not been delivered yet (by buyer)
+/// The escrow is only returned once the seller accepts with refund_interaction
+public fun request_cancellation<T>(
+    advertisement: &mut Advertisement<T>,
+    user_address: address, // The user whose interaction to cancel
+    interaction_id: u64,
+    ctx: &TxContext
+) {
+    let sender = ctx.sender();
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify sender is the buyer and the seller has not delivered yet
+    assert!(interaction.buyer == sender, ENotAuthorized);
+    assert!(interaction.state == INTERACTION_JOINED, EInvalidState);
+
+    interaction.cancel_requested = true;
+
+    event::emit(CancellationRequested {
+        advertisement_id,
+        user: user_address,
+        interaction_id,
+    });
+}
+
+// Convenience function to request a cancellation
+entry fun request_cancellation_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    user_address: address,
+    interaction_id: u64,
+    ctx: &mut TxContext
+) {
+    request_cancellation(advertisement, user_address, interaction_id, ctx);
+}
+
+/// Cancel a deal that has not been delivered yet and refund the buyer (by seller)
+/// Used both for a seller-initiated refund and to accept a buyer's cancellation request
+public fun refund_interaction<T>(
+    advertisement: &mut Advertisement<T>,
+    user_address: address, // The user whose interaction to cancel
+    interaction_id: u64,
+    ctx: &mut TxContext
+) {
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify sender is the seller and interaction is in JOINED state
+    assert!(interaction.seller == ctx.sender(), ENotAuthorized);
+    assert!(interaction.state == INTERACTION_JOINED, EInvalidState);
+
+    // Update state to CANCELLED and return the escrow to the buyer
+    interaction.state = INTERACTION_CANCELLED;
+    let amount = coin::value(&interaction.payment);
+    assert!(amount > 0, EInvalidAmount);
+    sui::pay::split_and_transfer(&mut interaction.payment, amount, interaction.buyer, ctx);
+
+    event::emit(InteractionCancelled {
+        advertisement_id,
+        user: user_address,
+        interaction_id,
+        amount,
+    });
+}
+
+// Convenience function to refund an interaction
+entry fun refund_interaction_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    user_address: address,
+    interaction_id: u64,
+    ctx: &mut TxContext
+) {
+    refund_interaction(advertisement, user_address, interaction_id, ctx);
+}
+
+/// Settle an interaction whose deadline has passed (callable by anyone)
+/// A seller who missed the delivery deadline gets the buyer refunded for the milestones not delivered,
+/// delivered milestones the buyer did not release yet are paid to the seller,
+/// a buyer who missed the review deadline gets the payment released to the seller
+/// Disputed interactions have no deadline, they wait for the assigned admin
+public fun claim_after_timeout<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address, // The user whose interaction to settle
+    interaction_id: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify the interaction is waiting on one of the parties and its deadline has passed
+    assert!(
+        interaction.state == INTERACTION_JOINED || interaction.state == INTERACTION_SELLER_COMPLETED,
+        EInvalidState
+    );
+    assert!(c.timestamp_ms() > interaction.deadline, EDeadlineNotReached);
+
+    let amount = coin::value(&interaction.payment);
+    assert!(amount > 0, EInvalidAmount);
+    let buyer = interaction.buyer;
+    let seller = interaction.seller;
+
+    if (interaction.state == INTERACTION_JOINED) {
+        // Seller never finished delivering, pay out the milestones that were delivered
+        let mut i = 0;
+        while (i < vector::length(&interaction.milestone_states)) {
+            if (*vector::borrow(&interaction.milestone_states, i) == MILESTONE_COMPLETED) {
+                *vector::borrow_mut(&mut interaction.milestone_states, i) = MILESTONE_RELEASED;
+                let milestone_amount = vector::borrow(&interaction.terms.milestones, i).amount;
+                let fee = pay_seller(treasury, &mut interaction.payment, milestone_amount, seller, ctx);
+                interaction.released_amount = interaction.released_amount + milestone_amount;
+
+                event::emit(MilestoneReleased {
+                    advertisement_id,
+                    user: user_address,
+                    seller,
+                    interaction_id,
+                    milestone_index: i,
+                    amount: milestone_amount,
+                    fee,
+                    remaining: coin::value(&interaction.payment),
+                });
+            };
+            i = i + 1;
+        };
+
+        // Refund the buyer whatever is left for the milestones never delivered
+        interaction.state = INTERACTION_CANCELLED;
+        let refund = coin::value(&interaction.payment);
+        sui::pay::split_and_transfer(&mut interaction.payment, refund, buyer, ctx);
+
+        event::emit(InteractionCancelled {
+            advertisement_id,
+            user: user_address,
+            interaction_id,
+            amount: refund,
+        });
+
+        // Milestones paid before or on timeout still count as a deal for both parties
+        let deal_amount = interaction.released_amount;
+        if (deal_amount > 0) {
+            record_deal<T>(stats_registry, buyer, deal_amount, false, c);
+            record_deal<T>(stats_registry, seller, deal_amount, false, c);
+        }
+    } else {
+        // Buyer never reviewed the delivery, release the remaining payment to the seller
+        interaction.state = INTERACTION_BUYER_APPROVED;
+        set_unreleased_milestones(&mut interaction.milestone_states, MILESTONE_RELEASED);
+        let deal_amount = interaction.released_amount + amount;
+        let fee = pay_seller(treasury, &mut interaction.payment, amount, seller, ctx);
+
+        event::emit(PaymentReleased {
+            advertisement_id,
+            user: user_address,
+            seller,
+            interaction_id,
+            amount,
+            fee,
+        });
+
+        // Update reputation of both parties
+        record_deal<T>(stats_registry, buyer, deal_amount, false, c);
+        record_deal<T>(stats_registry, seller, deal_amount, false, c);
+    }
+}
+
+// Convenience function to settle an interaction after its deadline
+entry fun claim_after_timeout_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address,
+    interaction_id: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    claim_after_timeout(advertisement, stats_registry, treasury, user_address, interaction_id, c, ctx);
+}
+
+/// Resolve a disputed transaction (by the assigned admin)
+/// Pays out the remaining escrow to the buyer, the seller, or splits it between them
+/// Milestones released before the dispute stay with the seller
+/// While the dispute can still be appealed the decision is only proposed, it is paid out by
+/// finalize_resolution once the appeal window has closed
+public fun resolve_dispute<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address, // The user whose interaction is disputed
+    interaction_id: u64, // Specify which interaction to resolve
+    resolution: u8, // One of RESOLUTION_ADMIN_BUYER, RESOLUTION_ADMIN_SELLER, RESOLUTION_ADMIN_SPLIT
+    buyer_share_bps: u64, // Share of the escrow returned to the buyer, in basis points
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+
+    // Verify resolution type is valid
+    assert!(
+        resolution == RESOLUTION_ADMIN_BUYER ||
+        resolution == RESOLUTION_ADMIN_SELLER ||
+        resolution == RESOLUTION_ADMIN_SPLIT,
+        EInvalidResolution
+    );
+
+    // Verify the share matches the resolution, a split must give something to both sides
+    if (resolution == RESOLUTION_ADMIN_BUYER) {
+        assert!(buyer_share_bps == BPS_DENOMINATOR, EInvalidSplit);
+    } else if (resolution == RESOLUTION_ADMIN_SELLER) {
+        assert!(buyer_share_bps == 0, EInvalidSplit);
+    } else {
+        assert!(buyer_share_bps > 0 && buyer_share_bps < BPS_DENOMINATOR, EInvalidSplit);
+    };
+
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Only the admin assigned at join time can resolve, a jury decides with cast_jury_vote
+    assert!(sender == interaction.assigned_admin, ENotAuthorized);
+    assert!(vector::is_empty(&interaction.jurors), ENotAuthorized);
+
+    // Verify interaction is in DISPUTED state and has no decision waiting for the appeal window
+    assert!(interaction.state == INTERACTION_DISPUTED, EInvalidState);
+    assert!(option::is_none(&interaction.proposed_share_bps), EInvalidState);
+
+    // The decision after the last allowed appeal is final
+    if (count_appeals(interaction) >= MAX_APPEALS) {
+        settle_dispute(
+            interaction,
+            stats_registry,
+            treasury,
+            advertisement_id,
+            resolution,
+            buyer_share_bps,
+            sender,
+            c,
+            ctx
+        );
+        return
+    };
+
+    // Otherwise both parties get the appeal window to contest the decision
+    interaction.proposed_share_bps = option::some(buyer_share_bps);
+    interaction.deadline = c.timestamp_ms() + APPEAL_WINDOW_MS;
+
+    event::emit(ResolutionProposed {
+        advertisement_id,
+        user: user_address,
+        interaction_id,
+        buyer_share_bps,
+        assigned_admin: sender,
+        appeal_deadline: interaction.deadline,
+    });
+}
+
+/// Pay out the remaining escrow of a disputed interaction and mark it as resolved
+fun settle_dispute<T>(
+    interaction: &mut Interaction<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    advertisement_id: ID,
+    resolution: u8,
+    buyer_share_bps: u64,
+    resolver: address, // The assigned admin, or the juror whose vote formed the majority or the median
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    // Update state to RESOLVED and record the outcome
+    interaction.state = INTERACTION_RESOLVED;
+    interaction.resolution = option::some(resolution);
+
+    // Pay out the escrow according to the resolution
+    let amount = coin::value(&interaction.payment);
+    assert!(amount > 0, EInvalidAmount);
+    let deal_amount = interaction.released_amount + amount;
+    let buyer = interaction.buyer;
+    let seller = interaction.seller;
+
+    // Buyer gets the rounded down share, seller gets the remainder
+    let buyer_share = ((amount as u128) * (buyer_share_bps as u128) / (BPS_DENOMINATOR as u128)) as u64;
+    let seller_share = amount - buyer_share;
+
+    // The admins who decided are paid by the side the ruling went against
+    let arbitration_fee = get_fee(amount, treasury.arbitration_fee_bps);
+    let (buyer_fee, seller_fee) = split_arbitration_fee(arbitration_fee, buyer_share, seller_share, buyer_share_bps);
+    let arbitrators = get_arbitrators(interaction, buyer_share_bps, resolver);
+    pay_arbitrators(&mut interaction.payment, arbitration_fee, arbitrators, ctx);
+
+    let buyer_amount = buyer_share - buyer_fee;
+    if (buyer_amount > 0) {
+        sui::pay::split_and_transfer(&mut interaction.payment, buyer_amount, buyer, ctx);
+    };
+    let platform_fee = pay_seller(treasury, &mut interaction.payment, seller_share - seller_fee, seller, ctx);
+    let seller_amount = seller_share - seller_fee - platform_fee;
+    interaction.buyer_payout = buyer_amount;
+    interaction.seller_payout = seller_amount;
+
+    event::emit(Resolved {
+        advertisement_id,
+        user: interaction.user,
+        interaction_id: interaction.id,
+        resolution,
+        buyer_share_bps,
+        buyer_amount,
+        seller_amount,
+        arbitration_fee,
+        platform_fee,
+        assigned_admin: resolver,
+    });
+
+    // Update reputation of both parties with the gross deal amount, like every other way a deal ends
+    record_deal<T>(stats_registry, buyer, deal_amount, true, c);
+    record_deal<T>(stats_registry, seller, deal_amount, true, c);
+
+    // Return the appeal bond if the final decision favours the appellant, otherwise it compensates the other party
+    let bond = coin::value(&interaction.appeal_bond);
+    if (bond > 0) {
+        let appeal = last_appeal(interaction);
+        let favoured = if (appeal.initiated_by == buyer) {
+            buyer_share_bps > appeal.appealed_share_bps
+        } else {
+            buyer_share_bps < appeal.appealed_share_bps
+        };
+        let recipient = if (favoured) {
+            appeal.initiated_by
+        } else if (appeal.initiated_by == buyer) {
+            seller
+        } else {
+            buyer
+        };
+        sui::pay::split_and_transfer(&mut interaction.appeal_bond, bond, recipient, ctx);
+
+        event::emit(AppealBondSettled {
+            advertisement_id,
+            user: interaction.user,
+            interaction_id: interaction.id,
+            recipient,
+            amount: bond,
+        });
+    };
+}
+
+// Convenience function to resolve a dispute
+entry fun resolve_dispute_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address,
+    interaction_id: u64,
+    resolution: u8,
+    buyer_share_bps: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    resolve_dispute(advertisement, stats_registry, treasury, user_address, interaction_id, resolution, buyer_share_bps, c, ctx);
+}
+
+/// Pay out the decision of the assigned admin once its appeal window has closed (callable by anyone)
+public fun finalize_resolution<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address, // The user whose interaction is disputed
+    interaction_id: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify a decision is waiting and nobody appealed it in time
+    assert!(interaction.state == INTERACTION_DISPUTED, EInvalidState);
+    assert!(option::is_some(&interaction.proposed_share_bps), EInvalidState);
+    assert!(c.timestamp_ms() > interaction.deadline, EDeadlineNotReached);
+
+    let buyer_share_bps = option::extract(&mut interaction.proposed_share_bps);
+    let resolver = interaction.assigned_admin;
+    settle_dispute(
+        interaction,
+        stats_registry,
+        treasury,
+        advertisement_id,
+        resolution_for_share(buyer_share_bps),
+        buyer_share_bps,
+        resolver,
+        c,
+        ctx
+    );
+}
+
+// Convenience function to finalize a resolution after its appeal window
+entry fun finalize_resolution_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address,
+    interaction_id: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    finalize_resolution(advertisement, stats_registry, treasury, user_address, interaction_id, c, ctx);
+}
+
+/// Appeal the decision of the assigned admin before its appeal window closes (by the buyer or the seller)
+/// The appellant posts the bond of get_appeal_bond and the dispute goes to a freshly drawn admin,
+/// who gains access to the chat and decides again
+entry fun appeal_resolution_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    admin_registry: &AdminRegistry,
+    user_address: address, // The user whose interaction is disputed
+    interaction_id: u64,
+    bond: Coin<T>,
+    c: &Clock,
+    r: &Random,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify sender is authorized (either the buyer or the seller)
+    assert!(sender == interaction.buyer || sender == interaction.seller, ENotAuthorized);
+
+    // Verify a decision is waiting and its appeal window is still open
+    assert!(interaction.state == INTERACTION_DISPUTED, EInvalidState);
+    assert!(option::is_some(&interaction.proposed_share_bps), EInvalidState);
+    assert!(c.timestamp_ms() <= interaction.deadline, EAppealWindowClosed);
+    assert!(count_appeals(interaction) < MAX_APPEALS, EAppealLimitReached);
+
+    // Verify the bond matches the escrow
+    let bond_amount = coin::value(&bond);
+    assert!(bond_amount == get_appeal_bond<T>(admin_registry, coin::value(&interaction.payment)), EInvalidAmount);
+    coin::join(&mut interaction.appeal_bond, bond);
+
+    let appealed_share_bps = option::extract(&mut interaction.proposed_share_bps);
+    let new_admin = *vector::borrow(
+        &select_random_admins(admin_registry, &dispute_participants(interaction), 1, r, ctx),
+        0
+    );
+    escalate(interaction, advertisement_id, ESCALATION_APPEAL, 0, new_admin, sender, appealed_share_bps, bond_amount, c);
+}
+
+/// Hand a dispute to freshly drawn admins when the assigned admin did not decide in time (callable by anyone)
+/// For a jury dispute every juror who has not voted yet is replaced
+entry fun reassign_inactive_admin_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    admin_registry: &AdminRegistry,
+    user_address: address, // The user whose interaction is disputed
+    interaction_id: u64,
+    c: &Clock,
+    r: &Random,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify the admin has not decided and the response deadline has passed
+    assert!(interaction.state == INTERACTION_DISPUTED, EInvalidState);
+    assert!(option::is_none(&interaction.proposed_share_bps), EInvalidState);
+    assert!(c.timestamp_ms() > interaction.deadline, EDeadlineNotReached);
+
+    if (vector::is_empty(&interaction.jurors)) {
+        let new_admin = *vector::borrow(
+            &select_random_admins(admin_registry, &dispute_participants(interaction), 1, r, ctx),
+            0
+        );
+        escalate(interaction, advertisement_id, ESCALATION_INACTIVE_ADMIN, 0, new_admin, sender, 0, 0, c);
+        return
+    };
+
+    // Replace the jurors who have not voted, drawing one at a time so nobody is drawn twice
+    let mut replaced = 0;
+    let mut i = 0;
+    while (i < vector::length(&interaction.jurors)) {
+        let juror = *vector::borrow(&interaction.jurors, i);
+        if (!has_jury_vote(&interaction.jury_votes, juror)) {
+            let new_admin = *vector::borrow(
+                &select_random_admins(admin_registry, &dispute_participants(interaction), 1, r, ctx),
+                0
+            );
+            escalate(interaction, advertisement_id, ESCALATION_INACTIVE_ADMIN, i, new_admin, sender, 0, 0, c);
+            replaced = replaced + 1;
+        };
+        i = i + 1;
+    };
+    assert!(replaced > 0, EInvalidState);
+}
+
+/// Replace the assigned admin, or the juror at juror_index, and restart the response deadline
+fun escalate<T>(
+    interaction: &mut Interaction<T>,
+    advertisement_id: ID,
+    kind: u8,
+    juror_index: u64, // Ignored when the dispute has no jury
+    new_admin: address,
+    initiated_by: address,
+    appealed_share_bps: u64,
+    bond: u64,
+    c: &Clock
+) {
+    let previous_admin = if (vector::is_empty(&interaction.jurors)) {
+        let previous = interaction.assigned_admin;
+        interaction.assigned_admin = new_admin;
+        previous
+    } else {
+        let previous = *vector::borrow(&interaction.jurors, juror_index);
+        *vector::borrow_mut(&mut interaction.jurors, juror_index) = new_admin;
+        // The first juror doubles as the assigned admin
+        interaction.assigned_admin = *vector::borrow(&interaction.jurors, 0);
+        previous
+    };
+    interaction.deadline = c.timestamp_ms() + ADMIN_RESPONSE_WINDOW_MS;
+
+    vector::push_back(&mut interaction.escalations, Escalation {
+        kind,
+        previous_admin,
+        new_admin,
+        initiated_by,
+        appealed_share_bps,
+        bond,
+        timestamp: c.timestamp_ms(),
+    });
+
+    event::emit(DisputeEscalated {
+        advertisement_id,
+        user: interaction.user,
+        interaction_id: interaction.id,
+        kind,
+        previous_admin,
+        new_admin,
+        initiated_by,
+        bond,
+        deadline: interaction.deadline,
+    });
+}
+
+/// Get the addresses that can never be drawn for a dispute: its parties and every admin involved so far
+fun dispute_participants<T>(interaction: &Interaction<T>): vector<address> {
+    let mut participants = vector[interaction.buyer, interaction.seller, interaction.assigned_admin];
+    vector::append(&mut participants, interaction.jurors);
+    let mut i = 0;
+    while (i < vector::length(&interaction.escalations)) {
+        vector::push_back(&mut participants, vector::borrow(&interaction.escalations, i).previous_admin);
+        i = i + 1;
+    };
+    participants
+}
+
+/// Count the appeals filed against decisions of an interaction
+fun count_appeals<T>(interaction: &Interaction<T>): u64 {
+    let mut count = 0;
+    let mut i = 0;
+    while (i < vector::length(&interaction.escalations)) {
+        if (vector::borrow(&interaction.escalations, i).kind == ESCALATION_APPEAL) {
+            count = count + 1;
+        };
+        i = i + 1;
+    };
+    count
+}
+
+/// Get the most recent appeal of an interaction, aborts if it was never appealed
+fun last_appeal<T>(interaction: &Interaction<T>): Escalation {
+    let mut i = vector::length(&interaction.escalations);
+    while (i > 0) {
+        i = i - 1;
+        let escalation = *vector::borrow(&interaction.escalations, i);
+        if (escalation.kind == ESCALATION_APPEAL) {
+            return escalation
+        };
+    };
+    abort EInvalidState
+}
+
+/// Check if a juror has voted on a dispute
+fun has_jury_vote(jury_votes: &vector<JuryVote>, juror: address): bool {
+    let mut i = 0;
+    while (i < vector::length(jury_votes)) {
+        if (vector::borrow(jury_votes, i).juror == juror) {
+            return true
+        };
+        i = i + 1;
+    };
+    false
+}
+
+/// Get the bond required to appeal a decision on an escrow in coin type T
+/// APPEAL_BOND_BPS of the escrow, but never less than the floor governance set for the coin
+public fun get_appeal_bond<T>(admin_registry: &AdminRegistry, escrow: u64): u64 {
+    let bond = ((escrow as u128) * (APPEAL_BOND_BPS as u128) / (BPS_DENOMINATOR as u128)) as u64;
+    let coin_type = type_name::get<T>();
+    let min_bond = if (vec_map::contains(&admin_registry.min_appeal_bonds, &coin_type)) {
+        *vec_map::get(&admin_registry.min_appeal_bonds, &coin_type)
+    } else {
+        1
+    };
+    if (bond < min_bond) { min_bond } else { bond }
+}
+
+/// Vote on a high-value dispute (by one of its jurors)
+/// A juror can change the vote until a majority of the jury agrees on the same buyer share,
+/// the vote that forms the majority settles the escrow like resolve_dispute
+/// A jury ruling is final: unlike a single admin's proposal it has no appeal window
+public fun cast_jury_vote<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address, // The user whose interaction is disputed
+    interaction_id: u64,
+    buyer_share_bps: u64, // Share of the escrow the juror wants returned to the buyer, in basis points
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    let sender = ctx.sender();
+    assert!(buyer_share_bps <= BPS_DENOMINATOR, EInvalidSplit);
+
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify sender is one of the jurors and the interaction is disputed
+    assert!(vector::contains(&interaction.jurors, &sender), ENotAuthorized);
+    assert!(interaction.state == INTERACTION_DISPUTED, EInvalidState);
+
+    // Replace an earlier vote of the juror, count the votes for the same share
+    let mut agreeing = 1;
+    let mut i = 0;
+    while (i < vector::length(&interaction.jury_votes)) {
+        let vote = vector::borrow(&interaction.jury_votes, i);
+        if (vote.juror == sender) {
+            vector::remove(&mut interaction.jury_votes, i);
+        } else {
+            if (vote.buyer_share_bps == buyer_share_bps) {
+                agreeing = agreeing + 1;
+            };
+            i = i + 1;
+        };
+    };
+    vector::push_back(&mut interaction.jury_votes, JuryVote { juror: sender, buyer_share_bps });
+
+    event::emit(JuryVoteCast {
+        advertisement_id,
+        user: user_address,
+        interaction_id,
+        juror: sender,
+        buyer_share_bps,
+    });
+
+    // Settle once more than half of the jury agrees
+    if (agreeing * 2 > vector::length(&interaction.jurors)) {
+        settle_dispute(
+            interaction,
+            stats_registry,
+            treasury,
+            advertisement_id,
+            resolution_for_share(buyer_share_bps),
+            buyer_share_bps,
+            sender,
+            c,
+            ctx
+        );
+    }
+}
+
+// Convenience function to cast a jury vote
+entry fun cast_jury_vote_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address,
+    interaction_id: u64,
+    buyer_share_bps: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    cast_jury_vote(advertisement, stats_registry, treasury, user_address, interaction_id, buyer_share_bps, c, ctx);
+}
+
+/// Settle a jury dispute at the median vote when every juror has voted without a majority (callable by anyone)
+/// Only possible after the response deadline, so jurors get the full window to converge on one share
+public fun settle_jury_by_median<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address, // The user whose interaction is disputed
+    interaction_id: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    let advertisement_id = object::id(advertisement);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify the jury dispute is open, every juror has voted and the response deadline has passed
+    assert!(interaction.state == INTERACTION_DISPUTED, EInvalidState);
+    assert!(!vector::is_empty(&interaction.jurors), EInvalidState);
+    assert!(vector::length(&interaction.jury_votes) == vector::length(&interaction.jurors), EInvalidState);
+    assert!(c.timestamp_ms() > interaction.deadline, EDeadlineNotReached);
+
+    // Sort the votes by buyer share, the jury size is odd so the middle vote is the median
+    let mut votes = interaction.jury_votes;
+    let count = vector::length(&votes);
+    let mut i = 1;
+    while (i < count) {
+        let mut j = i;
+        while (j > 0 && vector::borrow(&votes, j - 1).buyer_share_bps > vector::borrow(&votes, j).buyer_share_bps) {
+            vector::swap(&mut votes, j - 1, j);
+            j = j - 1;
+        };
+        i = i + 1;
+    };
+    let median = *vector::borrow(&votes, count / 2);
+
+    settle_dispute(
+        interaction,
+        stats_registry,
+        treasury,
+        advertisement_id,
+        resolution_for_share(median.buyer_share_bps),
+        median.buyer_share_bps,
+        median.juror,
+        c,
+        ctx
+    );
+}
+
+// Convenience function to settle a jury dispute at the median vote
+entry fun settle_jury_by_median_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    stats_registry: &mut StatsRegistry,
+    treasury: &mut Treasury,
+    user_address: address,
+    interaction_id: u64,
+    c: &Clock,
+    ctx: &mut TxContext
+) {
+    settle_jury_by_median(advertisement, stats_registry, treasury, user_address, interaction_id, c, ctx);
+}
+
+/// Get the resolution type recorded for a buyer share
+fun resolution_for_share(buyer_share_bps: u64): u8 {
+    if (buyer_share_bps == BPS_DENOMINATOR) {
+        RESOLUTION_ADMIN_BUYER
+    } else if (buyer_share_bps == 0) {
+        RESOLUTION_ADMIN_SELLER
+    } else {
+        RESOLUTION_ADMIN_SPLIT
+    }
+}
+
+/// Split the arbitration fee between buyer and seller, the side that got less than half pays it and an even split shares it
+/// The escrow is the only collateral, so whatever the losing side cannot cover from its share is taken from the other share
+fun split_arbitration_fee(fee: u64, buyer_share: u64, seller_share: u64, buyer_share_bps: u64): (u64, u64) {
+    let mut buyer_fee = if (buyer_share_bps * 2 > BPS_DENOMINATOR) {
+        0
+    } else if (buyer_share_bps * 2 < BPS_DENOMINATOR) {
+        fee
+    } else {
+        fee / 2
+    };
+    if (buyer_fee > buyer_share) {
+        buyer_fee = buyer_share;
+    };
+    let mut seller_fee = fee - buyer_fee;
+    if (seller_fee > seller_share) {
+        seller_fee = seller_share;
+        buyer_fee = fee - seller_fee;
+    };
+    (buyer_fee, seller_fee)
+}
+
+/// Get the admins who earned the arbitration fee: the assigned admin, or the jurors who voted for the final share
+fun get_arbitrators<T>(interaction: &Interaction<T>, buyer_share_bps: u64, resolver: address): vector<address> {
+    let mut arbitrators = vector::empty();
+    let mut i = 0;
+    while (i < vector::length(&interaction.jury_votes)) {
+        let vote = vector::borrow(&interaction.jury_votes, i);
+        if (vote.buyer_share_bps == buyer_share_bps) {
+            vector::push_back(&mut arbitrators, vote.juror);
+        };
+        i = i + 1;
+    };
+    if (vector::is_empty(&arbitrators)) {
+        vector::push_back(&mut arbitrators, resolver);
+    };
+    arbitrators
 }
 
-// Convenience function to dispute a transaction
-entry fun dispute_transaction_entry(
-    advertisement: &mut Advertisement,
-    user_address: address,
-    interaction_id: u64,
-    ctx: &mut TxContext
-) {
-    dispute_transaction(advertisement, user_address, interaction_id, ctx);
+/// Pay the arbitration fee out of the escrow in equal parts, the rounding remainder goes to the first arbitrator
+fun pay_arbitrators<T>(payment: &mut Coin<T>, fee: u64, arbitrators: vector<address>, ctx: &mut TxContext) {
+    let count = vector::length(&arbitrators);
+    let part = fee / count;
+    let mut i = 0;
+    while (i < count) {
+        let amount = if (i == 0) { fee - part * (count - 1) } else { part };
+        if (amount > 0) {
+            sui::pay::split_and_transfer(payment, amount, *vector::borrow(&arbitrators, i), ctx);
+        };
+        i = i + 1;
+    };
 }
 
     //////////////////////////////////////////
     /////// Chat Functionality
 
-/// Add a chat message
-public fun add_chat_message(
-    advertisement: &mut Advertisement,
-    user_address: address, // The user whose interaction to add the message to
-    interaction_id: u64, // Specify which interaction to add the message to
+/// Add a chat message to the chat room of an interaction
+/// The advertisement is only read to check the sender, so messages don't contend with deal updates
+/// Ciphertexts are bound to their sequence number, so the message aborts if expected_seq was taken meanwhile
+public fun add_chat_message<T>(
+    chat: &mut ChatRoom,
+    advertisement: &Advertisement<T>,
     message_blob_id: Option<String>,
     message_encrypted_text: Option<String>,
+    expected_seq: u64,
     c: &Clock,
-    ctx: &mut TxContext
+    ctx: &TxContext
 ) {
     let sender = ctx.sender();
-    
+    let advertisement_id = object::id(advertisement);
+    let user_address = chat.interaction_user;
+    let interaction_id = chat.interaction_id;
+
+    // Verify the chat room belongs to the advertisement
+    assert!(chat.advertisement_id == advertisement_id, EInteractionNotFound);
+
     // Verify the user profile exists
     assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
-    
-    // Get the advertisement ID
-    let advertisement_id = object::id(advertisement);
 
     // Get the user profile
-    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
-    
+    let profile = table::borrow(&advertisement.user_profiles, user_address);
+
     // Verify the interaction exists
     assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
-    
+
     // Get the interaction
-    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
-    
-    // Verify sender is authorized (creator, user in interaction, or assigned admin)
+    let interaction = vector::borrow(&profile.interactions, interaction_id);
+
+    // Verify sender is authorized (creator, user in interaction, assigned admin or juror)
     assert!(
         sender == advertisement.creator || 
         sender == user_address ||
-        sender == interaction.assigned_admin,
+        sender == interaction.assigned_admin ||
+        vector::contains(&interaction.jurors, &sender),
         ENotAuthorized
     );
-    
+
+    // Verify the chat has not been archived
+    assert!(option::is_none(&interaction.chat_archive_blob_id), EChatArchived);
+
+    // Verify the message was encrypted for the next sequence number
+    let seq = chat.next_seq;
+    assert!(expected_seq == seq, ESequenceMismatch);
+
     let message = ChatMessage {
-        id: object::new(ctx),
+        seq,
         advertisement_id,
         interaction_user: user_address,
         interaction_id,
@@ -458,50 +2742,174 @@ public fun add_chat_message(
         message_blob_id,
     };
 
-    // Add the chat message to interaction
-    interaction.chat_messages.push_back(message);
+    // Add the chat message under the next sequence number
+    chat.messages_hash = chain_message_hash(&chat.messages_hash, &message);
+    table::add(&mut chat.messages, seq, message);
+    chat.next_seq = seq + 1;
+
+    event::emit(ChatMessageAdded {
+        advertisement_id,
+        user: user_address,
+        interaction_id,
+        seq,
+        sender,
+        timestamp: c.timestamp_ms(),
+    });
 }
 
 // Convenience function to add a chat message
-entry fun add_chat_message_entry(
-    advertisement: &mut Advertisement,
-    user_address: address,
-    interaction_id: u64,
+entry fun add_chat_message_entry<T>(
+    chat: &mut ChatRoom,
+    advertisement: &Advertisement<T>,
     message_blob_id: Option<String>,
     message_encrypted_text: Option<String>,
+    expected_seq: u64,
     c: &Clock,
-    ctx: &mut TxContext
+    ctx: &TxContext
 ) {
     add_chat_message(
+        chat,
         advertisement,
-        user_address,
-        interaction_id,
         message_blob_id,
         message_encrypted_text,
+        expected_seq,
         c,
         ctx
     );
 }
 
-    // TODO: Fix later by creating a registry on contract published with a Table of all UserReputations (can be called
-    // GlobalUserInfoRegistry)
-    // It can be passed when creating a new add to copy the rating, and other dealer information
-    // to be easily visible for the user
-    // Also passed when a new interaction is created, for the same reason
-    // And of course on any resolution or review
-    // To actually update the reputation
+/// Fold a message into the running hash of a chat room: sha256(previous hash || bcs(message))
+fun chain_message_hash(previous: &vector<u8>, message: &ChatMessage): vector<u8> {
+    let mut bytes = *previous;
+    append(&mut bytes, to_bytes(message));
+    sha2_256(bytes)
+}
+
+/// Archive the chat of an approved deal to Walrus and delete its messages on-chain (by buyer or seller)
+/// The blob bundles the encrypted messages, encrypted again with the chat key; the hash lets readers verify it
+/// The archiver proves the bundle holds every message by recomputing the running hash of the chat room,
+/// which stays on-chain so readers can check the archived history against it
+/// Chats longer than MAX_CHAT_REMOVALS are cleared with purge_archived_chat
+public fun archive_chat<T>(
+    advertisement: &mut Advertisement<T>,
+    chat: &mut ChatRoom,
+    blob_id: String,
+    content_hash: vector<u8>,
+    message_count: u64,
+    messages_hash: vector<u8>,
+    ctx: &TxContext
+) {
+    let sender = ctx.sender();
+    let advertisement_id = object::id(advertisement);
+    let user_address = chat.interaction_user;
+    let interaction_id = chat.interaction_id;
+
+    // Verify the chat room belongs to the advertisement
+    assert!(chat.advertisement_id == advertisement_id, EInteractionNotFound);
+
+    // Verify the archive references a blob and a sha256 hash
+    assert!(!blob_id.is_empty() && vector::length(&content_hash) == 32, EInvalidArchive);
+
+    // Verify the archive was built from every message, none added or altered since
+    assert!(message_count == chat.next_seq, ESequenceMismatch);
+    assert!(messages_hash == chat.messages_hash, EInvalidArchive);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+    // Verify the interaction exists
+    assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Get the interaction
+    let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+    // Verify sender is a party of the deal, the deal is approved and the chat not archived yet
+    assert!(sender == interaction.buyer || sender == interaction.seller, ENotAuthorized);
+    assert!(interaction.state == INTERACTION_BUYER_APPROVED, EInvalidState);
+    assert!(option::is_none(&interaction.chat_archive_blob_id), EChatArchived);
+
+    interaction.chat_archive_blob_id = option::some(blob_id);
+    interaction.chat_archive_hash = content_hash;
+
+    remove_chat_messages(chat);
+
+    event::emit(ChatArchived {
+        advertisement_id,
+        user: user_address,
+        interaction_id,
+        blob_id,
+        message_count: chat.next_seq,
+    });
+}
+
+// Convenience function to archive a chat
+entry fun archive_chat_entry<T>(
+    advertisement: &mut Advertisement<T>,
+    chat: &mut ChatRoom,
+    blob_id: String,
+    content_hash: vector<u8>,
+    message_count: u64,
+    messages_hash: vector<u8>,
+    ctx: &TxContext
+) {
+    archive_chat(advertisement, chat, blob_id, content_hash, message_count, messages_hash, ctx);
+}
+
+/// Delete the messages left on-chain after archiving a long chat
+/// Anyone can call it, the messages are already kept in the archive
+public fun purge_archived_chat<T>(chat: &mut ChatRoom, advertisement: &Advertisement<T>) {
+    // Verify the chat room belongs to the advertisement
+    assert!(chat.advertisement_id == object::id(advertisement), EInteractionNotFound);
+
+    // Verify the user profile exists
+    assert!(table::contains(&advertisement.user_profiles, chat.interaction_user), EInteractionNotFound);
+
+    // Get the user profile
+    let profile = table::borrow(&advertisement.user_profiles, chat.interaction_user);
+
+    // Verify the interaction exists
+    assert!(chat.interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+    // Verify the chat has been archived
+    let interaction = vector::borrow(&profile.interactions, chat.interaction_id);
+    assert!(option::is_some(&interaction.chat_archive_blob_id), EInvalidState);
+
+    remove_chat_messages(chat);
+}
+
+// Convenience function to purge an archived chat
+entry fun purge_archived_chat_entry<T>(chat: &mut ChatRoom, advertisement: &Advertisement<T>) {
+    purge_archived_chat(chat, advertisement);
+}
+
+/// Delete up to MAX_CHAT_REMOVALS messages of a chat room for the storage rebate
+/// Messages are removed from the highest sequence number, so the remaining ones stay keyed from 0
+fun remove_chat_messages(chat: &mut ChatRoom) {
+    let mut removed = 0;
+    while (removed < MAX_CHAT_REMOVALS && !table::is_empty(&chat.messages)) {
+        let seq = table::length(&chat.messages) - 1;
+        table::remove(&mut chat.messages, seq);
+        removed = removed + 1;
+    };
+}
 
     //////////////////////////////////////////
     /////// Reputation System
 
-    /// Initialize user reputation
-    public fun initialize_reputation(
+    /// Initialize user reputation in the stats registry if the user has none yet
+    fun initialize_reputation(
+        stats_registry: &mut StatsRegistry,
         user: address,
-        c: &Clock,
-        ctx: &mut TxContext
+        c: &Clock
     ) {
+        if (table::contains(&stats_registry.reputations, user)) {
+            return
+        };
+
         let reputation = UserReputation {
-            id: object::new(ctx),
             user,
             rating_sum: 0,
             rating_count: 0,
@@ -513,123 +2921,345 @@ entry fun add_chat_message_entry(
             last_active: c.timestamp_ms(),
         };
         
-        transfer::share_object(reputation);
+        table::add(&mut stats_registry.reputations, user, reputation);
     }
 
-    /// Add a review after peaceful resolution
-    public fun add_peaceful_review(
-        transaction_id: ID,
-        reviewer: address,
-        reviewed: address,
-        rating: u64,
-        comment: String,
-        reputation: &mut UserReputation,
-        c: &Clock,
-        ctx: &mut TxContext
+    /// Record a finished deal in the reputation of one of its parties
+    /// Called automatically on payment release and on dispute resolution
+    /// Amounts of different coins can't be added up, so only SUI deals count towards the volume
+    fun record_deal<T>(
+        stats_registry: &mut StatsRegistry,
+        user: address,
+        amount: u64,
+        disputed: bool,
+        c: &Clock
     ) {
-        // Verify rating is between 1 and 5
-        assert!(rating >= 1 && rating <= 5, EInvalidRating);
-        
-        // Verify reputation is for the reviewed user
-        assert!(reputation.user == reviewed, ENotAuthorized);
-        
-        let review = Review {
-            id: object::new(ctx),
-            transaction_id,
-            reviewer,
-            reviewed,
-            rating,
-            comment,
-            timestamp: c.timestamp_ms(),
-            resolution_type: RESOLUTION_PEACEFUL,
+        initialize_reputation(stats_registry, user, c);
+        let reputation = table::borrow_mut(&mut stats_registry.reputations, user);
+
+        reputation.total_deals = reputation.total_deals + 1;
+        if (type_name::get<T>() == type_name::get<SUI>()) {
+            reputation.total_volume = reputation.total_volume + amount;
         };
-        
-        // Update reputation stats
+        if (disputed) {
+            reputation.disputed_deals = reputation.disputed_deals + 1;
+        } else {
+            reputation.peaceful_resolutions = reputation.peaceful_resolutions + 1;
+        };
+        reputation.last_active = c.timestamp_ms();
+    }
+
+    /// Store a review and add its rating to the reviewed user's reputation
+    /// Deal counters are not touched here, they are updated when the deal finishes
+    fun record_review(
+        stats_registry: &mut StatsRegistry,
+        review: Review,
+        c: &Clock
+    ) {
+        let reviewed = review.reviewed;
+        let rating = review.rating;
+
+        initialize_reputation(stats_registry, reviewed, c);
+        let reputation = table::borrow_mut(&mut stats_registry.reputations, reviewed);
         reputation.rating_sum = reputation.rating_sum + rating;
         reputation.rating_count = reputation.rating_count + 1;
-        reputation.total_deals = reputation.total_deals + 1;
-        reputation.peaceful_resolutions = reputation.peaceful_resolutions + 1;
         reputation.last_active = c.timestamp_ms();
-        
-        transfer::share_object(review);
+
+        if (!table::contains(&stats_registry.reviews, reviewed)) {
+            table::add(&mut stats_registry.reviews, reviewed, vector::empty());
+        };
+        vector::push_back(table::borrow_mut(&mut stats_registry.reviews, reviewed), review);
     }
 
-    /// Add a review after disputed resolution
-    public fun add_disputed_review(
-        transaction_id: ID,
-        reviewer: address,
-        reviewed: address,
+    /// Review the counterparty of a finished interaction
+    /// Only the buyer or the seller of the interaction can review, and each side only once
+    public fun add_review<T>(
+        advertisement: &mut Advertisement<T>,
+        stats_registry: &mut StatsRegistry,
+        user_address: address,
+        interaction_id: u64,
         rating: u64,
         comment: String,
-        resolution_type: u8,
-        reputation: &mut UserReputation,
         c: &Clock,
         ctx: &mut TxContext
     ) {
+        let sender = ctx.sender();
+        let advertisement_id = object::id(advertisement);
+
         // Verify rating is between 1 and 5
         assert!(rating >= 1 && rating <= 5, EInvalidRating);
-        
-        // Verify reputation is for the reviewed user
-        assert!(reputation.user == reviewed, ENotAuthorized);
-        
-        // Verify resolution type is valid
+
+        // Verify the user profile exists
+        assert!(table::contains(&advertisement.user_profiles, user_address), EInteractionNotFound);
+
+        // Get the user profile
+        let profile = table::borrow_mut(&mut advertisement.user_profiles, user_address);
+
+        // Verify the interaction exists
+        assert!(interaction_id < vector::length(&profile.interactions), EInteractionNotFound);
+
+        // Get the interaction
+        let interaction = vector::borrow_mut(&mut profile.interactions, interaction_id);
+
+        // Verify the deal is finished
         assert!(
-            resolution_type == RESOLUTION_ADMIN_BUYER || 
-            resolution_type == RESOLUTION_ADMIN_SELLER || 
-            resolution_type == RESOLUTION_ADMIN_SPLIT,
+            interaction.state == INTERACTION_BUYER_APPROVED || interaction.state == INTERACTION_RESOLVED,
             EInvalidState
         );
-        
+
+        // Verify sender is a party of the deal and has not reviewed it yet
+        let reviewed = if (sender == interaction.buyer) {
+            assert!(!interaction.buyer_reviewed, EAlreadyReviewed);
+            interaction.buyer_reviewed = true;
+            interaction.seller
+        } else if (sender == interaction.seller) {
+            assert!(!interaction.seller_reviewed, EAlreadyReviewed);
+            interaction.seller_reviewed = true;
+            interaction.buyer
+        } else {
+            abort ENotAuthorized
+        };
+
+        let resolution_type = if (option::is_some(&interaction.resolution)) {
+            *option::borrow(&interaction.resolution)
+        } else {
+            RESOLUTION_PEACEFUL
+        };
+
         let review = Review {
-            id: object::new(ctx),
-            transaction_id,
-            reviewer,
+            transaction_id: advertisement_id,
+            interaction_user: user_address,
+            interaction_id,
+            reviewer: sender,
             reviewed,
             rating,
             comment,
             timestamp: c.timestamp_ms(),
             resolution_type,
         };
-        
-        // Update reputation stats
-        reputation.rating_sum = reputation.rating_sum + rating;
-        reputation.rating_count = reputation.rating_count + 1;
-        reputation.total_deals = reputation.total_deals + 1;
-        reputation.disputed_deals = reputation.disputed_deals + 1;
-        reputation.last_active = c.timestamp_ms();
-        
-        transfer::share_object(review);
+
+        record_review(stats_registry, review, c);
     }
 
-    /// Update total volume for a user
-    public fun update_volume(
-        reputation: &mut UserReputation,
-        amount: u64,
-        c: &Clock
+    // Convenience function to add a review
+    entry fun add_review_entry<T>(
+        advertisement: &mut Advertisement<T>,
+        stats_registry: &mut StatsRegistry,
+        user_address: address,
+        interaction_id: u64,
+        rating: u64,
+        comment: String,
+        c: &Clock,
+        ctx: &mut TxContext
     ) {
-        reputation.total_volume = reputation.total_volume + amount;
-        reputation.last_active = c.timestamp_ms();
+        add_review(advertisement, stats_registry, user_address, interaction_id, rating, comment, c, ctx);
     }
 
     //////////////////////////////////////////
     /////// Admin Functions
-    
-    /// For now admins will be hardcoded and randomly selected during assignment
-    /// procedure, but in the future we can add a registry of admins who have the
-    /// capability to resolve disputes
-    ///
-    /// Create an admin capability
-    // public fun create_admin_cap(ctx: &mut TxContext): AdminCap {
-    //     AdminCap {
-    //         id: object::new(ctx),
-    //     }
-    // }
+
+    /// Register a new admin who can be assigned to arbitrate disputes
+    public fun add_admin(
+        admin_registry: &mut AdminRegistry,
+        _cap: &AdminGovernanceCap,
+        admin: address
+    ) {
+        assert!(!vector::contains(&admin_registry.admins, &admin), EAdminAlreadyRegistered);
+        vector::push_back(&mut admin_registry.admins, admin);
+    }
+
+    /// Remove an admin from the registry entirely
+    /// Disputes already assigned to the admin stay assigned
+    public fun remove_admin(
+        admin_registry: &mut AdminRegistry,
+        _cap: &AdminGovernanceCap,
+        admin: address
+    ) {
+        let (found, index) = vector::index_of(&admin_registry.admins, &admin);
+        assert!(found, EAdminNotRegistered);
+        vector::remove(&mut admin_registry.admins, index);
+
+        // Also drop the admin from the suspended list if present
+        let (suspended, suspended_index) = vector::index_of(&admin_registry.suspended, &admin);
+        if (suspended) {
+            vector::remove(&mut admin_registry.suspended, suspended_index);
+        };
+    }
+
+    /// Temporarily exclude a registered admin from new dispute assignments
+    public fun suspend_admin(
+        admin_registry: &mut AdminRegistry,
+        _cap: &AdminGovernanceCap,
+        admin: address
+    ) {
+        assert!(vector::contains(&admin_registry.admins, &admin), EAdminNotRegistered);
+        assert!(!vector::contains(&admin_registry.suspended, &admin), EAdminAlreadySuspended);
+        vector::push_back(&mut admin_registry.suspended, admin);
+    }
+
+    /// Make a suspended admin eligible for assignment again
+    public fun reinstate_admin(
+        admin_registry: &mut AdminRegistry,
+        _cap: &AdminGovernanceCap,
+        admin: address
+    ) {
+        let (found, index) = vector::index_of(&admin_registry.suspended, &admin);
+        assert!(found, EAdminNotSuspended);
+        vector::remove(&mut admin_registry.suspended, index);
+    }
+
+    /// Set how many admins are drawn for a jury, must be odd so a majority always exists
+    public fun set_jury_size(
+        admin_registry: &mut AdminRegistry,
+        _cap: &AdminGovernanceCap,
+        jury_size: u64
+    ) {
+        assert!(jury_size > 0 && jury_size % 2 == 1, EInvalidJurySize);
+        admin_registry.jury_size = jury_size;
+    }
+
+    /// Draw a jury for new deals in coin type T whose escrow is at least the threshold
+    /// Deals joined before the change keep their single admin or jury
+    public fun set_jury_threshold<T>(
+        admin_registry: &mut AdminRegistry,
+        _cap: &AdminGovernanceCap,
+        threshold: u64
+    ) {
+        let coin_type = type_name::get<T>();
+        if (vec_map::contains(&admin_registry.jury_thresholds, &coin_type)) {
+            *vec_map::get_mut(&mut admin_registry.jury_thresholds, &coin_type) = threshold;
+        } else {
+            vec_map::insert(&mut admin_registry.jury_thresholds, coin_type, threshold);
+        };
+    }
+
+    /// Set the smallest bond an appeal on an escrow in coin type T posts
+    /// Appeals already pending keep the bond they posted
+    public fun set_min_appeal_bond<T>(
+        admin_registry: &mut AdminRegistry,
+        _cap: &AdminGovernanceCap,
+        min_bond: u64
+    ) {
+        assert!(min_bond > 0, EInvalidAmount);
+        let coin_type = type_name::get<T>();
+        if (vec_map::contains(&admin_registry.min_appeal_bonds, &coin_type)) {
+            *vec_map::get_mut(&mut admin_registry.min_appeal_bonds, &coin_type) = min_bond;
+        } else {
+            vec_map::insert(&mut admin_registry.min_appeal_bonds, coin_type, min_bond);
+        };
+    }
+
+    /// Let appeals in coin type T post APPEAL_BOND_BPS of the escrow without a floor again
+    public fun remove_min_appeal_bond<T>(
+        admin_registry: &mut AdminRegistry,
+        _cap: &AdminGovernanceCap
+    ) {
+        vec_map::remove(&mut admin_registry.min_appeal_bonds, &type_name::get<T>());
+    }
+
+    /// Let a single admin decide all disputes in coin type T again
+    public fun remove_jury_threshold<T>(
+        admin_registry: &mut AdminRegistry,
+        _cap: &AdminGovernanceCap
+    ) {
+        vec_map::remove(&mut admin_registry.jury_thresholds, &type_name::get<T>());
+    }
+
+    /// Check if an address is a registered admin who is not suspended
+    public fun is_active_admin(admin_registry: &AdminRegistry, admin: address): bool {
+        vector::contains(&admin_registry.admins, &admin) &&
+        !vector::contains(&admin_registry.suspended, &admin)
+    }
+
+    //////////////////////////////////////////
+    /////// Treasury
+
+    /// Get the fee of an amount, rounded down
+    fun get_fee(amount: u64, fee_bps: u64): u64 {
+        ((amount as u128) * (fee_bps as u128) / (BPS_DENOMINATOR as u128)) as u64
+    }
+
+    /// Pay a seller out of an escrow, keeping the platform fee in the treasury
+    /// Returns the fee that was kept
+    fun pay_seller<T>(
+        treasury: &mut Treasury,
+        payment: &mut Coin<T>,
+        amount: u64,
+        seller: address,
+        ctx: &mut TxContext
+    ): u64 {
+        let fee = get_fee(amount, treasury.fee_bps);
+        if (fee > 0) {
+            let coin_type = type_name::get<T>();
+            if (!bag::contains(&treasury.balances, coin_type)) {
+                bag::add(&mut treasury.balances, coin_type, balance::zero<T>());
+            };
+            let collected: &mut Balance<T> = bag::borrow_mut(&mut treasury.balances, coin_type);
+            balance::join(collected, coin::into_balance(coin::split(payment, fee, ctx)));
+        };
+        if (amount > fee) {
+            sui::pay::split_and_transfer(payment, amount - fee, seller, ctx);
+        };
+        fee
+    }
+
+    /// Get the fees of coin type T collected so far
+    public fun fee_balance<T>(treasury: &Treasury): u64 {
+        let coin_type = type_name::get<T>();
+        if (!bag::contains(&treasury.balances, coin_type)) {
+            return 0
+        };
+        balance::value<T>(bag::borrow(&treasury.balances, coin_type))
+    }
+
+    /// Withdraw collected fees of coin type T
+    public fun withdraw_fees<T>(
+        treasury: &mut Treasury,
+        _cap: &PlatformTreasuryCap,
+        amount: u64,
+        ctx: &mut TxContext
+    ): Coin<T> {
+        assert!(amount > 0 && amount <= fee_balance<T>(treasury), EInvalidAmount);
+        let collected: &mut Balance<T> = bag::borrow_mut(&mut treasury.balances, type_name::get<T>());
+        coin::take(collected, amount, ctx)
+    }
+
+    // Convenience function to withdraw collected fees to the cap holder
+    entry fun withdraw_fees_entry<T>(
+        treasury: &mut Treasury,
+        cap: &PlatformTreasuryCap,
+        amount: u64,
+        ctx: &mut TxContext
+    ) {
+        let fees = withdraw_fees<T>(treasury, cap, amount, ctx);
+        transfer::public_transfer(fees, ctx.sender());
+    }
+
+    /// Change the platform fee kept from payments to sellers
+    public fun set_platform_fee(
+        treasury: &mut Treasury,
+        _cap: &PlatformTreasuryCap,
+        fee_bps: u64
+    ) {
+        assert!(fee_bps <= MAX_FEE_BPS, EInvalidFee);
+        treasury.fee_bps = fee_bps;
+    }
+
+    /// Change the share of a disputed escrow paid to the admins who resolve it
+    public fun set_arbitration_fee(
+        treasury: &mut Treasury,
+        _cap: &PlatformTreasuryCap,
+        fee_bps: u64
+    ) {
+        assert!(fee_bps <= MAX_FEE_BPS, EInvalidFee);
+        treasury.arbitration_fee_bps = fee_bps;
+    }
 
     //////////////////////////////////////////
     /////// Access Control for Encrypted Messages
     /// Key would be [package_id]::[advertisement_id][user_id][interaction_id]
     /// Check if a user has access to a message
-fun approve_internal(id: vector<u8>, caller: address, advertisement: &Advertisement, user: address, interaction_id: u64): bool {
+fun approve_internal<T>(id: vector<u8>, caller: address, advertisement: &Advertisement<T>, user: address, interaction_id: u64): bool {
 
     // Check if the id has the right prefix
     let mut namespace = advertisement.id.to_bytes();
@@ -684,15 +3314,21 @@ fun approve_internal(id: vector<u8>, caller: address, advertisement: &Advertisem
     // That's why the marketplace is truly private
     
     // Check if user is the assigned admin and interaction is being disputed
+    // Escalations replace the assigned admin, so access moves to the newly drawn admin
     if (interaction.assigned_admin == caller && interaction.state == INTERACTION_DISPUTED) {
         return true
     };
+
+    // Jurors of a high-value dispute get the same access as the assigned admin
+    if (vector::contains(&interaction.jurors, &caller) && interaction.state == INTERACTION_DISPUTED) {
+        return true
+    };
     
     // For simplicity, just return false for all other cases
     false
 }
 
-entry fun seal_approve(id: vector<u8>, advertisement: &Advertisement, user: address, interaction_id : u64, ctx: &TxContext) {
+entry fun seal_approve<T>(id: vector<u8>, advertisement: &Advertisement<T>, user: address, interaction_id : u64, ctx: &TxContext) {
     // Use internal approval function
     if (approve_internal(id, ctx.sender(), advertisement, user, interaction_id)) {
         return
@@ -702,12 +3338,117 @@ entry fun seal_approve(id: vector<u8>, advertisement: &Advertisement, user: addr
 }
 
     /// Publish a blob ID to the advertisement
-    public fun publish(
-        advertisement: &mut Advertisement,
+    /// The blob is a public image, appended to the end of the listing's gallery
+    public fun publish<T>(
+        advertisement: &mut Advertisement<T>,
         cap: &MarketplaceCap,
         blob_id: String
     ) {
         assert!(cap.advertisement_id == object::id(advertisement), EInvalidCap);
+        assert!(vector::length(&advertisement.images) < MAX_IMAGES, EInvalidImages);
         df::add(&mut advertisement.id, blob_id, MARKER);
+        vector::push_back(&mut advertisement.images, blob_id);
+        emit_images_changed(advertisement);
+    }
+
+    // Convenience function to publish an image blob to the advertisement
+    entry fun publish_entry<T>(
+        advertisement: &mut Advertisement<T>,
+        cap: &MarketplaceCap,
+        blob_id: String
+    ) {
+        publish(advertisement, cap, blob_id);
+    }
+
+    /// Remove a published blob ID from the advertisement and its gallery
+    public fun unpublish<T>(
+        advertisement: &mut Advertisement<T>,
+        cap: &MarketplaceCap,
+        blob_id: String
+    ) {
+        assert!(cap.advertisement_id == object::id(advertisement), EInvalidCap);
+        assert!(df::exists_(&advertisement.id, blob_id), EImageNotFound);
+        let _: u64 = df::remove(&mut advertisement.id, blob_id);
+
+        let (found, index) = vector::index_of(&advertisement.images, &blob_id);
+        assert!(found, EImageNotFound);
+        vector::remove(&mut advertisement.images, index);
+        emit_images_changed(advertisement);
+    }
+
+    // Convenience function to remove an image blob from the advertisement
+    entry fun unpublish_entry<T>(
+        advertisement: &mut Advertisement<T>,
+        cap: &MarketplaceCap,
+        blob_id: String
+    ) {
+        unpublish(advertisement, cap, blob_id);
+    }
+
+    /// Set the gallery order, blob_ids must hold every published image exactly once
+    public fun reorder_images<T>(
+        advertisement: &mut Advertisement<T>,
+        cap: &MarketplaceCap,
+        blob_ids: vector<String>
+    ) {
+        assert!(cap.advertisement_id == object::id(advertisement), EInvalidCap);
+        assert!(vector::length(&blob_ids) == vector::length(&advertisement.images), EInvalidImages);
+
+        // Same length and every ID published, so no ID can be repeated or left out
+        let mut i = 0;
+        while (i < vector::length(&blob_ids)) {
+            let blob_id = vector::borrow(&blob_ids, i);
+            assert!(vector::contains(&advertisement.images, blob_id), EImageNotFound);
+            let (found, first) = vector::index_of(&blob_ids, blob_id);
+            assert!(found && first == i, EInvalidImages);
+            i = i + 1;
+        };
+
+        advertisement.images = blob_ids;
+        emit_images_changed(advertisement);
+    }
+
+    // Convenience function to reorder the images of the advertisement
+    entry fun reorder_images_entry<T>(
+        advertisement: &mut Advertisement<T>,
+        cap: &MarketplaceCap,
+        blob_ids: vector<String>
+    ) {
+        reorder_images(advertisement, cap, blob_ids);
+    }
+
+    fun emit_images_changed<T>(advertisement: &Advertisement<T>) {
+        event::emit(AdvertisementImagesChanged {
+            advertisement_id: object::id(advertisement),
+            images: advertisement.images,
+        });
+    }
+
+    //////////////////////////////////////////
+    /////// Test Helpers
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(ctx);
+    }
+
+    #[test_only]
+    public fun join_for_testing<T>(
+        advertisement: &mut Advertisement<T>,
+        admin_registry: &AdminRegistry,
+        payment: Coin<T>,
+        c: &Clock,
+        r: &Random,
+        ctx: &mut TxContext
+    ) {
+        let amount = advertisement.amount;
+        let version = advertisement.version;
+        join_at_amount(advertisement, admin_registry, payment, amount, version, vector::empty(), c, r, ctx);
+    }
+
+    #[test_only]
+    public fun interaction_state_for_testing<T>(advertisement: &Advertisement<T>, user: address, interaction_id: u64): (u8, vector<u8>, u64) {
+        let interaction = vector::borrow(&table::borrow(&advertisement.user_profiles, user).interactions, interaction_id);
+        (interaction.state, interaction.milestone_states, interaction.released_amount)
     }
 }
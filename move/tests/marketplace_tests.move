@@ -0,0 +1,125 @@
+#[test_only]
+module trust::marketplace_tests {
+    use sui::{clock, coin::{Self, Coin}, random::{Self, Random}, sui::SUI, test_scenario as ts, test_utils};
+    use trust::marketplace::{Self, AdminGovernanceCap, AdminRegistry, Advertisement, AdvertisementRegistry, StatsRegistry, Treasury};
+
+    const PUBLISHER: address = @0xA;
+    const ARBITER: address = @0xB;
+    const SELLER: address = @0xC;
+    const BUYER: address = @0xD;
+
+    const DELIVERY_WINDOW_MS: u64 = 1_000;
+    const REVIEW_WINDOW_MS: u64 = 1_000;
+
+    #[test]
+    fun test_timeout_pays_delivered_milestone_and_refunds_the_rest() {
+        let mut scenario = ts::begin(@0x0);
+        let mut c = clock::create_for_testing(scenario.ctx());
+
+        // Randomness is created by the system address
+        random::create_for_testing(scenario.ctx());
+        scenario.next_tx(@0x0);
+        {
+            let mut r = scenario.take_shared<Random>();
+            r.update_randomness_state_for_testing(0, x"1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F1F", scenario.ctx());
+            ts::return_shared(r);
+        };
+
+        scenario.next_tx(PUBLISHER);
+        {
+            marketplace::init_for_testing(scenario.ctx());
+            marketplace::initialize_registry(scenario.ctx());
+        };
+
+        // Register an admin who is neither the buyer nor the seller
+        scenario.next_tx(PUBLISHER);
+        {
+            let mut admin_registry = scenario.take_shared<AdminRegistry>();
+            let cap = scenario.take_from_sender<AdminGovernanceCap>();
+            marketplace::add_admin(&mut admin_registry, &cap, ARBITER);
+            scenario.return_to_sender(cap);
+            ts::return_shared(admin_registry);
+        };
+
+        // List a sell advertisement with two milestones
+        scenario.next_tx(SELLER);
+        {
+            let mut registry = scenario.take_shared<AdvertisementRegistry>();
+            let cap = marketplace::create_advertisement<SUI>(
+                &mut registry,
+                0,
+                coin::zero(scenario.ctx()),
+                b"Logo".to_string(),
+                b"A logo and its brand guide".to_string(),
+                b"Design".to_string(),
+                vector::empty(),
+                1_000_000,
+                DELIVERY_WINDOW_MS,
+                REVIEW_WINDOW_MS,
+                vector[b"Logo".to_string(), b"Brand guide".to_string()],
+                vector[400_000, 600_000],
+                &c,
+                scenario.ctx()
+            );
+            test_utils::destroy(cap);
+            ts::return_shared(registry);
+        };
+
+        scenario.next_tx(BUYER);
+        {
+            let mut advertisement = scenario.take_shared<Advertisement<SUI>>();
+            let admin_registry = scenario.take_shared<AdminRegistry>();
+            let r = scenario.take_shared<Random>();
+            let payment = coin::mint_for_testing<SUI>(1_000_000, scenario.ctx());
+            marketplace::join_for_testing(&mut advertisement, &admin_registry, payment, &c, &r, scenario.ctx());
+            ts::return_shared(r);
+            ts::return_shared(admin_registry);
+            ts::return_shared(advertisement);
+        };
+
+        // The seller delivers the first milestone, the buyer never releases it
+        scenario.next_tx(SELLER);
+        {
+            let mut advertisement = scenario.take_shared<Advertisement<SUI>>();
+            marketplace::mark_milestone_completed(&mut advertisement, BUYER, 0, 0, &c, scenario.ctx());
+            ts::return_shared(advertisement);
+        };
+
+        // The delivery deadline passes without the second milestone, anyone settles the deal
+        c.increment_for_testing(DELIVERY_WINDOW_MS + 1);
+        scenario.next_tx(ARBITER);
+        {
+            let mut advertisement = scenario.take_shared<Advertisement<SUI>>();
+            let mut stats_registry = scenario.take_shared<StatsRegistry>();
+            let mut treasury = scenario.take_shared<Treasury>();
+            marketplace::claim_after_timeout(&mut advertisement, &mut stats_registry, &mut treasury, BUYER, 0, &c, scenario.ctx());
+
+            let (state, milestone_states, released_amount) = marketplace::interaction_state_for_testing(&advertisement, BUYER, 0);
+            assert!(state == 5); // Cancelled
+            assert!(milestone_states == vector[2, 0]); // Released, pending
+            assert!(released_amount == 400_000);
+
+            // The default platform fee is 1%
+            assert!(marketplace::fee_balance<SUI>(&treasury) == 4_000);
+
+            ts::return_shared(treasury);
+            ts::return_shared(stats_registry);
+            ts::return_shared(advertisement);
+        };
+
+        // The seller is paid the delivered milestone, the buyer gets back the undelivered one
+        scenario.next_tx(ARBITER);
+        {
+            let seller_coin = scenario.take_from_address<Coin<SUI>>(SELLER);
+            assert!(seller_coin.value() == 396_000);
+            ts::return_to_address(SELLER, seller_coin);
+
+            let buyer_coin = scenario.take_from_address<Coin<SUI>>(BUYER);
+            assert!(buyer_coin.value() == 600_000);
+            ts::return_to_address(BUYER, buyer_coin);
+        };
+
+        c.destroy_for_testing();
+        scenario.end();
+    }
+}